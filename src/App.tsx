@@ -4,13 +4,16 @@ import { Layout } from "./components/common/layout";
 import AuthCallback from "./pages/AuthCallback";
 import AzEnergyEvaluation from "./pages/AzEnergyEvaluation";
 import AzTempEvaluation from "./pages/AzTempEvaluation";
+import Benchmark from "./pages/Benchmark";
 import Daily from "./pages/Daily";
+import FirmwareImpact from "./pages/FirmwareImpact";
 import HeatingCurve from "./pages/HeatingCurve";
 import Home from "./pages/Home";
 import Login from "./pages/Login";
 import Monthly from "./pages/Monthly";
 import MyAccount from "./pages/MyAccount";
 import Privacy from "./pages/Privacy";
+import SystemDetail from "./pages/SystemDetail";
 import Systems from "./pages/Systems";
 import Terms from "./pages/Terms";
 import Yearly from "./pages/Yearly";
@@ -24,9 +27,12 @@ export default function App() {
         <Route path="/monthly" element={<Monthly />} />
         <Route path="/daily" element={<Daily />} />
         <Route path="/systems" element={<Systems />} />
+        <Route path="/systems/:heatingId" element={<SystemDetail />} />
         <Route path="/az-temp-evaluation" element={<AzTempEvaluation />} />
         <Route path="/az-energy-evaluation" element={<AzEnergyEvaluation />} />
         <Route path="/heating-curve" element={<HeatingCurve />} />
+        <Route path="/benchmark" element={<Benchmark />} />
+        <Route path="/firmware-impact" element={<FirmwareImpact />} />
         <Route path="/login" element={<Login />} />
         <Route path="/my-account" element={<MyAccount />} />
         <Route path="/auth/callback" element={<AuthCallback />} />
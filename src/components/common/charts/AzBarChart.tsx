@@ -3,18 +3,30 @@ import { useMemo } from "react";
 import { useTranslation } from "react-i18next";
 import { useChartLegend } from "../../../hooks/useChartLegend";
 import {
+  type AggregationMode,
   calculateTemperatureScale,
+  comparisonSeriesKey,
   mergeComparisonDatasets,
+  PERCENTILE_LEVELS,
+  type PercentileLevel,
+  percentileKey,
   processDataset,
+  resolveAggregationMode,
 } from "../../../lib/chartDataProcessing";
 import { CHART_COLORS } from "../../../lib/chartTheme";
-import { filterRealisticDataForCharts } from "../../../lib/dataQuality";
+import { type DataGranularity, filterRealisticDataForCharts } from "../../../lib/dataQuality";
+import { dhwShare, toDhwSplitRows } from "../../../lib/dhwSplit";
+import { DHW_LABEL_KEYS, METRIC_LABEL_KEYS } from "../../../lib/metricModes";
 import ChartTooltip from "./ChartTooltip";
+import PercentileBandLayer from "./PercentileBandLayer";
 import { ResponsiveBarLabelsLayer } from "./ResponsiveBarLabelsLayer";
 import TemperatureLineLayer from "./TemperatureLineLayer";
 
-// Metric mode for the chart
-export type MetricMode = "cop" | "energy";
+// Metric mode for the chart ("normalized" = electrical energy per heating degree day and m²,
+// "cost" = electricity costs of the selected tariff)
+export type MetricMode = "cop" | "energy" | "normalized" | "cost";
+
+export type { AggregationMode };
 
 // Interface for data that can be displayed in the AZ chart
 export interface ChartDataRow {
@@ -23,8 +35,15 @@ export interface ChartDataRow {
   az_heating?: number | null;
   electrical_energy_kwh?: number | null;
   electrical_energy_heating_kwh?: number | null;
+  thermal_energy_kwh?: number | null;
+  thermal_energy_heating_kwh?: number | null;
+  normalized_energy?: number | null;
+  normalized_energy_heating?: number | null;
+  electricity_cost_eur?: number | null;
+  electricity_cost_heating_eur?: number | null;
   outdoor_temperature_c?: number | null;
   flow_temperature_c?: number | null;
+  merged_hours?: number | null; // Set by analyzeHourlyCoverage, > 1 for multi-hour deltas
 }
 
 export interface ComparisonDataGroup {
@@ -41,10 +60,16 @@ interface AzBarChartProps {
   indexValues?: string[]; // Optional: predefined index values like ["1", "2", ..., "12"] for months
   indexFormatter?: (value: string) => string; // Optional: format index labels (e.g., date formatting)
   aggregateData?: boolean; // If true, aggregate (average) AZ values across multiple systems
+  preAggregated?: boolean; // If true, rows are server-side aggregates (see aggregatesToChartRows)
   barColor?: string; // Optional: custom bar color (default: '#f47560')
   metricMode?: MetricMode; // "cop" or "energy" - determines what to display
+  aggregationMode?: AggregationMode; // How rows of the same index are combined (mean, weighted, median)
+  granularity?: DataGranularity; // Time span of one row, selects the applicable data quality rules
+  excludeOutliers?: boolean; // If true, rows flagged as statistical outliers of their system are hidden
+  dhwSplit?: boolean; // If true, shows heating and DHW instead of total and heating (not in comparison mode)
   // Comparison mode
   comparisonGroups?: ComparisonDataGroup[]; // If provided, shows multiple data groups for comparison
+  showGroupLegend?: boolean; // If true, the legend names the comparison groups and their colors
 }
 
 export default function AzBarChart({
@@ -54,41 +79,74 @@ export default function AzBarChart({
   indexValues,
   indexFormatter,
   aggregateData = true,
+  preAggregated = false,
   barColor = CHART_COLORS.primary,
   metricMode = "cop",
+  aggregationMode = "mean",
+  granularity,
+  excludeOutliers = false,
+  dhwSplit = false,
   comparisonGroups,
+  showGroupLegend = false,
 }: AzBarChartProps) {
   const { t } = useTranslation();
 
-  // Use different labels based on metric mode
-  const azTotalKey =
-    metricMode === "energy" ? t("charts.electricalEnergyTotal") : t("common.azTotal");
-  const azHeatingKey =
-    metricMode === "energy" ? t("charts.electricalEnergyHeating") : t("common.azHeating");
+  // Energy values are not ratios, so the weighted mode falls back to the mean there
+  const effectiveAggregationMode = resolveAggregationMode(aggregationMode, metricMode);
 
   // Determine if we're in comparison mode
   const isComparisonMode = comparisonGroups && comparisonGroups.length > 1;
 
+  // DHW replaces the total series; energy and costs add up, so their bars are stacked
+  const dhwLabelKey = DHW_LABEL_KEYS[metricMode];
+  const showDhwSplit = dhwSplit && !isComparisonMode && dhwLabelKey != null;
+  const stacked = showDhwSplit && metricMode !== "cop";
+  const seriesColors = useMemo(
+    () => (showDhwSplit ? { total: CHART_COLORS.dhw, heating: barColor } : undefined),
+    [showDhwSplit, barColor],
+  );
+
+  // Use different labels based on metric mode
+  const azTotalKey = t(
+    showDhwSplit && dhwLabelKey ? dhwLabelKey : METRIC_LABEL_KEYS[metricMode].total,
+  );
+  const azHeatingKey = t(METRIC_LABEL_KEYS[metricMode].heating);
+
   // Chart legend management
-  const { showOutdoorTemp, showFlowTemp, chartKeys, legendItems, handleLegendClick } =
-    useChartLegend({
-      azTotalKey,
-      azHeatingKey,
-      barColor,
-      isComparisonMode,
-      comparisonGroups,
-      outdoorTempLabel: t("common.outdoorTemperature"),
-      flowTempLabel: t("common.flowTemperature"),
-    });
+  const {
+    showOutdoorTemp,
+    showFlowTemp,
+    showPercentileBands,
+    chartKeys,
+    legendItems,
+    handleLegendClick,
+  } = useChartLegend({
+    azTotalKey,
+    azHeatingKey,
+    barColor,
+    isComparisonMode,
+    comparisonGroups,
+    outdoorTempLabel: t("common.outdoorTemperature"),
+    flowTempLabel: t("common.flowTemperature"),
+    // Percentiles only exist for aggregated data and cannot be placed on stacked bars
+    percentileBandLabel:
+      (aggregateData || preAggregated) && !stacked ? t("charts.percentileBands") : undefined,
+    showGroupLegend,
+    seriesColors,
+  });
 
   // Process chart data
   const chartData = useMemo(() => {
+    // Aggregates were computed from the realistic rows already and are shown as they are
+    const realisticRows = (rows: ChartDataRow[]) =>
+      preAggregated ? rows : filterRealisticDataForCharts(rows, granularity, excludeOutliers);
+
     // Comparison mode: merge multiple datasets
     if (isComparisonMode && comparisonGroups) {
       // Filter unrealistic data from each comparison group
       const filteredGroups = comparisonGroups.map((group) => ({
         ...group,
-        data: filterRealisticDataForCharts(group.data),
+        data: realisticRows(group.data),
       }));
 
       return mergeComparisonDatasets(filteredGroups, {
@@ -97,8 +155,9 @@ export default function AzBarChart({
         indexValues,
         azTotalKey,
         azHeatingKey,
-        aggregateData,
+        aggregateData: aggregateData && !preAggregated,
         metricMode,
+        aggregationMode: effectiveAggregationMode,
       });
     }
 
@@ -106,16 +165,18 @@ export default function AzBarChart({
     if (!data || data.length === 0) return [];
 
     // Filter out unrealistic data before processing
-    const realisticData = filterRealisticDataForCharts(data);
+    const realisticData = realisticRows(data);
 
-    const processed = processDataset(realisticData, {
+    // Split after filtering, the quality rules compare the total with the heating fields
+    const processed = processDataset(showDhwSplit ? toDhwSplitRows(realisticData) : realisticData, {
       indexField,
       indexFormatter,
       indexValues,
       azTotalKey,
       azHeatingKey,
-      aggregateData,
+      aggregateData: aggregateData && !preAggregated,
       metricMode,
+      aggregationMode: effectiveAggregationMode,
     });
 
     // Filter out entries with no values
@@ -128,19 +189,56 @@ export default function AzBarChart({
     indexValues,
     indexFormatter,
     aggregateData,
+    preAggregated,
     azTotalKey,
     azHeatingKey,
     metricMode,
+    effectiveAggregationMode,
+    granularity,
+    excludeOutliers,
     isComparisonMode,
     comparisonGroups,
+    showDhwSplit,
   ]);
 
+  // Index values whose bucket contains a delta spanning several hours (hourly data only)
+  const multiHourIndexValues = useMemo(() => {
+    const rows =
+      isComparisonMode && comparisonGroups ? comparisonGroups.flatMap((g) => g.data) : data;
+    const values = new Set<string>();
+    for (const row of rows ?? []) {
+      if (!row.merged_hours || row.merged_hours <= 1) continue;
+      const idx = String(row[indexField]);
+      values.add(indexFormatter ? indexFormatter(idx) : idx);
+    }
+    return values;
+  }, [data, comparisonGroups, isComparisonMode, indexField, indexFormatter]);
+
+  // Hatch the bars of buckets containing multi-hour deltas
+  // biome-ignore lint/suspicious/noExplicitAny: Nivo's bar datum type is not well-typed
+  const isMultiHourBar = (datum: any) => multiHourIndexValues.has(String(datum.indexValue));
+
+  // Colors of the groups' series; names are unique, so each key belongs to one group
+  const groupSeriesColors = useMemo(
+    () =>
+      new Map(
+        (comparisonGroups ?? []).flatMap((group) =>
+          [azTotalKey, azHeatingKey].map(
+            (key) => [comparisonSeriesKey(key, group.name), group.color] as const,
+          ),
+        ),
+      ),
+    [comparisonGroups, azTotalKey, azHeatingKey],
+  );
+
   // Color function for bars
   // biome-ignore lint/suspicious/noExplicitAny: Nivo's bar type is not well-typed
   const getBarColor = (bar: any) => {
     if (isComparisonMode && comparisonGroups) {
-      const groupIndex = comparisonGroups.findIndex((g) => bar.id.includes(`(${g.name})`));
-      return groupIndex >= 0 ? comparisonGroups[groupIndex].color : barColor;
+      return groupSeriesColors.get(String(bar.id)) ?? barColor;
+    }
+    if (seriesColors) {
+      return bar.id === azTotalKey ? seriesColors.total : seriesColors.heating;
     }
     return barColor;
   };
@@ -160,10 +258,21 @@ export default function AzBarChart({
     />
   );
 
+  // Wrapper for the percentile band layer (P10–P90 whiskers, P25–P75 boxes)
+  // biome-ignore lint/suspicious/noExplicitAny: Nivo's layer props are complex and not well-typed
+  const percentileBandLayer = (props: any) => (
+    <PercentileBandLayer {...props} showPercentileBands={showPercentileBands} />
+  );
+
   // Custom tooltip to show AZ and temperature values
   // biome-ignore lint/suspicious/noExplicitAny: Nivo's tooltip props are complex and not well-typed
   const customTooltip = ({ id, value, color, indexValue }: any) => {
     const dataPoint = chartData.find((d) => d[indexField] === indexValue);
+    const percentiles: Partial<Record<PercentileLevel, number>> = {};
+    for (const level of PERCENTILE_LEVELS) {
+      const percentile = dataPoint?.[percentileKey(String(id), level)];
+      if (typeof percentile === "number") percentiles[level] = percentile;
+    }
     return (
       <ChartTooltip
         id={id}
@@ -173,6 +282,17 @@ export default function AzBarChart({
         outdoorTemp={dataPoint?.outdoor_temp as number | null | undefined}
         flowTemp={dataPoint?.flow_temp as number | null | undefined}
         metricMode={metricMode}
+        aggregationMode={aggregateData ? effectiveAggregationMode : undefined}
+        percentiles={showPercentileBands ? percentiles : undefined}
+        multiHourBucket={multiHourIndexValues.has(String(indexValue))}
+        dhwShare={
+          stacked
+            ? dhwShare(
+                dataPoint?.[azHeatingKey] as number | undefined,
+                dataPoint?.[azTotalKey] as number | undefined,
+              )
+            : undefined
+        }
       />
     );
   };
@@ -215,6 +335,7 @@ export default function AzBarChart({
               spacing: 10,
             },
           ]}
+          fill={[{ match: isMultiHourBar, id: "lines" }]}
           borderColor={{ from: "color", modifiers: [["darker", 1.6]] }}
           axisTop={null}
           axisRight={null}
@@ -230,7 +351,7 @@ export default function AzBarChart({
             tickSize: 5,
             tickPadding: 5,
             tickRotation: 0,
-            legend: metricMode === "energy" ? t("charts.electricalEnergyTotal") : t("common.az"),
+            legend: t(METRIC_LABEL_KEYS[metricMode].axis),
             legendPosition: "middle",
             legendOffset: -40,
           }}
@@ -240,6 +361,7 @@ export default function AzBarChart({
             "grid",
             "axes",
             "bars",
+            percentileBandLayer,
             ResponsiveBarLabelsLayer,
             "markers",
             "legends",
@@ -276,7 +398,7 @@ export default function AzBarChart({
           ]}
           role="application"
           ariaLabel="COP Chart"
-          groupMode={isComparisonMode ? "grouped" : "grouped"}
+          groupMode={stacked ? "stacked" : "grouped"}
         />
       ) : null}
     </div>
@@ -32,18 +32,94 @@ interface ScatterPointData {
 
 type TemperatureMode = "outdoor" | "flow" | "delta";
 
+// One filter group of the comparison mode
+interface ScatterComparisonGroup {
+  id: string;
+  name: string;
+  color: string;
+  data: ScatterDataPoint[];
+}
+
 interface AzScatterChartProps {
   data: ScatterDataPoint[];
   currentUserId?: string | null;
+  comparisonGroups?: ScatterComparisonGroup[]; // If more than one, shows points and curve per group
+}
+
+/**
+ * Points of the rows with a valid AZ and temperature for the temperature mode,
+ * without unrealistic rows
+ */
+function toScatterPoints(
+  data: ScatterDataPoint[],
+  useAzHeating: boolean,
+  temperatureMode: TemperatureMode,
+): ScatterPointData[] {
+  return filterRealisticDataForCharts(data)
+    .map((row) => {
+      const azValue = useAzHeating ? row.az_heating : row.az;
+      const outdoor = row.outdoor_temperature_c;
+      const flow = row.flow_temperature_c;
+
+      // Calculate x value based on temperature mode
+      let xValue: number | null = null;
+      if (temperatureMode === "outdoor") {
+        xValue = outdoor ?? null;
+      } else if (temperatureMode === "flow") {
+        xValue = flow ?? null;
+      } else if (temperatureMode === "delta") {
+        if (flow != null && outdoor != null) {
+          xValue = flow - outdoor;
+        }
+      }
+
+      // Only include points with valid az and temperature values
+      if (azValue != null && azValue > 0 && xValue != null) {
+        return {
+          x: xValue,
+          y: azValue,
+          heating_id: row.heating_id,
+          name: row.name,
+          date: row.date,
+          user_id: row.user_id,
+        };
+      }
+      return null;
+    })
+    .filter((p) => p !== null);
 }
 
-export function AzScatterChart({ data, currentUserId }: AzScatterChartProps) {
+/**
+ * LOESS curve over the range of the points, empty for fewer than three points
+ */
+function loessCurve(points: ScatterPointData[]): ScatterPointData[] {
+  if (points.length < 3) return [];
+  const xValues = points.map((p) => p.x);
+  const curvePoints = generateLoessCurvePoints(
+    points,
+    Math.min(...xValues),
+    Math.max(...xValues),
+    100,
+    0.25,
+  );
+  return curvePoints.map((p) => ({
+    x: p.x,
+    y: p.y,
+    heating_id: undefined,
+    name: undefined,
+    date: undefined,
+    user_id: undefined,
+  }));
+}
+
+export function AzScatterChart({ data, currentUserId, comparisonGroups }: AzScatterChartProps) {
   const { t } = useTranslation();
   const barColor = CHART_COLORS.primary;
   const userColor = CHART_COLORS.user;
 
   const azTotalKey = t("common.azTotal");
   const azHeatingKey = t("common.azHeating");
+  const isComparisonMode = !!comparisonGroups && comparisonGroups.length > 1;
 
   // Track which temperature mode is active
   const [temperatureMode, setTemperatureMode] = useState<TemperatureMode>("outdoor");
@@ -74,65 +150,46 @@ export function AzScatterChart({ data, currentUserId }: AzScatterChartProps) {
     outdoorTempLabel: t("common.outdoorTemperature"),
     flowTempLabel: t("common.flowTemperature"),
     clickableIds: [azTotalKey, azHeatingKey],
+    isComparisonMode,
+    comparisonGroups,
+    showGroupLegend: true,
   });
 
+  // One point series and LOESS curve per group in comparison mode
+  const groupSeries = useMemo(() => {
+    if (!isComparisonMode) return [];
+    return comparisonGroups.map((group) => {
+      const points = toScatterPoints(group.data, activeKey === azHeatingKey, temperatureMode);
+      return {
+        name: group.name,
+        color: group.color,
+        points,
+        curveId: `${t("charts.regressionCurve")} (${group.name})`,
+        curve: loessCurve(points),
+        smoother: points.length >= 3 ? loessSmooth(points, 0.25) : null,
+      };
+    });
+  }, [comparisonGroups, isComparisonMode, activeKey, azHeatingKey, temperatureMode, t]);
+  const groupColors = new Map(
+    groupSeries.flatMap(({ name, curveId, color }) => [
+      [name, color],
+      [curveId, color],
+    ]),
+  );
+
   // Transform data for scatter plot - create both series but only populate the active one
   const { scatterData, loessSmoother } = useMemo(() => {
     if (!data || data.length === 0)
       return { scatterData: [], activePoints: [], loessSmoother: null };
 
-    // Filter out unrealistic data before processing
-    const realisticData = filterRealisticDataForCharts(data);
-
-    // Determine which AZ values to use based on active key
-    const useAzHeating = activeKey === azHeatingKey;
-
-    // Filter and transform data points
-    const points = realisticData
-      .map((row) => {
-        const azValue = useAzHeating ? row.az_heating : row.az;
-        const outdoor = row.outdoor_temperature_c;
-        const flow = row.flow_temperature_c;
-
-        // Calculate x value based on temperature mode
-        let xValue: number | null = null;
-        if (temperatureMode === "outdoor") {
-          xValue = outdoor ?? null;
-        } else if (temperatureMode === "flow") {
-          xValue = flow ?? null;
-        } else if (temperatureMode === "delta") {
-          if (flow != null && outdoor != null) {
-            xValue = flow - outdoor;
-          }
-        }
-
-        // Only include points with valid az and temperature values
-        if (azValue != null && azValue > 0 && xValue != null) {
-          return {
-            x: xValue,
-            y: azValue,
-            heating_id: row.heating_id,
-            name: row.name,
-            date: row.date,
-            user_id: row.user_id,
-          };
-        }
-        return null;
-      })
-      .filter((p) => p !== null);
+    // Filter and transform data points based on the active key
+    const points = toScatterPoints(data, activeKey === azHeatingKey, temperatureMode);
 
     // Create LOESS smoother for both curve and stats predictions
     const smoother = points.length >= 3 ? loessSmooth(points, 0.25) : null;
 
     // Generate LOESS curve points for smoother, non-linear fit
-    let curveData: ScatterPointData[] = [];
-    if (points.length >= 3) {
-      const xValues = points.map((p) => p.x);
-      const xMin = Math.min(...xValues);
-      const xMax = Math.max(...xValues);
-      const curvePoints = generateLoessCurvePoints(points, xMin, xMax, 100, 0.25);
-      curveData = curvePoints.map((p) => ({ x: p.x, y: p.y }));
-    }
+    const curveData = loessCurve(points);
 
     // Separate user's data from other users' data for the active series
     const userPoints = currentUserId ? points.filter((p) => p.user_id === currentUserId) : [];
@@ -169,23 +226,24 @@ export function AzScatterChart({ data, currentUserId }: AzScatterChartProps) {
     if (curveData.length > 0) {
       scatterSeries.push({
         id: t("charts.regressionCurve"),
-        data: curveData.map((p) => ({
-          ...p,
-          heating_id: undefined,
-          name: undefined,
-          date: undefined,
-          user_id: undefined,
-        })),
+        data: curveData,
       });
     }
 
     return {
       scatterData: scatterSeries,
-      activePoints: points as ScatterPointData[],
+      activePoints: points,
       loessSmoother: smoother,
     };
   }, [data, activeKey, azHeatingKey, azTotalKey, temperatureMode, t, currentUserId]);
 
+  const chartSeries = isComparisonMode
+    ? groupSeries.flatMap(({ name, points, curveId, curve }) => [
+        { id: name, data: points },
+        ...(curve.length > 0 ? [{ id: curveId, data: curve }] : []),
+      ])
+    : scatterData;
+
   // Get x-axis label based on temperature mode
   const getXAxisLabel = () => {
     if (temperatureMode === "outdoor") {
@@ -231,7 +289,37 @@ export function AzScatterChart({ data, currentUserId }: AzScatterChartProps) {
       </div>
       <ChartUtilityFrame
         utility={
-          loessSmoother ? (
+          isComparisonMode ? (
+            <CollapsibleChartStats
+              title={t("charts.azTempStats")}
+              expanded={statsExpanded}
+              onToggle={() => setStatsExpanded(!statsExpanded)}
+              expandLabel={t("charts.showStats")}
+              collapseLabel={t("charts.hideStats")}
+            >
+              {groupSeries.map(({ name, color, smoother }) =>
+                smoother ? (
+                  <div key={name}>
+                    <div className="chart-stats-title" style={{ color }}>
+                      {name}
+                    </div>
+                    <div className="chart-stats-grid-4">
+                      {getReferenceTemperatures(temperatureMode).map((temp) => (
+                        <Tooltip key={temp} title={t("charts.predictedCopTooltip")} placement="top">
+                          <div className="chart-stat-item">
+                            <span className="chart-stat-label">
+                              {t("common.az_short")} {temp}°C
+                            </span>
+                            <span className="chart-stat-value">{smoother(temp).toFixed(2)}</span>
+                          </div>
+                        </Tooltip>
+                      ))}
+                    </div>
+                  </div>
+                ) : null,
+              )}
+            </CollapsibleChartStats>
+          ) : loessSmoother ? (
             <CollapsibleChartStats
               title={t("charts.azTempStats")}
               expanded={statsExpanded}
@@ -260,12 +348,14 @@ export function AzScatterChart({ data, currentUserId }: AzScatterChartProps) {
       >
         <ResponsiveScatterPlot
           // biome-ignore lint/suspicious/noExplicitAny: Nivo's ScatterPlot type is complex
-          data={scatterData as any}
+          data={chartSeries as any}
           margin={{ top: 10, right: 60, bottom: 70, left: 50 }}
           xScale={{ type: "linear", min: "auto", max: "auto" }}
           yScale={{ type: "linear", min: "auto", max: "auto" }}
           blendMode="normal"
           colors={(node) => {
+            // Points and curve of a comparison group share the group's color
+            if (isComparisonMode) return groupColors.get(String(node.serieId)) ?? barColor;
             // Color nodes based on which series they belong to
             if (node.serieId === t("charts.regressionCurve")) {
               return CHART_COLORS.regression;
@@ -287,7 +377,10 @@ export function AzScatterChart({ data, currentUserId }: AzScatterChartProps) {
           }}
           nodeSize={(node) => {
             // Make regression curve points visible
-            if (node.serieId === t("charts.regressionCurve")) {
+            if (
+              node.serieId === t("charts.regressionCurve") ||
+              groupSeries.some(({ curveId }) => curveId === node.serieId)
+            ) {
               return 6;
             }
             return 8;
@@ -315,7 +408,7 @@ export function AzScatterChart({ data, currentUserId }: AzScatterChartProps) {
             const xValue = typeof pointData?.x === "number" ? pointData.x : 0;
             const yValue = typeof pointData?.y === "number" ? pointData.y : 0;
             const isCurrentUser = currentUserId && pointData && pointData.user_id === currentUserId;
-            const dotColor = isCurrentUser ? userColor : barColor;
+            const dotColor = isComparisonMode ? node.color : isCurrentUser ? userColor : barColor;
 
             return (
               <div className="chart-tooltip">
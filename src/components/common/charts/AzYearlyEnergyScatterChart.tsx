@@ -30,9 +30,18 @@ interface ScatterPointData {
   monthCount: number;
 }
 
+// One filter group of the comparison mode
+interface YearlyEnergyComparisonGroup {
+  id: string;
+  name: string;
+  color: string;
+  data: YearlyEnergyScatterDataPoint[];
+}
+
 interface AzYearlyEnergyScatterChartProps {
   data: YearlyEnergyScatterDataPoint[];
   currentUserId?: string | null;
+  comparisonGroups?: YearlyEnergyComparisonGroup[]; // If more than one, shows points and curve per group
 }
 
 const REFERENCE_ENERGY_VALUES = [30, 60, 90, 120] as const;
@@ -64,216 +73,240 @@ function normalizeMonthProfile(profile: Record<number, number>): Record<number,
   }, {});
 }
 
-export function AzYearlyEnergyScatterChart({
-  data,
-  currentUserId,
-}: AzYearlyEnergyScatterChartProps) {
-  const { t } = useTranslation();
-  const [statsExpanded, setStatsExpanded] = useState(false);
-  const azHeatingKey = t("common.azHeating");
-  const mySeriesId = `${t("charts.myPrefix")}${azHeatingKey}`;
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth() + 1;
+// The current month is left out as it is incomplete
+function withoutMonth(data: YearlyEnergyScatterDataPoint[], year: number, month: number) {
+  return data.filter((row) => !(row.year === year && row.month === month));
+}
 
-  const { scatterData, loessSmoother, curveData } = useMemo(() => {
-    if (!data || data.length === 0) {
-      return { scatterData: [], loessSmoother: null, curveData: [] as ScatterPointData[] };
+/**
+ * Heating COP over the heating energy per m² and year of each system and year. Years with
+ * missing months are extrapolated with the typical monthly share of the annual heat demand.
+ */
+function calculateYearlyEnergyPoints(
+  dataWithoutCurrentMonth: YearlyEnergyScatterDataPoint[],
+): ScatterPointData[] {
+  type GroupAccumulator = {
+    heating_id: string;
+    name?: string | null;
+    user_id?: string | null;
+    year: number;
+    months: Set<number>;
+    heatedArea: number | null;
+    thermalByMonth: Map<number, number>;
+    electricalByMonth: Map<number, number>;
+  };
+
+  const groups = new Map<string, GroupAccumulator>();
+
+  for (const row of dataWithoutCurrentMonth) {
+    const heatingId = row.heating_id;
+    const year = row.year;
+    const month = row.month;
+
+    if (!heatingId || year == null || month == null || month < 1 || month > 12) {
+      continue;
     }
 
-    const dataWithoutCurrentMonth = data.filter(
-      (row) => !(row.year === currentYear && row.month === currentMonth),
-    );
-
-    if (dataWithoutCurrentMonth.length === 0) {
-      return { scatterData: [], loessSmoother: null, curveData: [] as ScatterPointData[] };
+    const groupKey = `${heatingId}__${year}`;
+    const existing = groups.get(groupKey);
+
+    if (!existing) {
+      const thermalByMonth = new Map<number, number>();
+      const electricalByMonth = new Map<number, number>();
+      thermalByMonth.set(month, row.thermal_energy_heating_kwh ?? 0);
+      electricalByMonth.set(month, row.electrical_energy_heating_kwh ?? 0);
+
+      groups.set(groupKey, {
+        heating_id: heatingId,
+        name: row.name,
+        user_id: row.user_id,
+        year,
+        months: new Set([month]),
+        heatedArea: row.heated_area_m2 ?? null,
+        thermalByMonth,
+        electricalByMonth,
+      });
+      continue;
     }
 
-    type GroupAccumulator = {
-      heating_id: string;
-      name?: string | null;
-      user_id?: string | null;
-      year: number;
-      months: Set<number>;
-      heatedArea: number | null;
-      thermalByMonth: Map<number, number>;
-      electricalByMonth: Map<number, number>;
-    };
-
-    const groups = new Map<string, GroupAccumulator>();
-
-    for (const row of dataWithoutCurrentMonth) {
-      const heatingId = row.heating_id;
-      const year = row.year;
-      const month = row.month;
+    existing.months.add(month);
+    if (!existing.user_id && row.user_id) {
+      existing.user_id = row.user_id;
+    }
+    if ((existing.heatedArea == null || existing.heatedArea <= 0) && row.heated_area_m2 != null) {
+      existing.heatedArea = row.heated_area_m2;
+    }
+    existing.thermalByMonth.set(
+      month,
+      (existing.thermalByMonth.get(month) ?? 0) + (row.thermal_energy_heating_kwh ?? 0),
+    );
+    existing.electricalByMonth.set(
+      month,
+      (existing.electricalByMonth.get(month) ?? 0) + (row.electrical_energy_heating_kwh ?? 0),
+    );
+  }
 
-      if (!heatingId || year == null || month == null || month < 1 || month > 12) {
-        continue;
-      }
+  const completeGroups = Array.from(groups.values()).filter((group) => group.months.size === 12);
 
-      const groupKey = `${heatingId}__${year}`;
-      const existing = groups.get(groupKey);
-
-      if (!existing) {
-        const thermalByMonth = new Map<number, number>();
-        const electricalByMonth = new Map<number, number>();
-        thermalByMonth.set(month, row.thermal_energy_heating_kwh ?? 0);
-        electricalByMonth.set(month, row.electrical_energy_heating_kwh ?? 0);
-
-        groups.set(groupKey, {
-          heating_id: heatingId,
-          name: row.name,
-          user_id: row.user_id,
-          year,
-          months: new Set([month]),
-          heatedArea: row.heated_area_m2 ?? null,
-          thermalByMonth,
-          electricalByMonth,
-        });
-        continue;
-      }
+  const localSharesByMonth = new Map<number, number[]>();
+  for (const month of MONTHS) {
+    localSharesByMonth.set(month, []);
+  }
 
-      existing.months.add(month);
-      if (!existing.user_id && row.user_id) {
-        existing.user_id = row.user_id;
-      }
-      if ((existing.heatedArea == null || existing.heatedArea <= 0) && row.heated_area_m2 != null) {
-        existing.heatedArea = row.heated_area_m2;
-      }
-      existing.thermalByMonth.set(
-        month,
-        (existing.thermalByMonth.get(month) ?? 0) + (row.thermal_energy_heating_kwh ?? 0),
-      );
-      existing.electricalByMonth.set(
-        month,
-        (existing.electricalByMonth.get(month) ?? 0) + (row.electrical_energy_heating_kwh ?? 0),
-      );
+  for (const group of completeGroups) {
+    const annualThermal = MONTHS.reduce(
+      (sum, month) => sum + (group.thermalByMonth.get(month) ?? 0),
+      0,
+    );
+    if (annualThermal <= 0) {
+      continue;
     }
 
-    const completeGroups = Array.from(groups.values()).filter((group) => group.months.size === 12);
-
-    const localSharesByMonth = new Map<number, number[]>();
     for (const month of MONTHS) {
-      localSharesByMonth.set(month, []);
+      const monthThermal = group.thermalByMonth.get(month) ?? 0;
+      localSharesByMonth.get(month)?.push(monthThermal / annualThermal);
     }
+  }
 
-    for (const group of completeGroups) {
-      const annualThermal = MONTHS.reduce(
-        (sum, month) => sum + (group.thermalByMonth.get(month) ?? 0),
-        0,
-      );
-      if (annualThermal <= 0) {
-        continue;
-      }
+  const localProfileRaw = MONTHS.reduce<Record<number, number>>((acc, month) => {
+    acc[month] = median(localSharesByMonth.get(month) ?? []);
+    return acc;
+  }, {});
+  const localProfile = normalizeMonthProfile(localProfileRaw);
 
-      for (const month of MONTHS) {
-        const monthThermal = group.thermalByMonth.get(month) ?? 0;
-        localSharesByMonth.get(month)?.push(monthThermal / annualThermal);
-      }
+  const defaultMonthTotals = MONTHS.reduce<Record<number, number>>((acc, month) => {
+    acc[month] = 0;
+    return acc;
+  }, {});
+
+  for (const row of dataWithoutCurrentMonth) {
+    const month = row.month;
+    if (month == null || month < 1 || month > 12) {
+      continue;
     }
+    defaultMonthTotals[month] += Math.max(0, row.thermal_energy_heating_kwh ?? 0);
+  }
+  const defaultProfile = normalizeMonthProfile(defaultMonthTotals);
 
-    const localProfileRaw = MONTHS.reduce<Record<number, number>>((acc, month) => {
-      acc[month] = median(localSharesByMonth.get(month) ?? []);
+  const localWeight = Math.min(1, completeGroups.length / 8);
+  const finalProfile = normalizeMonthProfile(
+    MONTHS.reduce<Record<number, number>>((acc, month) => {
+      acc[month] = localWeight * localProfile[month] + (1 - localWeight) * defaultProfile[month];
       return acc;
-    }, {});
-    const localProfile = normalizeMonthProfile(localProfileRaw);
+    }, {}),
+  );
 
-    const defaultMonthTotals = MONTHS.reduce<Record<number, number>>((acc, month) => {
-      acc[month] = 0;
-      return acc;
-    }, {});
+  const points: ScatterPointData[] = [];
 
-    for (const row of dataWithoutCurrentMonth) {
-      const month = row.month;
-      if (month == null || month < 1 || month > 12) {
-        continue;
-      }
-      defaultMonthTotals[month] += Math.max(0, row.thermal_energy_heating_kwh ?? 0);
+  for (const group of groups.values()) {
+    const area = group.heatedArea;
+    if (area == null || area <= 0) {
+      continue;
+    }
+
+    const observedMonths = Array.from(group.months).filter((month) => month >= 1 && month <= 12);
+    if (observedMonths.length === 0) {
+      continue;
     }
-    const defaultProfile = normalizeMonthProfile(defaultMonthTotals);
-
-    const localWeight = Math.min(1, completeGroups.length / 8);
-    const finalProfile = normalizeMonthProfile(
-      MONTHS.reduce<Record<number, number>>((acc, month) => {
-        acc[month] = localWeight * localProfile[month] + (1 - localWeight) * defaultProfile[month];
-        return acc;
-      }, {}),
+
+    const thermalObserved = observedMonths.reduce(
+      (sum, month) => sum + (group.thermalByMonth.get(month) ?? 0),
+      0,
+    );
+    const electricalObserved = observedMonths.reduce(
+      (sum, month) => sum + (group.electricalByMonth.get(month) ?? 0),
+      0,
     );
+    if (thermalObserved <= 0 || electricalObserved <= 0) {
+      continue;
+    }
 
-    const points: ScatterPointData[] = [];
+    const coverage = observedMonths.reduce((sum, month) => sum + (finalProfile[month] ?? 0), 0);
+    if (coverage < MIN_YEAR_COVERAGE) {
+      continue;
+    }
 
-    for (const group of groups.values()) {
-      const area = group.heatedArea;
-      if (area == null || area <= 0) {
-        continue;
-      }
+    const annualThermalEstimated = thermalObserved / coverage;
+    points.push({
+      x: annualThermalEstimated / area,
+      y: thermalObserved / electricalObserved,
+      heating_id: group.heating_id,
+      name: group.name,
+      user_id: group.user_id,
+      year: group.year,
+      coverage,
+      extrapolated: coverage < 0.999,
+      monthCount: observedMonths.length,
+    });
+  }
 
-      const observedMonths = Array.from(group.months).filter((month) => month >= 1 && month <= 12);
-      if (observedMonths.length === 0) {
-        continue;
-      }
+  return points;
+}
 
-      const thermalObserved = observedMonths.reduce(
-        (sum, month) => sum + (group.thermalByMonth.get(month) ?? 0),
-        0,
-      );
-      const electricalObserved = observedMonths.reduce(
-        (sum, month) => sum + (group.electricalByMonth.get(month) ?? 0),
-        0,
-      );
-      if (thermalObserved <= 0 || electricalObserved <= 0) {
-        continue;
-      }
+/**
+ * Weighted LOESS fit of the points, preferring years with a high coverage
+ */
+function fitYearlyEnergyCurve(points: ScatterPointData[]) {
+  const loessSource = points.filter((p) => p.coverage >= MIN_YEAR_COVERAGE);
+  const regressionPoints = loessSource.length >= 3 ? loessSource : points;
+
+  const loessBandwidth = regressionPoints.length < 20 ? 1 : 0.8;
+  const loessWeights = regressionPoints.map((point) => point.coverage ** 2);
+  const smoother =
+    regressionPoints.length >= 3
+      ? loessSmoothWeighted(regressionPoints, loessWeights, loessBandwidth)
+      : null;
+
+  let loessCurveData: ScatterPointData[] = [];
+  if (regressionPoints.length >= 3 && smoother) {
+    const xValues = regressionPoints.map((p) => p.x);
+    const xMin = Math.min(...xValues);
+    const xMax = Math.max(...xValues);
+    const numPoints = 120;
+    const step = (xMax - xMin) / (numPoints - 1);
+    const curvePoints = Array.from({ length: numPoints }, (_, index) => {
+      const x = xMin + index * step;
+      return { x, y: smoother(x) };
+    });
+    loessCurveData = curvePoints.map((p) => ({
+      x: p.x,
+      y: p.y,
+      coverage: 1,
+      extrapolated: false,
+      monthCount: 12,
+    }));
+  }
 
-      const coverage = observedMonths.reduce((sum, month) => sum + (finalProfile[month] ?? 0), 0);
-      if (coverage < MIN_YEAR_COVERAGE) {
-        continue;
-      }
+  return { smoother, curve: loessCurveData };
+}
 
-      const annualThermalEstimated = thermalObserved / coverage;
-      points.push({
-        x: annualThermalEstimated / area,
-        y: thermalObserved / electricalObserved,
-        heating_id: group.heating_id,
-        name: group.name,
-        user_id: group.user_id,
-        year: group.year,
-        coverage,
-        extrapolated: coverage < 0.999,
-        monthCount: observedMonths.length,
-      });
+export function AzYearlyEnergyScatterChart({
+  data,
+  currentUserId,
+  comparisonGroups,
+}: AzYearlyEnergyScatterChartProps) {
+  const { t } = useTranslation();
+  const [statsExpanded, setStatsExpanded] = useState(false);
+  const azHeatingKey = t("common.azHeating");
+  const mySeriesId = `${t("charts.myPrefix")}${azHeatingKey}`;
+  const now = new Date();
+  const currentYear = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+  const isComparisonMode = !!comparisonGroups && comparisonGroups.length > 1;
+
+  const { scatterData, loessSmoother, curveData } = useMemo(() => {
+    if (!data || data.length === 0) {
+      return { scatterData: [], loessSmoother: null, curveData: [] as ScatterPointData[] };
     }
 
-    const loessSource = points.filter((p) => p.coverage >= MIN_YEAR_COVERAGE);
-    const regressionPoints = loessSource.length >= 3 ? loessSource : points;
-
-    const loessBandwidth = regressionPoints.length < 20 ? 1 : 0.8;
-    const loessWeights = regressionPoints.map((point) => point.coverage ** 2);
-    const smoother =
-      regressionPoints.length >= 3
-        ? loessSmoothWeighted(regressionPoints, loessWeights, loessBandwidth)
-        : null;
-
-    let loessCurveData: ScatterPointData[] = [];
-    if (regressionPoints.length >= 3 && smoother) {
-      const xValues = regressionPoints.map((p) => p.x);
-      const xMin = Math.min(...xValues);
-      const xMax = Math.max(...xValues);
-      const numPoints = 120;
-      const step = (xMax - xMin) / (numPoints - 1);
-      const curvePoints = Array.from({ length: numPoints }, (_, index) => {
-        const x = xMin + index * step;
-        return { x, y: smoother(x) };
-      });
-      loessCurveData = curvePoints.map((p) => ({
-        x: p.x,
-        y: p.y,
-        coverage: 1,
-        extrapolated: false,
-        monthCount: 12,
-      }));
+    const dataWithoutCurrentMonth = withoutMonth(data, currentYear, currentMonth);
+    if (dataWithoutCurrentMonth.length === 0) {
+      return { scatterData: [], loessSmoother: null, curveData: [] as ScatterPointData[] };
     }
 
+    const points = calculateYearlyEnergyPoints(dataWithoutCurrentMonth);
+    const { smoother, curve: loessCurveData } = fitYearlyEnergyCurve(points);
+
     const userPoints = currentUserId
       ? points.filter((point) => point.user_id === currentUserId)
       : [];
@@ -309,6 +342,25 @@ export function AzYearlyEnergyScatterChart({
     };
   }, [data, azHeatingKey, t, currentYear, currentMonth, currentUserId, mySeriesId]);
 
+  // Points and LOESS curve per group in comparison mode
+  const groupSeries = useMemo(() => {
+    if (!isComparisonMode) return [];
+    return comparisonGroups.map((group) => {
+      const points = calculateYearlyEnergyPoints(
+        withoutMonth(group.data, currentYear, currentMonth),
+      );
+      return { name: group.name, color: group.color, points, ...fitYearlyEnergyCurve(points) };
+    });
+  }, [comparisonGroups, isComparisonMode, currentYear, currentMonth]);
+  const groupColors = new Map(groupSeries.map(({ name, color }) => [name, color]));
+
+  const chartSeries = isComparisonMode
+    ? groupSeries.map(({ name, points }) => ({ id: name, data: points }))
+    : scatterData;
+  const curves = isComparisonMode
+    ? groupSeries.map(({ curve, color }) => ({ data: curve, color }))
+    : [{ data: curveData, color: CHART_COLORS.regression }];
+
   if (!data || data.length === 0) {
     return (
       <div className="chart-no-data-card card">
@@ -320,7 +372,41 @@ export function AzYearlyEnergyScatterChart({
   return (
     <ChartUtilityFrame
       utility={
-        loessSmoother ? (
+        isComparisonMode ? (
+          <CollapsibleChartStats
+            title={t("charts.azYearlyEnergyStats")}
+            expanded={statsExpanded}
+            onToggle={() => setStatsExpanded(!statsExpanded)}
+            expandLabel={t("charts.showStats")}
+            collapseLabel={t("charts.hideStats")}
+          >
+            {groupSeries.map(({ name, color, smoother }) =>
+              smoother ? (
+                <div key={name}>
+                  <div className="chart-stats-title" style={{ color }}>
+                    {name}
+                  </div>
+                  <div className="chart-stats-grid-4">
+                    {REFERENCE_ENERGY_VALUES.map((value) => (
+                      <Tooltip
+                        key={value}
+                        title={t("charts.predictedCopTooltipEnergy")}
+                        placement="top"
+                      >
+                        <div className="chart-stat-item">
+                          <span className="chart-stat-label chart-stat-label-mixedcase">
+                            {t("common.az_short")} {value} kWh/m²a
+                          </span>
+                          <span className="chart-stat-value">{smoother(value).toFixed(2)}</span>
+                        </div>
+                      </Tooltip>
+                    ))}
+                  </div>
+                </div>
+              ) : null,
+            )}
+          </CollapsibleChartStats>
+        ) : loessSmoother ? (
           <CollapsibleChartStats
             title={t("charts.azYearlyEnergyStats")}
             expanded={statsExpanded}
@@ -353,13 +439,16 @@ export function AzYearlyEnergyScatterChart({
     >
       <ResponsiveScatterPlot
         // biome-ignore lint/suspicious/noExplicitAny: Nivo's ScatterPlot type is complex
-        data={scatterData as any}
+        data={chartSeries as any}
         margin={{ top: 10, right: 60, bottom: 70, left: 50 }}
         xScale={{ type: "linear", min: "auto", max: "auto" }}
         yScale={{ type: "linear", min: "auto", max: "auto" }}
         blendMode="normal"
         // biome-ignore lint/suspicious/noExplicitAny: Nivo callback typing is too narrow here
         colors={(node: any) => {
+          if (isComparisonMode) {
+            return groupColors.get(String(node.serieId)) ?? CHART_COLORS.primary;
+          }
           if (node.serieId === t("charts.regressionCurve")) {
             return CHART_COLORS.regression;
           }
@@ -405,8 +494,9 @@ export function AzYearlyEnergyScatterChart({
           const pointData = node.data as ScatterPointData;
           const xValue = typeof pointData?.x === "number" ? pointData.x : 0;
           const yValue = typeof pointData?.y === "number" ? pointData.y : 0;
-          const dotColor =
-            currentUserId && pointData.user_id === currentUserId
+          const dotColor = isComparisonMode
+            ? node.color
+            : currentUserId && pointData.user_id === currentUserId
               ? CHART_COLORS.user
               : pointData.extrapolated
                 ? CHART_COLORS.group2
@@ -460,28 +550,33 @@ export function AzYearlyEnergyScatterChart({
           "axes",
           // Draw LOESS as a connected path, then keep nodes on top for readability.
           // biome-ignore lint/suspicious/noExplicitAny: Nivo layer typing is complex
-          ({ xScale, yScale }: any) => {
-            if (!curveData || curveData.length < 2) {
-              return null;
-            }
-            const sorted = [...curveData].sort((a, b) => a.x - b.x);
-            const pathData = sorted
-              .map((point, index) => {
-                const cmd = index === 0 ? "M" : "L";
-                return `${cmd}${xScale(point.x)},${yScale(point.y)}`;
-              })
-              .join(" ");
-            return (
-              <path
-                d={pathData}
-                fill="none"
-                stroke={CHART_COLORS.regression}
-                strokeWidth={2}
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            );
-          },
+          ({ xScale, yScale }: any) => (
+            <g>
+              {curves.map(({ data: curve, color }) => {
+                if (curve.length < 2) {
+                  return null;
+                }
+                const sorted = [...curve].sort((a, b) => a.x - b.x);
+                const pathData = sorted
+                  .map((point, index) => {
+                    const cmd = index === 0 ? "M" : "L";
+                    return `${cmd}${xScale(point.x)},${yScale(point.y)}`;
+                  })
+                  .join(" ");
+                return (
+                  <path
+                    key={color}
+                    d={pathData}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={2}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                );
+              })}
+            </g>
+          ),
           "nodes",
           "mesh",
           "legends",
@@ -500,32 +595,34 @@ export function AzYearlyEnergyScatterChart({
             itemOpacity: 0.85,
             symbolSize: 20,
             symbolShape: "circle",
-            data: [
-              {
-                id: azHeatingKey,
-                label: azHeatingKey,
-                color: CHART_COLORS.primary,
-              },
-              ...(currentUserId
-                ? [
-                    {
-                      id: mySeriesId,
-                      label: mySeriesId,
-                      color: CHART_COLORS.user,
-                    },
-                  ]
-                : []),
-              {
-                id: t("charts.extrapolatedFromPartialYear"),
-                label: t("charts.extrapolatedFromPartialYear"),
-                color: CHART_COLORS.group2,
-              },
-              {
-                id: t("charts.regressionCurve"),
-                label: t("charts.regressionCurve"),
-                color: CHART_COLORS.regression,
-              },
-            ],
+            data: isComparisonMode
+              ? groupSeries.map(({ name, color }) => ({ id: name, label: name, color }))
+              : [
+                  {
+                    id: azHeatingKey,
+                    label: azHeatingKey,
+                    color: CHART_COLORS.primary,
+                  },
+                  ...(currentUserId
+                    ? [
+                        {
+                          id: mySeriesId,
+                          label: mySeriesId,
+                          color: CHART_COLORS.user,
+                        },
+                      ]
+                    : []),
+                  {
+                    id: t("charts.extrapolatedFromPartialYear"),
+                    label: t("charts.extrapolatedFromPartialYear"),
+                    color: CHART_COLORS.group2,
+                  },
+                  {
+                    id: t("charts.regressionCurve"),
+                    label: t("charts.regressionCurve"),
+                    color: CHART_COLORS.regression,
+                  },
+                ],
             toggleSerie: false,
             effects: [
               {
@@ -1,4 +1,7 @@
 import { useTranslation } from "react-i18next";
+import type { AggregationMode, PercentileLevel } from "../../../lib/chartDataProcessing";
+import { formatMetricValue } from "../../../lib/metricModes";
+import type { MetricMode } from "./AzBarChart";
 
 interface ChartTooltipProps {
   id: string;
@@ -7,7 +10,11 @@ interface ChartTooltipProps {
   indexValue: string;
   outdoorTemp?: number | null;
   flowTemp?: number | null;
-  metricMode?: "cop" | "energy";
+  metricMode?: MetricMode;
+  aggregationMode?: AggregationMode; // Shown when the value is aggregated from multiple rows
+  percentiles?: Partial<Record<PercentileLevel, number>>; // Optional P10/P25/P75/P90 of the aggregated values
+  multiHourBucket?: boolean; // True if the bucket contains deltas spanning several hours
+  dhwShare?: number | null; // Share of DHW in the stacked heating and DHW bar
 }
 
 export default function ChartTooltip({
@@ -18,11 +25,25 @@ export default function ChartTooltip({
   outdoorTemp,
   flowTemp,
   metricMode = "cop",
+  aggregationMode,
+  percentiles,
+  multiHourBucket = false,
+  dhwShare,
 }: ChartTooltipProps) {
   const { t } = useTranslation();
 
-  // Add unit for energy mode
-  const displayValue = metricMode === "energy" ? `${value} kWh` : value;
+  // Format a percentile range like "2.8–3.9", only when both ends are known
+  const formatRange = (lower: PercentileLevel, upper: PercentileLevel) => {
+    const low = percentiles?.[lower];
+    const high = percentiles?.[upper];
+    if (low === undefined || high === undefined) return null;
+    return formatMetricValue(`${low}–${high}`, metricMode);
+  };
+  const innerRange = formatRange(25, 75);
+  const outerRange = formatRange(10, 90);
+
+  // Add unit for energy and normalized mode
+  const displayValue = formatMetricValue(value, metricMode);
 
   return (
     <div className="chart-tooltip">
@@ -38,6 +59,36 @@ export default function ChartTooltip({
         </span>
       </div>
 
+      {aggregationMode && (
+        <div className="chart-tooltip-item chart-tooltip-aggregation">
+          <span className="chart-tooltip-text">
+            {t("charts.aggregation")}: {t(`charts.aggregationModes.${aggregationMode}`)}
+          </span>
+        </div>
+      )}
+
+      {innerRange && outerRange && (
+        <div className="chart-tooltip-item chart-tooltip-percentiles">
+          <span className="chart-tooltip-text">
+            P25–P75: <strong>{innerRange}</strong>, P10–P90: <strong>{outerRange}</strong>
+          </span>
+        </div>
+      )}
+
+      {dhwShare != null && (
+        <div className="chart-tooltip-item">
+          <span className="chart-tooltip-text">
+            {t("charts.dhwShare")}: <strong>{(dhwShare * 100).toFixed(0)} %</strong>
+          </span>
+        </div>
+      )}
+
+      {multiHourBucket && (
+        <div className="chart-tooltip-item chart-tooltip-multi-hour">
+          <span className="chart-tooltip-text">{t("charts.multiHourBucket")}</span>
+        </div>
+      )}
+
       {outdoorTemp !== null && outdoorTemp !== undefined && (
         <div className="chart-tooltip-item">
           <div className="chart-tooltip-indicator chart-tooltip-indicator-line chart-tooltip-indicator-outdoor" />
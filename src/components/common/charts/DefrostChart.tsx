@@ -0,0 +1,151 @@
+import { ResponsiveBar } from "@nivo/bar";
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { CHART_COLORS } from "../../../lib/chartTheme";
+import {
+  binDefrostByOutdoorTemperature,
+  DEFAULT_DEFROST_BIN_SIZE_C,
+  type DefrostDay,
+  type DefrostTemperatureBin,
+  summarizeDefrost,
+} from "../../../lib/defrost";
+import { ChartUtilityFrame } from "../layout/ChartUtilityFrame";
+import { CollapsibleChartStats } from "../layout/CollapsibleChartStats";
+
+interface DefrostChartProps {
+  days: DefrostDay[];
+}
+
+const formatPercent = (share: number | null) =>
+  share != null ? `${(share * 100).toFixed(1)} %` : "-";
+
+/**
+ * Mean defrost hours per system day over the outdoor temperature, with the heat lost
+ * to defrosting and its correlation with the outdoor temperature
+ */
+export function DefrostChart({ days }: DefrostChartProps) {
+  const { t } = useTranslation();
+  const [statsExpanded, setStatsExpanded] = useState(true);
+
+  const { bins, summary } = useMemo(
+    () => ({ bins: binDefrostByOutdoorTemperature(days), summary: summarizeDefrost(days) }),
+    [days],
+  );
+
+  if (bins.length === 0) {
+    return (
+      <div className="chart-no-data-card card">
+        <p className="muted">{t("common.noData")}</p>
+      </div>
+    );
+  }
+
+  const data = bins.map((bin) => ({
+    ...bin,
+    label: `${bin.binStartC}…${bin.binStartC + DEFAULT_DEFROST_BIN_SIZE_C} °C`,
+  }));
+
+  return (
+    <ChartUtilityFrame
+      utility={
+        <CollapsibleChartStats
+          title={t("defrost.statsTitle")}
+          expanded={statsExpanded}
+          onToggle={() => setStatsExpanded(!statsExpanded)}
+          expandLabel={t("charts.showStats")}
+          collapseLabel={t("charts.hideStats")}
+        >
+          <div className="chart-stats-grid-4">
+            <div className="chart-stat-item">
+              <span className="chart-stat-label">{t("defrost.defrostHours")}</span>
+              <span className="chart-stat-value">{summary.defrostHours} h</span>
+              <span className="chart-stat-label chart-stat-label-mixedcase">
+                {t("defrost.daysWithDefrost", {
+                  days: summary.daysWithDefrost,
+                  total: summary.days,
+                })}
+              </span>
+            </div>
+            <div className="chart-stat-item">
+              <span className="chart-stat-label">{t("defrost.defrostEnergy")}</span>
+              <span className="chart-stat-value">{summary.defrostEnergyKwh.toFixed(1)} kWh</span>
+            </div>
+            <div className="chart-stat-item">
+              <span className="chart-stat-label">{t("defrost.lossShare")}</span>
+              <span className="chart-stat-value">{formatPercent(summary.lossShare)}</span>
+            </div>
+            <div className="chart-stat-item">
+              <span className="chart-stat-label">{t("defrost.correlation")}</span>
+              <span className="chart-stat-value">
+                {summary.temperatureCorrelation != null
+                  ? `r = ${summary.temperatureCorrelation.toFixed(2)}`
+                  : "-"}
+              </span>
+            </div>
+          </div>
+        </CollapsibleChartStats>
+      }
+    >
+      <ResponsiveBar
+        // biome-ignore lint/suspicious/noExplicitAny: Nivo's BarDatum requires an index signature
+        data={data as any}
+        keys={["meanDefrostHours"]}
+        indexBy="label"
+        margin={{ top: 20, right: 30, bottom: 60, left: 60 }}
+        padding={0.3}
+        valueScale={{ type: "linear" }}
+        colors={[CHART_COLORS.outdoorTemp]}
+        axisTop={null}
+        axisRight={null}
+        axisBottom={{
+          tickSize: 5,
+          tickPadding: 5,
+          tickRotation: 0,
+          legend: t("common.outdoorTemperature"),
+          legendPosition: "middle",
+          legendOffset: 40,
+        }}
+        axisLeft={{
+          tickSize: 5,
+          tickPadding: 5,
+          tickRotation: 0,
+          legend: t("defrost.hoursPerDayAxis"),
+          legendPosition: "middle",
+          legendOffset: -45,
+        }}
+        enableLabel={false}
+        tooltip={({ data: bar }) => {
+          const bin = bar as unknown as DefrostTemperatureBin & { label: string };
+          return (
+            <div className="chart-tooltip">
+              <div className="chart-tooltip-header">{bin.label}</div>
+              <div className="chart-tooltip-item">
+                <span className="chart-tooltip-text">
+                  {t("defrost.hoursPerDay")}: <strong>{bin.meanDefrostHours.toFixed(1)} h</strong>
+                </span>
+              </div>
+              <div className="chart-tooltip-item">
+                <span className="chart-tooltip-text">
+                  {t("defrost.energyPerDay")}:{" "}
+                  <strong>{bin.meanDefrostEnergyKwh.toFixed(2)} kWh</strong>
+                </span>
+              </div>
+              <div className="chart-tooltip-item">
+                <span className="chart-tooltip-text">
+                  {t("defrost.lossShare")}: {formatPercent(bin.lossShare)}
+                </span>
+              </div>
+              <div className="chart-tooltip-item">
+                <span className="chart-tooltip-text">
+                  {t("defrost.systemDays", { days: bin.days })}
+                </span>
+              </div>
+            </div>
+          );
+        }}
+        role="application"
+        ariaLabel="Defrost chart"
+      />
+    </ChartUtilityFrame>
+  );
+}
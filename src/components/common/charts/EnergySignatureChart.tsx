@@ -0,0 +1,217 @@
+import { Tooltip } from "@mui/material";
+import { ResponsiveScatterPlot } from "@nivo/scatterplot";
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { CHART_COLORS } from "../../../lib/chartTheme";
+import {
+  compareHeatLoad,
+  type EnergySignatureRow,
+  estimateHeatLoadKw,
+  fitEnergySignature,
+  MIN_ENERGY_SIGNATURE_DAYS,
+  toEnergySignaturePoints,
+} from "../../../lib/energySignature";
+import { DEFAULT_DESIGN_OUTDOOR_TEMP_C } from "../../../lib/heatingCurveDesign";
+import { generateCurvePoints } from "../../../lib/regressionUtils";
+import { ChartUtilityFrame } from "../layout/ChartUtilityFrame";
+import { CollapsibleChartStats } from "../layout/CollapsibleChartStats";
+
+interface SignaturePoint {
+  x: number;
+  y: number;
+}
+
+interface EnergySignatureChartProps {
+  data: EnergySignatureRow[];
+  designOutdoorTempC: number | null | undefined;
+  heatingLoadKw: number | null | undefined;
+}
+
+/**
+ * Energy signature of a single system: daily heat over outdoor temperature with the fitted
+ * signature extrapolated to the design outdoor temperature, and the estimated heat load
+ * compared with the entered one.
+ */
+export function EnergySignatureChart({
+  data,
+  designOutdoorTempC,
+  heatingLoadKw,
+}: EnergySignatureChartProps) {
+  const { t } = useTranslation();
+  const [statsExpanded, setStatsExpanded] = useState(true);
+
+  const measuredKey = t("energySignature.dailyHeat");
+  const signatureKey = t("energySignature.signature");
+  const designTemp = designOutdoorTempC ?? DEFAULT_DESIGN_OUTDOOR_TEMP_C;
+
+  const { scatterData, signature } = useMemo(() => {
+    const points = toEnergySignaturePoints(data ?? []);
+    if (points.length === 0) return { scatterData: [], signature: null };
+
+    const fitted = fitEnergySignature(points);
+    const series: { id: string; data: SignaturePoint[] }[] = [{ id: measuredKey, data: points }];
+    if (fitted) {
+      // Heating line down to the design temperature, then the base demand above the heating limit
+      const xMin = Math.min(...points.map((p) => p.x), designTemp);
+      const xMax = Math.max(...points.map((p) => p.x), fitted.heatingLimitC);
+      const base = { slope: 0, intercept: fitted.baseDemandKwh };
+      series.push({
+        id: signatureKey,
+        data: [
+          ...generateCurvePoints(fitted.fit, xMin, fitted.heatingLimitC, 40),
+          ...generateCurvePoints(base, fitted.heatingLimitC, xMax, 10),
+        ],
+      });
+    }
+    return { scatterData: series, signature: fitted };
+  }, [data, designTemp, measuredKey, signatureKey]);
+
+  const estimatedKw = signature ? estimateHeatLoadKw(signature, designTemp) : null;
+  const comparison = compareHeatLoad(estimatedKw, heatingLoadKw);
+
+  if (scatterData.length === 0) {
+    return (
+      <div className="chart-no-data-card card">
+        <p className="muted">{t("charts.noData")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <ChartUtilityFrame
+      utility={
+        <CollapsibleChartStats
+          title={t("energySignature.title")}
+          expanded={statsExpanded}
+          onToggle={() => setStatsExpanded(!statsExpanded)}
+          expandLabel={t("charts.showStats")}
+          collapseLabel={t("charts.hideStats")}
+        >
+          {signature && estimatedKw != null ? (
+            <>
+              <div className="chart-stats-grid-4">
+                <Tooltip
+                  title={t("energySignature.estimatedHeatLoadTooltip", { temperature: designTemp })}
+                  placement="top"
+                >
+                  <div className="chart-stat-item">
+                    <span className="chart-stat-label">
+                      {t("energySignature.estimatedHeatLoad")}
+                    </span>
+                    <span className="chart-stat-value">{estimatedKw.toFixed(1)} kW</span>
+                  </div>
+                </Tooltip>
+                <div className="chart-stat-item">
+                  <span className="chart-stat-label">{t("energySignature.enteredHeatLoad")}</span>
+                  <span className="chart-stat-value">
+                    {heatingLoadKw != null ? `${heatingLoadKw.toFixed(1)} kW` : "-"}
+                  </span>
+                </div>
+                <div className="chart-stat-item">
+                  <span className="chart-stat-label">{t("energySignature.heatingLimit")}</span>
+                  <span className="chart-stat-value">{signature.heatingLimitC.toFixed(1)}°C</span>
+                </div>
+                <div className="chart-stat-item">
+                  <span className="chart-stat-label">{t("energySignature.slope")}</span>
+                  <span className="chart-stat-value">
+                    {Math.abs(signature.fit.slope).toFixed(1)} kWh/K
+                  </span>
+                  <span className="chart-stat-label chart-stat-label-mixedcase">
+                    R² {signature.fit.rSquared.toFixed(2)}
+                  </span>
+                </div>
+              </div>
+              <ul className="chart-stats-suggestions">
+                <li>
+                  {comparison
+                    ? t(`energySignature.assessment.${comparison.assessment}`, {
+                        percent: Math.abs(comparison.deviation * 100).toFixed(0),
+                      })
+                    : t("energySignature.noEnteredHeatLoad")}
+                </li>
+              </ul>
+            </>
+          ) : (
+            <p className="muted">
+              {t("energySignature.notEnoughData", { count: MIN_ENERGY_SIGNATURE_DAYS })}
+            </p>
+          )}
+        </CollapsibleChartStats>
+      }
+    >
+      <ResponsiveScatterPlot
+        // biome-ignore lint/suspicious/noExplicitAny: Nivo's ScatterPlot type is complex
+        data={scatterData as any}
+        margin={{ top: 10, right: 60, bottom: 70, left: 60 }}
+        xScale={{ type: "linear", min: "auto", max: "auto" }}
+        yScale={{ type: "linear", min: 0, max: "auto" }}
+        blendMode="normal"
+        colors={(node) =>
+          node.serieId === signatureKey ? CHART_COLORS.designCurve : CHART_COLORS.user
+        }
+        nodeSize={(node) => (node.serieId === measuredKey ? 8 : 4)}
+        axisTop={null}
+        axisRight={null}
+        axisBottom={{
+          tickSize: 5,
+          tickPadding: 5,
+          tickRotation: 0,
+          legend: t("common.outdoorTemperature"),
+          legendPosition: "middle",
+          legendOffset: 32,
+        }}
+        axisLeft={{
+          tickSize: 5,
+          tickPadding: 5,
+          tickRotation: 0,
+          legend: t("energySignature.dailyHeatAxis"),
+          legendPosition: "middle",
+          legendOffset: -50,
+        }}
+        tooltip={({ node }) => {
+          const pointData = node.data as SignaturePoint;
+          return (
+            <div className="chart-tooltip">
+              <div className="chart-tooltip-header">{node.serieId}</div>
+              <div className="chart-tooltip-item">
+                <span className="chart-tooltip-text">
+                  {t("common.outdoorTemperature")}: <strong>{pointData.x.toFixed(1)}°C</strong>
+                </span>
+              </div>
+              <div className="chart-tooltip-item">
+                <div
+                  className="chart-tooltip-indicator chart-tooltip-indicator-bar chart-tooltip-indicator-custom"
+                  style={{ backgroundColor: node.color }}
+                />
+                <span className="chart-tooltip-text">
+                  {t("energySignature.dailyHeat")}: <strong>{pointData.y.toFixed(1)} kWh</strong>
+                </span>
+              </div>
+            </div>
+          );
+        }}
+        legends={[
+          {
+            anchor: "bottom",
+            direction: "row",
+            justify: false,
+            translateX: 0,
+            translateY: 70,
+            itemsSpacing: 2,
+            itemWidth: 180,
+            itemHeight: 20,
+            itemDirection: "left-to-right",
+            itemOpacity: 0.85,
+            symbolSize: 20,
+            symbolShape: "circle",
+            data: [
+              { id: measuredKey, label: measuredKey, color: CHART_COLORS.user },
+              { id: signatureKey, label: signatureKey, color: CHART_COLORS.designCurve },
+            ].filter((item) => scatterData.some((s) => s.id === item.id)),
+            toggleSerie: false,
+          },
+        ]}
+      />
+    </ChartUtilityFrame>
+  );
+}
@@ -0,0 +1,157 @@
+import { ResponsiveBar } from "@nivo/bar";
+import { useTranslation } from "react-i18next";
+import { CHART_COLORS } from "../../../lib/chartTheme";
+import {
+  type FirmwareTransitionSummary,
+  formatFirmwareTransition,
+} from "../../../lib/firmwareImpact";
+
+interface FirmwareImpactChartProps {
+  transitions: FirmwareTransitionSummary[];
+}
+
+interface ConfidenceIntervalLayerProps {
+  // biome-ignore lint/suspicious/noExplicitAny: Nivo's bar type is complex and not exported
+  bars: readonly any[];
+  // biome-ignore lint/suspicious/noExplicitAny: Nivo's scale types are complex and not exported
+  yScale: any;
+}
+
+/**
+ * Whiskers for the 95% confidence interval of each bar's mean delta
+ */
+function ConfidenceIntervalLayer({ bars, yScale }: ConfidenceIntervalLayerProps) {
+  return (
+    <g className="chart-confidence-intervals">
+      {bars.map((bar) => {
+        const { ciLow, ciHigh } = bar.data.data as FirmwareTransitionSummary;
+        if (ciLow == null || ciHigh == null) return null;
+
+        const centerX = bar.x + bar.width / 2;
+        const capWidth = bar.width * 0.3;
+        return (
+          <g key={bar.key} data-testid="confidence-interval">
+            <line
+              x1={centerX}
+              y1={yScale(ciLow)}
+              x2={centerX}
+              y2={yScale(ciHigh)}
+              stroke={CHART_COLORS.percentileBand}
+              strokeWidth={1}
+            />
+            {[ciLow, ciHigh].map((value) => (
+              <line
+                key={value}
+                x1={centerX - capWidth / 2}
+                y1={yScale(value)}
+                x2={centerX + capWidth / 2}
+                y2={yScale(value)}
+                stroke={CHART_COLORS.percentileBand}
+                strokeWidth={1}
+              />
+            ))}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+/**
+ * Mean COP change per firmware transition at comparable outdoor temperatures
+ */
+export function FirmwareImpactChart({ transitions }: FirmwareImpactChartProps) {
+  const { t } = useTranslation();
+
+  if (transitions.length === 0) {
+    return (
+      <div className="chart-no-data-card card">
+        <p className="muted">{t("firmwareImpact.noTransitions")}</p>
+      </div>
+    );
+  }
+
+  const data = transitions.map((transition) => ({
+    ...transition,
+    label: `${formatFirmwareTransition(transition)} (${t(`firmwareImpact.components.${transition.component}`)})`,
+  }));
+
+  return (
+    <div className="chart-container">
+      <ResponsiveBar
+        // biome-ignore lint/suspicious/noExplicitAny: Nivo's BarDatum requires an index signature
+        data={data as any}
+        keys={["meanDelta"]}
+        indexBy="label"
+        margin={{ top: 20, right: 30, bottom: 60, left: 60 }}
+        padding={0.4}
+        valueScale={{ type: "linear" }}
+        colors={({ data: bar }) =>
+          (bar.meanDelta as number) >= 0 ? CHART_COLORS.primary : CHART_COLORS.flowTemp
+        }
+        axisTop={null}
+        axisRight={null}
+        axisBottom={{
+          tickSize: 5,
+          tickPadding: 5,
+          tickRotation: 0,
+          legend: t("firmwareImpact.transition"),
+          legendPosition: "middle",
+          legendOffset: 40,
+        }}
+        axisLeft={{
+          tickSize: 5,
+          tickPadding: 5,
+          tickRotation: 0,
+          legend: t("firmwareImpact.deltaAxis"),
+          legendPosition: "middle",
+          legendOffset: -45,
+        }}
+        enableLabel={false}
+        markers={[
+          {
+            axis: "y",
+            value: 0,
+            lineStyle: { stroke: CHART_COLORS.percentileBand, strokeWidth: 1 },
+          },
+        ]}
+        layers={["grid", "axes", "bars", ConfidenceIntervalLayer, "markers"]}
+        tooltip={({ data: bar }) => {
+          const transition = bar as unknown as FirmwareTransitionSummary;
+          return (
+            <div className="chart-tooltip">
+              <div className="chart-tooltip-header">{formatFirmwareTransition(transition)}</div>
+              <div className="chart-tooltip-item">
+                <span className="chart-tooltip-text">
+                  {t("firmwareImpact.delta")}:{" "}
+                  <strong>
+                    {transition.meanDelta > 0 ? "+" : ""}
+                    {transition.meanDelta.toFixed(2)}
+                  </strong>
+                </span>
+              </div>
+              {transition.ciLow != null && transition.ciHigh != null && (
+                <div className="chart-tooltip-item">
+                  <span className="chart-tooltip-text">
+                    {t("firmwareImpact.confidenceInterval")}: {transition.ciLow.toFixed(2)} –{" "}
+                    {transition.ciHigh.toFixed(2)}
+                  </span>
+                </div>
+              )}
+              <div className="chart-tooltip-item">
+                <span className="chart-tooltip-text">
+                  {t("firmwareImpact.systemsAndBins", {
+                    systems: transition.systemCount,
+                    bins: transition.binCount,
+                  })}
+                </span>
+              </div>
+            </div>
+          );
+        }}
+        role="application"
+        ariaLabel="Firmware impact chart"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { Tooltip } from "@mui/material";
+import { ResponsiveScatterPlot } from "@nivo/scatterplot";
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { CHART_COLORS } from "../../../lib/chartTheme";
+import {
+  compareWithDesignCurve,
+  type DesignCurve,
+  evaluateCurve,
+  HEATING_LIMIT_TEMPERATURE_C,
+  MIN_SYSTEM_CURVE_POINTS,
+} from "../../../lib/heatingCurveDesign";
+import { generateCurvePoints } from "../../../lib/regressionUtils";
+import { ChartUtilityFrame } from "../layout/ChartUtilityFrame";
+import { CollapsibleChartStats } from "../layout/CollapsibleChartStats";
+import type { HeatingCurveDataPoint } from "./HeatingCurveChart";
+
+interface SystemScatterPoint {
+  x: number;
+  y: number;
+  date?: string | null;
+  residual?: number;
+}
+
+interface HeatingCurveSystemChartProps {
+  data: HeatingCurveDataPoint[];
+  design: DesignCurve | null;
+}
+
+/**
+ * Heating curve of a single system: measured days, the system's own fitted curve and
+ * the design curve, with residuals and suggested adjustments.
+ */
+export function HeatingCurveSystemChart({ data, design }: HeatingCurveSystemChartProps) {
+  const { t } = useTranslation();
+  const [statsExpanded, setStatsExpanded] = useState(true);
+
+  const measuredKey = t("heatingCurve.chartLegend");
+  const fittedKey = t("heatingCurve.systemCurve");
+  const designKey = t("heatingCurve.designCurve");
+
+  const referenceTemperatures = [-10, 0, 10];
+
+  const { scatterData, comparison } = useMemo(() => {
+    const points = (data ?? [])
+      .filter(
+        (row) =>
+          row.outdoor_temperature_c != null &&
+          row.flow_temperature_c != null &&
+          row.outdoor_temperature_c >= -30 &&
+          row.outdoor_temperature_c <= 40 &&
+          row.flow_temperature_c >= 15 &&
+          row.flow_temperature_c <= 80,
+      )
+      .map((row) => ({
+        x: row.outdoor_temperature_c as number,
+        y: row.flow_temperature_c as number,
+        date: row.date,
+      }));
+
+    if (points.length === 0) return { scatterData: [], comparison: null };
+
+    const comparisonResult = design ? compareWithDesignCurve(points, design) : null;
+    const residualByPoint = new Map(
+      comparisonResult?.residuals.map((r) => [`${r.x}|${r.y}`, r.residual]) ?? [],
+    );
+
+    const xValues = points.map((p) => p.x);
+    const xMin = Math.min(...xValues, design?.designOutdoorTempC ?? Number.POSITIVE_INFINITY);
+    const xMax = Math.min(Math.max(...xValues), HEATING_LIMIT_TEMPERATURE_C);
+
+    const series: { id: string; data: SystemScatterPoint[] }[] = [
+      {
+        id: measuredKey,
+        data: points.map((p) => ({ ...p, residual: residualByPoint.get(`${p.x}|${p.y}`) })),
+      },
+    ];
+    if (comparisonResult) {
+      series.push({
+        id: fittedKey,
+        data: generateCurvePoints(comparisonResult.fit, xMin, xMax, 50),
+      });
+    }
+    if (design) {
+      series.push({ id: designKey, data: generateCurvePoints(design, xMin, xMax, 50) });
+    }
+
+    return { scatterData: series, comparison: comparisonResult };
+  }, [data, design, measuredKey, fittedKey, designKey]);
+
+  const legendItems = useMemo(
+    () =>
+      [
+        { id: measuredKey, label: measuredKey, color: CHART_COLORS.user },
+        { id: fittedKey, label: fittedKey, color: CHART_COLORS.userRegression },
+        { id: designKey, label: designKey, color: CHART_COLORS.designCurve },
+      ].filter((item) => scatterData.some((s) => s.id === item.id)),
+    [scatterData, measuredKey, fittedKey, designKey],
+  );
+
+  if (scatterData.length === 0) {
+    return (
+      <div className="chart-no-data-card card">
+        <p className="muted">{t("charts.noData")}</p>
+      </div>
+    );
+  }
+
+  const formatSigned = (value: number, digits = 1) =>
+    `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+  return (
+    <ChartUtilityFrame
+      utility={
+        <CollapsibleChartStats
+          title={t("heatingCurve.designComparisonTitle")}
+          expanded={statsExpanded}
+          onToggle={() => setStatsExpanded(!statsExpanded)}
+          expandLabel={t("charts.showStats")}
+          collapseLabel={t("charts.hideStats")}
+        >
+          {comparison ? (
+            <>
+              <div className="chart-stats-grid-4">
+                {referenceTemperatures.map((temp) => (
+                  <Tooltip key={temp} title={t("heatingCurve.designFlowTooltip")} placement="top">
+                    <div className="chart-stat-item">
+                      <span className="chart-stat-label">
+                        {t("heatingCurve.flowAt")} {temp}°C
+                      </span>
+                      <span className="chart-stat-value">
+                        {evaluateCurve(comparison.fit, temp).toFixed(1)}°C
+                      </span>
+                      <span className="chart-stat-label chart-stat-label-mixedcase">
+                        {t("heatingCurve.designValue", {
+                          value: evaluateCurve(comparison.design, temp).toFixed(1),
+                        })}
+                      </span>
+                    </div>
+                  </Tooltip>
+                ))}
+                <Tooltip title={t("heatingCurve.meanResidualTooltip")} placement="top">
+                  <div className="chart-stat-item">
+                    <span className="chart-stat-label">{t("heatingCurve.meanResidual")}</span>
+                    <span className="chart-stat-value">
+                      {formatSigned(comparison.meanResidualK)} K
+                    </span>
+                    <span className="chart-stat-label chart-stat-label-mixedcase">
+                      {t("heatingCurve.meanAbsoluteResidual", {
+                        value: comparison.meanAbsoluteResidualK.toFixed(1),
+                      })}
+                    </span>
+                  </div>
+                </Tooltip>
+              </div>
+              <ul className="chart-stats-suggestions">
+                {comparison.suggestions.length === 0 ? (
+                  <li>{t("heatingCurve.suggestions.none")}</li>
+                ) : (
+                  comparison.suggestions.map((suggestion) => (
+                    <li key={suggestion}>
+                      {t(`heatingCurve.suggestions.${suggestion}`, {
+                        percent: Math.abs(comparison.slopeDeviation * 100).toFixed(0),
+                        kelvin: Math.abs(comparison.parallelShiftK).toFixed(1),
+                        temperature: comparison.referenceTemperatureC.toFixed(0),
+                      })}
+                    </li>
+                  ))
+                )}
+              </ul>
+            </>
+          ) : (
+            <p className="muted">
+              {design
+                ? t("heatingCurve.notEnoughSystemData", { count: MIN_SYSTEM_CURVE_POINTS })
+                : t("heatingCurve.noDesignCurve")}
+            </p>
+          )}
+        </CollapsibleChartStats>
+      }
+    >
+      <ResponsiveScatterPlot
+        // biome-ignore lint/suspicious/noExplicitAny: Nivo's ScatterPlot type is complex
+        data={scatterData as any}
+        margin={{ top: 10, right: 60, bottom: 70, left: 50 }}
+        xScale={{ type: "linear", min: "auto", max: "auto" }}
+        yScale={{ type: "linear", min: "auto", max: "auto" }}
+        blendMode="normal"
+        colors={(node) => {
+          if (node.serieId === fittedKey) return CHART_COLORS.userRegression;
+          if (node.serieId === designKey) return CHART_COLORS.designCurve;
+          return CHART_COLORS.user;
+        }}
+        nodeSize={(node) => (node.serieId === measuredKey ? 8 : 4)}
+        axisTop={null}
+        axisRight={null}
+        axisBottom={{
+          tickSize: 5,
+          tickPadding: 5,
+          tickRotation: 0,
+          legend: t("common.outdoorTemperature"),
+          legendPosition: "middle",
+          legendOffset: 32,
+        }}
+        axisLeft={{
+          tickSize: 5,
+          tickPadding: 5,
+          tickRotation: 0,
+          legend: t("common.flowTemperature"),
+          legendPosition: "middle",
+          legendOffset: -40,
+        }}
+        tooltip={({ node }) => {
+          const pointData = node.data as SystemScatterPoint;
+          return (
+            <div className="chart-tooltip">
+              <div className="chart-tooltip-header">{pointData.date ?? node.serieId}</div>
+              <div className="chart-tooltip-item">
+                <span className="chart-tooltip-text">
+                  {t("common.outdoorTemperature")}: <strong>{pointData.x.toFixed(1)}°C</strong>
+                </span>
+              </div>
+              <div className="chart-tooltip-item">
+                <div
+                  className="chart-tooltip-indicator chart-tooltip-indicator-bar chart-tooltip-indicator-custom"
+                  style={{ backgroundColor: node.color }}
+                />
+                <span className="chart-tooltip-text">
+                  {t("common.flowTemperature")}: <strong>{pointData.y.toFixed(1)}°C</strong>
+                </span>
+              </div>
+              {pointData.residual != null && (
+                <div className="chart-tooltip-item">
+                  <span className="chart-tooltip-text">
+                    {t("heatingCurve.residual")}:{" "}
+                    <strong>{formatSigned(pointData.residual)} K</strong>
+                  </span>
+                </div>
+              )}
+            </div>
+          );
+        }}
+        legends={[
+          {
+            anchor: "bottom",
+            direction: "row",
+            justify: false,
+            translateX: 0,
+            translateY: 70,
+            itemsSpacing: 2,
+            itemWidth: 180,
+            itemHeight: 20,
+            itemDirection: "left-to-right",
+            itemOpacity: 0.85,
+            symbolSize: 20,
+            symbolShape: "circle",
+            data: legendItems,
+            toggleSerie: false,
+          },
+        ]}
+      />
+    </ChartUtilityFrame>
+  );
+}
@@ -5,15 +5,29 @@ import { useChartLegend } from "../../../hooks/useChartLegend";
 import {
   calculateSystemAz,
   createHistogramBins,
+  type HistogramStats,
+  mergeHistogramBins,
   type SystemAzData,
 } from "../../../lib/chartDataProcessing";
 import { CHART_COLORS } from "../../../lib/chartTheme";
 import {
+  type DataGranularity,
+  type DataQualityIssue,
   filterRealisticDataForCharts,
   filterSystemsByRealisticCOP,
 } from "../../../lib/dataQuality";
+import { calculateSystemNormalizedEnergy } from "../../../lib/degreeDays";
+import { calculateSystemCosts } from "../../../lib/energyCost";
+import {
+  formatMetricValue,
+  METRIC_LABEL_KEYS,
+  METRIC_UNITS,
+  NORMALIZED_DIGITS,
+} from "../../../lib/metricModes";
 import { ChartUtilityFrame } from "../layout/ChartUtilityFrame";
 import { CollapsibleChartStats } from "../layout/CollapsibleChartStats";
+import { useSession } from "../layout/Layout";
+import type { MetricMode } from "./AzBarChart";
 import { ResponsiveBarLabelsLayer } from "./ResponsiveBarLabelsLayer";
 
 export interface HistogramBin {
@@ -24,148 +38,220 @@ export interface HistogramBin {
   countHeating: number;
   systemIds?: string[];
   systemIdsHeating?: string[];
+  containsUserSystem?: boolean;
 }
 
 // Input data type for histogram
 interface HistogramDataRow {
   heating_id: string;
+  user_id?: string | null; // Used to locate the logged-in user's own systems
   thermal_energy_kwh?: number | null;
   electrical_energy_kwh?: number | null;
   thermal_energy_heating_kwh?: number | null;
   electrical_energy_heating_kwh?: number | null;
+  heating_degree_days?: number | null; // Required for the normalized metric mode
+  heated_area_m2?: number | null;
+  electricity_cost_eur?: number | null; // Required for the cost metric mode
+  electricity_cost_heating_eur?: number | null;
+  outlier_issues?: DataQualityIssue[]; // Set by detectSystemOutliers
+}
+
+// One filter group of the comparison mode
+interface HistogramComparisonGroup {
+  id: string;
+  name: string;
+  color: string;
+  data: HistogramDataRow[];
 }
 
 interface HistogramChartProps {
   data: HistogramDataRow[];
-  metricMode?: "cop" | "energy";
+  metricMode?: MetricMode;
   statsTitle?: string;
   binSize?: number;
+  granularity?: DataGranularity; // Time span of one row, selects the applicable data quality rules
+  excludeOutliers?: boolean; // If true, rows flagged as statistical outliers of their system are ignored
+  highlightHeatingIds?: string[]; // Systems to highlight instead of the logged-in user's systems
+  comparisonGroups?: HistogramComparisonGroup[]; // If more than one, shows grouped bars per group
 }
 
-export function HistogramChart({
-  data,
-  metricMode = "cop",
-  statsTitle,
-  binSize = 0.5,
-}: HistogramChartProps) {
-  const { t } = useTranslation();
-  const barColor = CHART_COLORS.primary;
-  const [statsExpanded, setStatsExpanded] = useState(true);
+/**
+ * Rounds a bin size up to 1, 2 or 5 times a power of ten
+ */
+function niceBinSize(rawSize: number): number {
+  if (!(rawSize > 0)) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(rawSize));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= rawSize) ?? 10;
+  return step * magnitude;
+}
 
-  // Use different labels based on metric mode
-  const totalKey =
-    metricMode === "energy" ? t("charts.electricalEnergyTotal") : t("common.azTotal");
-  const heatingKey =
-    metricMode === "energy" ? t("charts.electricalEnergyHeating") : t("common.azHeating");
+/**
+ * Per-system values of the metric mode in the az and azHeating fields, without unrealistic
+ * rows and systems
+ */
+function calculateHistogramSystemData(
+  data: HistogramDataRow[],
+  metricMode: MetricMode,
+  granularity?: DataGranularity,
+  excludeOutliers = false,
+): SystemAzData[] {
+  const filteredData = filterRealisticDataForCharts(data, granularity, excludeOutliers);
 
-  // Calculate histogram data based on metric mode
-  const histogramData = useMemo(() => {
-    if (!data || data.length === 0) {
-      return {
-        totalBins: [],
-        heatingBins: [],
-        totalStats: { mean: 0, median: 0, min: 0, max: 0, count: 0 },
-        heatingStats: { mean: 0, median: 0, min: 0, max: 0, count: 0 },
-      };
-    }
+  // Energy per degree day and m², summed over all rows of each system
+  if (metricMode === "normalized") return calculateSystemNormalizedEnergy(filteredData);
 
-    if (metricMode === "energy") {
-      // Filter out unrealistic data first
-      const filteredData = filterRealisticDataForCharts(data);
+  // Electricity costs summed over all rows of each system
+  if (metricMode === "cost") return calculateSystemCosts(filteredData);
 
-      // Sum energy values per system
-      const systemTotals = new Map<
-        string,
-        { thermal: number; electrical: number; thermalHeating: number; electricalHeating: number }
-      >();
+  if (metricMode === "energy") {
+    // Sum energy values per system
+    const systemTotals = new Map<
+      string,
+      { thermal: number; electrical: number; thermalHeating: number; electricalHeating: number }
+    >();
 
-      filteredData.forEach((row) => {
-        const existing = systemTotals.get(row.heating_id) || {
-          thermal: 0,
-          electrical: 0,
-          thermalHeating: 0,
-          electricalHeating: 0,
-        };
-        existing.thermal += row.thermal_energy_kwh || 0;
-        existing.electrical += row.electrical_energy_kwh || 0;
-        existing.thermalHeating += row.thermal_energy_heating_kwh || 0;
-        existing.electricalHeating += row.electrical_energy_heating_kwh || 0;
-        systemTotals.set(row.heating_id, existing);
-      });
+    filteredData.forEach((row) => {
+      const existing = systemTotals.get(row.heating_id) || {
+        thermal: 0,
+        electrical: 0,
+        thermalHeating: 0,
+        electricalHeating: 0,
+      };
+      existing.thermal += row.thermal_energy_kwh || 0;
+      existing.electrical += row.electrical_energy_kwh || 0;
+      existing.thermalHeating += row.thermal_energy_heating_kwh || 0;
+      existing.electricalHeating += row.electrical_energy_heating_kwh || 0;
+      systemTotals.set(row.heating_id, existing);
+    });
 
-      // Convert to SystemAzData format
-      const systemData: SystemAzData[] = [];
-      systemTotals.forEach((totals, heatingId) => {
-        systemData.push({
-          heatingId,
-          az: totals.electrical,
-          azHeating: totals.electricalHeating,
-          thermalTotal: totals.thermal,
-          electricalTotal: totals.electrical,
-          thermalHeatingTotal: totals.thermalHeating,
-          electricalHeatingTotal: totals.electricalHeating,
-        });
+    // Convert to SystemAzData format
+    const systemData: SystemAzData[] = [];
+    systemTotals.forEach((totals, heatingId) => {
+      systemData.push({
+        heatingId,
+        az: totals.electrical,
+        azHeating: totals.electricalHeating,
+        thermalTotal: totals.thermal,
+        electricalTotal: totals.electrical,
+        thermalHeatingTotal: totals.thermalHeating,
+        electricalHeatingTotal: totals.electricalHeating,
       });
+    });
 
-      // Filter out systems with unrealistic COP values calculated from energy data
-      // In energy mode, az fields contain energy values, not COP, so don't check them
-      const filteredSystemData = filterSystemsByRealisticCOP(systemData, false);
+    // Filter out systems with unrealistic COP values calculated from energy data
+    // In energy mode, az fields contain energy values, not COP, so don't check them
+    return filterSystemsByRealisticCOP(systemData, false);
+  }
 
-      // Calculate appropriate bin size based on data range
-      // For energy data, we need much larger bins than COP data
-      let energyBinSize = binSize; // Use provided binSize if it's already set for energy
+  // COP mode: calculate AZ, then filter out systems with unrealistic calculated values
+  return filterSystemsByRealisticCOP(calculateSystemAz(filteredData));
+}
 
-      // If binSize is still the default COP size (0.5), calculate appropriate energy bin size
-      if (binSize <= 1 && filteredSystemData.length > 0) {
-        // Find min and max values to determine appropriate bin size
-        const values = filteredSystemData
-          .map((s) => s.az)
-          .filter((v): v is number => v !== null && v > 0);
-        if (values.length > 0) {
-          const min = Math.min(...values);
-          const max = Math.max(...values);
-          const range = max - min;
+/**
+ * Bin size for the metric mode. Energy, cost and normalized bins follow the range of the
+ * values, the given size is used for COP values.
+ */
+function histogramBinSize(
+  systemData: SystemAzData[],
+  metricMode: MetricMode,
+  binSize: number,
+): number {
+  if (metricMode === "cost") {
+    const costs = systemData.map((s) => s.az).filter((v): v is number => v !== null);
+    // A day of one system costs a few euros, a year over a thousand
+    return costs.length > 0 ? niceBinSize((Math.max(...costs) - Math.min(...costs)) / 15) : binSize;
+  }
 
-          // Aim for roughly 10-20 bins
-          energyBinSize = Math.max(50, Math.ceil(range / 15 / 50) * 50); // Round to nearest 50 kWh
-        } else {
-          energyBinSize = 50; // Default: 50 kWh bins
-        }
-      }
+  if (metricMode === "normalized") {
+    // Typical values are around 0.01 kWh/(Kd·m²)
+    const values = systemData.map((s) => s.az).filter((v): v is number => v !== null);
+    return values.length > 0
+      ? niceBinSize((Math.max(...values) - Math.min(...values)) / 15)
+      : binSize;
+  }
 
-      const totalHistogram = createHistogramBins(filteredSystemData, "az", energyBinSize, true);
-      const heatingHistogram = createHistogramBins(
-        filteredSystemData,
-        "azHeating",
-        energyBinSize,
-        true,
-      );
+  // If binSize is still the default COP size (0.5), calculate appropriate energy bin size
+  if (metricMode === "energy" && binSize <= 1 && systemData.length > 0) {
+    const values = systemData.map((s) => s.az).filter((v): v is number => v !== null && v > 0);
+    if (values.length === 0) return 50; // Default: 50 kWh bins
 
-      return {
-        totalBins: totalHistogram.bins,
-        heatingBins: heatingHistogram.bins,
-        totalStats: totalHistogram.stats,
-        heatingStats: heatingHistogram.stats,
-      };
-    }
+    // For energy data, we need much larger bins than COP data: aim for roughly 10-20 bins,
+    // rounded to 50 kWh
+    const range = Math.max(...values) - Math.min(...values);
+    return Math.max(50, Math.ceil(range / 15 / 50) * 50);
+  }
+
+  return binSize;
+}
 
-    // COP mode: calculate AZ, then filter unrealistic calculated values
-    const filteredData = filterRealisticDataForCharts(data);
-    const systemAzData = calculateSystemAz(filteredData);
+export function HistogramChart({
+  data,
+  metricMode = "cop",
+  statsTitle,
+  binSize = 0.5,
+  granularity,
+  excludeOutliers = false,
+  highlightHeatingIds,
+  comparisonGroups,
+}: HistogramChartProps) {
+  const { t } = useTranslation();
+  const barColor = CHART_COLORS.primary;
+  const [statsExpanded, setStatsExpanded] = useState(true);
+  const { session } = useSession();
+  const currentUserId = session?.user?.id;
+  const isComparisonMode = !!comparisonGroups && comparisonGroups.length > 1;
 
-    // Filter out systems with unrealistic calculated COP values
-    const filteredSystemAzData = filterSystemsByRealisticCOP(systemAzData);
+  // Heating systems of the logged-in user, highlighted in the histogram
+  const userHeatingIds = useMemo(() => {
+    if (highlightHeatingIds) return highlightHeatingIds;
+    const rows = isComparisonMode ? comparisonGroups.flatMap((group) => group.data) : data;
+    if (!currentUserId || !rows) return [];
+    return Array.from(
+      new Set(rows.filter((row) => row.user_id === currentUserId).map((row) => row.heating_id)),
+    );
+  }, [data, comparisonGroups, isComparisonMode, currentUserId, highlightHeatingIds]);
 
-    const totalHistogram = createHistogramBins(filteredSystemAzData, "az", binSize);
-    const heatingHistogram = createHistogramBins(filteredSystemAzData, "azHeating", binSize);
+  // Use different labels based on metric mode
+  const totalKey = t(METRIC_LABEL_KEYS[metricMode].total);
+  const heatingKey = t(METRIC_LABEL_KEYS[metricMode].heating);
 
-    return {
-      totalBins: totalHistogram.bins,
-      heatingBins: heatingHistogram.bins,
-      totalStats: totalHistogram.stats,
-      heatingStats: heatingHistogram.stats,
-    };
-  }, [data, metricMode, binSize]);
+  // Calculate the histograms of each group (a single one outside comparison mode) based on
+  // metric mode. All groups share one bin size, so that their bins line up.
+  const histograms = useMemo(() => {
+    const sources = isComparisonMode
+      ? comparisonGroups
+      : [{ id: "all", name: "", color: barColor, data }];
+    const systemData = sources.map((source) =>
+      source.data && source.data.length > 0
+        ? calculateHistogramSystemData(source.data, metricMode, granularity, excludeOutliers)
+        : [],
+    );
+    const size = histogramBinSize(systemData.flat(), metricMode, binSize);
+    const roundedLabels = metricMode === "energy" || (metricMode === "cost" && size >= 1);
+
+    return sources.map((source, index) => ({
+      name: source.name,
+      color: source.color,
+      total: createHistogramBins(systemData[index], "az", size, roundedLabels, userHeatingIds),
+      heating: createHistogramBins(
+        systemData[index],
+        "azHeating",
+        size,
+        roundedLabels,
+        userHeatingIds,
+      ),
+    }));
+  }, [
+    data,
+    comparisonGroups,
+    isComparisonMode,
+    barColor,
+    metricMode,
+    binSize,
+    granularity,
+    excludeOutliers,
+    userHeatingIds,
+  ]);
 
   // Use the chart legend hook (histogram doesn't need temperature lines, only toggles)
   const { activeKey, legendItems, handleLegendClick } = useChartLegend({
@@ -175,15 +261,48 @@ export function HistogramChart({
     outdoorTempLabel: t("common.outdoorTemperature"),
     flowTempLabel: t("common.flowTemperature"),
     showTemperatureLines: false, // Histogram doesn't show temperature lines
+    isComparisonMode,
+    comparisonGroups,
+    showGroupLegend: true,
   });
 
   // Determine which data to show based on active key
-  const { chartData, stats } = useMemo(() => {
-    if (activeKey === totalKey) {
-      return { chartData: histogramData.totalBins, stats: histogramData.totalStats };
-    }
-    return { chartData: histogramData.heatingBins, stats: histogramData.heatingStats };
-  }, [activeKey, histogramData, totalKey]);
+  const groupHistograms = useMemo(
+    () =>
+      histograms.map(({ name, color, total, heating }) => ({
+        name,
+        color,
+        ...(activeKey === totalKey ? total : heating),
+      })),
+    [activeKey, histograms, totalKey],
+  );
+
+  // Grouped bars with one key per group in comparison mode
+  const chartData = useMemo(
+    () => (isComparisonMode ? mergeHistogramBins(groupHistograms) : groupHistograms[0].bins),
+    [groupHistograms, isComparisonMode],
+  );
+  const groupColors = new Map(groupHistograms.map(({ name, color }) => [name, color]));
+
+  // Format values with unit in energy and normalized mode
+  const formatStat = (value: number) =>
+    formatMetricValue(
+      metricMode === "energy"
+        ? Math.round(value)
+        : value.toFixed(metricMode === "normalized" ? NORMALIZED_DIGITS : 2),
+      metricMode,
+    );
+
+  const statItems = (stats: HistogramStats) => [
+    { label: t("charts.mean"), value: formatStat(stats.mean) },
+    { label: t("charts.median"), value: formatStat(stats.median) },
+    { label: t("charts.trimmedMean"), value: formatStat(stats.trimmedMean) },
+    { label: t("charts.stdDev"), value: formatStat(stats.stdDev) },
+    { label: t("charts.q1"), value: formatStat(stats.q1) },
+    { label: t("charts.q3"), value: formatStat(stats.q3) },
+    { label: t("charts.iqr"), value: formatStat(stats.iqr) },
+    { label: t("charts.systems"), value: String(stats.count) },
+  ];
 
   return (
     <ChartUtilityFrame
@@ -197,24 +316,33 @@ export function HistogramChart({
               expandLabel={t("charts.showStats")}
               collapseLabel={t("charts.hideStats")}
             >
-              <div className="chart-stats-grid-2">
-                <div className="chart-stat-item">
-                  <span className="chart-stat-label">{t("charts.mean")}</span>
-                  <span className="chart-stat-value">
-                    {metricMode === "energy"
-                      ? `${Math.round(stats.mean)} kWh`
-                      : stats.mean.toFixed(2)}
-                  </span>
+              {groupHistograms.map(({ name, color, stats }) => (
+                <div key={name}>
+                  {isComparisonMode && (
+                    <div className="chart-stats-title" style={{ color }}>
+                      {name}
+                    </div>
+                  )}
+                  <div className="chart-stats-grid-4">
+                    {statItems(stats).map(({ label, value }) => (
+                      <div key={label} className="chart-stat-item">
+                        <span className="chart-stat-label">{label}</span>
+                        <span className="chart-stat-value">{value}</span>
+                      </div>
+                    ))}
+                  </div>
+                  {stats.userValue !== null && stats.userPercentileRank !== null && (
+                    <div className="chart-stat-item chart-stat-user">
+                      <span className="chart-stat-label chart-stat-label-mixedcase">
+                        {t("charts.userPercentileRank", { value: formatStat(stats.userValue) })}
+                      </span>
+                      <span className="chart-stat-value chart-stat-value-user">
+                        P{Math.round(stats.userPercentileRank)}
+                      </span>
+                    </div>
+                  )}
                 </div>
-                <div className="chart-stat-item">
-                  <span className="chart-stat-label">{t("charts.median")}</span>
-                  <span className="chart-stat-value">
-                    {metricMode === "energy"
-                      ? `${Math.round(stats.median)} kWh`
-                      : stats.median.toFixed(2)}
-                  </span>
-                </div>
-              </div>
+              ))}
             </CollapsibleChartStats>
           </div>
         ) : undefined
@@ -229,14 +357,22 @@ export function HistogramChart({
           <ResponsiveBar
             // biome-ignore lint/suspicious/noExplicitAny: Nivo's BarDatum type is too strict for our flexible data structure
             data={chartData as any}
-            keys={["count"]}
+            keys={isComparisonMode ? groupHistograms.map(({ name }) => name) : ["count"]}
             indexBy="binLabel"
+            groupMode="grouped"
             margin={{ top: 10, right: 60, bottom: 70, left: 50 }}
             padding={0.3}
             borderRadius={4}
             valueScale={{ type: "linear" }}
             indexScale={{ type: "band", round: true }}
-            colors={barColor}
+            // Highlight the bin containing the user's own system
+            colors={(bar) =>
+              isComparisonMode
+                ? (groupColors.get(String(bar.id)) ?? barColor)
+                : bar.data.containsUserSystem
+                  ? CHART_COLORS.user
+                  : barColor
+            }
             borderColor={{
               from: "color",
               modifiers: [["darker", 1.6]],
@@ -247,7 +383,7 @@ export function HistogramChart({
               tickSize: 5,
               tickPadding: 5,
               legend:
-                metricMode === "energy" ? t("charts.electricalEnergyTotal") : t("charts.azValue"),
+                metricMode === "cop" ? t("charts.azValue") : t(METRIC_LABEL_KEYS[metricMode].axis),
               legendPosition: "middle",
               legendOffset: 30,
             }}
@@ -273,22 +409,38 @@ export function HistogramChart({
               "legends",
               "annotations",
             ]}
-            tooltip={({ indexValue, value }) => (
+            tooltip={({ id, indexValue, value, color, data }) => (
               <div className="chart-tooltip">
                 <div className="chart-tooltip-header">
-                  {metricMode === "energy" ? t("charts.electricalEnergyTotal") : t("common.az")}:{" "}
+                  {metricMode === "cop" ? t("common.az") : t(METRIC_LABEL_KEYS[metricMode].total)}:{" "}
                   {indexValue}
-                  {metricMode === "energy" ? " kWh" : ""}
+                  {METRIC_UNITS[metricMode] ? ` ${METRIC_UNITS[metricMode]}` : ""}
                 </div>
                 <div className="chart-tooltip-item">
                   <div
                     className="chart-tooltip-indicator chart-tooltip-indicator-bar chart-tooltip-indicator-custom"
-                    style={{ backgroundColor: barColor }}
+                    style={{ backgroundColor: isComparisonMode ? color : barColor }}
                   />
                   <span className="chart-tooltip-text">
+                    {isComparisonMode && `${id} – `}
                     {t("charts.systems")}: <strong>{value}</strong>
                   </span>
                 </div>
+                {data.containsUserSystem && (
+                  <div className="chart-tooltip-item">
+                    <div
+                      className="chart-tooltip-indicator chart-tooltip-indicator-bar chart-tooltip-indicator-custom"
+                      style={{ backgroundColor: CHART_COLORS.user }}
+                    />
+                    <span className="chart-tooltip-text">
+                      {t(
+                        highlightHeatingIds
+                          ? "charts.highlightedSystemInBin"
+                          : "charts.userSystemInBin",
+                      )}
+                    </span>
+                  </div>
+                )}
               </div>
             )}
             legends={[
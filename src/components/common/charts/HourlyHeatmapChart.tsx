@@ -0,0 +1,85 @@
+import dayjs from "dayjs";
+import { useTranslation } from "react-i18next";
+import { HEATMAP_HOURS, type HourlyHeatmap, heatmapCellKey } from "../../../lib/hourlyHeatmap";
+import { formatMetricValue } from "../../../lib/metricModes";
+import type { MetricMode } from "./AzBarChart";
+
+interface HourlyHeatmapChartProps {
+  heatmap: HourlyHeatmap;
+  metricMode: MetricMode;
+  onSelectDate: (date: string) => void;
+}
+
+// Share of the primary color in a cell, the lowest value keeps a visible tint
+function cellShare(value: number, min: number, max: number): number {
+  if (max <= min) return 100;
+  return Math.round(15 + ((value - min) / (max - min)) * 85);
+}
+
+/**
+ * Hour-of-day × day-of-month grid of one month, colored by the selected metric.
+ * Clicking a day or one of its cells opens the hourly view of that day.
+ */
+export function HourlyHeatmapChart({ heatmap, metricMode, onSelectDate }: HourlyHeatmapChartProps) {
+  const { t } = useTranslation();
+  const { dates, values, min, max } = heatmap;
+
+  if (min == null || max == null) {
+    return <div className="chart-no-data-card">{t("common.noData")}</div>;
+  }
+
+  return (
+    <div className="chart-container heatmap-chart">
+      <div
+        className="heatmap-grid"
+        style={{ gridTemplateColumns: `auto repeat(${dates.length}, minmax(0, 1fr))` }}
+      >
+        <span className="heatmap-axis-label">{t("common.hour")}</span>
+        {dates.map((date) => (
+          <button
+            key={date}
+            type="button"
+            className="heatmap-day"
+            onClick={() => onSelectDate(date)}
+            title={t("charts.heatmapOpenDay", { date: dayjs(date).format("DD.MM.YYYY") })}
+          >
+            {dayjs(date).date()}
+          </button>
+        ))}
+        {HEATMAP_HOURS.map((hour) => [
+          <span key={`hour-${hour}`} className="heatmap-hour">
+            {hour}
+          </span>,
+          ...dates.map((date) => {
+            const value = values.get(heatmapCellKey(date, hour));
+            const title = `${dayjs(date).format("DD.MM.YYYY")}, ${hour}:00 – ${
+              value != null ? formatMetricValue(value.toFixed(2), metricMode) : t("common.noData")
+            }`;
+            return (
+              <button
+                key={heatmapCellKey(date, hour)}
+                type="button"
+                className={value != null ? "heatmap-cell" : "heatmap-cell heatmap-cell-empty"}
+                style={
+                  value != null
+                    ? {
+                        background: `color-mix(in srgb, var(--primary-color) ${cellShare(value, min, max)}%, var(--primary-light))`,
+                      }
+                    : undefined
+                }
+                onClick={() => onSelectDate(date)}
+                title={title}
+                aria-label={title}
+              />
+            );
+          }),
+        ])}
+      </div>
+      <div className="heatmap-legend">
+        <span>{formatMetricValue(min.toFixed(2), metricMode)}</span>
+        <span className="heatmap-legend-scale" />
+        <span>{formatMetricValue(max.toFixed(2), metricMode)}</span>
+      </div>
+    </div>
+  );
+}
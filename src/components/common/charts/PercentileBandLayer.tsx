@@ -0,0 +1,82 @@
+import { percentileKey } from "../../../lib/chartDataProcessing";
+import { CHART_COLORS } from "../../../lib/chartTheme";
+
+interface PercentileBandLayerProps {
+  // biome-ignore lint/suspicious/noExplicitAny: Nivo's bar type is complex and not exported
+  bars: any[];
+  // biome-ignore lint/suspicious/noExplicitAny: Nivo's scale types are complex and not exported
+  yScale: any;
+  showPercentileBands: boolean;
+}
+
+/**
+ * Draws the spread behind each aggregated bar: a whisker from P10 to P90
+ * and a box from P25 to P75. Each bar (and thus each comparison group) gets its own band.
+ */
+export default function PercentileBandLayer({
+  bars,
+  yScale,
+  showPercentileBands,
+}: PercentileBandLayerProps) {
+  if (!showPercentileBands || !bars || bars.length === 0) return null;
+
+  return (
+    <g className="chart-percentile-bands">
+      {bars.map((bar) => {
+        const seriesKey = String(bar.data.id);
+        const row = bar.data.data ?? {};
+        const p10 = row[percentileKey(seriesKey, 10)];
+        const p25 = row[percentileKey(seriesKey, 25)];
+        const p75 = row[percentileKey(seriesKey, 75)];
+        const p90 = row[percentileKey(seriesKey, 90)];
+
+        if (typeof p10 !== "number" || typeof p90 !== "number") return null;
+
+        const centerX = bar.x + bar.width / 2;
+        const capWidth = bar.width * 0.3;
+        const boxWidth = bar.width * 0.5;
+
+        return (
+          <g key={bar.key} data-testid="percentile-band">
+            <line
+              x1={centerX}
+              y1={yScale(p10)}
+              x2={centerX}
+              y2={yScale(p90)}
+              stroke={CHART_COLORS.percentileBand}
+              strokeWidth={1}
+            />
+            <line
+              x1={centerX - capWidth / 2}
+              y1={yScale(p10)}
+              x2={centerX + capWidth / 2}
+              y2={yScale(p10)}
+              stroke={CHART_COLORS.percentileBand}
+              strokeWidth={1}
+            />
+            <line
+              x1={centerX - capWidth / 2}
+              y1={yScale(p90)}
+              x2={centerX + capWidth / 2}
+              y2={yScale(p90)}
+              stroke={CHART_COLORS.percentileBand}
+              strokeWidth={1}
+            />
+            {typeof p25 === "number" && typeof p75 === "number" && (
+              <rect
+                x={centerX - boxWidth / 2}
+                y={yScale(p75)}
+                width={boxWidth}
+                height={Math.max(yScale(p25) - yScale(p75), 1)}
+                fill={CHART_COLORS.percentileBand}
+                fillOpacity={0.25}
+                stroke={CHART_COLORS.percentileBand}
+                strokeWidth={1}
+              />
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
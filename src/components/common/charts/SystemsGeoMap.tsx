@@ -5,7 +5,7 @@ import HomeIcon from "@mui/icons-material/Home";
 import LocationOnIcon from "@mui/icons-material/LocationOn";
 import RemoveIcon from "@mui/icons-material/Remove";
 import SquareFootIcon from "@mui/icons-material/SquareFoot";
-import { Card, IconButton, Popover, Tooltip, Typography } from "@mui/material";
+import { Button, Card, IconButton, Popover, Tooltip, Typography } from "@mui/material";
 // @ts-expect-error - projectionById exists at runtime in @nivo/geo but current types might missing it
 import { projectionById, ResponsiveGeoMap } from "@nivo/geo";
 import type { TFunction } from "i18next";
@@ -22,6 +22,7 @@ const ZOOM_STEP = 0.25;
 interface SystemsGeoMapProps {
   systems: HeatingSystemWithLocation[];
   onSystemClick?: (heatingIds: string[]) => void;
+  onSystemOpen?: (heatingId: string) => void;
 }
 
 interface SystemDetails {
@@ -103,12 +104,14 @@ const Markers = ({
   projection,
   mapPoints,
   onSystemClick,
+  onSystemOpen,
   t,
 }: {
   // biome-ignore lint/suspicious/noExplicitAny: complex D3 type
   projection: any;
   mapPoints: MapPoint[];
   onSystemClick?: (ids: string[]) => void;
+  onSystemOpen?: (heatingId: string) => void;
   t: TFunction;
 }) => {
   const [hoveredPointId, setHoveredPointId] = useState<string | null>(null);
@@ -333,6 +336,17 @@ const Markers = ({
                     />
                   )}
                 </div>
+
+                {/* Link to the detail page of the selected system */}
+                {onSystemOpen && (
+                  <Button
+                    size="small"
+                    className="geo-map-popover-details-link"
+                    onClick={() => onSystemOpen(selectedPoint.heatingIds[selectedSystemIndex])}
+                  >
+                    {t("systems.openDetails")}
+                  </Button>
+                )}
               </div>
             );
           })()}
@@ -341,7 +355,7 @@ const Markers = ({
   );
 };
 
-export function SystemsGeoMap({ systems, onSystemClick }: SystemsGeoMapProps) {
+export function SystemsGeoMap({ systems, onSystemClick, onSystemOpen }: SystemsGeoMapProps) {
   const { t } = useTranslation();
 
   // Zoom and pan state
@@ -593,6 +607,7 @@ export function SystemsGeoMap({ systems, onSystemClick }: SystemsGeoMapProps) {
                   projection={proj}
                   mapPoints={mapPoints}
                   onSystemClick={onSystemClick}
+                  onSystemOpen={onSystemOpen}
                   t={t}
                 />
               );
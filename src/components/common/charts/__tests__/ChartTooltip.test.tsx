@@ -9,6 +9,8 @@ vi.mock("react-i18next", () => ({
       const translations: Record<string, string> = {
         "common.outdoorTemperature": "Outdoor Temperature",
         "common.flowTemperature": "Flow Temperature",
+        "charts.aggregation": "Aggregation",
+        "charts.aggregationModes.weighted": "Energy-weighted",
       };
       return translations[key] || key;
     },
@@ -161,4 +163,24 @@ describe("ChartTooltip", () => {
     expect(screen.getByText(/-5.5°C/)).toBeInTheDocument();
     expect(screen.getByText(/30\.0°C/)).toBeInTheDocument();
   });
+
+  it("states the aggregation strategy when provided", () => {
+    render(
+      <ChartTooltip
+        id="AZ Heating"
+        value={3.5}
+        color="#23a477"
+        indexValue="January"
+        aggregationMode="weighted"
+      />,
+    );
+
+    expect(screen.getByText(/Aggregation: Energy-weighted/)).toBeInTheDocument();
+  });
+
+  it("omits the aggregation line for unaggregated values", () => {
+    render(<ChartTooltip id="AZ Heating" value={3.5} color="#23a477" indexValue="January" />);
+
+    expect(screen.queryByText(/Aggregation/)).not.toBeInTheDocument();
+  });
 });
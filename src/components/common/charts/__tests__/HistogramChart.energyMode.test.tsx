@@ -2,6 +2,10 @@ import { render, screen } from "@testing-library/react";
 import { describe, expect, it, vi } from "vitest";
 import { HistogramChart } from "../HistogramChart";
 
+vi.mock("../../layout/Layout", () => ({
+  useSession: () => ({ session: null }),
+}));
+
 // Mock @nivo/bar
 vi.mock("@nivo/bar", () => ({
   ResponsiveBar: vi.fn(({ data, legends, tooltip, axisBottom, ...props }) => {
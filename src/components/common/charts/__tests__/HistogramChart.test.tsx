@@ -40,6 +40,12 @@ vi.mock("@nivo/bar", () => ({
   }),
 }));
 
+// Mock the session so tests can act as a logged-in user
+let mockSession: { user: { id: string } } | null = null;
+vi.mock("../../layout/Layout", () => ({
+  useSession: () => ({ session: mockSession }),
+}));
+
 describe("HistogramChart", () => {
   const mockData = [
     {
@@ -203,4 +209,44 @@ describe("HistogramChart", () => {
     // Should only have the 6 realistic systems
     expect(totalSystemsInBins).toBe(6);
   });
+
+  describe("descriptive statistics and user rank", () => {
+    const rankData = [1, 2, 3, 4].map((i) => ({
+      heating_id: `sys${i}`,
+      user_id: i === 3 ? "user-3" : `user-${i}`,
+      thermal_energy_kwh: 100 + i * 20,
+      electrical_energy_kwh: 40,
+      thermal_energy_heating_kwh: 100 + i * 20,
+      electrical_energy_heating_kwh: 40,
+    }));
+
+    it("shows quartiles, spread and trimmed mean", () => {
+      render(<HistogramChart data={rankData} metricMode="cop" />);
+      expect(screen.getByText("charts.q1")).toBeInTheDocument();
+      expect(screen.getByText("charts.q3")).toBeInTheDocument();
+      expect(screen.getByText("charts.iqr")).toBeInTheDocument();
+      expect(screen.getByText("charts.stdDev")).toBeInTheDocument();
+      expect(screen.getByText("charts.trimmedMean")).toBeInTheDocument();
+    });
+
+    it("omits the percentile rank when logged out", () => {
+      mockSession = null;
+      render(<HistogramChart data={rankData} metricMode="cop" />);
+      expect(screen.queryByText(/^P\d+$/)).not.toBeInTheDocument();
+    });
+
+    it("shows the percentile rank and marks the bin of the user's system", () => {
+      mockSession = { user: { id: "user-3" } };
+      render(<HistogramChart data={rankData} metricMode="cop" binSize={0.25} />);
+
+      // sys3 has AZ 4.0 and is the third of four systems: (2 + 0.5) / 4 = 62.5%
+      expect(screen.getByText("P63")).toBeInTheDocument();
+
+      const chartData = JSON.parse(screen.getByTestId("chart-data").textContent || "[]");
+      const userBins = chartData.filter((bin: any) => bin.containsUserSystem);
+      expect(userBins).toHaveLength(1);
+      expect(userBins[0].systemIds).toEqual(["sys3"]);
+      mockSession = null;
+    });
+  });
 });
@@ -0,0 +1,95 @@
+import { render } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import PercentileBandLayer from "../PercentileBandLayer";
+
+describe("PercentileBandLayer", () => {
+  // Linear scale mapping 0..10 to 300..0 (SVG coordinates: bottom to top)
+  const mockYScale = (value: number) => 300 - value * 30;
+
+  const makeBar = (id: string, x: number, data: Record<string, unknown>) => ({
+    key: `${id}.${data.month}`,
+    x,
+    width: 40,
+    data: { id, data },
+  });
+
+  const bandRow = {
+    month: "1",
+    "COP (total)": 3.5,
+    "COP (total)::p10": 2,
+    "COP (total)::p25": 3,
+    "COP (total)::p75": 4,
+    "COP (total)::p90": 5,
+  };
+
+  it("renders nothing when bands are hidden", () => {
+    const { container } = render(
+      <svg role="img" aria-label="test chart">
+        <PercentileBandLayer
+          bars={[makeBar("COP (total)", 50, bandRow)]}
+          yScale={mockYScale}
+          showPercentileBands={false}
+        />
+      </svg>,
+    );
+
+    expect(container.querySelector("g")).toBeNull();
+  });
+
+  it("draws a whisker from P10 to P90 and a box from P25 to P75", () => {
+    const { container } = render(
+      <svg role="img" aria-label="test chart">
+        <PercentileBandLayer
+          bars={[makeBar("COP (total)", 50, bandRow)]}
+          yScale={mockYScale}
+          showPercentileBands={true}
+        />
+      </svg>,
+    );
+
+    const whisker = container.querySelector("line");
+    expect(whisker?.getAttribute("x1")).toBe("70");
+    expect(whisker?.getAttribute("y1")).toBe("240");
+    expect(whisker?.getAttribute("y2")).toBe("150");
+
+    const box = container.querySelector("rect");
+    expect(box?.getAttribute("y")).toBe("180");
+    expect(box?.getAttribute("height")).toBe("30");
+  });
+
+  it("draws one band per comparison group bar", () => {
+    const row = {
+      month: "1",
+      "COP (total) (A)::p10": 2,
+      "COP (total) (A)::p90": 4,
+      "COP (total) (B)::p10": 3,
+      "COP (total) (B)::p90": 5,
+    };
+
+    const { getAllByTestId } = render(
+      <svg role="img" aria-label="test chart">
+        <PercentileBandLayer
+          bars={[makeBar("COP (total) (A)", 50, row), makeBar("COP (total) (B)", 100, row)]}
+          yScale={mockYScale}
+          showPercentileBands={true}
+        />
+      </svg>,
+    );
+
+    expect(getAllByTestId("percentile-band")).toHaveLength(2);
+  });
+
+  it("skips bars without percentile data", () => {
+    const { queryAllByTestId } = render(
+      <svg role="img" aria-label="test chart">
+        <PercentileBandLayer
+          bars={[makeBar("COP (total)", 50, { month: "1", "COP (total)": 3.5 })]}
+          yScale={mockYScale}
+          showPercentileBands={true}
+        />
+      </svg>,
+    );
+
+    expect(queryAllByTestId("percentile-band")).toHaveLength(0);
+  });
+});
@@ -13,6 +13,7 @@ vi.mock("react-i18next", () => ({
         "systems.unnamedSystem": "Unnamed System",
         "systems.systemsAtLocation": `${options?.count || ""} systems at this location`,
         "systems.systemDetails": "System Details",
+        "systems.openDetails": "Show details",
         "systemForm.buildingType": "Building Type",
         "systemForm.buildingConstructionYear": "Construction Year",
         "tableHeaders.postalCode": "Postal Code",
@@ -102,6 +103,7 @@ describe("SystemsGeoMap", () => {
     building_energy_standard: "kfw_55",
     design_outdoor_temp_c: -10,
     thermometer_offset_k: null,
+    standby_power_w: null,
     used_for_heating: true,
     used_for_dhw: true,
     used_for_cooling: false,
@@ -164,6 +166,23 @@ describe("SystemsGeoMap", () => {
     expect(screen.getByText("1995")).toBeInTheDocument();
   });
 
+  it("should open the detail page of the selected system from the popover", async () => {
+    const user = userEvent.setup();
+    const onSystemOpen = vi.fn();
+    const systems = [
+      createMockSystem("1", "System 1", 50.0, 10.0),
+      createMockSystem("2", "System 2", 50.0, 10.0),
+    ];
+
+    const { container } = render(<SystemsGeoMap systems={systems} onSystemOpen={onSystemOpen} />);
+
+    await user.click(container.querySelector(".markers g[role='button']")!);
+    await user.click(screen.getByText("System 2"));
+    await user.click(screen.getByText("Show details"));
+
+    expect(onSystemOpen).toHaveBeenCalledWith("2");
+  });
+
   it("should handle zoom buttons", async () => {
     const user = userEvent.setup();
     const systems = [createMockSystem("1", "System 1", 52.0, 13.0)];
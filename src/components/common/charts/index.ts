@@ -1,11 +1,21 @@
-export type { ChartDataRow, ComparisonDataGroup, MetricMode } from "./AzBarChart";
+export type {
+  AggregationMode,
+  ChartDataRow,
+  ComparisonDataGroup,
+  MetricMode,
+} from "./AzBarChart";
 export { default as AzBarChart } from "./AzBarChart";
 export type { ScatterDataPoint } from "./AzScatterChart";
 export { AzScatterChart } from "./AzScatterChart";
 export type { YearlyEnergyScatterDataPoint } from "./AzYearlyEnergyScatterChart";
 export { AzYearlyEnergyScatterChart } from "./AzYearlyEnergyScatterChart";
+export { DefrostChart } from "./DefrostChart";
+export { EnergySignatureChart } from "./EnergySignatureChart";
+export { FirmwareImpactChart } from "./FirmwareImpactChart";
 export type { HeatingCurveDataPoint } from "./HeatingCurveChart";
 export { HeatingCurveChart } from "./HeatingCurveChart";
+export { HeatingCurveSystemChart } from "./HeatingCurveSystemChart";
 export type { HistogramBin } from "./HistogramChart";
 export { HistogramChart } from "./HistogramChart";
+export { HourlyHeatmapChart } from "./HourlyHeatmapChart";
 export { SystemsGeoMap } from "./SystemsGeoMap";
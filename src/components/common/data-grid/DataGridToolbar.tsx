@@ -1,16 +1,25 @@
+import AddIcon from "@mui/icons-material/Add";
+import BookmarksIcon from "@mui/icons-material/Bookmarks";
 import CancelIcon from "@mui/icons-material/Cancel";
+import DeleteIcon from "@mui/icons-material/Delete";
 import FileDownloadIcon from "@mui/icons-material/FileDownload";
 import FilterListIcon from "@mui/icons-material/FilterList";
 import PersonIcon from "@mui/icons-material/Person";
+import RemoveIcon from "@mui/icons-material/Remove";
 import SearchIcon from "@mui/icons-material/Search";
 import ViewColumnIcon from "@mui/icons-material/ViewColumn";
 import {
+  Alert,
+  type AlertColor,
   Badge,
   Box,
   Divider,
+  IconButton,
   InputAdornment,
+  ListItemText,
   Menu,
   MenuItem,
+  Snackbar,
   TextField,
   Tooltip,
   Typography,
@@ -22,31 +31,48 @@ import {
   ExportPrint,
   type GridColDef,
   type GridFilterModel,
+  gridVisibleColumnDefinitionsSelector,
   QuickFilter,
   QuickFilterClear,
   QuickFilterControl,
   QuickFilterTrigger,
   Toolbar,
   ToolbarButton,
+  useGridApiContext,
+  useGridSelector,
 } from "@mui/x-data-grid";
 import { type MouseEvent, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { CHART_COLORS } from "../../../lib/chartTheme";
+import type { FilterGroupAppearance } from "../../../hooks/useComparisonFilters";
+import { useFilterPresets } from "../../../hooks/useFilterPresets";
+import { comparisonGroupColor, MAX_COMPARISON_GROUPS } from "../../../lib/chartTheme";
+import { type FilterPreset, fitFilterPresetToFields } from "../../../lib/filterPresets";
+import { encodeFilterModel } from "../../../lib/urlState";
 import { MultiFilterPanel } from "./MultiFilterPanel";
 
 interface DataGridToolbarInternalProps {
   userId?: string | null;
+  // Quick search filters the loaded rows, so it is hidden when the server filters
+  showQuickFilter?: boolean;
+  // Exports cover the loaded rows, which is only the current page when the server pages
+  exportPageOnly?: boolean;
   // Comparison mode props
   comparisonMode?: boolean;
-  activeGroup?: 1 | 2;
-  filterGroup1Count?: number;
-  filterGroup2Count?: number;
-  onFilterGroup1Click?: () => void;
-  onFilterGroup2Click?: () => void;
+  activeGroup?: number;
+  filterGroupCounts?: number[]; // Active filters per group, index 0 is group 1
+  filterGroupAppearances?: FilterGroupAppearance[]; // Names and colors, index 0 is group 1
+  onFilterGroupClick?: (group: number) => void;
+  onAddFilterGroup?: () => void;
+  onRemoveFilterGroup?: (group: number) => void;
+  onUpdateFilterGroupAppearance?: (
+    group: number,
+    appearance: { label?: string | null; color?: string | null },
+  ) => void;
   onClearFilterGroup2?: () => void;
   columns?: GridColDef[];
   filterModel?: GridFilterModel;
   onFilterModelChange?: (model: GridFilterModel) => void;
+  onApplyFilterPreset?: (group: number, model: GridFilterModel) => void;
 }
 
 type OwnerState = {
@@ -80,23 +106,44 @@ const StyledTextField = styled(TextField)<{
   transition: theme.transitions.create(["width", "opacity"]),
 }));
 
+// Characters that are not allowed in file names on common systems
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|]+/g;
+
+// Column holding the name of the group shown in the grid, hidden in the grid itself
+export const GROUP_EXPORT_FIELD = "comparison_group";
+
 function DataGridToolbarInternal({
   userId,
+  showQuickFilter = true,
+  exportPageOnly = false,
   comparisonMode = false,
   activeGroup = 1,
-  filterGroup1Count = 0,
-  filterGroup2Count = 0,
-  onFilterGroup1Click,
-  onFilterGroup2Click,
+  filterGroupCounts = [0, 0],
+  filterGroupAppearances,
+  onFilterGroupClick,
+  onAddFilterGroup,
+  onRemoveFilterGroup,
+  onUpdateFilterGroupAppearance,
   onClearFilterGroup2,
   columns = [],
   filterModel = { items: [] },
   onFilterModelChange,
+  onApplyFilterPreset,
 }: DataGridToolbarInternalProps) {
   const { t } = useTranslation();
+  const apiRef = useGridApiContext();
+  const visibleColumns = useGridSelector(apiRef, gridVisibleColumnDefinitionsSelector);
   const [exportMenuOpen, setExportMenuOpen] = useState(false);
   const exportMenuTriggerRef = useRef<HTMLButtonElement>(null);
   const [filterAnchorEl, setFilterAnchorEl] = useState<HTMLElement | null>(null);
+  const { presets, savePreset, deletePreset } = useFilterPresets();
+  const [presetMenuOpen, setPresetMenuOpen] = useState(false);
+  const presetMenuTriggerRef = useRef<HTMLButtonElement>(null);
+  // Shown after applying a preset that did not fit this page's grid or a failed sync
+  const [presetNotice, setPresetNotice] = useState<{
+    severity: AlertColor;
+    message: string;
+  } | null>(null);
   const isFiltered = filterModel.items.some(
     (item) => item.field === "user_id" && item.value === userId,
   );
@@ -126,6 +173,61 @@ function DataGridToolbarInternal({
     }
   };
 
+  const groupColor = (group: number) =>
+    filterGroupAppearances?.[group - 1]?.color ?? comparisonGroupColor(group);
+  const activeAppearance = filterGroupAppearances?.[activeGroup - 1];
+  // In comparison mode, the export is named after the group shown in the grid and starts
+  // with a column carrying the group's name
+  const exportGroup = comparisonMode ? activeAppearance : undefined;
+  const csvFileName = exportGroup?.name.replace(INVALID_FILE_NAME_CHARS, "_");
+  const csvFields = exportGroup
+    ? [
+        GROUP_EXPORT_FIELD,
+        ...visibleColumns
+          .filter((column) => column.field !== GROUP_EXPORT_FIELD && !column.disableExport)
+          .map((column) => column.field),
+      ]
+    : undefined;
+
+  const filterGroupLabel = (group: number) => {
+    if (group === 1) return comparisonMode ? t("toolbar.filter1") : t("toolbar.filters");
+    if (group === 2) return t("toolbar.filter2");
+    return t("toolbar.filterGroup", { group });
+  };
+
+  const handleApplyPreset = (preset: FilterPreset, group: number) => {
+    setPresetMenuOpen(false);
+    const fitted = fitFilterPresetToFields(
+      preset,
+      columns.map((column) => column.field),
+    );
+    if (!fitted) {
+      setPresetNotice({
+        severity: "info",
+        message: t("filterPresets.invalid", { name: preset.name }),
+      });
+      return;
+    }
+    onApplyFilterPreset?.(group, fitted.model);
+    if (fitted.droppedFields.length > 0) {
+      setPresetNotice({
+        severity: "info",
+        message: t("filterPresets.droppedFields", { fields: fitted.droppedFields.join(", ") }),
+      });
+    }
+  };
+
+  // The preset stays on this device if it cannot be synced to the account
+  const showPresetSyncError = (key: string) => (error: unknown) => {
+    const message = error instanceof Error ? error.message : t("common.error");
+    setPresetNotice({ severity: "error", message: t(key, { message }) });
+  };
+
+  const handleSavePreset = (name: string) => {
+    const filter = encodeFilterModel(filterModel);
+    if (filter) savePreset(name, filter).catch(showPresetSyncError("filterPresets.saveFailed"));
+  };
+
   return (
     <Toolbar>
       <Tooltip title={t("toolbar.columns")}>
@@ -135,78 +237,162 @@ function DataGridToolbarInternal({
       </Tooltip>
 
       {/* Comparison Filter Groups */}
-      <Tooltip title={comparisonMode ? t("toolbar.filter1") : t("toolbar.filters")}>
-        <Box
-          sx={{
-            border: activeGroup === 1 ? `2px solid ${CHART_COLORS.group1}` : "none",
-            borderRadius: 1,
-            display: "inline-flex",
-          }}
-        >
+      {filterGroupCounts.map((count, index) => {
+        const group = index + 1;
+        const color = groupColor(group);
+        const label = filterGroupLabel(group);
+        const name = filterGroupAppearances?.[index]?.name;
+        return (
+          <Tooltip key={group} title={comparisonMode && name ? `${label} (${name})` : label}>
+            <Box
+              sx={{
+                border: activeGroup === group ? `2px solid ${color}` : "none",
+                borderRadius: 1,
+                // An empty second group is the entry point of a comparison
+                opacity: group === 1 || comparisonMode ? 1 : 0.5,
+                display: "inline-flex",
+              }}
+            >
+              <ToolbarButton
+                aria-label={label}
+                disabled={group > 1 && !onFilterGroupClick}
+                onClick={(event: MouseEvent<HTMLElement>) => {
+                  onFilterGroupClick?.(group);
+                  setFilterAnchorEl(event.currentTarget);
+                }}
+              >
+                <Badge badgeContent={count} color="success" variant="dot">
+                  <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+                    <FilterListIcon fontSize="small" sx={{ color }} />
+                    {(group > 1 || comparisonMode) && (
+                      <Typography variant="caption" sx={{ color, fontWeight: "bold" }}>
+                        {group}
+                      </Typography>
+                    )}
+                  </Box>
+                </Badge>
+              </ToolbarButton>
+            </Box>
+          </Tooltip>
+        );
+      })}
+
+      {onAddFilterGroup && filterGroupCounts.length < MAX_COMPARISON_GROUPS && (
+        <Tooltip title={t("toolbar.addFilterGroup")}>
           <ToolbarButton
-            aria-label={comparisonMode ? t("toolbar.filter1") : t("toolbar.filters")}
-            onClick={(event: MouseEvent<HTMLElement>) => {
-              onFilterGroup1Click?.();
-              setFilterAnchorEl(event.currentTarget);
+            aria-label={t("toolbar.addFilterGroup")}
+            onClick={() => {
+              onAddFilterGroup();
+              setFilterAnchorEl(null);
             }}
+            size="small"
           >
-            <Badge badgeContent={filterGroup1Count} color="success" variant="dot">
-              <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
-                <FilterListIcon fontSize="small" sx={{ color: CHART_COLORS.group1 }} />
-                {comparisonMode && (
-                  <Typography
-                    variant="caption"
-                    sx={{ color: CHART_COLORS.group1, fontWeight: "bold" }}
-                  >
-                    1
-                  </Typography>
-                )}
-              </Box>
-            </Badge>
+            <AddIcon fontSize="small" />
           </ToolbarButton>
-        </Box>
-      </Tooltip>
+        </Tooltip>
+      )}
 
-      <Tooltip title={t("toolbar.filter2")}>
-        <Box
-          sx={{
-            border: activeGroup === 2 ? `2px solid ${CHART_COLORS.group2}` : "none",
-            borderRadius: 1,
-            opacity: comparisonMode ? 1 : 0.5,
-            display: "inline-flex",
-          }}
-        >
+      {onRemoveFilterGroup && activeGroup > 1 && filterGroupCounts.length > 2 && (
+        <Tooltip title={t("toolbar.removeFilterGroup", { group: activeGroup })}>
           <ToolbarButton
-            aria-label={t("toolbar.filter2")}
-            disabled={!onFilterGroup2Click}
-            onClick={(event: MouseEvent<HTMLElement>) => {
-              onFilterGroup2Click?.();
-              setFilterAnchorEl(event.currentTarget);
-            }}
+            aria-label={t("toolbar.removeFilterGroup", { group: activeGroup })}
+            onClick={() => onRemoveFilterGroup(activeGroup)}
+            size="small"
           >
-            <Badge badgeContent={filterGroup2Count} color="success" variant="dot">
-              <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
-                <FilterListIcon fontSize="small" sx={{ color: CHART_COLORS.group2 }} />
-                <Typography
-                  variant="caption"
-                  sx={{ color: CHART_COLORS.group2, fontWeight: "bold" }}
-                >
-                  2
-                </Typography>
-              </Box>
-            </Badge>
+            <RemoveIcon fontSize="small" sx={{ color: groupColor(activeGroup) }} />
           </ToolbarButton>
-        </Box>
-      </Tooltip>
+        </Tooltip>
+      )}
 
       {comparisonMode && onClearFilterGroup2 && (
         <Tooltip title={t("toolbar.clearFilter2")}>
           <ToolbarButton onClick={onClearFilterGroup2} size="small">
-            <CancelIcon fontSize="small" sx={{ color: CHART_COLORS.group2 }} />
+            <CancelIcon fontSize="small" sx={{ color: groupColor(2) }} />
           </ToolbarButton>
         </Tooltip>
       )}
 
+      {onApplyFilterPreset && (
+        <>
+          <Tooltip title={t("filterPresets.title")}>
+            <ToolbarButton
+              ref={presetMenuTriggerRef}
+              id="filter-preset-menu-trigger"
+              aria-controls="filter-preset-menu"
+              aria-haspopup="true"
+              aria-expanded={presetMenuOpen ? "true" : undefined}
+              aria-label={t("filterPresets.title")}
+              onClick={() => setPresetMenuOpen(true)}
+            >
+              <BookmarksIcon fontSize="small" />
+            </ToolbarButton>
+          </Tooltip>
+
+          <Menu
+            id="filter-preset-menu"
+            anchorEl={presetMenuTriggerRef.current}
+            open={presetMenuOpen}
+            onClose={() => setPresetMenuOpen(false)}
+            slotProps={{
+              list: {
+                "aria-labelledby": "filter-preset-menu-trigger",
+              },
+            }}
+          >
+            {presets.length === 0 && (
+              <MenuItem disabled>
+                <Typography variant="body2">{t("filterPresets.empty")}</Typography>
+              </MenuItem>
+            )}
+            {presets.map((preset) => (
+              <MenuItem
+                key={preset.id}
+                onClick={() => handleApplyPreset(preset, activeGroup)}
+                sx={{ gap: 1 }}
+              >
+                <ListItemText>{preset.name}</ListItemText>
+                {filterGroupCounts.map((_, index) => {
+                  const group = index + 1;
+                  const color = groupColor(group);
+                  return (
+                    <Tooltip key={group} title={t("filterPresets.applyTo", { group })}>
+                      <IconButton
+                        size="small"
+                        aria-label={t("filterPresets.applyTo", { group })}
+                        disabled={group > 1 && !onFilterGroupClick}
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleApplyPreset(preset, group);
+                        }}
+                      >
+                        <FilterListIcon fontSize="small" sx={{ color }} />
+                        <Typography variant="caption" sx={{ color, fontWeight: "bold" }}>
+                          {group}
+                        </Typography>
+                      </IconButton>
+                    </Tooltip>
+                  );
+                })}
+                <Tooltip title={t("filterPresets.delete")}>
+                  <IconButton
+                    size="small"
+                    aria-label={t("filterPresets.delete")}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      deletePreset(preset.id).catch(
+                        showPresetSyncError("filterPresets.deleteFailed"),
+                      );
+                    }}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </MenuItem>
+            ))}
+          </Menu>
+        </>
+      )}
+
       <Divider orientation="vertical" variant="middle" flexItem sx={{ mx: 0.5 }} />
 
       <Tooltip title={t("toolbar.export")}>
@@ -238,8 +424,12 @@ function DataGridToolbarInternal({
         <ExportPrint render={<MenuItem />} onClick={() => setExportMenuOpen(false)}>
           {t("toolbar.print")}
         </ExportPrint>
-        <ExportCsv render={<MenuItem />} onClick={() => setExportMenuOpen(false)}>
-          {t("toolbar.downloadCsv")}
+        <ExportCsv
+          render={<MenuItem />}
+          options={{ fileName: csvFileName, fields: csvFields }}
+          onClick={() => setExportMenuOpen(false)}
+        >
+          {exportPageOnly ? t("toolbar.downloadCsvPage") : t("toolbar.downloadCsv")}
         </ExportCsv>
       </Menu>
 
@@ -262,67 +452,87 @@ function DataGridToolbarInternal({
         </>
       )}
 
-      <StyledQuickFilter>
-        <QuickFilterTrigger
-          render={(triggerProps, state) => (
-            <Tooltip title={t("toolbar.search")} enterDelay={0}>
-              <StyledToolbarButton
-                {...triggerProps}
+      {showQuickFilter && (
+        <StyledQuickFilter>
+          <QuickFilterTrigger
+            render={(triggerProps, state) => (
+              <Tooltip title={t("toolbar.search")} enterDelay={0}>
+                <StyledToolbarButton
+                  {...triggerProps}
+                  ownerState={{ expanded: state.expanded }}
+                  color="default"
+                  aria-disabled={state.expanded}
+                >
+                  <SearchIcon fontSize="small" />
+                </StyledToolbarButton>
+              </Tooltip>
+            )}
+          />
+          <QuickFilterControl
+            render={({ ref, ...controlProps }, state) => (
+              <StyledTextField
+                {...controlProps}
                 ownerState={{ expanded: state.expanded }}
-                color="default"
-                aria-disabled={state.expanded}
-              >
-                <SearchIcon fontSize="small" />
-              </StyledToolbarButton>
-            </Tooltip>
-          )}
-        />
-        <QuickFilterControl
-          render={({ ref, ...controlProps }, state) => (
-            <StyledTextField
-              {...controlProps}
-              ownerState={{ expanded: state.expanded }}
-              inputRef={ref}
-              aria-label={t("toolbar.search")}
-              placeholder={t("toolbar.searchPlaceholder")}
-              size="small"
-              slotProps={{
-                input: {
-                  startAdornment: (
-                    <InputAdornment position="start">
-                      <SearchIcon fontSize="small" />
-                    </InputAdornment>
-                  ),
-                  endAdornment: state.value ? (
-                    <InputAdornment position="end">
-                      <QuickFilterClear
-                        edge="end"
-                        size="small"
-                        aria-label={t("toolbar.clearSearch")}
-                        material={{ sx: { marginRight: -0.75 } }}
-                      >
-                        <CancelIcon fontSize="small" />
-                      </QuickFilterClear>
-                    </InputAdornment>
-                  ) : null,
-                  ...controlProps.slotProps?.input,
-                },
-                ...controlProps.slotProps,
-              }}
-            />
-          )}
-        />
-      </StyledQuickFilter>
+                inputRef={ref}
+                aria-label={t("toolbar.search")}
+                placeholder={t("toolbar.searchPlaceholder")}
+                size="small"
+                slotProps={{
+                  input: {
+                    startAdornment: (
+                      <InputAdornment position="start">
+                        <SearchIcon fontSize="small" />
+                      </InputAdornment>
+                    ),
+                    endAdornment: state.value ? (
+                      <InputAdornment position="end">
+                        <QuickFilterClear
+                          edge="end"
+                          size="small"
+                          aria-label={t("toolbar.clearSearch")}
+                          material={{ sx: { marginRight: -0.75 } }}
+                        >
+                          <CancelIcon fontSize="small" />
+                        </QuickFilterClear>
+                      </InputAdornment>
+                    ) : null,
+                    ...controlProps.slotProps?.input,
+                  },
+                  ...controlProps.slotProps,
+                }}
+              />
+            )}
+          />
+        </StyledQuickFilter>
+      )}
 
       <MultiFilterPanel
         anchorEl={filterAnchorEl}
         columns={columns}
-        groupColor={activeGroup === 1 ? CHART_COLORS.group1 : CHART_COLORS.group2}
-        groupLabel={activeGroup === 1 ? t("multiFilter.group1") : t("multiFilter.group2")}
+        groupColor={groupColor(activeGroup)}
+        groupLabel={t("multiFilter.group", { group: activeGroup })}
+        groupAppearance={comparisonMode || activeGroup > 1 ? activeAppearance : undefined}
+        onGroupAppearanceChange={
+          onUpdateFilterGroupAppearance
+            ? (appearance) => onUpdateFilterGroupAppearance(activeGroup, appearance)
+            : undefined
+        }
         model={filterModel}
         onChange={(model) => onFilterModelChange?.(model)}
         onClose={() => setFilterAnchorEl(null)}
+        onSavePreset={onApplyFilterPreset ? handleSavePreset : undefined}
       />
+
+      <Snackbar
+        open={presetNotice != null}
+        autoHideDuration={8000}
+        onClose={() => setPresetNotice(null)}
+        anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+      >
+        <Alert severity={presetNotice?.severity} onClose={() => setPresetNotice(null)}>
+          {presetNotice?.message}
+        </Alert>
+      </Snackbar>
     </Toolbar>
   );
 }
@@ -1,14 +1,36 @@
 import DeleteIcon from "@mui/icons-material/Delete";
 import { IconButton } from "@mui/material";
 import { createTheme, ThemeProvider } from "@mui/material/styles";
-import { DataGrid, type GridColDef, type GridFilterModel, useGridApiRef } from "@mui/x-data-grid";
+import {
+  DataGrid,
+  type GridColDef,
+  type GridColumnVisibilityModel,
+  type GridFilterModel,
+  type GridPaginationModel,
+  type GridSortModel,
+  useGridApiRef,
+} from "@mui/x-data-grid";
 import { deDE } from "@mui/x-data-grid/locales";
 import { useEffect, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import type { FilterGroupAppearance } from "../../../hooks/useComparisonFilters";
 import { useDataGridFilter } from "../../../hooks/useDataGridFilter";
 import { applyGridFilterModel, countActiveFilterItems } from "../../../lib/filterModelUtils";
 import { createFilterValueResolver } from "../../../lib/filterValueResolver";
+import { serverFieldName } from "../../../lib/serverFilterModel";
 import { useSession } from "../layout/Layout";
-import { DataGridToolbar } from "./DataGridToolbar";
+import { DataGridToolbar, GROUP_EXPORT_FIELD } from "./DataGridToolbar";
+
+// Pagination, sorting and filtering done by the server; rows are the current page only
+export interface ServerGridOptions {
+  rowCount: number;
+  paginationModel: GridPaginationModel;
+  onPaginationModelChange: (model: GridPaginationModel) => void;
+  sortModel: GridSortModel;
+  onSortModelChange: (model: GridSortModel) => void;
+  // Columns of the queried view the server can sort by
+  sortFields: ReadonlySet<string>;
+}
 
 interface DataGridWrapperProps<T = Record<string, unknown>> {
   rows: T[];
@@ -16,20 +38,30 @@ interface DataGridWrapperProps<T = Record<string, unknown>> {
   loading?: boolean;
   getRowId: (row: T) => string | number;
   columnVisibilityModel?: Record<string, boolean>;
+  onColumnVisibilityModelChange?: (model: GridColumnVisibilityModel) => void;
   onFilterChange?: (filteredData: T[]) => void;
   // Comparison mode props
   comparisonMode?: boolean;
-  activeGroup?: 1 | 2;
+  activeGroup?: number;
   activeFilterModel?: GridFilterModel;
   filterGroup1Count?: number;
   filterGroup2Count?: number;
+  filterGroupCounts?: number[]; // Active filters per group, index 0 is group 1
+  filterGroupAppearances?: FilterGroupAppearance[]; // Names and colors, index 0 is group 1
   onFilterModelChange?: (model: GridFilterModel) => void;
-  onUpdateFilterGroup?: (group: 1 | 2, model: GridFilterModel) => void;
-  onSetActiveGroup?: (group: 1 | 2) => void;
+  onUpdateFilterGroup?: (group: number, model: GridFilterModel) => void;
+  onSetActiveGroup?: (group: number) => void;
+  onAddFilterGroup?: () => void;
+  onRemoveFilterGroup?: (group: number) => void;
+  onUpdateFilterGroupAppearance?: (
+    group: number,
+    appearance: { label?: string | null; color?: string | null },
+  ) => void;
   onClearFilterGroup2?: () => void;
   // Delete action props
   onDeleteRow?: (rowId: string | number) => void;
   deleteDisabled?: boolean;
+  serverMode?: ServerGridOptions;
 }
 
 export function DataGridWrapper<T = Record<string, unknown>>({
@@ -38,25 +70,44 @@ export function DataGridWrapper<T = Record<string, unknown>>({
   loading = false,
   getRowId,
   columnVisibilityModel,
+  onColumnVisibilityModelChange,
   onFilterChange,
   comparisonMode = false,
   activeGroup = 1,
   activeFilterModel,
   filterGroup1Count = 0,
   filterGroup2Count = 0,
+  filterGroupCounts,
+  filterGroupAppearances,
   onFilterModelChange: onFilterModelChangeFromProps,
+  onUpdateFilterGroup,
   onSetActiveGroup,
+  onAddFilterGroup,
+  onRemoveFilterGroup,
+  onUpdateFilterGroupAppearance,
   onClearFilterGroup2,
   onDeleteRow,
   deleteDisabled = false,
+  serverMode,
 }: DataGridWrapperProps<T>) {
+  const { t } = useTranslation();
   const { session } = useSession();
   const apiRef = useGridApiRef();
 
+  // The server can only sort by columns of the queried view
+  const serverColumns = useMemo(() => {
+    if (!serverMode) return columns;
+    return columns.map((column) => ({
+      ...column,
+      sortable:
+        column.sortable !== false && serverMode.sortFields.has(serverFieldName(column.field)),
+    }));
+  }, [columns, serverMode]);
+
   // Add delete action column if onDeleteRow is provided and user is logged in
   const columnsWithActions = useMemo(() => {
     if (!onDeleteRow || !session) {
-      return columns;
+      return serverColumns;
     }
 
     const deleteColumn: GridColDef = {
@@ -95,22 +146,39 @@ export function DataGridWrapper<T = Record<string, unknown>>({
       },
     };
 
-    return [...columns, deleteColumn];
-  }, [columns, onDeleteRow, session, deleteDisabled]);
+    return [...serverColumns, deleteColumn];
+  }, [serverColumns, onDeleteRow, session, deleteDisabled]);
+
+  // The toolbar exports the name of the active group with the rows in comparison mode
+  const activeGroupName = filterGroupAppearances?.[activeGroup - 1]?.name ?? null;
+  const gridColumns = useMemo(() => {
+    const groupColumn: GridColDef = {
+      field: GROUP_EXPORT_FIELD,
+      headerName: t("toolbar.groupColumn"),
+      valueGetter: () => activeGroupName,
+      sortable: false,
+      filterable: false,
+      disableColumnMenu: true,
+    };
+    return [...columnsWithActions, groupColumn];
+  }, [columnsWithActions, activeGroupName, t]);
 
   const currentFilterModel = activeFilterModel ?? { items: [] };
   const resolveFilterValue = useMemo(
     () => createFilterValueResolver<T & Record<string, unknown>>(columnsWithActions),
     [columnsWithActions],
   );
+  // In server mode the rows already match the filters
   const filteredRows = useMemo(
     () =>
-      applyGridFilterModel(
-        rows as Array<T & Record<string, unknown>>,
-        currentFilterModel,
-        resolveFilterValue,
-      ) as T[],
-    [rows, currentFilterModel, resolveFilterValue],
+      serverMode
+        ? rows
+        : (applyGridFilterModel(
+            rows as Array<T & Record<string, unknown>>,
+            currentFilterModel,
+            resolveFilterValue,
+          ) as T[]),
+    [rows, currentFilterModel, resolveFilterValue, serverMode],
   );
 
   // Use custom hook to handle DataGrid filtering
@@ -158,15 +226,28 @@ export function DataGridWrapper<T = Record<string, unknown>>({
     onFilterModelChangeFromProps?.(model);
   };
 
-  // Handle filter group button clicks
-  const handleFilterGroup1Click = () => {
-    onSetActiveGroup?.(1);
+  // Presets replace the filters of the chosen group and make it the active one
+  const handleApplyFilterPreset = (group: number, model: GridFilterModel) => {
+    onSetActiveGroup?.(group);
+    if (onUpdateFilterGroup) {
+      onUpdateFilterGroup(group, model);
+    } else {
+      onFilterModelChangeFromProps?.(model);
+    }
+    handleFilterModelChange(model);
   };
 
-  const handleFilterGroup2Click = () => {
-    onSetActiveGroup?.(2);
+  // Handle filter group button clicks
+  const handleFilterGroupClick = (group: number) => {
+    onSetActiveGroup?.(group);
   };
 
+  // The active group's count falls back to the model shown in the grid
+  const groupCounts = (filterGroupCounts ?? [filterGroup1Count, filterGroup2Count]).map(
+    (count, index) =>
+      count || (activeGroup === index + 1 ? countActiveFilterItems(currentFilterModel) : 0),
+  );
+
   const theme = createTheme(
     {
       palette: {
@@ -183,20 +264,33 @@ export function DataGridWrapper<T = Record<string, unknown>>({
     <div className="data-grid-container">
       <ThemeProvider theme={theme}>
         <DataGrid
+          // Pagination and sorting switch between controlled and uncontrolled with the mode
+          key={serverMode ? "server" : "client"}
           apiRef={apiRef}
           rowHeight={20}
           rows={filteredRows}
-          columns={columnsWithActions}
+          columns={gridColumns}
           loading={loading}
           getRowId={getRowId}
           initialState={{
             columns: {
-              columnVisibilityModel: columnVisibilityModel || {},
+              columnVisibilityModel: { [GROUP_EXPORT_FIELD]: false, ...columnVisibilityModel },
             },
           }}
+          onColumnVisibilityModelChange={onColumnVisibilityModelChange}
           disableColumnFilter
           onFilterModelChange={handleFilterModelChange}
           pageSizeOptions={[10, 25, 50, 100]}
+          {...(serverMode && {
+            paginationMode: "server",
+            sortingMode: "server",
+            filterMode: "server",
+            rowCount: serverMode.rowCount,
+            paginationModel: serverMode.paginationModel,
+            onPaginationModelChange: serverMode.onPaginationModelChange,
+            sortModel: serverMode.sortModel,
+            onSortModelChange: serverMode.onSortModelChange,
+          })}
           disableRowSelectionOnClick
           showCellVerticalBorder
           showColumnVerticalBorder
@@ -206,22 +300,32 @@ export function DataGridWrapper<T = Record<string, unknown>>({
             toolbar: DataGridToolbar as any,
           }}
           slotProps={{
+            columnsManagement: {
+              getTogglableColumns: (columns) =>
+                columns
+                  .filter((column) => column.field !== GROUP_EXPORT_FIELD)
+                  .map((column) => column.field),
+            },
             toolbar: {
               userId: session?.user?.id,
+              showQuickFilter: !serverMode,
+              exportPageOnly: serverMode != null,
               comparisonMode,
               activeGroup,
-              filterGroup1Count:
-                filterGroup1Count ||
-                (activeGroup === 1 ? countActiveFilterItems(currentFilterModel) : 0),
-              filterGroup2Count:
-                filterGroup2Count ||
-                (activeGroup === 2 ? countActiveFilterItems(currentFilterModel) : 0),
-              onFilterGroup1Click: handleFilterGroup1Click,
-              onFilterGroup2Click: handleFilterGroup2Click,
+              filterGroupCounts: groupCounts,
+              filterGroupAppearances,
+              onFilterGroupClick: handleFilterGroupClick,
+              onAddFilterGroup,
+              onRemoveFilterGroup,
+              onUpdateFilterGroupAppearance,
               onClearFilterGroup2,
               columns: columnsWithActions,
               filterModel: currentFilterModel,
               onFilterModelChange: handleFilterChange,
+              onApplyFilterPreset:
+                onUpdateFilterGroup || onFilterModelChangeFromProps
+                  ? handleApplyFilterPreset
+                  : undefined,
               // biome-ignore lint/suspicious/noExplicitAny: Custom comparison props not in MUI's type definition
             } as any,
           }}
@@ -1,6 +1,8 @@
 import AddIcon from "@mui/icons-material/Add";
+import BookmarkAddIcon from "@mui/icons-material/BookmarkAdd";
 import CloseIcon from "@mui/icons-material/Close";
 import DeleteIcon from "@mui/icons-material/Delete";
+import RestartAltIcon from "@mui/icons-material/RestartAlt";
 import {
   Box,
   Button,
@@ -13,6 +15,7 @@ import {
   Select,
   Stack,
   TextField,
+  Tooltip,
   Typography,
 } from "@mui/material";
 import {
@@ -22,7 +25,11 @@ import {
   GridLogicOperator,
   type GridSingleSelectColDef,
 } from "@mui/x-data-grid";
+import { useState } from "react";
 import { useTranslation } from "react-i18next";
+import type { FilterGroupAppearance } from "../../../hooks/useComparisonFilters";
+import { GROUP_COLOR_CHOICES } from "../../../lib/chartTheme";
+import { countActiveFilterItems } from "../../../lib/filterModelUtils";
 
 interface MultiFilterPanelProps {
   anchorEl: HTMLElement | null;
@@ -32,6 +39,11 @@ interface MultiFilterPanelProps {
   model: GridFilterModel;
   onChange: (model: GridFilterModel) => void;
   onClose: () => void;
+  // Saves the current filters as a named preset
+  onSavePreset?: (name: string) => void;
+  // Name and color of the group in charts; editable when a change handler is given
+  groupAppearance?: FilterGroupAppearance;
+  onGroupAppearanceChange?: (appearance: { label?: string | null; color?: string | null }) => void;
 }
 
 const STRING_OPERATORS = [
@@ -99,8 +111,12 @@ export function MultiFilterPanel({
   model,
   onChange,
   onClose,
+  onSavePreset,
+  groupAppearance,
+  onGroupAppearanceChange,
 }: MultiFilterPanelProps) {
   const { t } = useTranslation();
+  const [presetName, setPresetName] = useState<string | null>(null);
   const filterableColumns = columns.filter(
     (column) => column.filterable !== false && column.field !== "actions" && column.width !== 0,
   );
@@ -153,6 +169,62 @@ export function MultiFilterPanel({
         </Stack>
       </Box>
 
+      {groupAppearance && onGroupAppearanceChange && (
+        <Stack
+          direction={{ xs: "column", md: "row" }}
+          spacing={1.5}
+          sx={{ px: 2, pb: 1.5, alignItems: { xs: "stretch", md: "center" } }}
+        >
+          <TextField
+            size="small"
+            label={t("multiFilter.groupName")}
+            value={groupAppearance.label ?? ""}
+            placeholder={groupAppearance.suggestedLabel ?? groupLabel}
+            onChange={(event) => onGroupAppearanceChange({ label: event.target.value || null })}
+            slotProps={{ inputLabel: { shrink: true } }}
+            sx={{ flex: 1 }}
+          />
+          <Stack
+            direction="row"
+            spacing={0.5}
+            role="radiogroup"
+            aria-label={t("multiFilter.groupColor")}
+            sx={{ alignItems: "center", flexWrap: "wrap" }}
+          >
+            {GROUP_COLOR_CHOICES.map((color) => (
+              <Box
+                key={color}
+                component="button"
+                type="button"
+                role="radio"
+                aria-checked={groupAppearance.color === color}
+                aria-label={color}
+                onClick={() => onGroupAppearanceChange({ color })}
+                sx={{
+                  width: 20,
+                  height: 20,
+                  p: 0,
+                  borderRadius: "50%",
+                  cursor: "pointer",
+                  bgcolor: color,
+                  border: "2px solid",
+                  borderColor: groupAppearance.color === color ? "text.primary" : "transparent",
+                }}
+              />
+            ))}
+            <Tooltip title={t("multiFilter.resetAppearance")}>
+              <IconButton
+                size="small"
+                aria-label={t("multiFilter.resetAppearance")}
+                onClick={() => onGroupAppearanceChange({ label: null, color: null })}
+              >
+                <RestartAltIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+        </Stack>
+      )}
+
       <Divider />
 
       <Stack spacing={1.25} sx={{ p: 2 }}>
@@ -284,16 +356,58 @@ export function MultiFilterPanel({
         >
           {t("multiFilter.add")}
         </Button>
-        <Button
-          size="small"
-          color="inherit"
-          startIcon={<DeleteIcon />}
-          onClick={() => updateItems([])}
-          disabled={model.items.length === 0}
-        >
-          {t("multiFilter.removeAll")}
-        </Button>
+        <Stack direction="row" spacing={1}>
+          {onSavePreset && presetName == null && (
+            <Button
+              size="small"
+              startIcon={<BookmarkAddIcon />}
+              onClick={() => setPresetName("")}
+              disabled={countActiveFilterItems(model) === 0}
+            >
+              {t("filterPresets.save")}
+            </Button>
+          )}
+          <Button
+            size="small"
+            color="inherit"
+            startIcon={<DeleteIcon />}
+            onClick={() => updateItems([])}
+            disabled={model.items.length === 0}
+          >
+            {t("multiFilter.removeAll")}
+          </Button>
+        </Stack>
       </Stack>
+
+      {onSavePreset && presetName != null && (
+        <Stack
+          component="form"
+          direction="row"
+          spacing={1}
+          sx={{ px: 2, pb: 1.5, alignItems: "center" }}
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!presetName.trim()) return;
+            onSavePreset(presetName.trim());
+            setPresetName(null);
+          }}
+        >
+          <TextField
+            size="small"
+            label={t("filterPresets.name")}
+            value={presetName}
+            onChange={(event) => setPresetName(event.target.value)}
+            autoFocus
+            sx={{ flex: 1 }}
+          />
+          <Button size="small" type="submit" variant="contained" disabled={!presetName.trim()}>
+            {t("common.save")}
+          </Button>
+          <Button size="small" color="inherit" onClick={() => setPresetName(null)}>
+            {t("common.cancel")}
+          </Button>
+        </Stack>
+      )}
     </Popover>
   );
 }
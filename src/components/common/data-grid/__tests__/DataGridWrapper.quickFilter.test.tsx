@@ -6,6 +6,9 @@ vi.mock("../../layout/Layout", () => ({
   useSession: () => ({ session: null }),
 }));
 
+// The toolbar's filter presets import the Supabase client
+vi.mock("../../../../lib/supabaseClient", () => ({ supabase: {} }));
+
 describe("DataGridWrapper quick filter", () => {
   it("propagates searched rows to chart consumers", async () => {
     const onFilterChange = vi.fn();
@@ -74,4 +77,42 @@ describe("DataGridWrapper quick filter", () => {
       expect(onFilterChange).toHaveBeenLastCalledWith([{ id: "1", az: 4 }]);
     });
   });
+
+  it("leaves filtering to the server in server mode", async () => {
+    const onFilterChange = vi.fn();
+    const rows = [
+      { id: "1", name: "Alpha" },
+      { id: "2", name: "Beta" },
+    ];
+
+    render(
+      <div style={{ width: 800, height: 500 }}>
+        <DataGridWrapper
+          rows={rows}
+          columns={[
+            { field: "id", headerName: "ID" },
+            { field: "name", headerName: "Name", flex: 1 },
+          ]}
+          getRowId={(row) => row.id}
+          onFilterChange={onFilterChange}
+          activeFilterModel={{
+            items: [{ field: "name", operator: "contains", value: "Alpha" }],
+          }}
+          serverMode={{
+            rowCount: 2,
+            paginationModel: { page: 0, pageSize: 100 },
+            onPaginationModelChange: vi.fn(),
+            sortModel: [],
+            onSortModelChange: vi.fn(),
+            sortFields: new Set(["name"]),
+          }}
+        />
+      </div>,
+    );
+
+    expect(screen.queryByRole("button", { name: "toolbar.search" })).toBeNull();
+    await waitFor(() => {
+      expect(onFilterChange).toHaveBeenLastCalledWith(rows);
+    });
+  });
 });
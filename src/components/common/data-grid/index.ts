@@ -1,2 +1,2 @@
 export { DataGridToolbar } from "./DataGridToolbar";
-export { DataGridWrapper } from "./DataGridWrapper";
+export { DataGridWrapper, type ServerGridOptions } from "./DataGridWrapper";
@@ -3,11 +3,13 @@ import { IconButton, Tooltip } from "@mui/material";
 import { createContext, type ReactNode, useContext, useEffect, useState } from "react";
 import { createPortal } from "react-dom";
 import { useTranslation } from "react-i18next";
+import type { StandbyPowerSummary } from "../../../lib/systemConsumption";
 
 interface ChartFullscreenPanelProps {
   title: string;
   controls?: ReactNode;
   showSystemConsumptionToggle?: boolean;
+  standbyPowerSummary?: StandbyPowerSummary | null;
   children: ReactNode;
 }
 
@@ -15,6 +17,7 @@ interface ChartFullscreenPanelContextValue {
   open: boolean;
   setOpen: (open: boolean) => void;
   showSystemConsumptionToggle: boolean;
+  standbyPowerSummary: StandbyPowerSummary | null;
 }
 
 const ChartFullscreenPanelContext = createContext<ChartFullscreenPanelContextValue | null>(null);
@@ -27,6 +30,7 @@ export function ChartFullscreenPanel({
   title,
   controls,
   showSystemConsumptionToggle = false,
+  standbyPowerSummary = null,
   children,
 }: ChartFullscreenPanelProps) {
   const { t } = useTranslation();
@@ -66,7 +70,9 @@ export function ChartFullscreenPanel({
   );
 
   return (
-    <ChartFullscreenPanelContext.Provider value={{ open, setOpen, showSystemConsumptionToggle }}>
+    <ChartFullscreenPanelContext.Provider
+      value={{ open, setOpen, showSystemConsumptionToggle, standbyPowerSummary }}
+    >
       {!open ? <div className="chart-panel">{surface}</div> : null}
       {open
         ? createPortal(
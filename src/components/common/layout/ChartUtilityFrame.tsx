@@ -19,7 +19,9 @@ export function ChartUtilityFrame({ children, utility }: ChartUtilityFrameProps)
       <div className="chart-utility-bar chart-utility-bar-card">
         <div className="chart-stats chart-stats-inline">{utility}</div>
         <div className="chart-utility-actions">
-          {fullscreenPanel?.showSystemConsumptionToggle && <SystemConsumptionToggle />}
+          {fullscreenPanel?.showSystemConsumptionToggle && (
+            <SystemConsumptionToggle standbyPowerSummary={fullscreenPanel.standbyPowerSummary} />
+          )}
           {!fullscreenPanel?.open && (
             <Tooltip title={t("charts.openFullscreen")}>
               <IconButton
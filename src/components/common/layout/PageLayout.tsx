@@ -1,5 +1,6 @@
 import type { ReactNode } from "react";
 import { useTranslation } from "react-i18next";
+import type { StandbyPowerSummary } from "../../../lib/systemConsumption";
 import { ChartFullscreenPanel } from "./ChartFullscreenPanel";
 
 interface PageLayoutProps {
@@ -12,6 +13,7 @@ interface PageLayoutProps {
   error?: Error | null;
   isLoading?: boolean;
   showSystemConsumptionToggle?: boolean;
+  standbyPowerSummary?: StandbyPowerSummary | null;
 }
 
 export function PageLayout({
@@ -24,6 +26,7 @@ export function PageLayout({
   error,
   isLoading = false,
   showSystemConsumptionToggle = false,
+  standbyPowerSummary,
 }: PageLayoutProps) {
   const { t } = useTranslation();
 
@@ -39,6 +42,7 @@ export function PageLayout({
           title={t(titleKey)}
           controls={chartControls}
           showSystemConsumptionToggle={showSystemConsumptionToggle}
+          standbyPowerSummary={standbyPowerSummary}
         >
           {chart}
         </ChartFullscreenPanel>
@@ -1,3 +1,4 @@
+import dayjs from "dayjs";
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import {
@@ -9,6 +10,8 @@ import {
   SW_IDU_VALUES,
   SW_ODU_VALUES,
 } from "../../../lib/enumCatalog";
+import { hasConfigChanged } from "../../../lib/systemConfigHistory";
+import { getStandbyPower } from "../../../lib/systemConsumption";
 import type { Database } from "../../../types/database.types";
 import {
   EnumSelectField,
@@ -25,7 +28,8 @@ type HeatingSystemInsert = Database["public"]["Tables"]["heating_systems"]["Inse
 
 interface SystemFormProps {
   system?: HeatingSystem | null;
-  onSubmit: (payload: HeatingSystemInsert) => void;
+  // configEffectiveFrom is set when firmware, thermometer offset or heat distribution changed
+  onSubmit: (payload: HeatingSystemInsert, configEffectiveFrom?: string) => void;
 }
 
 export function SystemForm({ system, onSubmit }: SystemFormProps) {
@@ -59,15 +63,26 @@ export function SystemForm({ system, onSubmit }: SystemFormProps) {
     country: initialCountry,
     building_energy_standard: system?.building_energy_standard ?? null,
     thermometer_offset_k: system?.thermometer_offset_k ?? null,
+    standby_power_w: system?.standby_power_w ?? null,
     used_for_heating: system?.used_for_heating ?? true,
     used_for_dhw: system?.used_for_dhw ?? false,
     used_for_cooling: system?.used_for_cooling ?? false,
   });
 
+  const [configEffectiveFrom, setConfigEffectiveFrom] = useState(dayjs().format("YYYY-MM-DD"));
+  // Only changes of an existing system start a new configuration period
+  const configChanged = !!system && hasConfigChanged(system, form);
+
   const [countryMode, setCountryMode] = useState<"dropdown" | "text">(
     isOtherCountry ? "text" : "dropdown",
   );
 
+  // Estimate used by the system consumption correction while no own value is set
+  const modelStandbyWatts = getStandbyPower({
+    model_idu: form.model_idu,
+    model_odu: form.model_odu,
+  }).watts;
+
   function set<K extends keyof HeatingSystem>(k: K, v: HeatingSystem[K]) {
     setForm((f) => ({ ...f, [k]: v }));
   }
@@ -77,7 +92,7 @@ export function SystemForm({ system, onSubmit }: SystemFormProps) {
       id="system-form"
       onSubmit={(e) => {
         e.preventDefault();
-        onSubmit(form as HeatingSystemInsert);
+        onSubmit(form as HeatingSystemInsert, configChanged ? configEffectiveFrom : undefined);
       }}
     >
       <TextField
@@ -256,6 +271,21 @@ export function SystemForm({ system, onSubmit }: SystemFormProps) {
         hint={t("systemForm.hints.modelOutdoor")}
       />
 
+      <div className="row">
+        <label htmlFor="system-standby-power">{t("systemForm.standbyPower")}</label>
+        <NumberInputWithUnit
+          id="system-standby-power"
+          value={form.standby_power_w}
+          onChange={(v) => set("standby_power_w", v)}
+          unit="W"
+          placeholder={String(modelStandbyWatts)}
+          min={0}
+          max={500}
+          step={1}
+        />
+        <FieldHint hint={t("systemForm.hints.standbyPower", { watts: modelStandbyWatts })} />
+      </div>
+
       <SelectField
         label={t("systemForm.softwareIndoor")}
         value={form.sw_idu}
@@ -274,6 +304,23 @@ export function SystemForm({ system, onSubmit }: SystemFormProps) {
         hint={t("systemForm.hints.softwareOutdoor")}
       />
 
+      {configChanged && (
+        <div className="row">
+          <label htmlFor="system-config-effective-from">
+            {t("systemForm.configEffectiveFrom")}
+          </label>
+          <input
+            id="system-config-effective-from"
+            type="date"
+            value={configEffectiveFrom}
+            max={dayjs().format("YYYY-MM-DD")}
+            onChange={(e) => setConfigEffectiveFrom(e.target.value)}
+            required
+          />
+          <FieldHint hint={t("systemForm.hints.configEffectiveFrom")} />
+        </div>
+      )}
+
       <div className="row">
         <span>{t("systemForm.usageLabel")}</span>
         <div className="flex-center-gap-lg">
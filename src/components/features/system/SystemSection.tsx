@@ -12,7 +12,7 @@ type HeatingSystemInsert = Database["public"]["Tables"]["heating_systems"]["Inse
 
 interface SystemSectionProps {
   system: HeatingSystem | null;
-  onSave: (payload: HeatingSystemInsert) => Promise<void>;
+  onSave: (payload: HeatingSystemInsert, configEffectiveFrom?: string) => Promise<void>;
   onDelete: () => Promise<void>;
 }
 
@@ -26,11 +26,11 @@ export function SystemSection({ system, onSave, onDelete }: SystemSectionProps)
   );
   const { data: recordCounts } = useSystemRecordCounts(system?.heating_id);
 
-  const handleSave = async (payload: HeatingSystemInsert) => {
+  const handleSave = async (payload: HeatingSystemInsert, configEffectiveFrom?: string) => {
     setIsSaving(true);
     setFeedback(null);
     try {
-      await onSave(payload);
+      await onSave(payload, configEffectiveFrom);
       setFeedback({ type: "success", message: `${t("common.save")} ✓` });
       setTimeout(() => setFeedback(null), 3000);
     } catch (error) {
@@ -1,4 +1,4 @@
-import { render, screen } from "@testing-library/react";
+import { fireEvent, render, screen } from "@testing-library/react";
 import { describe, expect, it, vi } from "vitest";
 import type { Database } from "../../../../types/database.types";
 import { SystemForm } from "../SystemForm";
@@ -26,10 +26,12 @@ vi.mock("react-i18next", () => ({
         "systemForm.heatingLoad": "Heating Load",
         "systemForm.designOutdoorTemp": "Design Outdoor Temperature",
         "systemForm.thermometerOffset": "Thermometer Offset",
+        "systemForm.standbyPower": "Standby Power",
         "systemForm.indoorUnit": "Indoor Unit",
         "systemForm.outdoorUnit": "Outdoor Unit",
         "systemForm.softwareIndoor": "Software Indoor",
         "systemForm.softwareOutdoor": "Software Outdoor",
+        "systemForm.configEffectiveFrom": "Change effective from",
         "systemForm.usageLabel": "Usage",
         "systemForm.usedForHeating": "Heating",
         "systemForm.usedForDhw": "DHW",
@@ -47,10 +49,12 @@ vi.mock("react-i18next", () => ({
         "systemForm.hints.heatingLoad": "",
         "systemForm.hints.designOutdoorTemp": "",
         "systemForm.hints.thermometerOffset": "",
+        "systemForm.hints.standbyPower": "",
         "systemForm.hints.modelIndoor": "",
         "systemForm.hints.modelOutdoor": "",
         "systemForm.hints.softwareIndoor": "",
         "systemForm.hints.softwareOutdoor": "",
+        "systemForm.hints.configEffectiveFrom": "",
         "systemForm.hints.usage": "",
         "systemForm.hints.notes": "",
         "models.heating_type.underfloorheating": "Underfloor Heating",
@@ -138,6 +142,7 @@ describe("SystemForm", () => {
     building_type: "single_family_detached",
     building_energy_standard: "kfw_55",
     thermometer_offset_k: 2.5,
+    standby_power_w: 30,
     used_for_heating: true,
     used_for_dhw: true,
     used_for_cooling: false,
@@ -249,6 +254,14 @@ describe("SystemForm", () => {
       expect(thermometerOffsetInput).toHaveValue(mockSystem.thermometer_offset_k);
     });
 
+    it("initializes number field: standby_power_w", () => {
+      const mockOnSubmit = vi.fn();
+      render(<SystemForm system={mockSystem} onSubmit={mockOnSubmit} />);
+
+      const standbyPowerInput = screen.getByLabelText("Standby Power") as HTMLInputElement;
+      expect(standbyPowerInput).toHaveValue(mockSystem.standby_power_w);
+    });
+
     it("initializes select field: model_idu", () => {
       const mockOnSubmit = vi.fn();
       render(<SystemForm system={mockSystem} onSubmit={mockOnSubmit} />);
@@ -328,6 +341,7 @@ describe("SystemForm", () => {
         building_type: null,
         building_energy_standard: null,
         thermometer_offset_k: null,
+        standby_power_w: null,
       };
 
       const mockOnSubmit = vi.fn();
@@ -373,6 +387,35 @@ describe("SystemForm", () => {
     });
   });
 
+  describe("Configuration History", () => {
+    it("asks for an effective date only after a versioned setting changed", () => {
+      const mockOnSubmit = vi.fn();
+      const { container } = render(<SystemForm system={mockSystem} onSubmit={mockOnSubmit} />);
+
+      expect(screen.queryByLabelText("Change effective from")).not.toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText("Thermometer Offset"), { target: { value: "1" } });
+      const effectiveFrom = screen.getByLabelText("Change effective from");
+      fireEvent.change(effectiveFrom, { target: { value: "2025-01-15" } });
+      fireEvent.submit(container.querySelector("form") as HTMLFormElement);
+
+      expect(mockOnSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({ thermometer_offset_k: 1 }),
+        "2025-01-15",
+      );
+    });
+
+    it("does not start a configuration period for new systems", () => {
+      const mockOnSubmit = vi.fn();
+      const { container } = render(<SystemForm onSubmit={mockOnSubmit} />);
+
+      fireEvent.submit(container.querySelector("form") as HTMLFormElement);
+
+      expect(screen.queryByLabelText("Change effective from")).not.toBeInTheDocument();
+      expect(mockOnSubmit).toHaveBeenCalledWith(expect.any(Object), undefined);
+    });
+  });
+
   describe("All Database Fields Coverage", () => {
     it("ensures all editable database fields are present in the form", () => {
       const mockOnSubmit = vi.fn();
@@ -397,6 +440,7 @@ describe("SystemForm", () => {
         "building_type",
         "building_energy_standard",
         "thermometer_offset_k",
+        "standby_power_w",
         "used_for_heating",
         "used_for_dhw",
         "used_for_cooling",
@@ -405,7 +449,7 @@ describe("SystemForm", () => {
       // Verify each field is initialized in the form
       // Note: We can't directly access the form state, but we verified
       // each field individually in the tests above
-      expect(editableFields.length).toBe(19);
+      expect(editableFields.length).toBe(20);
     });
   });
 });
@@ -0,0 +1,46 @@
+import BalanceIcon from "@mui/icons-material/Balance";
+import FunctionsIcon from "@mui/icons-material/Functions";
+import VerticalAlignCenterIcon from "@mui/icons-material/VerticalAlignCenter";
+import { Button, ButtonGroup, Tooltip } from "@mui/material";
+import { useTranslation } from "react-i18next";
+import type { AggregationMode } from "../../lib/chartDataProcessing";
+
+interface AggregationModeToggleProps {
+  aggregationMode: AggregationMode;
+  onChange: (mode: AggregationMode) => void;
+}
+
+/**
+ * Toggle buttons for choosing how bar chart values are aggregated across systems.
+ */
+export function AggregationModeToggle({ aggregationMode, onChange }: AggregationModeToggleProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Tooltip title={t("charts.aggregationHint")}>
+      <ButtonGroup size="small" variant="outlined" aria-label={t("charts.aggregation")}>
+        <Button
+          onClick={() => onChange("weighted")}
+          variant={aggregationMode === "weighted" ? "contained" : "outlined"}
+          startIcon={<BalanceIcon />}
+        >
+          {t("charts.aggregationModes.weighted")}
+        </Button>
+        <Button
+          onClick={() => onChange("mean")}
+          variant={aggregationMode === "mean" ? "contained" : "outlined"}
+          startIcon={<FunctionsIcon />}
+        >
+          {t("charts.aggregationModes.mean")}
+        </Button>
+        <Button
+          onClick={() => onChange("median")}
+          variant={aggregationMode === "median" ? "contained" : "outlined"}
+          startIcon={<VerticalAlignCenterIcon />}
+        >
+          {t("charts.aggregationModes.median")}
+        </Button>
+      </ButtonGroup>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,276 @@
+import TuneIcon from "@mui/icons-material/Tune";
+import { Button } from "@mui/material";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useCostSettings } from "../../hooks/useCostSettings";
+import {
+  BOILER_DEFAULTS,
+  BOILER_FUELS,
+  type BoilerFuel,
+  type CostSettings,
+  parseHourlyPriceCsv,
+  TARIFF_TYPES,
+  type TariffType,
+} from "../../lib/energyCost";
+import { NumberInputWithUnit } from "../form/fields/NumberInputWithUnit";
+import { FieldHint } from "./FieldHint";
+
+/**
+ * Button opening the tariff and boiler baseline settings of the cost metric mode.
+ * Changes apply to all pages until the app is reloaded.
+ */
+export function CostSettingsButton() {
+  const { t } = useTranslation();
+  const { costSettings, setCostSettings } = useCostSettings();
+  const [draft, setDraft] = useState<CostSettings | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const [skippedLines, setSkippedLines] = useState(0);
+
+  const set = <K extends keyof CostSettings>(key: K, value: CostSettings[K]) =>
+    setDraft((prev) => (prev ? { ...prev, [key]: value } : prev));
+
+  const close = () => {
+    setDraft(null);
+    setCsvError(null);
+    setSkippedLines(0);
+  };
+
+  const handleApply = () => {
+    if (draft) setCostSettings(draft);
+    close();
+  };
+
+  const handleFuelChange = (fuel: BoilerFuel) =>
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            boilerFuel: fuel,
+            boilerEfficiency: BOILER_DEFAULTS[fuel].efficiency,
+            fuelPriceCt: BOILER_DEFAULTS[fuel].fuelPriceCt,
+          }
+        : prev,
+    );
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    const { prices, skippedLines } = parseHourlyPriceCsv(await file.text());
+    setSkippedLines(skippedLines);
+    if (prices.length === 0) {
+      setCsvError(t("costSettings.csvEmpty"));
+      return;
+    }
+    setCsvError(null);
+    set("hourlyPrices", prices);
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<TuneIcon />}
+        onClick={() => setDraft(costSettings)}
+      >
+        {t("costSettings.button")}
+      </Button>
+      {draft && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          className="modal-overlay"
+          onClick={close}
+          onKeyDown={(e) => e.key === "Escape" && close()}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            className="modal-content cost-settings-dialog"
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+            aria-labelledby="cost-settings-title"
+          >
+            <h2 id="cost-settings-title">{t("costSettings.title")}</h2>
+
+            <h3>{t("costSettings.electricity")}</h3>
+            <div className="row">
+              <label htmlFor="cost-settings-tariff-type">{t("costSettings.tariffType")}</label>
+              <select
+                id="cost-settings-tariff-type"
+                value={draft.tariffType}
+                onChange={(e) => set("tariffType", e.target.value as TariffType)}
+              >
+                {TARIFF_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {t(`costSettings.tariffTypes.${type}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {draft.tariffType === "timeOfUse" ? (
+              <>
+                <div className="row">
+                  <label htmlFor="cost-settings-high-tariff">
+                    {t("costSettings.highTariffPrice")}
+                  </label>
+                  <NumberInputWithUnit
+                    id="cost-settings-high-tariff"
+                    value={draft.highTariffPriceCt}
+                    onChange={(v) => set("highTariffPriceCt", v ?? 0)}
+                    unit="ct/kWh"
+                    min={0}
+                  />
+                </div>
+                <div className="row">
+                  <label htmlFor="cost-settings-low-tariff">
+                    {t("costSettings.lowTariffPrice")}
+                  </label>
+                  <NumberInputWithUnit
+                    id="cost-settings-low-tariff"
+                    value={draft.lowTariffPriceCt}
+                    onChange={(v) => set("lowTariffPriceCt", v ?? 0)}
+                    unit="ct/kWh"
+                    min={0}
+                  />
+                </div>
+                <div className="row">
+                  <label htmlFor="cost-settings-low-tariff-start">
+                    {t("costSettings.lowTariffStart")}
+                  </label>
+                  <NumberInputWithUnit
+                    id="cost-settings-low-tariff-start"
+                    value={draft.lowTariffStartHour}
+                    onChange={(v) => set("lowTariffStartHour", v ?? 0)}
+                    unit={t("costSettings.hourUnit")}
+                    min={0}
+                    max={23}
+                    step={1}
+                  />
+                </div>
+                <div className="row">
+                  <label htmlFor="cost-settings-low-tariff-end">
+                    {t("costSettings.lowTariffEnd")}
+                  </label>
+                  <NumberInputWithUnit
+                    id="cost-settings-low-tariff-end"
+                    value={draft.lowTariffEndHour}
+                    onChange={(v) => set("lowTariffEndHour", v ?? 0)}
+                    unit={t("costSettings.hourUnit")}
+                    min={0}
+                    max={23}
+                    step={1}
+                  />
+                  <FieldHint hint={t("costSettings.lowTariffHint")} />
+                </div>
+              </>
+            ) : (
+              <div className="row">
+                <label htmlFor="cost-settings-flat-price">
+                  {t(
+                    draft.tariffType === "dynamic"
+                      ? "costSettings.fallbackPrice"
+                      : "costSettings.flatPrice",
+                  )}
+                </label>
+                <NumberInputWithUnit
+                  id="cost-settings-flat-price"
+                  value={draft.flatPriceCt}
+                  onChange={(v) => set("flatPriceCt", v ?? 0)}
+                  unit="ct/kWh"
+                  min={0}
+                />
+                {draft.tariffType === "dynamic" && (
+                  <FieldHint hint={t("costSettings.fallbackPriceHint")} />
+                )}
+              </div>
+            )}
+
+            {draft.tariffType === "dynamic" && (
+              <div className="row">
+                <label htmlFor="cost-settings-price-csv">{t("costSettings.priceCsv")}</label>
+                <input
+                  id="cost-settings-price-csv"
+                  type="file"
+                  accept=".csv,.txt,text/csv,text/plain"
+                  onChange={(e) => handleCsvFile(e.target.files?.[0])}
+                />
+                <FieldHint hint={t("costSettings.priceCsvHint")} />
+                <p className={csvError ? "error" : "muted"}>
+                  {csvError ??
+                    t("costSettings.priceCsvLoaded", {
+                      count: draft.hourlyPrices.length,
+                      skipped: skippedLines,
+                    })}
+                </p>
+              </div>
+            )}
+
+            <div className="row">
+              <label htmlFor="cost-settings-grid-co2">{t("costSettings.gridCo2")}</label>
+              <NumberInputWithUnit
+                id="cost-settings-grid-co2"
+                value={draft.gridCo2KgPerKwh}
+                onChange={(v) => set("gridCo2KgPerKwh", v ?? 0)}
+                unit="kg/kWh"
+                min={0}
+              />
+              <FieldHint hint={t("costSettings.gridCo2Hint")} />
+            </div>
+
+            <h3>{t("costSettings.boiler")}</h3>
+            <div className="row">
+              <label htmlFor="cost-settings-boiler-fuel">{t("costSettings.boilerFuel")}</label>
+              <select
+                id="cost-settings-boiler-fuel"
+                value={draft.boilerFuel}
+                onChange={(e) => handleFuelChange(e.target.value as BoilerFuel)}
+              >
+                {BOILER_FUELS.map((fuel) => (
+                  <option key={fuel} value={fuel}>
+                    {t(`costSettings.boilerFuels.${fuel}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="row">
+              <label htmlFor="cost-settings-boiler-efficiency">
+                {t("costSettings.boilerEfficiency")}
+              </label>
+              <NumberInputWithUnit
+                id="cost-settings-boiler-efficiency"
+                value={draft.boilerEfficiency * 100}
+                onChange={(v) => set("boilerEfficiency", (v ?? 0) / 100)}
+                unit="%"
+                min={1}
+                max={110}
+                displayDecimals={1}
+              />
+              <FieldHint hint={t("costSettings.boilerEfficiencyHint")} />
+            </div>
+            <div className="row">
+              <label htmlFor="cost-settings-fuel-price">{t("costSettings.fuelPrice")}</label>
+              <NumberInputWithUnit
+                id="cost-settings-fuel-price"
+                value={draft.fuelPriceCt}
+                onChange={(v) => set("fuelPriceCt", v ?? 0)}
+                unit="ct/kWh"
+                min={0}
+              />
+              <FieldHint hint={t("costSettings.fuelPriceHint")} />
+            </div>
+
+            <div className="modal-buttons">
+              <button type="button" onClick={close}>
+                {t("common.cancel")}
+              </button>
+              <button type="button" onClick={handleApply}>
+                {t("costSettings.apply")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
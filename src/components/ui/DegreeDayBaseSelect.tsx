@@ -0,0 +1,32 @@
+import { Tooltip } from "@mui/material";
+import { useTranslation } from "react-i18next";
+import { DEGREE_DAY_BASE_TEMPERATURES_C } from "../../lib/degreeDays";
+
+interface DegreeDayBaseSelectProps {
+  baseTemperature: number;
+  onChange: (baseTemperature: number) => void;
+}
+
+/**
+ * Select for the base temperature of the heating degree days in the normalized metric mode.
+ */
+export function DegreeDayBaseSelect({ baseTemperature, onChange }: DegreeDayBaseSelectProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Tooltip title={t("charts.degreeDayBaseHint")}>
+      <select
+        value={baseTemperature}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="form-select page-filter-select-degree-day-base"
+        aria-label={t("charts.degreeDayBase")}
+      >
+        {DEGREE_DAY_BASE_TEMPERATURES_C.map((base) => (
+          <option key={base} value={base}>
+            {t("charts.degreeDayBaseOption", { base })}
+          </option>
+        ))}
+      </select>
+    </Tooltip>
+  );
+}
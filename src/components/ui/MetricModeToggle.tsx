@@ -1,20 +1,27 @@
 import ElectricBoltIcon from "@mui/icons-material/ElectricBolt";
+import EuroIcon from "@mui/icons-material/Euro";
 import SpeedIcon from "@mui/icons-material/Speed";
+import ThermostatIcon from "@mui/icons-material/Thermostat";
 import { Button, ButtonGroup } from "@mui/material";
 import { useTranslation } from "react-i18next";
 
-type MetricMode = "cop" | "energy";
+type MetricMode = "cop" | "energy" | "normalized" | "cost";
 
 interface MetricModeToggleProps {
   metricMode: MetricMode;
   onChange: (mode: MetricMode) => void;
+  showNormalized?: boolean; // Offer the weather-normalized mode (needs daily outdoor temperatures)
 }
 
 /**
- * Toggle buttons for switching between COP and Energy metric modes.
+ * Toggle buttons for switching between the COP, energy and cost metric modes.
  * Used across Daily, Monthly, and Yearly pages for consistent UI.
  */
-export function MetricModeToggle({ metricMode, onChange }: MetricModeToggleProps) {
+export function MetricModeToggle({
+  metricMode,
+  onChange,
+  showNormalized = false,
+}: MetricModeToggleProps) {
   const { t } = useTranslation();
 
   return (
@@ -33,6 +40,22 @@ export function MetricModeToggle({ metricMode, onChange }: MetricModeToggleProps
       >
         {t("charts.energyMode")}
       </Button>
+      {showNormalized && (
+        <Button
+          onClick={() => onChange("normalized")}
+          variant={metricMode === "normalized" ? "contained" : "outlined"}
+          startIcon={<ThermostatIcon />}
+        >
+          {t("charts.normalizedMode")}
+        </Button>
+      )}
+      <Button
+        onClick={() => onChange("cost")}
+        variant={metricMode === "cost" ? "contained" : "outlined"}
+        startIcon={<EuroIcon />}
+      >
+        {t("charts.costMode")}
+      </Button>
     </ButtonGroup>
   );
 }
@@ -2,13 +2,42 @@ import BoltOutlinedIcon from "@mui/icons-material/BoltOutlined";
 import { FormControlLabel, Switch, Tooltip } from "@mui/material";
 import { useTranslation } from "react-i18next";
 import { useSystemConsumptionMode } from "../../hooks/useSystemConsumptionMode";
+import type { StandbyPowerSummary } from "../../lib/systemConsumption";
 
-export function SystemConsumptionToggle() {
+interface SystemConsumptionToggleProps {
+  // Standby power of the systems shown on the page, for the tooltip
+  standbyPowerSummary?: StandbyPowerSummary | null;
+}
+
+export function SystemConsumptionToggle({ standbyPowerSummary }: SystemConsumptionToggleProps) {
   const { t } = useTranslation();
   const { excludeSystemConsumption, setExcludeSystemConsumption } = useSystemConsumptionMode();
 
+  // Which standby figure is subtracted, e.g. "25 W" or "21–31 W" for systems with different models
+  let standbyPowerText: string | null = null;
+  if (standbyPowerSummary) {
+    const { minWatts, maxWatts, sources } = standbyPowerSummary;
+    const watts = minWatts === maxWatts ? `${minWatts} W` : `${minWatts}–${maxWatts} W`;
+    standbyPowerText = t("charts.standbyPowerSubtracted", {
+      watts,
+      sources: sources.map((source) => t(`charts.standbyPowerSources.${source}`)).join(", "),
+    });
+  }
+
   return (
-    <Tooltip title={t("charts.systemConsumptionHint")}>
+    <Tooltip
+      title={
+        <>
+          {t("charts.systemConsumptionHint")}
+          {standbyPowerText && (
+            <>
+              <br />
+              {standbyPowerText}
+            </>
+          )}
+        </>
+      }
+    >
       <FormControlLabel
         className="system-consumption-toggle"
         control={
@@ -1,38 +1,51 @@
+import AcUnitIcon from "@mui/icons-material/AcUnit";
 import BarChartIcon from "@mui/icons-material/BarChart";
+import GridOnIcon from "@mui/icons-material/GridOn";
 import TimelineIcon from "@mui/icons-material/Timeline";
 import { Button, ButtonGroup } from "@mui/material";
+import type { ReactNode } from "react";
 import { useTranslation } from "react-i18next";
 
-type ViewMode = "timeSeries" | "distribution";
+type ViewMode = "timeSeries" | "distribution" | "heatmap" | "defrost";
 
-interface ViewModeToggleProps {
-  viewMode: ViewMode;
-  onChange: (mode: ViewMode) => void;
+const VIEW_MODE_BUTTONS: Record<ViewMode, { labelKey: string; icon: ReactNode }> = {
+  timeSeries: { labelKey: "charts.timeSeries", icon: <TimelineIcon /> },
+  distribution: { labelKey: "charts.distribution", icon: <BarChartIcon /> },
+  // Hour × day heatmap of the month (hourly data only)
+  heatmap: { labelKey: "charts.heatmap", icon: <GridOnIcon /> },
+  // Defrost statistics (needs hourly data)
+  defrost: { labelKey: "charts.defrost", icon: <AcUnitIcon /> },
+};
+
+interface ViewModeToggleProps<M extends ViewMode> {
+  modes: readonly M[];
+  viewMode: M;
+  onChange: (mode: M) => void;
 }
 
 /**
- * Toggle buttons for switching between time series and distribution chart views.
+ * Toggle buttons for switching between the chart views a page offers, in the given order.
  * Used across Daily, Monthly, and Yearly pages for consistent UI.
  */
-export function ViewModeToggle({ viewMode, onChange }: ViewModeToggleProps) {
+export function ViewModeToggle<M extends ViewMode>({
+  modes,
+  viewMode,
+  onChange,
+}: ViewModeToggleProps<M>) {
   const { t } = useTranslation();
 
   return (
     <ButtonGroup size="small" variant="outlined">
-      <Button
-        onClick={() => onChange("timeSeries")}
-        variant={viewMode === "timeSeries" ? "contained" : "outlined"}
-        startIcon={<TimelineIcon />}
-      >
-        {t("charts.timeSeries")}
-      </Button>
-      <Button
-        onClick={() => onChange("distribution")}
-        variant={viewMode === "distribution" ? "contained" : "outlined"}
-        startIcon={<BarChartIcon />}
-      >
-        {t("charts.distribution")}
-      </Button>
+      {modes.map((mode) => (
+        <Button
+          key={mode}
+          onClick={() => onChange(mode)}
+          variant={viewMode === mode ? "contained" : "outlined"}
+          startIcon={VIEW_MODE_BUTTONS[mode].icon}
+        >
+          {t(VIEW_MODE_BUTTONS[mode].labelKey)}
+        </Button>
+      ))}
     </ButtonGroup>
   );
 }
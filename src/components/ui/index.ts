@@ -1,6 +1,9 @@
 export { ActionBar } from "./ActionBar";
+export { AggregationModeToggle } from "./AggregationModeToggle";
 export { ConfirmDialog } from "./ConfirmDialog";
 export { CopyField } from "./CopyField";
+export { CostSettingsButton } from "./CostSettingsButton";
+export { DegreeDayBaseSelect } from "./DegreeDayBaseSelect";
 export { FieldHint } from "./FieldHint";
 export { MetricModeToggle } from "./MetricModeToggle";
 export { SystemConsumptionToggle } from "./SystemConsumptionToggle";
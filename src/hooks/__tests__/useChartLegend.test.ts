@@ -0,0 +1,58 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useChartLegend } from "../useChartLegend";
+
+const comparisonGroups = [
+  { id: "2024", name: "2024", color: "#111111", data: [] },
+  { id: "2025", name: "2025", color: "#222222", data: [] },
+];
+
+const baseOptions = {
+  azTotalKey: "AZ Total",
+  azHeatingKey: "AZ Heating",
+  outdoorTempLabel: "Outdoor",
+  flowTempLabel: "Flow",
+  isComparisonMode: true,
+  comparisonGroups,
+};
+
+describe("useChartLegend", () => {
+  it("names the comparison groups only when requested", () => {
+    const { result: withoutGroups } = renderHook(() => useChartLegend(baseOptions));
+    expect(withoutGroups.current.legendItems.map((item) => item.label)).not.toContain("2024");
+
+    const { result } = renderHook(() => useChartLegend({ ...baseOptions, showGroupLegend: true }));
+    expect(result.current.legendItems).toEqual(
+      expect.arrayContaining([
+        { id: "group:2024", label: "2024", color: "#111111" },
+        { id: "group:2025", label: "2025", color: "#222222" },
+      ]),
+    );
+    expect(result.current.chartKeys).toEqual(["AZ Heating (2024)", "AZ Heating (2025)"]);
+  });
+
+  it("ignores clicks on group items", () => {
+    const { result } = renderHook(() => useChartLegend({ ...baseOptions, showGroupLegend: true }));
+
+    act(() => result.current.handleLegendClick({ id: "group:2024" }));
+
+    expect(result.current.activeKey).toBe("AZ Heating");
+  });
+
+  it("shows both series in their own colors", () => {
+    const { result } = renderHook(() =>
+      useChartLegend({
+        ...baseOptions,
+        isComparisonMode: false,
+        comparisonGroups: undefined,
+        seriesColors: { total: "#333333", heating: "#444444" },
+      }),
+    );
+
+    expect(result.current.chartKeys).toEqual(["AZ Heating", "AZ Total"]);
+    expect(result.current.legendItems.slice(0, 2)).toEqual([
+      { id: "AZ Heating", label: "AZ Heating", color: "#444444" },
+      { id: "AZ Total", label: "AZ Total", color: "#333333" },
+    ]);
+  });
+});
@@ -184,13 +184,105 @@ describe("useComparisonFilters", () => {
 
     expect(groups).toHaveLength(2);
     expect(groups[0].id).toBe(1);
-    expect(groups[0].name).toBe("Filter 1");
+    expect(groups[0].name).toBe("heating_type = Floor Heating");
     expect(groups[0].color).toBe("#23a477ff");
     expect(groups[0].filterModel.items[0].value).toBe("Floor Heating");
 
     expect(groups[1].id).toBe(2);
-    expect(groups[1].name).toBe("Filter 2");
+    expect(groups[1].name).toBe("heating_type = Radiators");
     expect(groups[1].color).toBe("#86efac");
     expect(groups[1].filterModel.items[0].value).toBe("Radiators");
   });
+
+  it("should add groups up to the maximum and compare all groups with filters", () => {
+    const { result } = renderHook(() => useComparisonFilters());
+
+    act(() => {
+      result.current.addFilterGroup();
+    });
+    expect(result.current.filterGroups).toHaveLength(3);
+    expect(result.current.activeGroup).toBe(3);
+
+    act(() => {
+      result.current.updateFilterGroup(3, {
+        items: [{ field: "heating_type", operator: "equals", value: "Radiators" }],
+      });
+    });
+    expect(result.current.comparisonMode).toBe(true);
+    expect(result.current.getComparisonGroups().map((group) => group.id)).toEqual([1, 3]);
+
+    for (let i = 0; i < 5; i++) {
+      act(() => {
+        result.current.addFilterGroup();
+      });
+    }
+    expect(result.current.filterGroups).toHaveLength(6);
+  });
+
+  it("should move later groups up when removing a group", () => {
+    const { result } = renderHook(() =>
+      useComparisonFilters({
+        filterGroups: [
+          null,
+          { items: [{ field: "az", operator: ">", value: 3 }] },
+          { items: [{ field: "az", operator: ">", value: 4 }] },
+        ],
+      }),
+    );
+
+    act(() => {
+      result.current.setActiveGroup(3);
+    });
+    act(() => {
+      result.current.removeFilterGroup(2);
+    });
+
+    expect(result.current.filterGroups).toHaveLength(2);
+    expect(result.current.filterGroup2.items[0].value).toBe(4);
+    expect(result.current.activeGroup).toBe(2);
+
+    // The last comparison group is only cleared
+    act(() => {
+      result.current.removeFilterGroup(2);
+    });
+    expect(result.current.filterGroups).toHaveLength(2);
+    expect(result.current.comparisonMode).toBe(false);
+  });
+
+  it("should use the label and color picked for a group", () => {
+    const { result } = renderHook(() => useComparisonFilters());
+
+    act(() => {
+      result.current.updateFilterGroup2({
+        items: [{ field: "model_idu", operator: "is", value: "CS6800i_E" }],
+      });
+      result.current.updateFilterGroupAppearance(2, { label: "Bosch", color: "#ef4444" });
+    });
+
+    expect(result.current.getComparisonGroups()[1]).toMatchObject({
+      name: "Bosch",
+      color: "#ef4444",
+      label: "Bosch",
+      suggestedLabel: "model_idu = CS6800i_E",
+    });
+
+    // Resetting falls back to the suggestion and the default color
+    act(() => {
+      result.current.updateFilterGroupAppearance(2, { label: null, color: null });
+    });
+    expect(result.current.getComparisonGroups()[1]).toMatchObject({
+      name: "model_idu = CS6800i_E",
+      color: "#86efac",
+    });
+  });
+
+  it("should keep group names unique", () => {
+    const model: GridFilterModel = { items: [{ field: "az", operator: ">", value: 3 }] };
+    const { result } = renderHook(() => useComparisonFilters({ filterGroups: [model, model] }));
+
+    expect(result.current.filterGroupAppearances.map((group) => group.name)).toEqual([
+      "az > 3",
+      "az > 3 #2",
+    ]);
+  });
 });
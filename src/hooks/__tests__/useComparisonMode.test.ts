@@ -6,15 +6,21 @@ import { useComparisonMode } from "../useComparisonMode";
 // Mock the useComparisonFilters hook
 vi.mock("../useComparisonFilters", () => ({
   useComparisonFilters: () => ({
+    filterGroups: [{ items: [] }, { items: [] }],
     filterGroup1: { items: [] },
     filterGroup2: { items: [] },
+    filterGroupAppearances: [],
     activeGroup: 1,
     setActiveGroup: vi.fn(),
     comparisonMode: false,
+    updateFilterGroup: vi.fn(),
     updateFilterGroup1: vi.fn(),
     updateFilterGroup2: vi.fn(),
+    updateFilterGroupAppearance: vi.fn(),
     activeFilterModel: { items: [] },
     getComparisonGroups: vi.fn(() => []),
+    addFilterGroup: vi.fn(),
+    removeFilterGroup: vi.fn(),
     clearFilterGroup2: vi.fn(),
   }),
 }));
@@ -372,6 +378,7 @@ describe("useComparisonMode", () => {
       expect(props).toHaveProperty("activeFilterModel");
       expect(props).toHaveProperty("filterGroup1Count");
       expect(props).toHaveProperty("filterGroup2Count");
+      expect(props.filterGroupCounts).toEqual([0, 0]);
       expect(props).toHaveProperty("onFilterModelChange");
       expect(props).toHaveProperty("onUpdateFilterGroup");
       expect(props).toHaveProperty("onSetActiveGroup");
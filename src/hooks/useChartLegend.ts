@@ -1,5 +1,6 @@
 import { useCallback, useMemo, useState } from "react";
 import type { ComparisonDataGroup } from "../components/common/charts/AzBarChart";
+import { comparisonSeriesKey } from "../lib/chartDataProcessing";
 import { CHART_COLORS } from "../lib/chartTheme";
 
 interface LegendItem {
@@ -13,13 +14,18 @@ interface UseChartLegendOptions {
   azHeatingKey: string;
   barColor?: string;
   isComparisonMode?: boolean;
-  comparisonGroups?: ComparisonDataGroup[];
+  comparisonGroups?: Pick<ComparisonDataGroup, "id" | "name" | "color">[];
   outdoorTempLabel: string;
   flowTempLabel: string;
   clickableIds?: string[]; // Optional: restrict which legend items are clickable (default: all)
   showTemperatureLines?: boolean; // Optional: whether to show temperature line legend items (default: true)
+  percentileBandLabel?: string; // Optional: if set, adds a legend item toggling the percentile bands
+  showGroupLegend?: boolean; // Optional: adds a (non-clickable) legend item per comparison group
+  seriesColors?: { total: string; heating: string }; // Optional: shows both series at once in these colors
 }
 
+const GROUP_LEGEND_PREFIX = "group:";
+
 /**
  * Hook to manage chart legend state and generation
  */
@@ -34,11 +40,15 @@ export function useChartLegend(options: UseChartLegendOptions) {
     flowTempLabel,
     clickableIds,
     showTemperatureLines = true,
+    percentileBandLabel,
+    showGroupLegend = false,
+    seriesColors,
   } = options;
 
   const [activeKey, setActiveKey] = useState<string>("");
   const [showOutdoorTemp, setShowOutdoorTemp] = useState<boolean>(true);
   const [showFlowTemp, setShowFlowTemp] = useState<boolean>(true);
+  const [showPercentileBands, setShowPercentileBands] = useState<boolean>(false);
 
   const currentActiveKey = activeKey || azHeatingKey;
 
@@ -52,6 +62,11 @@ export function useChartLegend(options: UseChartLegendOptions) {
         return;
       }
 
+      // Group items only explain the bar colors
+      if (id.startsWith(GROUP_LEGEND_PREFIX)) {
+        return;
+      }
+
       // Handle temperature line toggles
       if (id === "outdoor_temp") {
         setShowOutdoorTemp((prev) => !prev);
@@ -61,6 +76,10 @@ export function useChartLegend(options: UseChartLegendOptions) {
         setShowFlowTemp((prev) => !prev);
         return;
       }
+      if (id === "percentile_bands") {
+        setShowPercentileBands((prev) => !prev);
+        return;
+      }
       // Toggle to the clicked key for AZ bars
       setActiveKey(id);
     },
@@ -71,28 +90,45 @@ export function useChartLegend(options: UseChartLegendOptions) {
   const legendItems = useMemo<LegendItem[]>(() => {
     const items: LegendItem[] = [];
 
-    // AZ toggle buttons
-    items.push({
-      id: azTotalKey,
-      label: azTotalKey,
-      color:
-        currentActiveKey === azTotalKey
-          ? isComparisonMode
-            ? CHART_COLORS.primary
-            : barColor
-          : CHART_COLORS.inactive,
-    });
-
-    items.push({
-      id: azHeatingKey,
-      label: azHeatingKey,
-      color:
-        currentActiveKey === azHeatingKey
-          ? isComparisonMode
-            ? CHART_COLORS.primary
-            : barColor
-          : CHART_COLORS.inactive,
-    });
+    if (seriesColors) {
+      // Both series are always shown, so the items only explain the colors
+      items.push({ id: azHeatingKey, label: azHeatingKey, color: seriesColors.heating });
+      items.push({ id: azTotalKey, label: azTotalKey, color: seriesColors.total });
+    } else {
+      // AZ toggle buttons
+      items.push({
+        id: azTotalKey,
+        label: azTotalKey,
+        color:
+          currentActiveKey === azTotalKey
+            ? isComparisonMode
+              ? CHART_COLORS.primary
+              : barColor
+            : CHART_COLORS.inactive,
+      });
+
+      items.push({
+        id: azHeatingKey,
+        label: azHeatingKey,
+        color:
+          currentActiveKey === azHeatingKey
+            ? isComparisonMode
+              ? CHART_COLORS.primary
+              : barColor
+            : CHART_COLORS.inactive,
+      });
+    }
+
+    // Comparison groups (e.g. one per year)
+    if (showGroupLegend && isComparisonMode && comparisonGroups) {
+      for (const group of comparisonGroups) {
+        items.push({
+          id: `${GROUP_LEGEND_PREFIX}${group.id}`,
+          label: group.name,
+          color: group.color,
+        });
+      }
+    }
 
     // Temperature lines (only if enabled)
     if (showTemperatureLines) {
@@ -109,6 +145,15 @@ export function useChartLegend(options: UseChartLegendOptions) {
       });
     }
 
+    // Percentile band overlay (off by default)
+    if (percentileBandLabel) {
+      items.push({
+        id: "percentile_bands",
+        label: percentileBandLabel,
+        color: showPercentileBands ? CHART_COLORS.percentileBand : CHART_COLORS.inactive,
+      });
+    }
+
     return items;
   }, [
     azTotalKey,
@@ -121,23 +166,39 @@ export function useChartLegend(options: UseChartLegendOptions) {
     outdoorTempLabel,
     flowTempLabel,
     showTemperatureLines,
+    percentileBandLabel,
+    showPercentileBands,
+    showGroupLegend,
+    comparisonGroups,
+    seriesColors,
   ]);
 
   // Generate chart keys based on mode
   const chartKeys = useMemo<string[]>(() => {
     if (isComparisonMode && comparisonGroups) {
       // In comparison mode, use active key with group suffixes
-      return comparisonGroups.map((group) => `${currentActiveKey} (${group.name})`);
+      return comparisonGroups.map((group) => comparisonSeriesKey(currentActiveKey, group.name));
     }
 
+    // Both series, heating first so that it is the lower part of stacked bars
+    if (seriesColors) return [azHeatingKey, azTotalKey];
+
     // Normal mode: single key
     return [currentActiveKey];
-  }, [isComparisonMode, comparisonGroups, currentActiveKey]);
+  }, [
+    isComparisonMode,
+    comparisonGroups,
+    currentActiveKey,
+    seriesColors,
+    azHeatingKey,
+    azTotalKey,
+  ]);
 
   return {
     activeKey: currentActiveKey,
     showOutdoorTemp,
     showFlowTemp,
+    showPercentileBands,
     chartKeys,
     legendItems,
     handleLegendClick,
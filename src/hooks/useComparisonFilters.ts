@@ -1,93 +1,220 @@
 import type { GridFilterModel } from "@mui/x-data-grid";
-import { useMemo, useState } from "react";
-import { CHART_COLORS } from "../lib/chartTheme";
-import { countActiveFilterItems } from "../lib/filterModelUtils";
-
-export interface ComparisonGroup {
-  id: 1 | 2;
-  name: string;
-  color: string;
+import { useCallback, useMemo, useState } from "react";
+import { comparisonGroupColor, MAX_COMPARISON_GROUPS } from "../lib/chartTheme";
+import { countActiveFilterItems, suggestFilterModelLabel } from "../lib/filterModelUtils";
+
+// Name and color of a filter group as shown in the toolbar, charts and exports
+export interface FilterGroupAppearance {
+  name: string; // Label set by the user, else suggested from the filters
+  color: string; // Color picked by the user, else the default color of the position
+  label: string | null; // Label set by the user
+  suggestedLabel: string | null; // Derived from the active filter items
+}
+
+export interface ComparisonGroup extends FilterGroupAppearance {
+  id: number; // 1-based position of the filter group
   filterModel: GridFilterModel;
 }
 
+// Groups 1 and 2 always exist; further groups are added on demand
+const MIN_FILTER_GROUPS = 2;
+
+const EMPTY_FILTER_MODEL: GridFilterModel = { items: [] };
+
+interface FilterGroupState {
+  filterModel: GridFilterModel;
+  label: string | null;
+  color: string | null;
+}
+
+const emptyFilterGroup = (): FilterGroupState => ({
+  filterModel: EMPTY_FILTER_MODEL,
+  label: null,
+  color: null,
+});
+
 export interface UseComparisonFiltersReturn {
-  // Filter models
+  // Filter models of all groups, index 0 is group 1
+  filterGroups: GridFilterModel[];
   filterGroup1: GridFilterModel;
   filterGroup2: GridFilterModel;
 
+  // Names and colors of all groups, index 0 is group 1
+  filterGroupAppearances: FilterGroupAppearance[];
+
   // Active group in DataGrid
-  activeGroup: 1 | 2;
-  setActiveGroup: (group: 1 | 2) => void;
+  activeGroup: number;
+  setActiveGroup: (group: number) => void;
 
   // Comparison mode (auto-detected)
   comparisonMode: boolean;
 
   // Update filters
+  updateFilterGroup: (group: number, model: GridFilterModel) => void;
   updateFilterGroup1: (model: GridFilterModel) => void;
   updateFilterGroup2: (model: GridFilterModel) => void;
 
+  // Rename a group or pick its color; null restores the default
+  updateFilterGroupAppearance: (
+    group: number,
+    appearance: { label?: string | null; color?: string | null },
+  ) => void;
+
+  // Add an empty group (up to MAX_COMPARISON_GROUPS) and make it the active one
+  addFilterGroup: () => void;
+  // Remove a group; later groups move up by one
+  removeFilterGroup: (group: number) => void;
+
   // Get the active filter model for DataGrid
   activeFilterModel: GridFilterModel;
 
   // Helper to apply filters to data
   getComparisonGroups: () => ComparisonGroup[];
 
-  // Clear a filter group
+  // Clear all groups but the first (exits comparison mode)
   clearFilterGroup2: () => void;
 }
 
-export function useComparisonFilters(): UseComparisonFiltersReturn {
-  const [filterGroup1, setFilterGroup1] = useState<GridFilterModel>({ items: [] });
-  const [filterGroup2, setFilterGroup2] = useState<GridFilterModel>({ items: [] });
-  const [activeGroup, setActiveGroup] = useState<1 | 2>(1);
+// Filter models to start with, e.g. restored from the URL
+export interface InitialComparisonFilters {
+  filterGroups?: Array<GridFilterModel | null>;
+}
+
+function initialFilterGroups(initialFilters?: InitialComparisonFilters): FilterGroupState[] {
+  const groups = (initialFilters?.filterGroups ?? [])
+    .slice(0, MAX_COMPARISON_GROUPS)
+    .map((model) => ({ ...emptyFilterGroup(), filterModel: model ?? EMPTY_FILTER_MODEL }));
+  while (groups.length < MIN_FILTER_GROUPS) groups.push(emptyFilterGroup());
+  return groups;
+}
+
+/**
+ * Resolves the names and colors of the groups. Names are made unique, as charts key their
+ * series by group name.
+ */
+function resolveAppearances(groups: FilterGroupState[]): FilterGroupAppearance[] {
+  const usedNames = new Set<string>();
+  return groups.map((group, index) => {
+    const suggestedLabel = suggestFilterModelLabel(group.filterModel);
+    const baseName = group.label?.trim() || suggestedLabel || `Filter ${index + 1}`;
+    const name = usedNames.has(baseName) ? `${baseName} #${index + 1}` : baseName;
+    usedNames.add(name);
+    return {
+      name,
+      color: group.color ?? comparisonGroupColor(index + 1),
+      label: group.label,
+      suggestedLabel,
+    };
+  });
+}
+
+export function useComparisonFilters(
+  initialFilters?: InitialComparisonFilters,
+): UseComparisonFiltersReturn {
+  const [groups, setGroups] = useState<FilterGroupState[]>(() =>
+    initialFilterGroups(initialFilters),
+  );
+  const [activeGroup, setActiveGroupState] = useState(1);
 
-  // Auto-detect comparison mode: active when group 2 has filters
+  const filterGroups = useMemo(() => groups.map((group) => group.filterModel), [groups]);
+  const filterGroupAppearances = useMemo(() => resolveAppearances(groups), [groups]);
+
+  const setActiveGroup = useCallback(
+    (group: number) => setActiveGroupState(Math.max(1, Math.min(group, MAX_COMPARISON_GROUPS))),
+    [],
+  );
+
+  // Auto-detect comparison mode: active when any group besides the first has filters
   const comparisonMode = useMemo(() => {
-    return countActiveFilterItems(filterGroup2) > 0;
-  }, [filterGroup2]);
+    return filterGroups.slice(1).some((model) => countActiveFilterItems(model) > 0);
+  }, [filterGroups]);
 
   // Get the active filter model based on current active group
   const activeFilterModel = useMemo(() => {
-    return activeGroup === 1 ? filterGroup1 : filterGroup2;
-  }, [activeGroup, filterGroup1, filterGroup2]);
-
-  // Get comparison groups for chart rendering
-  const getComparisonGroups = (): ComparisonGroup[] => {
-    const groups: ComparisonGroup[] = [
-      {
-        id: 1,
-        name: "Filter 1",
-        color: CHART_COLORS.group1,
-        filterModel: filterGroup1,
-      },
-    ];
-
-    if (comparisonMode) {
-      groups.push({
-        id: 2,
-        name: "Filter 2",
-        color: CHART_COLORS.group2,
-        filterModel: filterGroup2,
-      });
-    }
-
-    return groups;
-  };
-
-  // Clear filter group 2 (exits comparison mode)
-  const clearFilterGroup2 = () => {
-    setFilterGroup2({ items: [] });
-    setActiveGroup(1);
-  };
+    return filterGroups[activeGroup - 1] ?? EMPTY_FILTER_MODEL;
+  }, [activeGroup, filterGroups]);
+
+  const updateFilterGroup = useCallback((group: number, model: GridFilterModel) => {
+    setGroups((current) =>
+      current.map((existing, index) =>
+        index === group - 1 ? { ...existing, filterModel: model } : existing,
+      ),
+    );
+  }, []);
+
+  const updateFilterGroup1 = useCallback(
+    (model: GridFilterModel) => updateFilterGroup(1, model),
+    [updateFilterGroup],
+  );
+  const updateFilterGroup2 = useCallback(
+    (model: GridFilterModel) => updateFilterGroup(2, model),
+    [updateFilterGroup],
+  );
+
+  const updateFilterGroupAppearance = useCallback(
+    (group: number, appearance: { label?: string | null; color?: string | null }) => {
+      setGroups((current) =>
+        current.map((existing, index) =>
+          index === group - 1 ? { ...existing, ...appearance } : existing,
+        ),
+      );
+    },
+    [],
+  );
+
+  const addFilterGroup = useCallback(() => {
+    if (groups.length >= MAX_COMPARISON_GROUPS) return;
+    setGroups([...groups, emptyFilterGroup()]);
+    setActiveGroupState(groups.length + 1);
+  }, [groups]);
+
+  const removeFilterGroup = useCallback(
+    (group: number) => {
+      if (group < 2 || group > groups.length) return;
+      // The second group is kept as an empty slot for starting a comparison
+      setGroups(
+        groups.length > MIN_FILTER_GROUPS
+          ? groups.filter((_, index) => index !== group - 1)
+          : groups.map((existing, index) => (index === group - 1 ? emptyFilterGroup() : existing)),
+      );
+      setActiveGroupState((active) =>
+        active === group ? 1 : active > group ? active - 1 : active,
+      );
+    },
+    [groups],
+  );
+
+  // Get comparison groups for chart rendering: group 1 and every other group with filters
+  const getComparisonGroups = useCallback((): ComparisonGroup[] => {
+    return filterGroups
+      .map((filterModel, index) => ({
+        id: index + 1,
+        ...filterGroupAppearances[index],
+        filterModel,
+      }))
+      .filter((group) => group.id === 1 || countActiveFilterItems(group.filterModel) > 0);
+  }, [filterGroups, filterGroupAppearances]);
+
+  // Clear all comparison groups (exits comparison mode)
+  const clearFilterGroup2 = useCallback(() => {
+    setGroups((current) => [current[0], emptyFilterGroup()]);
+    setActiveGroupState(1);
+  }, []);
 
   return {
-    filterGroup1,
-    filterGroup2,
+    filterGroups,
+    filterGroup1: filterGroups[0],
+    filterGroup2: filterGroups[1],
+    filterGroupAppearances,
     activeGroup,
     setActiveGroup,
     comparisonMode,
-    updateFilterGroup1: setFilterGroup1,
-    updateFilterGroup2: setFilterGroup2,
+    updateFilterGroup,
+    updateFilterGroup1,
+    updateFilterGroup2,
+    updateFilterGroupAppearance,
+    addFilterGroup,
+    removeFilterGroup,
     activeFilterModel,
     getComparisonGroups,
     clearFilterGroup2,
@@ -3,7 +3,32 @@ import { useCallback, useMemo } from "react";
 import type { ChartDataRow, ComparisonDataGroup } from "../components/common/charts";
 import { applyGridFilterModel, countActiveFilterItems } from "../lib/filterModelUtils";
 import type { FilterValueResolver } from "../lib/filterValueResolver";
-import { useComparisonFilters } from "./useComparisonFilters";
+import {
+  type ComparisonGroup,
+  type InitialComparisonFilters,
+  useComparisonFilters,
+} from "./useComparisonFilters";
+
+/**
+ * Splits rows into the chart data of the comparison groups. Pages that load their rows after
+ * the filters are known call useComparisonMode without data and this hook with the rows.
+ */
+export function useComparisonDataGroups<T>(
+  data: T[] | undefined,
+  comparisonGroups: ComparisonGroup[] | undefined,
+  applyFiltersToData: (data: T[], filterModel: GridFilterModel) => T[],
+) {
+  return useMemo<ComparisonDataGroup[] | undefined>(() => {
+    if (!comparisonGroups || !data) return undefined;
+
+    return comparisonGroups.map((group) => ({
+      id: String(group.id),
+      name: group.name,
+      color: group.color,
+      data: applyFiltersToData(data, group.filterModel) as ChartDataRow[],
+    }));
+  }, [comparisonGroups, data, applyFiltersToData]);
+}
 
 /**
  * Custom hook that encapsulates all comparison mode logic.
@@ -12,19 +37,30 @@ import { useComparisonFilters } from "./useComparisonFilters";
 export function useComparisonMode<T extends Record<string, unknown>>(
   data: T[] | undefined,
   resolveFilterValue?: FilterValueResolver<T>,
+  initialFilters?: InitialComparisonFilters,
 ) {
   const {
+    filterGroups,
     filterGroup1,
     filterGroup2,
+    filterGroupAppearances,
     activeGroup,
     setActiveGroup,
     comparisonMode,
-    updateFilterGroup1,
-    updateFilterGroup2,
+    updateFilterGroup,
+    updateFilterGroupAppearance,
+    addFilterGroup,
+    removeFilterGroup,
     activeFilterModel,
     getComparisonGroups,
     clearFilterGroup2,
-  } = useComparisonFilters();
+  } = useComparisonFilters(initialFilters);
+
+  // Groups shown in the charts, for pages that fetch the data of each group themselves
+  const comparisonGroups = useMemo(
+    () => (comparisonMode ? getComparisonGroups() : undefined),
+    [comparisonMode, getComparisonGroups],
+  );
 
   const resolveValue = useCallback(
     (row: T, field: string) => {
@@ -50,17 +86,11 @@ export function useComparisonMode<T extends Record<string, unknown>>(
   );
 
   // Generate comparison groups for chart
-  const comparisonGroupsForChart = useMemo<ComparisonDataGroup[] | undefined>(() => {
-    if (!comparisonMode || !data) return undefined;
-
-    const groups = getComparisonGroups();
-    return groups.map((group) => ({
-      id: String(group.id),
-      name: group.name,
-      color: group.color,
-      data: applyFiltersToData(data, group.filterModel) as ChartDataRow[],
-    }));
-  }, [comparisonMode, data, getComparisonGroups, applyFiltersToData]);
+  const comparisonGroupsForChart = useComparisonDataGroups(
+    data,
+    comparisonGroups,
+    applyFiltersToData,
+  );
 
   // Generate filtered data for single-filter mode (not in comparison mode)
   const filteredDataForChart = useMemo<ChartDataRow[] | undefined>(() => {
@@ -72,27 +102,11 @@ export function useComparisonMode<T extends Record<string, unknown>>(
 
   // Handle filter model changes
   const handleFilterModelChange = useCallback(
-    (model: GridFilterModel) => {
-      if (activeGroup === 1) {
-        updateFilterGroup1(model);
-      } else {
-        updateFilterGroup2(model);
-      }
-    },
-    [activeGroup, updateFilterGroup1, updateFilterGroup2],
+    (model: GridFilterModel) => updateFilterGroup(activeGroup, model),
+    [activeGroup, updateFilterGroup],
   );
 
-  // Handle updating a specific filter group
-  const handleUpdateFilterGroup = useCallback(
-    (group: 1 | 2, model: GridFilterModel) => {
-      if (group === 1) {
-        updateFilterGroup1(model);
-      } else {
-        updateFilterGroup2(model);
-      }
-    },
-    [updateFilterGroup1, updateFilterGroup2],
-  );
+  const filterGroupCounts = useMemo(() => filterGroups.map(countActiveFilterItems), [filterGroups]);
 
   // Props to pass to DataGridWrapper
   const dataGridComparisonProps = useMemo(
@@ -102,9 +116,14 @@ export function useComparisonMode<T extends Record<string, unknown>>(
       activeFilterModel,
       filterGroup1Count: countActiveFilterItems(filterGroup1),
       filterGroup2Count: countActiveFilterItems(filterGroup2),
+      filterGroupCounts,
+      filterGroupAppearances,
       onFilterModelChange: handleFilterModelChange,
-      onUpdateFilterGroup: handleUpdateFilterGroup,
+      onUpdateFilterGroup: updateFilterGroup,
       onSetActiveGroup: setActiveGroup,
+      onAddFilterGroup: addFilterGroup,
+      onRemoveFilterGroup: removeFilterGroup,
+      onUpdateFilterGroupAppearance: updateFilterGroupAppearance,
       onClearFilterGroup2: clearFilterGroup2,
     }),
     [
@@ -113,15 +132,22 @@ export function useComparisonMode<T extends Record<string, unknown>>(
       activeFilterModel,
       filterGroup1,
       filterGroup2,
+      filterGroupCounts,
+      filterGroupAppearances,
       handleFilterModelChange,
-      handleUpdateFilterGroup,
+      updateFilterGroup,
       setActiveGroup,
+      addFilterGroup,
+      removeFilterGroup,
+      updateFilterGroupAppearance,
       clearFilterGroup2,
     ],
   );
 
   return {
     comparisonMode,
+    filterGroups,
+    comparisonGroups,
     comparisonGroupsForChart,
     filteredDataForChart,
     activeFilterModel,
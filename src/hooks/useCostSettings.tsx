@@ -0,0 +1,41 @@
+import { createContext, type ReactNode, useContext, useMemo, useState } from "react";
+import {
+  addEnergyCosts,
+  type CostDataRow,
+  type CostSettings,
+  DEFAULT_COST_SETTINGS,
+} from "../lib/energyCost";
+import type { EnergyPeriod } from "../lib/systemConsumption";
+
+interface CostSettingsValue {
+  costSettings: CostSettings;
+  setCostSettings: (settings: CostSettings) => void;
+}
+
+const CostSettingsContext = createContext<CostSettingsValue>({
+  costSettings: DEFAULT_COST_SETTINGS,
+  setCostSettings: () => undefined,
+});
+
+export function CostSettingsProvider({ children }: { children: ReactNode }) {
+  const [costSettings, setCostSettings] = useState(DEFAULT_COST_SETTINGS);
+  const value = useMemo(() => ({ costSettings, setCostSettings }), [costSettings]);
+
+  return <CostSettingsContext.Provider value={value}>{children}</CostSettingsContext.Provider>;
+}
+
+export function useCostSettings() {
+  return useContext(CostSettingsContext);
+}
+
+export function useEnergyCostRows<T extends CostDataRow>(
+  rows: T[] | undefined,
+  period: EnergyPeriod,
+) {
+  const { costSettings } = useCostSettings();
+
+  return useMemo(
+    () => rows && addEnergyCosts(rows, costSettings, period),
+    [rows, costSettings, period],
+  );
+}
@@ -0,0 +1,140 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  type FilterPreset,
+  mergeFilterPresets,
+  readLocalFilterPresets,
+  writeLocalFilterPresets,
+} from "../lib/filterPresets";
+import { supabase } from "../lib/supabaseClient";
+
+interface FilterPresetsValue {
+  presets: FilterPreset[];
+  // Reject if the preset was stored locally but could not be synced to the account
+  savePreset: (name: string, filter: string) => Promise<void>;
+  deletePreset: (id: string) => Promise<void>;
+}
+
+const FilterPresetsContext = createContext<FilterPresetsValue>({
+  presets: [],
+  savePreset: async () => undefined,
+  deletePreset: async () => undefined,
+});
+
+/**
+ * Keeps filter presets in local storage and, for logged-in users, in Supabase,
+ * so that they are available on other devices as well
+ */
+export function FilterPresetsProvider({
+  userId,
+  children,
+}: {
+  userId?: string;
+  children: ReactNode;
+}) {
+  const queryClient = useQueryClient();
+  const [localPresets, setLocalPresets] = useState(readLocalFilterPresets);
+
+  useEffect(() => {
+    writeLocalFilterPresets(localPresets);
+  }, [localPresets]);
+
+  const { data: remotePresets } = useQuery({
+    queryKey: ["filter_presets", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("filter_presets")
+        .select("id, name, filter, created_at")
+        .eq("user_id", userId as string);
+      if (error) throw error;
+      return data.map(
+        (row): FilterPreset => ({
+          id: row.id,
+          name: row.name,
+          filter: row.filter,
+          createdAt: row.created_at,
+        }),
+      );
+    },
+    enabled: !!userId,
+  });
+
+  const { mutateAsync: saveRemotePreset } = useMutation({
+    mutationFn: async ({ userId, preset }: { userId: string; preset: FilterPreset }) => {
+      const { error } = await supabase.from("filter_presets").upsert({
+        id: preset.id,
+        user_id: userId,
+        name: preset.name,
+        filter: preset.filter,
+        created_at: preset.createdAt,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["filter_presets", userId] });
+    },
+  });
+
+  const { mutateAsync: deleteRemotePreset } = useMutation({
+    mutationFn: async ({ userId, id }: { userId: string; id: string }) => {
+      const { error } = await supabase
+        .from("filter_presets")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["filter_presets", userId] });
+    },
+  });
+
+  const savePreset = useCallback(
+    async (name: string, filter: string) => {
+      // Saving under an existing name replaces that preset
+      const existing = mergeFilterPresets(remotePresets ?? [], localPresets).find(
+        (preset) => preset.name === name,
+      );
+      const preset: FilterPreset = {
+        id: existing?.id ?? crypto.randomUUID(),
+        name,
+        filter,
+        createdAt: new Date().toISOString(),
+      };
+      setLocalPresets((presets) => [...presets.filter((entry) => entry.id !== preset.id), preset]);
+      if (userId) await saveRemotePreset({ userId, preset });
+    },
+    [localPresets, remotePresets, userId, saveRemotePreset],
+  );
+
+  const deletePreset = useCallback(
+    async (id: string) => {
+      setLocalPresets((presets) => presets.filter((preset) => preset.id !== id));
+      if (userId) await deleteRemotePreset({ userId, id });
+    },
+    [userId, deleteRemotePreset],
+  );
+
+  const value = useMemo(
+    () => ({
+      presets: mergeFilterPresets(remotePresets ?? [], localPresets),
+      savePreset,
+      deletePreset,
+    }),
+    [remotePresets, localPresets, savePreset, deletePreset],
+  );
+
+  return <FilterPresetsContext.Provider value={value}>{children}</FilterPresetsContext.Provider>;
+}
+
+export function useFilterPresets() {
+  return useContext(FilterPresetsContext);
+}
@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import { supabase } from "../lib/supabaseClient";
+import type { Database } from "../types/database.types";
+import { useSystemConsumptionRows } from "./useSystemConsumptionMode";
+
+type DailyValue = Database["public"]["Views"]["daily_values_view"]["Row"];
+
+// PostgREST returns at most this many rows per request
+const HISTORY_PAGE_SIZE = 1000;
+
+// Values compared by the outlier detection and what removing the system consumption needs
+const HISTORY_FIELDS =
+  "heating_id, az, az_heating, thermal_energy_kwh, electrical_energy_kwh, " +
+  "thermal_energy_heating_kwh, electrical_energy_heating_kwh, model_idu, model_odu, standby_power_w";
+
+type HistoryFields =
+  | "heating_id"
+  | "az"
+  | "az_heating"
+  | "thermal_energy_kwh"
+  | "electrical_energy_kwh"
+  | "thermal_energy_heating_kwh"
+  | "electrical_energy_heating_kwh"
+  | "model_idu"
+  | "model_odu"
+  | "standby_power_w";
+
+export type OutlierHistoryRow = Pick<DailyValue, HistoryFields> & {
+  date?: string | null;
+  created_at?: string | null;
+};
+
+async function loadDailyHistory(heatingIds: readonly string[], start: string, end: string) {
+  const rows: OutlierHistoryRow[] = [];
+  for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("daily_values_view")
+      .select(`${HISTORY_FIELDS}, date`)
+      .in("heating_id", heatingIds)
+      .gte("date", start)
+      .lt("date", end)
+      .order("heating_id", { ascending: true })
+      .order("date", { ascending: true })
+      .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data as OutlierHistoryRow[]));
+    if (data.length < HISTORY_PAGE_SIZE) return rows;
+  }
+}
+
+async function loadHourlyHistory(heatingIds: readonly string[], start: string, end: string) {
+  const rows: OutlierHistoryRow[] = [];
+  for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("measurement_deltas_view")
+      .select(`${HISTORY_FIELDS}, created_at`)
+      .in("heating_id", heatingIds)
+      .gte("created_at", dayjs(start).startOf("day").toISOString())
+      .lt("created_at", dayjs(end).startOf("day").toISOString())
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data as OutlierHistoryRow[]));
+    if (data.length < HISTORY_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Values of the given systems in the days before the shown period, the baseline of the
+ * outlier detection: daily values for days, hourly deltas for hours. The system consumption
+ * is removed like from the shown rows, so that both are compared on the same terms.
+ *
+ * @param start - First day (YYYY-MM-DD) of the history
+ * @param end - Day after the history (YYYY-MM-DD), usually the first shown day
+ */
+export function useOutlierHistory(
+  period: "day" | "hour",
+  heatingIds: readonly string[],
+  start: string,
+  end: string,
+) {
+  const { data } = useQuery({
+    queryKey: ["outlier_history", period, heatingIds, start, end],
+    enabled: heatingIds.length > 0,
+    queryFn: () =>
+      period === "day"
+        ? loadDailyHistory(heatingIds, start, end)
+        : loadHourlyHistory(heatingIds, start, end),
+  });
+
+  return useSystemConsumptionRows(data, period);
+}
@@ -0,0 +1,36 @@
+import type { GridFilterModel } from "@mui/x-data-grid";
+import { useMemo } from "react";
+import {
+  restrictServerFilterModel,
+  type ServerFilterModel,
+  sanitizeGridFilterModel,
+} from "../lib/serverFilterModel";
+import type { ComparisonGroup } from "./useComparisonFilters";
+import { useDebouncedValue } from "./useDebouncedValue";
+
+const FILTER_REQUEST_DEBOUNCE_MS = 700;
+
+/**
+ * Server filters for the chart rows: the rows of the grid's filters and of all comparison
+ * groups. The server only filters by the given view columns, so the groups are still split on
+ * the client, where filters on derived columns apply as well.
+ */
+export function useServerChartFilters(
+  activeFilterModel: GridFilterModel,
+  comparisonGroups: ComparisonGroup[] | undefined,
+  fields: ReadonlySet<string>,
+): ServerFilterModel[] {
+  const filterModels = useMemo(
+    () => [activeFilterModel, ...(comparisonGroups ?? []).map((group) => group.filterModel)],
+    [activeFilterModel, comparisonGroups],
+  );
+  const debouncedFilterModels = useDebouncedValue(filterModels, FILTER_REQUEST_DEBOUNCE_MS);
+
+  return useMemo(
+    () =>
+      debouncedFilterModels.map((model) =>
+        restrictServerFilterModel(sanitizeGridFilterModel(model), fields),
+      ),
+    [debouncedFilterModels, fields],
+  );
+}
@@ -0,0 +1,107 @@
+import type { GridFilterModel, GridPaginationModel, GridSortModel } from "@mui/x-data-grid";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import type { ServerGridOptions } from "../components/common/data-grid";
+import {
+  applyServerFilterModels,
+  applyServerSortModel,
+  restrictServerFilterModel,
+  type ServerFilterQuery,
+  type ServerSortQuery,
+  sanitizeGridFilterModel,
+} from "../lib/serverFilterModel";
+import { useDebouncedValue } from "./useDebouncedValue";
+
+const FILTER_REQUEST_DEBOUNCE_MS = 700;
+const DEFAULT_PAGE_SIZE = 100;
+
+// PostgREST query selecting the rows with an exact count, e.g. select("*", { count: "exact" })
+interface ServerGridQuery<Q> extends ServerFilterQuery<Q>, ServerSortQuery<Q> {
+  range(
+    from: number,
+    to: number,
+  ): PromiseLike<{ data: unknown[] | null; error: unknown; count: number | null }>;
+}
+
+type ServerGridRow<Q extends ServerGridQuery<Q>> = NonNullable<
+  Awaited<ReturnType<Q["range"]>>["data"]
+>[number];
+
+interface UseServerGridRowsOptions<Q extends ServerGridQuery<Q>> {
+  queryKey: readonly unknown[];
+  // Creates the query of the whole period; filters, sorting and the page are added to it
+  query: () => Q;
+  filterModel: GridFilterModel;
+  filterFields: ReadonlySet<string>;
+  sortFields: ReadonlySet<string>;
+  initialSortModel: GridSortModel;
+  // Pages turn the server mode off for filters the server cannot apply
+  enabled: boolean;
+}
+
+/**
+ * Loads one page of grid rows at a time, filtered and sorted by the server.
+ * Pass `serverMode` to DataGridWrapper; it is undefined while the hook is disabled.
+ */
+export function useServerGridRows<Q extends ServerGridQuery<Q>>({
+  queryKey,
+  query,
+  filterModel,
+  filterFields,
+  sortFields,
+  initialSortModel,
+  enabled,
+}: UseServerGridRowsOptions<Q>) {
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
+    page: 0,
+    pageSize: DEFAULT_PAGE_SIZE,
+  });
+  const [sortModel, setSortModel] = useState<GridSortModel>(initialSortModel);
+
+  const debouncedFilterModel = useDebouncedValue(filterModel, FILTER_REQUEST_DEBOUNCE_MS);
+  const serverFilterModel = useMemo(
+    () => restrictServerFilterModel(sanitizeGridFilterModel(debouncedFilterModel), filterFields),
+    [debouncedFilterModel, filterFields],
+  );
+  const filterKey = JSON.stringify(serverFilterModel);
+
+  // Other filters start at the first page again
+  useEffect(() => {
+    setPaginationModel((current) => (current.page === 0 ? current : { ...current, page: 0 }));
+  }, [filterKey]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...queryKey, filterKey, sortModel, paginationModel],
+    queryFn: async () => {
+      const from = paginationModel.page * paginationModel.pageSize;
+      const sorted = applyServerSortModel(
+        applyServerFilterModels(query(), [serverFilterModel]),
+        sortModel,
+      );
+      const { data, error, count } = await sorted.range(from, from + paginationModel.pageSize - 1);
+
+      if (error) throw error;
+      return { rows: (data ?? []) as ServerGridRow<Q>[], rowCount: count ?? 0 };
+    },
+    enabled,
+    // Keep the previous page visible while the next one loads
+    placeholderData: (previousData) => previousData,
+  });
+
+  const serverMode = useMemo<ServerGridOptions | undefined>(
+    () =>
+      enabled
+        ? {
+            rowCount: data?.rowCount ?? 0,
+            paginationModel,
+            onPaginationModelChange: setPaginationModel,
+            sortModel,
+            onSortModelChange: setSortModel,
+            sortFields,
+          }
+        : undefined,
+    [enabled, data?.rowCount, paginationModel, sortModel, sortFields],
+  );
+
+  return { rows: data?.rows, isLoading, error, serverMode };
+}
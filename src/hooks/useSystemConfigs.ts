@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { supabase } from "../lib/supabaseClient";
+import {
+  applyConfigHistory,
+  type ConfigHistoryRow,
+  getHeatingIds,
+  groupConfigsBySystem,
+  type SystemConfig,
+} from "../lib/systemConfigHistory";
+import type { Database } from "../types/database.types";
+
+type SystemConfigInsert = Database["public"]["Tables"]["heating_system_configs"]["Insert"];
+
+// PostgREST returns at most this many rows per request
+const CONFIG_PAGE_SIZE = 1000;
+
+/**
+ * Configuration history of the given systems, or of all systems without heating IDs.
+ * An empty list loads nothing.
+ *
+ * @param heatingIds - Sorted heating IDs, e.g. from getHeatingIds
+ */
+export function useSystemConfigs(heatingIds?: readonly string[]) {
+  return useQuery({
+    queryKey: ["heating_system_configs", heatingIds ?? "all"],
+    queryFn: async () => {
+      const configs: SystemConfig[] = [];
+      for (let from = 0; ; from += CONFIG_PAGE_SIZE) {
+        let query = supabase
+          .from("heating_system_configs")
+          .select("heating_id, effective_from, heating_type, sw_idu, sw_odu, thermometer_offset_k");
+        if (heatingIds) query = query.in("heating_id", heatingIds);
+        const { data, error } = await query
+          .order("heating_id", { ascending: true })
+          .order("effective_from", { ascending: true })
+          .range(from, from + CONFIG_PAGE_SIZE - 1);
+        if (error) throw error;
+        configs.push(...(data as SystemConfig[]));
+        if (data.length < CONFIG_PAGE_SIZE) return configs;
+      }
+    },
+    enabled: heatingIds === undefined || heatingIds.length > 0,
+    placeholderData: (previousData) => previousData,
+  });
+}
+
+export function useSaveSystemConfigs() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entries: SystemConfigInsert[]) => {
+      if (entries.length === 0) return;
+      const { error } = await supabase
+        .from("heating_system_configs")
+        .upsert(entries, { onConflict: "heating_id,effective_from" });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["heating_system_configs"] });
+    },
+  });
+}
+
+/**
+ * Resolves the configuration valid at each row's date from the configuration history
+ */
+export function useConfigHistoryRows<T extends ConfigHistoryRow>(rows: T[] | undefined) {
+  const heatingIds = useMemo(() => getHeatingIds(rows ?? []), [rows]);
+  const { data: configs } = useSystemConfigs(heatingIds);
+  const configsBySystem = useMemo(() => groupConfigsBySystem(configs ?? []), [configs]);
+
+  return useMemo(() => rows && applyConfigHistory(rows, configsBySystem), [rows, configsBySystem]);
+}
@@ -38,6 +38,7 @@ export function useSystemConsumptionRows<T extends EnergyDataRow>(
   period: EnergyPeriod,
 ) {
   const { excludeSystemConsumption } = useSystemConsumptionMode();
+
   return useMemo(
     () => (excludeSystemConsumption ? removeSystemConsumptionFromRows(rows, period) : rows),
     [excludeSystemConsumption, period, rows],
@@ -0,0 +1,147 @@
+import type { GridFilterModel } from "@mui/x-data-grid";
+import { type QueryObserverResult, useQueries } from "@tanstack/react-query";
+import { useMemo } from "react";
+import type { AggregationMode, ComparisonDataGroup, MetricMode } from "../components/common/charts";
+import { createElectricityPriceLookup } from "../lib/energyCost";
+import { type ServerFilterModel, sanitizeGridFilterModel } from "../lib/serverFilterModel";
+import { supabase } from "../lib/supabaseClient";
+import { aggregatesToChartRows, type TimeSeriesAggregate } from "../lib/timeSeriesAggregates";
+import type { ComparisonGroup } from "./useComparisonFilters";
+import { useCostSettings } from "./useCostSettings";
+import { useDebouncedValue } from "./useDebouncedValue";
+import { useSystemConsumptionMode } from "./useSystemConsumptionMode";
+
+const FILTER_REQUEST_DEBOUNCE_MS = 700;
+
+async function loadAggregates(
+  period: "hour" | "day",
+  start: string,
+  end: string,
+  filterModel: ServerFilterModel,
+  excludeSystemConsumption: boolean,
+): Promise<TimeSeriesAggregate[]> {
+  const { data, error } =
+    period === "hour"
+      ? await supabase.rpc("aggregate_measurement_deltas_by_hour", {
+          start_at: start,
+          end_at: end,
+          filter_model: filterModel,
+          exclude_system_consumption: excludeSystemConsumption,
+        })
+      : await supabase.rpc("aggregate_daily_values_by_day", {
+          start_date: start,
+          end_date: end,
+          filter_model: filterModel,
+          exclude_system_consumption: excludeSystemConsumption,
+        });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Module-level so that the combined result stays stable between renders
+function combineAggregates(results: QueryObserverResult<TimeSeriesAggregate[]>[]) {
+  return {
+    data: results.map((result) => result.data),
+    isLoading: results.some((result) => result.isLoading),
+    error: results.find((result) => result.error)?.error ?? null,
+  };
+}
+
+interface UseTimeSeriesAggregatesOptions {
+  period: "hour" | "day";
+  // First hour (ISO timestamp) or day (YYYY-MM-DD) of the period
+  start: string;
+  // Last hour or day of the period
+  end: string;
+  activeFilterModel: GridFilterModel;
+  comparisonGroups: ComparisonGroup[] | undefined;
+  indexField: string;
+  // Index value of a period, e.g. its hour
+  indexOf: (periodStart: string) => string;
+  // Weather-normalized values are not aggregated, they need every row
+  metricMode: MetricMode;
+  aggregationMode: AggregationMode;
+  enabled: boolean;
+}
+
+/**
+ * Chart rows of the server-side aggregates of each hour or day of a period
+ * (see timeSeriesAggregates.ts): `data` for the grid's filters, or one comparison group
+ * per filter group. Pass both to AzBarChart with `preAggregated`.
+ */
+export function useTimeSeriesAggregates({
+  period,
+  start,
+  end,
+  activeFilterModel,
+  comparisonGroups,
+  indexField,
+  indexOf,
+  metricMode,
+  aggregationMode,
+  enabled,
+}: UseTimeSeriesAggregatesOptions) {
+  const { excludeSystemConsumption } = useSystemConsumptionMode();
+  const { costSettings } = useCostSettings();
+
+  const filterModels = useMemo(
+    () =>
+      comparisonGroups ? comparisonGroups.map((group) => group.filterModel) : [activeFilterModel],
+    [comparisonGroups, activeFilterModel],
+  );
+  const debouncedFilterModels = useDebouncedValue(filterModels, FILTER_REQUEST_DEBOUNCE_MS);
+
+  const { data, isLoading, error } = useQueries({
+    queries: debouncedFilterModels.map((model) => {
+      const filterModel = sanitizeGridFilterModel(model);
+      return {
+        queryKey: [
+          "time_series_aggregates",
+          period,
+          start,
+          end,
+          JSON.stringify(filterModel),
+          excludeSystemConsumption,
+        ],
+        queryFn: () => loadAggregates(period, start, end, filterModel, excludeSystemConsumption),
+        enabled: enabled && metricMode !== "normalized",
+        placeholderData: (previousData: TimeSeriesAggregate[] | undefined) => previousData,
+      };
+    }),
+    combine: combineAggregates,
+  });
+
+  const chartRows = useMemo(() => {
+    if (metricMode === "normalized") return [];
+    const priceAt = createElectricityPriceLookup(costSettings);
+    return data.map((aggregates) =>
+      aggregatesToChartRows(aggregates ?? [], {
+        indexField,
+        indexOf,
+        metricMode,
+        aggregationMode,
+        priceAt: (periodStart) => priceAt(periodStart, period) / 100,
+      }),
+    );
+  }, [data, costSettings, indexField, indexOf, metricMode, aggregationMode, period]);
+
+  // Groups whose filters are still debounced have no rows yet
+  const chartGroups = useMemo<ComparisonDataGroup[] | undefined>(
+    () =>
+      comparisonGroups?.map((group, i) => ({
+        id: String(group.id),
+        name: group.name,
+        color: group.color,
+        data: chartRows[i] ?? [],
+      })),
+    [comparisonGroups, chartRows],
+  );
+
+  return {
+    data: comparisonGroups ? [] : (chartRows[0] ?? []),
+    comparisonGroups: chartGroups,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { mergeSearchParams } from "../lib/urlState";
+
+/**
+ * Query parameters of the page as they were when it was opened.
+ * Pages read their initial state from these once; afterwards the component state is
+ * the source of truth and is written back with useSyncUrlState.
+ */
+export function useInitialSearchParams(): URLSearchParams {
+  const location = useLocation();
+  const [params] = useState(() => new URLSearchParams(location.search));
+  return params;
+}
+
+/**
+ * Writes the page state into the query string (null removes a parameter).
+ * Replaces the history entry, so that changing a filter does not add a back step.
+ */
+export function useSyncUrlState(values: Record<string, string | null>) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const serialized = JSON.stringify(values);
+
+  useEffect(() => {
+    const search = mergeSearchParams(
+      location.search,
+      JSON.parse(serialized) as Record<string, string | null>,
+    ).toString();
+    if (search === location.search.replace(/^\?/, "")) return;
+    navigate(
+      { pathname: location.pathname, search: search ? `?${search}` : "" },
+      { replace: true },
+    );
+  }, [serialized, location.pathname, location.search, navigate]);
+}
@@ -27,6 +27,8 @@ const resources = {
         azTempEvaluation: "AZ-Temperatur",
         azEnergyEvaluation: "AZ-Jahresenergie",
         heatingCurve: "Heizkurve",
+        benchmark: "Meine Anlage im Vergleich",
+        firmwareImpact: "Firmware-Updates",
         myAccount: "Mein Konto",
         login: "Anmelden",
         logout: "Abmelden",
@@ -50,6 +52,8 @@ const resources = {
         copied: "Kopiert!",
         previousDay: "Vorheriger Tag",
         nextDay: "Nächster Tag",
+        previousMonth: "Vorheriger Monat",
+        nextMonth: "Nächster Monat",
         confirm: "Bestätigen",
         close: "Schließen",
         yes: "Ja",
@@ -69,9 +73,20 @@ const resources = {
         systems: "Anlagen",
         mean: "Durchschnitt",
         median: "Median",
+        trimmedMean: "Getrimmter Mittelwert (10 %)",
+        stdDev: "Standardabweichung",
+        q1: "1. Quartil (P25)",
+        q3: "3. Quartil (P75)",
+        iqr: "Interquartilsabstand",
+        userPercentileRank: "Perzentilrang deiner Anlage ({{value}})",
+        userSystemInBin: "Deine Anlage liegt in diesem Bereich",
+        highlightedSystemInBin: "Diese Anlage liegt in diesem Bereich",
         viewMode: "Ansicht",
         timeSeries: "Zeitverlauf",
         distribution: "Verteilung",
+        heatmap: "Heatmap",
+        heatmapOpenDay: "Stundenwerte vom {{date}} anzeigen",
+        defrost: "Abtauung",
         temperatureDelta: "Temperaturdifferenz (Vorlauf - Außen)",
         dailyCopStats: "Tagesarbeitszahl",
         monthlyCopStats: "Monatsarbeitszahl",
@@ -95,14 +110,56 @@ const resources = {
         metricMode: "Metrik",
         copMode: "Arbeitszahl",
         energyMode: "Stromverbrauch",
+        normalizedMode: "Witterungsbereinigt",
+        normalizedEnergyTotal: "Strom je Gradtag und m² (Heizung, sonst gesamt)",
+        normalizedEnergyHeating: "Strom je Gradtag und m² (Heizung)",
+        normalizedEnergyAxis: "kWh/(Kd·m²)",
+        costMode: "Kosten",
+        electricityCostTotal: "Stromkosten (gesamt)",
+        electricityCostHeating: "Stromkosten (Heizung)",
+        electricityCostAxis: "Stromkosten (€)",
+        dailyCostStats: "Stromkosten des Tages",
+        monthlyCostStats: "Stromkosten des Monats",
+        yearlyCostStats: "Stromkosten des Jahres",
+        monthlyNormalizedStats: "Witterungsbereinigter Strom des Monats",
+        yearlyNormalizedStats: "Witterungsbereinigter Strom des Jahres",
+        degreeDayBase: "Heizgrenztemperatur",
+        degreeDayBaseOption: "Basis {{base}} °C",
+        degreeDayBaseHint:
+          "Heizgradtage: Summe von (Basis − Tagesmitteltemperatur) über alle Tage unter der Basis. Der Stromverbrauch wird durch Heizgradtage und beheizte Fläche geteilt.",
+        percentileBands: "Streuung (P10–P90)",
+        aggregation: "Aggregation",
+        aggregationModes: {
+          mean: "Mittelwert",
+          weighted: "Energiegewichtet",
+          median: "Median",
+        },
+        aggregationHint:
+          "Energiegewichtet: Wärme ÷ Strom über alle Werte; fehlen bei einem Wert die Energien, wird der Mittelwert gezeigt. Mittelwert: Durchschnitt der einzelnen AZ.",
         completeDataOnly: "Nur vollständige Daten",
+        completeDaysOnly: "Nur vollständige Tage",
+        multiHourBucket: "Enthält Messwerte über mehrere Stunden",
+        excludeOutliers: "Ausreißer ausblenden",
         electricalEnergyTotal: "Stromverbrauch (gesamt)",
         electricalEnergyHeating: "Stromverbrauch (Heizung)",
+        electricalEnergyDhw: "Stromverbrauch (Warmwasser)",
+        electricityCostDhw: "Stromkosten (Warmwasser)",
+        azDhw: "Arbeitszahl (Warmwasser)",
+        dhwSplit: "Heizung/Warmwasser aufteilen",
+        dhwSplitHint:
+          "Warmwasser ist die Differenz aus Gesamt- und Heizungswerten. Anlagen ohne Warmwasserbereitung zählen nur bei der Heizung; bei Anlagen mit Kühlung enthält die Differenz auch die Kühlung.",
+        dhwShare: "Warmwasseranteil",
         openFullscreen: "Diagramm vergrößern",
         closeFullscreen: "Vollbild schließen",
         excludeSystemConsumption: "AZ ohne Systemverbrauch",
         systemConsumptionHint:
-          "Zieht geschätzte 25 W Systemverbrauch vom gesamten und vom Heizstrom ab.",
+          "Zieht den Standby-Verbrauch der Anlage vom gesamten und vom Heizstrom ab: den in der Anlage hinterlegten Wert, sonst eine Schätzung nach Innen- und Außeneinheit, sonst 25 W.",
+        standbyPowerSubtracted: "Abgezogen: {{watts}} ({{sources}})",
+        standbyPowerSources: {
+          system: "Wert der Anlage",
+          model: "Schätzung nach Modell",
+          default: "Standardwert",
+        },
       },
       toolbar: {
         columns: "Spalten anzeigen/verbergen",
@@ -110,10 +167,15 @@ const resources = {
         filter1: "Filter 1 konfigurieren",
         filter2:
           "Füge einen zweiten Filter hinzu, um die Arbeitszahlen im Diagramm zu vergleichen.",
-        clearFilter2: "Zweiten Filter löschen (Vergleich beenden)",
+        clearFilter2: "Vergleichsfilter löschen (Vergleich beenden)",
+        filterGroup: "Filter {{group}} konfigurieren",
+        addFilterGroup: "Weitere Filtergruppe zum Vergleichen hinzufügen",
+        removeFilterGroup: "Filtergruppe {{group}} entfernen",
         export: "Export",
         print: "Drucken",
         downloadCsv: "Als CSV herunterladen",
+        downloadCsvPage: "Aktuelle Seite als CSV herunterladen",
+        groupColumn: "Filtergruppe",
         showAllSystems: "Alle Anlagen anzeigen",
         showMySystems: "Nur meine Anlagen anzeigen",
         search: "Suchen",
@@ -121,8 +183,10 @@ const resources = {
         clearSearch: "Suche löschen",
       },
       multiFilter: {
-        group1: "Filtergruppe 1",
-        group2: "Filtergruppe 2",
+        group: "Filtergruppe {{group}}",
+        groupName: "Name im Diagramm",
+        groupColor: "Farbe im Diagramm",
+        resetAppearance: "Name und Farbe zurücksetzen",
         column: "Spalte",
         operator: "Operator",
         value: "Wert",
@@ -146,6 +210,20 @@ const resources = {
           isNotEmpty: "ist nicht leer",
         },
       },
+      filterPresets: {
+        title: "Filtervorlagen",
+        save: "Als Vorlage speichern",
+        name: "Name der Vorlage",
+        empty: "Noch keine Vorlagen gespeichert",
+        applyTo: "Auf Filtergruppe {{group}} anwenden",
+        delete: "Vorlage löschen",
+        droppedFields:
+          "Diese Seite hat nicht alle Spalten der Vorlage. Nicht angewendet: {{fields}}",
+        invalid: "Die Vorlage „{{name}}“ konnte nicht gelesen werden.",
+        saveFailed:
+          "Die Vorlage wurde nur auf diesem Gerät gespeichert und nicht in deinem Konto: {{message}}",
+        deleteFailed: "Die Vorlage konnte nicht aus deinem Konto gelöscht werden: {{message}}",
+      },
       dataQuality: {
         unrealisticCopHigh:
           "Unrealistische Arbeitszahl: {{cop}} ist zu hoch (>{{max}}) - Wert wird nicht berücksichtigt",
@@ -153,6 +231,23 @@ const resources = {
           "Unrealistische Arbeitszahl: {{cop}} ist zu niedrig (<{{min}}) - Wert wird nicht berücksichtigt",
         negativeElectricalEnergy: "Elektrische Energie kann nicht negativ sein",
         negativeThermalEnergy: "Thermische Energie - vermutlich Abtauenergie",
+        flowTemperatureOutOfRange:
+          "Vorlauftemperatur {{temperature}} °C liegt außerhalb von {{min}}–{{max}} °C",
+        implausibleOutdoorTemperature:
+          "Unplausible Außentemperatur: {{temperature}} °C - Sensor prüfen",
+        thermalWithoutElectrical:
+          "Thermische Energie ohne elektrische Energie - Wert wird nicht berücksichtigt",
+        heatingShareExceedsTotal:
+          "Heizenergie ist größer als die Gesamtenergie - Wert wird nicht berücksichtigt",
+        statisticalOutlier: {
+          az: "Ausreißer: Arbeitszahl {{value}} weicht stark vom Median der Anlage ({{median}}) ab",
+          az_heating:
+            "Ausreißer: Arbeitszahl Heizung {{value}} weicht stark vom Median der Anlage ({{median}}) ab",
+          thermal_energy_kwh:
+            "Ausreißer: Thermische Energie {{value}} kWh weicht stark vom Median der Anlage ({{median}} kWh) ab",
+          electrical_energy_kwh:
+            "Ausreißer: Elektrische Energie {{value}} kWh weicht stark vom Median der Anlage ({{median}} kWh) ab",
+        },
         dataIssue: "Datenproblem erkannt",
       },
       tableHeaders: {
@@ -174,7 +269,20 @@ const resources = {
         electricalEnergy: "El. Energie",
         thermalEnergyHeating: "Wärmeenergie Heizung",
         electricalEnergyHeating: "El. Energie Heizung",
+        azDhw: "Arbeitszahl (Warmwasser)",
+        thermalEnergyDhw: "Wärmeenergie Warmwasser",
+        electricalEnergyDhw: "El. Energie Warmwasser",
+        coverage: "Abdeckung",
+        coverageMissingHours: "Fehlende Stunden: {{hours}}",
+        coverageMergedHours: "Zusammengefasste Stunden: {{hours}}",
+        defrostHours: "Abtaustunden",
+        defrostEnergy: "Abtauenergie",
         hints: {
+          defrostHours:
+            "Stunden mit negativer Wärmemenge: Beim Abtauen entzieht die Wärmepumpe dem Heizkreis Wärme.",
+          defrostEnergy: "Wärme, die beim Abtauen aus dem Heizkreis entnommen wurde",
+          coverage:
+            "Stunden des Tages, für die die Anlage Werte geliefert hat. Zusammengefasste Stunden stecken in einem Messwert über mehrere Stunden.",
           az: "Verhältnis von erzeugter Wärmeenergie zur eingesetzten elektrischen Energie (inklusive Heizung, Warmwasser und Kühlung)",
           azHeating:
             "Verhältnis von erzeugter Wärmeenergie zur eingesetzten elektrischen Energie nur für Heizung (ohne Warmwasser und Kühlung)",
@@ -194,6 +302,12 @@ const resources = {
             "Elektrische Energie (Strom), die nur für Heizung eingesetzt wurde (ohne Warmwasser und Kühlung)",
           thermalEnergyHeating:
             "Thermische Energie (Wärme), die nur für Heizung erzeugt wurde (ohne Warmwasser und Kühlung)",
+          azDhw:
+            "Verhältnis von Wärme zu Strom für Warmwasser, berechnet aus Gesamt- minus Heizungswerten (bei Anlagen mit Kühlung inklusive Kühlung)",
+          thermalEnergyDhw:
+            "Gesamte minus Heizungswärme; leer bei Anlagen ohne Warmwasserbereitung",
+          electricalEnergyDhw:
+            "Gesamter minus Heizungsstrom; leer bei Anlagen ohne Warmwasserbereitung",
           flowTemperature: "Vorlauftemperatur des Heizkreislaufs",
           outdoorTemperature: "Außenlufttemperatur",
           usedForHeating: "Ob die Wärmepumpe für Heizung verwendet wird",
@@ -207,18 +321,193 @@ const resources = {
         unnamedSystem: "Unbenannte Anlage",
         systemDetails: "Anlagendetails",
         systemsAtLocation: "{{count}} Anlagen an diesem Ort",
+        openDetails: "Details anzeigen",
+      },
+      defrost: {
+        statsTitle: "Abtauung",
+        defrostHours: "Abtaustunden",
+        daysWithDefrost: "an {{days}} von {{total}} Anlagentagen",
+        defrostEnergy: "Abtauenergie",
+        lossShare: "Anteil an der Wärme",
+        correlation: "Korrelation mit Außentemp.",
+        hoursPerDay: "Abtaustunden pro Tag",
+        hoursPerDayAxis: "Abtaustunden pro Anlagentag",
+        energyPerDay: "Abtauenergie pro Tag",
+        systemDays: "{{days}} Anlagentage",
+      },
+      costSettings: {
+        button: "Tarif",
+        title: "Tarif und Vergleichsheizung",
+        electricity: "Strom",
+        tariffType: "Tarif",
+        tariffTypes: {
+          flat: "Einheitspreis",
+          timeOfUse: "HT/NT-Tarif",
+          dynamic: "Dynamischer Tarif (CSV)",
+        },
+        flatPrice: "Strompreis",
+        fallbackPrice: "Ersatzpreis",
+        fallbackPriceHint: "Gilt für Stunden, die in der Preisliste fehlen.",
+        highTariffPrice: "Hochtarif (HT)",
+        lowTariffPrice: "Niedertarif (NT)",
+        lowTariffStart: "NT ab",
+        lowTariffEnd: "NT bis",
+        hourUnit: "Uhr",
+        lowTariffHint:
+          "Stundenwerte werden je nach Uhrzeit mit HT oder NT berechnet. Tages- und Monatswerte enthalten keinen Tagesverlauf und werden mit dem nach Stunden gewichteten Mittelpreis berechnet.",
+        priceCsv: "Preisliste",
+        priceCsvHint:
+          "Eine Zeile pro Stunde mit Zeitpunkt und Preis in ct/kWh, z. B. 2025-01-01 13:00;28,4. Trennzeichen Semikolon oder Tab (Dezimalkomma) oder Komma (Dezimalpunkt). Tages- und Monatswerte werden mit dem Mittelpreis des Zeitraums berechnet.",
+        priceCsvLoaded: "{{count}} Stundenpreise geladen, {{skipped}} Zeilen übersprungen.",
+        csvEmpty: "Die Datei enthält keine gültigen Stundenpreise.",
+        gridCo2: "CO₂-Faktor Strom",
+        gridCo2Hint: "Emissionen je kWh Netzstrom. Voreingestellt ist der deutsche Strommix 2023.",
+        boiler: "Vergleich mit Gas- oder Ölheizung",
+        boilerFuel: "Brennstoff",
+        boilerFuels: {
+          gas: "Erdgas",
+          oil: "Heizöl",
+        },
+        boilerEfficiency: "Jahresnutzungsgrad",
+        boilerEfficiencyHint:
+          "Anteil der Brennstoffenergie, der als Wärme genutzt wird. Die Vergleichsheizung hätte die gemessene Wärmemenge erzeugt.",
+        fuelPrice: "Brennstoffpreis",
+        fuelPriceHint:
+          "Preis je kWh Brennstoff (Heizwert). 1 Liter Heizöl entspricht etwa 10 kWh, 1 m³ Erdgas etwa 10 kWh.",
+        apply: "Übernehmen",
+      },
+      systemDetail: {
+        runningCosts: "Betriebskosten",
+        runningCostsInfo:
+          "Stromkosten und CO₂-Emissionen der letzten {{count}} Monate mit Messwerten, verglichen mit einem Kessel ({{fuel}}), der dieselbe Wärmemenge erzeugt hätte.",
+        electricityCost: "Stromkosten",
+        boilerCost: "Kosten Kessel ({{fuel}})",
+        costSavings: "Ersparnis",
+        co2: "CO₂ Wärmepumpe",
+        boilerCo2: "CO₂ Kessel ({{fuel}})",
+        co2Savings: "CO₂-Einsparung",
+        noRunningCosts: "Für die letzten zwölf Monate liegen keine Monatswerte vor.",
+        info: "Stammdaten, Verlauf der Arbeitszahl, Heizkurve, Einordnung im Vergleich und Datenqualität dieser Anlage.",
+        backToSystems: "Alle Anlagen",
+        notFound: "Diese Anlage wurde nicht gefunden.",
+        monthlyHistory: "Monatliche Arbeitszahl",
+        heatingCurve: "Heizkurve",
+        energySignature: "Energiesignatur",
+        energySignatureInfo:
+          "Tägliche Heizwärme über der Außentemperatur. Die Verlängerung bis zur Normaußentemperatur schätzt die Heizlast des Gebäudes.",
+        peerComparison: "Vergleich mit anderen Anlagen",
+        peerComparisonInfo:
+          "Arbeitszahl aller Anlagen mit Werten für die letzten {{count}} vollständigen Monate.",
+        notInPeerGroup:
+          "Diese Anlage hat nicht für alle der letzten {{count}} vollständigen Monate Werte und ist daher nicht im Vergleich enthalten.",
+        dataQuality: "Datenqualität",
+        dataQualityDays:
+          "{{issues}} von {{count}} Tagen mit Auffälligkeiten, davon {{errors}} mit Fehlern.",
+        issueTypes: {
+          unrealistic_cop: "Unrealistische Arbeitszahl",
+          negative_value: "Negative Energiewerte",
+          implausible_temperature: "Unplausible Temperaturen",
+          inconsistent_energy: "Widersprüchliche Energiewerte",
+          statistical_outlier: "Statistische Ausreißer",
+        },
+      },
+      energySignature: {
+        title: "Heizlast aus der Energiesignatur",
+        dailyHeat: "Wärme pro Tag",
+        dailyHeatAxis: "Wärme pro Tag (kWh)",
+        signature: "Energiesignatur",
+        estimatedHeatLoad: "Geschätzte Heizlast",
+        estimatedHeatLoadTooltip:
+          "Mittlere Heizleistung eines Tages bei der Normaußentemperatur von {{temperature}} °C",
+        enteredHeatLoad: "Eingetragene Heizlast",
+        heatingLimit: "Heizgrenze",
+        slope: "Mehrbedarf pro Kelvin",
+        notEnoughData: "Für die Energiesignatur werden mindestens {{count}} Heiztage benötigt.",
+        noEnteredHeatLoad:
+          "Trage die Heizlast deiner Anlage ein, um sie mit der Schätzung zu vergleichen.",
+        assessment: {
+          matching: "Die eingetragene Heizlast passt zur Schätzung aus den Messwerten.",
+          oversized:
+            "Die eingetragene Heizlast liegt {{percent}} % über der Schätzung. Die Wärmepumpe ist möglicherweise überdimensioniert.",
+          undersized:
+            "Die eingetragene Heizlast liegt {{percent}} % unter der Schätzung. Prüfe die Angabe oder ob die Wärmepumpe ausreichend dimensioniert ist.",
+        },
+      },
+      firmwareImpact: {
+        title: "Firmware-Updates",
+        info: "Vergleicht die Arbeitszahl vor und nach einem Firmware-Update. Damit das Wetter das Ergebnis nicht verfälscht, werden nur Tage mit ähnlicher Außentemperatur verglichen und die Differenzen über alle Anlagen mit demselben Update gemittelt. Das Datum eines Updates trägst du unter 'Mein Konto' beim Ändern der Firmware-Version ein.",
+        noTransitions:
+          "Für die Auswahl sind noch keine Firmware-Updates mit ausreichend Messwerten erfasst.",
+        component: "Komponente",
+        components: {
+          all: "Alle Komponenten",
+          sw_idu: "Inneneinheit",
+          sw_odu: "Außeneinheit",
+        },
+        window: "Vergleichszeitraum",
+        windowHint: "Tage vor und nach dem Update, die verglichen werden",
+        windowDays: "±{{count}} Tage",
+        method:
+          "Verglichen werden Außentemperaturbereiche von {{width}} K, in denen vor und nach dem Update jeweils mindestens {{days}} Tage liegen. Das Konfidenzintervall (95 %) beruht auf allen verglichenen Bereichen.",
+        transition: "Update",
+        systems: "Anlagen",
+        bins: "Temperaturbereiche",
+        systemsAndBins: "{{systems}} Anlagen, {{bins}} Temperaturbereiche",
+        azBefore: "AZ vorher",
+        azAfter: "AZ nachher",
+        delta: "Änderung der AZ",
+        deltaAxis: "Änderung der AZ",
+        confidenceInterval: "95 %-Konfidenzintervall",
+      },
+      benchmark: {
+        title: "Meine Anlage im Vergleich",
+        info: "Vergleicht die Arbeitszahl und den Stromverbrauch pro m² deiner Anlage in den letzten zwölf Monaten mit vergleichbaren Anlagen. Die Vergleichsgruppe wird als Filter 1 in der Tabelle gesetzt und kann dort weiter angepasst werden.",
+        loginRequired: "Melde dich an, um deine Anlage mit vergleichbaren Anlagen zu vergleichen.",
+        noSystem: "Du hast noch keine Anlage eingetragen.",
+        peerGroup: "Vergleichsgruppe",
+        mySystem: "Meine Anlage",
+        criteria: {
+          model_idu: "Gleiche Inneneinheit",
+          heating_type: "Gleiche Wärmeverteilung",
+          heated_area_m2: "Ähnliche Wohnfläche",
+          building_energy_standard: "Gleicher Energiestandard",
+        },
+        heatedAreaTolerance: "Abweichung der Wohnfläche",
+        heatedAreaToleranceHint: "Erlaubte Abweichung der beheizten Wohnfläche von deiner Anlage",
+        peerCount: "{{count}} Anlagen in der Vergleichsgruppe (inklusive deiner Anlage).",
+        tooFewPeers:
+          "Für aussagekräftige Werte sollte die Vergleichsgruppe mindestens {{count}} Anlagen umfassen.",
+        loosenCriteria: "Kriterien lockern",
+        ownAz: "Meine AZ",
+        medianAz: "Median AZ",
+        quartiles: "Quartile",
+        rank: "Rang",
+        ownEnergyPerArea: "Mein Strom (kWh/m²)",
+        medianEnergyPerArea: "Median Strom (kWh/m²)",
       },
       yearly: {
         title: "Jahresübersicht",
         info: "Alle monatlichen Werte aller in der Tabelle ausgewählten Heizungsanlagen. Die monatlichen Werte werden entweder automatisch aus den Stundenwerten berechnet oder können manuell unter 'Meine Anlage' hinzugefügt werden.",
+        season: "Zeitraum",
+        seasonHint:
+          "Heizperioden umfassen zwölf Monate über zwei Kalenderjahre. Die Jahresarbeitszahl wird über alle Monate der gewählten Periode berechnet.",
+        seasonDefinitions: {
+          calendar: "Kalenderjahr",
+          julJun: "Heizperiode Jul–Jun",
+          octSep: "Heizperiode Okt–Sep",
+        },
+        compareYears: "Jahre vergleichen",
+        compareYearsHint:
+          "Zeigt dieselben Monate mehrerer Jahre nebeneinander, z.B. um die Wirkung von Änderungen an der Anlage zu prüfen.",
+        fromYear: "Von",
       },
       monthly: {
         title: "Monatsübersicht",
-        info: "Alle täglichen Werte aller in der Tabelle ausgewählten Heizungsanlagen. Tägliche Werte werden aus den Stundenwerten berechnet und sind somit nur für Anlagen verfügbar, die stündliche Daten liefern.",
+        info: "Alle täglichen Werte aller in der Tabelle ausgewählten Heizungsanlagen. Tägliche Werte werden aus den Stundenwerten berechnet und sind somit nur für Anlagen verfügbar, die stündliche Daten liefern. Stunden mit negativer Wärmemenge zählen als Abtaustunden.",
       },
       daily: {
         title: "Tagesübersicht",
-        info: "Alle stündlichen Werte aller in der Tabelle ausgewählten Heizungsanlagen.",
+        info: "Alle stündlichen Werte aller in der Tabelle ausgewählten Heizungsanlagen. Die Heatmap zeigt jede Stunde des ganzen Monats; ein Klick auf einen Tag öffnet dessen Stundenwerte.",
       },
       azTempEvaluation: {
         title: "Arbeitszahl-Temperatur-Analyse",
@@ -237,6 +526,36 @@ const resources = {
         predictedFlowTooltip: "Vorhergesagte Vorlauftemperatur basierend auf der Regressionskurve",
         myRegressionCurve: "Meine Heizkurve",
         regressionCurve: "Durchschnittliche Heizkurve",
+        system: "Anlage",
+        allSystems: "Alle Anlagen",
+        targetFlowTempHint:
+          "Ziel-Vorlauftemperatur bei der Normaußentemperatur ({{temperature}}°C). Leer lassen, um den typischen Wert für das Heizsystem zu verwenden.",
+        systemCurve: "Gemessene Heizkurve",
+        designCurve: "Auslegungs-Heizkurve",
+        designComparisonTitle: "Vergleich mit der Auslegung",
+        designFlowTooltip:
+          "Vorlauftemperatur der gemessenen Heizkurve im Vergleich zur Auslegungs-Heizkurve",
+        designValue: "Auslegung: {{value}}°C",
+        meanResidual: "Abweichung",
+        meanResidualTooltip:
+          "Mittlere Abweichung der gemessenen Vorlauftemperaturen von der Auslegungs-Heizkurve",
+        meanAbsoluteResidual: "Ø Betrag: {{value}} K",
+        residual: "Abweichung von der Auslegung",
+        notEnoughSystemData:
+          "Für eine eigene Heizkurve werden mindestens {{count}} Tage mit Heizbetrieb benötigt.",
+        noDesignCurve:
+          "Mit dieser Normaußentemperatur lässt sich keine Auslegungs-Heizkurve berechnen.",
+        suggestions: {
+          none: "Die gemessene Heizkurve entspricht der Auslegung.",
+          decreaseSlope:
+            "Die Heizkurve ist {{percent}}% steiler als ausgelegt. Prüfe, ob du die Steilheit verringern kannst.",
+          increaseSlope:
+            "Die Heizkurve ist {{percent}}% flacher als ausgelegt. Prüfe, ob du die Steilheit erhöhen musst.",
+          shiftDown:
+            "Die Vorlauftemperatur liegt bei {{temperature}}°C außen {{kelvin}} K über der Auslegung. Eine Parallelverschiebung nach unten spart Energie.",
+          shiftUp:
+            "Die Vorlauftemperatur liegt bei {{temperature}}°C außen {{kelvin}} K unter der Auslegung. Prüfe, ob die Räume warm genug werden.",
+        },
       },
       auth: {
         email: "E-Mail",
@@ -392,6 +711,8 @@ const resources = {
         buildingConstructionYear: "Baujahr",
         designOutdoorTemp: "Normaußentemperatur",
         thermometerOffset: "Thermometerabweichung",
+        standbyPower: "Standby-Verbrauch",
+        configEffectiveFrom: "Änderung gültig ab",
         buildingType: "Gebäudetyp",
         country: "Land",
         buildingEnergyStandard: "Energiestandard",
@@ -428,6 +749,10 @@ const resources = {
             "Korrekturwert für deinen Außentemperatursensor. Verwende dies, wenn der Sensor eine zu hohe oder zu niedrige Temperatur misst. Ein positiver Wert bedeutet, dass der Sensor zu hoch misst, ein negativer Wert bedeutet, dass der Sensor zu niedrig misst, z.B. 2 K wenn der Sensor 2 °C zu hoch misst. Mit diesem Wert werden alle deine Messwerte korrigiert.",
           modelIndoor: "Das Modell deiner Inneneinheit.",
           modelOutdoor: "Das Modell deiner Außeneinheit.",
+          standbyPower:
+            "Leistungsaufnahme deiner Anlage im Standby (Inneneinheit, Außeneinheit und Zusatzelektronik). Wird für die AZ ohne Systemverbrauch abgezogen. Leer lassen, um die Schätzung für dein Modell zu verwenden ({{watts}} W).",
+          configEffectiveFrom:
+            "Ab diesem Tag gelten die geänderte Software, Thermometerabweichung oder Wärmeverteilung. Ältere Messwerte behalten die vorherigen Einstellungen, damit z.B. Softwarevergleiche korrekt bleiben.",
           softwareIndoor:
             "Die Softwareversion deiner Inneneinheit. Diese findest du im Servicemenü deiner Wärmepumpe oder in der App.",
           softwareOutdoor:
@@ -495,6 +820,8 @@ const resources = {
         azTempEvaluation: "COP-Temperature",
         azEnergyEvaluation: "COP-Yearly Energy",
         heatingCurve: "Heating Curve",
+        benchmark: "My System Benchmark",
+        firmwareImpact: "Firmware Updates",
         myAccount: "My Account",
         login: "Login",
         logout: "Logout",
@@ -505,18 +832,193 @@ const resources = {
         unnamedSystem: "Unnamed System",
         systemDetails: "System Details",
         systemsAtLocation: "{{count}} systems at this location",
+        openDetails: "Show details",
+      },
+      defrost: {
+        statsTitle: "Defrosting",
+        defrostHours: "Defrost hours",
+        daysWithDefrost: "on {{days}} of {{total}} system days",
+        defrostEnergy: "Defrost energy",
+        lossShare: "Share of the heat",
+        correlation: "Correlation with outdoor temp.",
+        hoursPerDay: "Defrost hours per day",
+        hoursPerDayAxis: "Defrost hours per system day",
+        energyPerDay: "Defrost energy per day",
+        systemDays: "{{days}} system days",
+      },
+      costSettings: {
+        button: "Tariff",
+        title: "Tariff and Boiler Baseline",
+        electricity: "Electricity",
+        tariffType: "Tariff",
+        tariffTypes: {
+          flat: "Flat price",
+          timeOfUse: "Time-of-use (peak/off-peak)",
+          dynamic: "Dynamic tariff (CSV)",
+        },
+        flatPrice: "Electricity price",
+        fallbackPrice: "Fallback price",
+        fallbackPriceHint: "Used for hours missing in the price list.",
+        highTariffPrice: "Peak price",
+        lowTariffPrice: "Off-peak price",
+        lowTariffStart: "Off-peak from",
+        lowTariffEnd: "Off-peak until",
+        hourUnit: "h",
+        lowTariffHint:
+          "Hourly values use the peak or off-peak price depending on the time of day. Daily and monthly values have no hourly profile and use the mean price weighted by hours.",
+        priceCsv: "Price list",
+        priceCsvHint:
+          "One line per hour with timestamp and price in ct/kWh, e.g. 2025-01-01 13:00,28.4. Separated by semicolon or tab (decimal comma) or comma (decimal point). Daily and monthly values use the mean price of the period.",
+        priceCsvLoaded: "{{count}} hourly prices loaded, {{skipped}} lines skipped.",
+        csvEmpty: "The file contains no valid hourly prices.",
+        gridCo2: "CO₂ factor electricity",
+        gridCo2Hint:
+          "Emissions per kWh of grid electricity. Defaults to the German electricity mix of 2023.",
+        boiler: "Comparison with a gas or oil boiler",
+        boilerFuel: "Fuel",
+        boilerFuels: {
+          gas: "Natural gas",
+          oil: "Heating oil",
+        },
+        boilerEfficiency: "Seasonal efficiency",
+        boilerEfficiencyHint:
+          "Share of the fuel energy used as heat. The boiler would have produced the measured amount of heat.",
+        fuelPrice: "Fuel price",
+        fuelPriceHint:
+          "Price per kWh of fuel (net calorific value). 1 litre of heating oil or 1 m³ of natural gas holds about 10 kWh.",
+        apply: "Apply",
+      },
+      systemDetail: {
+        runningCosts: "Running Costs",
+        runningCostsInfo:
+          "Electricity costs and CO₂ emissions of the last {{count}} months with values, compared with a boiler ({{fuel}}) that would have produced the same amount of heat.",
+        electricityCost: "Electricity cost",
+        boilerCost: "Boiler cost ({{fuel}})",
+        costSavings: "Savings",
+        co2: "CO₂ heat pump",
+        boilerCo2: "Boiler CO₂ ({{fuel}})",
+        co2Savings: "CO₂ savings",
+        noRunningCosts: "There are no monthly values for the last twelve months.",
+        info: "Metadata, COP history, heating curve, peer comparison and data quality of this system.",
+        backToSystems: "All systems",
+        notFound: "This system was not found.",
+        monthlyHistory: "Monthly COP",
+        heatingCurve: "Heating Curve",
+        energySignature: "Energy Signature",
+        energySignatureInfo:
+          "Daily heat over outdoor temperature. Extending it to the design outdoor temperature estimates the building's heat load.",
+        peerComparison: "Comparison with Other Systems",
+        peerComparisonInfo:
+          "COP of all systems with values for the last {{count}} complete months.",
+        notInPeerGroup:
+          "This system does not have values for all of the last {{count}} complete months and is therefore not included in the comparison.",
+        dataQuality: "Data Quality",
+        dataQualityDays:
+          "{{issues}} of {{count}} days with issues, {{errors}} of them with errors.",
+        issueTypes: {
+          unrealistic_cop: "Unrealistic COP",
+          negative_value: "Negative energy values",
+          implausible_temperature: "Implausible temperatures",
+          inconsistent_energy: "Inconsistent energy values",
+          statistical_outlier: "Statistical outliers",
+        },
+      },
+      energySignature: {
+        title: "Heat Load from the Energy Signature",
+        dailyHeat: "Heat per day",
+        dailyHeatAxis: "Heat per day (kWh)",
+        signature: "Energy signature",
+        estimatedHeatLoad: "Estimated heat load",
+        estimatedHeatLoadTooltip:
+          "Mean heating power over a day at the design outdoor temperature of {{temperature}} °C",
+        enteredHeatLoad: "Entered heat load",
+        heatingLimit: "Heating limit",
+        slope: "Extra demand per kelvin",
+        notEnoughData: "The energy signature needs at least {{count}} heating days.",
+        noEnteredHeatLoad: "Enter the heat load of your system to compare it with the estimate.",
+        assessment: {
+          matching: "The entered heat load matches the estimate from the measurements.",
+          oversized:
+            "The entered heat load is {{percent}}% above the estimate. The heat pump may be oversized.",
+          undersized:
+            "The entered heat load is {{percent}}% below the estimate. Check the value or whether the heat pump is large enough.",
+        },
+      },
+      firmwareImpact: {
+        title: "Firmware Updates",
+        info: "Compares the COP before and after a firmware update. To keep the weather from skewing the result, only days with similar outdoor temperatures are compared and the differences are averaged over all systems with the same update. Enter the date of an update under 'My Account' when changing the firmware version.",
+        noTransitions:
+          "No firmware updates with enough measurements have been recorded for this selection yet.",
+        component: "Component",
+        components: {
+          all: "All components",
+          sw_idu: "Indoor unit",
+          sw_odu: "Outdoor unit",
+        },
+        window: "Comparison window",
+        windowHint: "Days before and after the update that are compared",
+        windowDays: "±{{count}} days",
+        method:
+          "Outdoor temperature ranges of {{width}} K with at least {{days}} days both before and after the update are compared. The confidence interval (95%) is based on all compared ranges.",
+        transition: "Update",
+        systems: "Systems",
+        bins: "Temperature ranges",
+        systemsAndBins: "{{systems}} systems, {{bins}} temperature ranges",
+        azBefore: "COP before",
+        azAfter: "COP after",
+        delta: "COP change",
+        deltaAxis: "COP change",
+        confidenceInterval: "95% confidence interval",
+      },
+      benchmark: {
+        title: "My System Benchmark",
+        info: "Compares the COP and electricity use per m² of your system over the last twelve months with comparable systems. The peer group is set as filter 1 in the table and can be refined there.",
+        loginRequired: "Log in to compare your system with comparable systems.",
+        noSystem: "You have not registered a system yet.",
+        peerGroup: "Peer group",
+        mySystem: "My system",
+        criteria: {
+          model_idu: "Same indoor unit",
+          heating_type: "Same heat distribution",
+          heated_area_m2: "Similar heated area",
+          building_energy_standard: "Same energy standard",
+        },
+        heatedAreaTolerance: "Heated area deviation",
+        heatedAreaToleranceHint: "Allowed deviation of the heated area from your system",
+        peerCount: "{{count}} systems in the peer group (including your system).",
+        tooFewPeers:
+          "For meaningful values, the peer group should contain at least {{count}} systems.",
+        loosenCriteria: "Loosen criteria",
+        ownAz: "My COP",
+        medianAz: "Median COP",
+        quartiles: "Quartiles",
+        rank: "Rank",
+        ownEnergyPerArea: "My electricity (kWh/m²)",
+        medianEnergyPerArea: "Median electricity (kWh/m²)",
       },
       yearly: {
         title: "Yearly Overview",
         info: "All monthly values of all heating systems selected in the table. Monthly values are either automatically calculated from hourly values or can be added manually under 'My Account'.",
+        season: "Period",
+        seasonHint:
+          "Heating seasons span twelve months across two calendar years. The seasonal performance factor is calculated over all months of the selected period.",
+        seasonDefinitions: {
+          calendar: "Calendar year",
+          julJun: "Heating season Jul–Jun",
+          octSep: "Heating season Oct–Sep",
+        },
+        compareYears: "Compare years",
+        compareYearsHint:
+          "Shows the same months of several years side by side, e.g. to check the effect of changes to the system.",
+        fromYear: "From",
       },
       monthly: {
         title: "Monthly Overview",
-        info: "All daily values of all heating systems selected in the table. Daily values are calculated from hourly values and are therefore only available for systems that provide hourly data.",
+        info: "All daily values of all heating systems selected in the table. Daily values are calculated from hourly values and are therefore only available for systems that provide hourly data. Hours with a negative thermal energy count as defrost hours.",
       },
       daily: {
         title: "Daily Overview",
-        info: "All hourly values of all heating systems selected in the table.",
+        info: "All hourly values of all heating systems selected in the table. The heatmap shows every hour of the whole month; click a day to open its hourly values.",
       },
       azTempEvaluation: {
         title: "COP-Temperature Analysis",
@@ -534,6 +1036,37 @@ const resources = {
         flowAt: "Flow at",
         predictedFlowTooltip: "Predicted flow temperature based on regression curve",
         myRegressionCurve: "My Regression Curve",
+        regressionCurve: "Average Heating Curve",
+        system: "System",
+        allSystems: "All systems",
+        targetFlowTempHint:
+          "Target flow temperature at the design outdoor temperature ({{temperature}}°C). Leave empty to use the typical value for the heating type.",
+        systemCurve: "Measured Heating Curve",
+        designCurve: "Design Heating Curve",
+        designComparisonTitle: "Comparison with Design",
+        designFlowTooltip:
+          "Flow temperature of the measured heating curve compared to the design curve",
+        designValue: "Design: {{value}}°C",
+        meanResidual: "Deviation",
+        meanResidualTooltip:
+          "Mean deviation of the measured flow temperatures from the design heating curve",
+        meanAbsoluteResidual: "Mean absolute: {{value}} K",
+        residual: "Deviation from design",
+        notEnoughSystemData:
+          "A system heating curve requires at least {{count}} days with heating.",
+        noDesignCurve:
+          "No design heating curve can be calculated for this design outdoor temperature.",
+        suggestions: {
+          none: "The measured heating curve matches the design.",
+          decreaseSlope:
+            "The heating curve is {{percent}}% steeper than designed. Check whether you can reduce the slope.",
+          increaseSlope:
+            "The heating curve is {{percent}}% flatter than designed. Check whether the slope needs to be increased.",
+          shiftDown:
+            "At {{temperature}}°C outdoors the flow temperature is {{kelvin}} K above design. A parallel shift downwards saves energy.",
+          shiftUp:
+            "At {{temperature}}°C outdoors the flow temperature is {{kelvin}} K below design. Check whether the rooms stay warm enough.",
+        },
       },
       common: {
         date: "Date",
@@ -554,6 +1087,8 @@ const resources = {
         copied: "Copied!",
         previousDay: "Previous Day",
         nextDay: "Next Day",
+        previousMonth: "Previous Month",
+        nextMonth: "Next Month",
         confirm: "Confirm",
         close: "Close",
         yes: "Yes",
@@ -573,9 +1108,20 @@ const resources = {
         systems: "Systems",
         mean: "Mean",
         median: "Median",
+        trimmedMean: "Trimmed mean (10%)",
+        stdDev: "Standard deviation",
+        q1: "1st quartile (P25)",
+        q3: "3rd quartile (P75)",
+        iqr: "Interquartile range",
+        userPercentileRank: "Percentile rank of your system ({{value}})",
+        userSystemInBin: "Your system is in this range",
+        highlightedSystemInBin: "This system is in this range",
         viewMode: "View Mode",
         timeSeries: "Time Series",
         distribution: "Distribution",
+        heatmap: "Heatmap",
+        heatmapOpenDay: "Show hourly values of {{date}}",
+        defrost: "Defrosting",
         temperatureDelta: "Temperature Delta (Flow - Outdoor)",
         dailyCopStats: "Daily COP",
         monthlyCopStats: "Monthly COP",
@@ -599,24 +1145,71 @@ const resources = {
         metricMode: "Metric",
         copMode: "COP",
         energyMode: "Energy Consumption",
+        normalizedMode: "Weather-normalized",
+        normalizedEnergyTotal: "Electricity per degree day and m² (heating, else total)",
+        normalizedEnergyHeating: "Electricity per degree day and m² (heating)",
+        normalizedEnergyAxis: "kWh/(Kd·m²)",
+        costMode: "Cost",
+        electricityCostTotal: "Electricity cost (total)",
+        electricityCostHeating: "Electricity cost (heating)",
+        electricityCostAxis: "Electricity cost (€)",
+        dailyCostStats: "Daily Electricity Cost",
+        monthlyCostStats: "Monthly Electricity Cost",
+        yearlyCostStats: "Yearly Electricity Cost",
+        monthlyNormalizedStats: "Monthly Weather-Normalized Electricity",
+        yearlyNormalizedStats: "Yearly Weather-Normalized Electricity",
+        degreeDayBase: "Base temperature",
+        degreeDayBaseOption: "Base {{base}} °C",
+        degreeDayBaseHint:
+          "Heating degree days: sum of (base − daily mean temperature) over all days below the base. Electricity is divided by degree days and heated area.",
+        percentileBands: "Spread (P10–P90)",
+        aggregation: "Aggregation",
+        aggregationModes: {
+          mean: "Mean",
+          weighted: "Energy-weighted",
+          median: "Median",
+        },
+        aggregationHint:
+          "Energy-weighted: heat ÷ electricity over all values; where a value lacks its energies, the mean is shown. Mean: average of the individual COPs.",
         completeDataOnly: "Complete data only",
+        completeDaysOnly: "Complete days only",
+        multiHourBucket: "Contains measurements spanning several hours",
+        excludeOutliers: "Hide outliers",
         electricalEnergyTotal: "Energy Consumption (total)",
         electricalEnergyHeating: "Energy Consumption (heating)",
+        electricalEnergyDhw: "Energy Consumption (hot water)",
+        electricityCostDhw: "Electricity cost (hot water)",
+        azDhw: "COP (hot water)",
+        dhwSplit: "Split heating/hot water",
+        dhwSplitHint:
+          "Hot water is the difference between the total and the heating values. Systems without hot water only count for heating; for systems with cooling, the difference includes cooling.",
+        dhwShare: "Hot water share",
         openFullscreen: "Enlarge chart",
         closeFullscreen: "Close fullscreen",
         excludeSystemConsumption: "COP without system consumption",
         systemConsumptionHint:
-          "Subtracts an estimated 25 W system consumption from total and heating electricity.",
+          "Subtracts the standby consumption from total and heating electricity: the value stored for the system, otherwise an estimate based on indoor and outdoor unit, otherwise 25 W.",
+        standbyPowerSubtracted: "Subtracted: {{watts}} ({{sources}})",
+        standbyPowerSources: {
+          system: "system value",
+          model: "model estimate",
+          default: "default value",
+        },
       },
       toolbar: {
         columns: "Show/hide columns",
         filters: "Add a filter for the table and chart",
         filter1: "Configure filter 1",
         filter2: "Add a second filter to compare performances in the chart",
-        clearFilter2: "Clear second filter (Exit Comparison)",
+        clearFilter2: "Clear comparison filters (Exit Comparison)",
+        filterGroup: "Configure filter {{group}}",
+        addFilterGroup: "Add another filter group to compare",
+        removeFilterGroup: "Remove filter group {{group}}",
         export: "Export",
         print: "Print",
         downloadCsv: "Download as CSV",
+        downloadCsvPage: "Download current page as CSV",
+        groupColumn: "Filter group",
         showAllSystems: "Show all systems",
         showMySystems: "Show only my systems",
         search: "Search",
@@ -624,8 +1217,10 @@ const resources = {
         clearSearch: "Clear search",
       },
       multiFilter: {
-        group1: "Filter group 1",
-        group2: "Filter group 2",
+        group: "Filter group {{group}}",
+        groupName: "Name in charts",
+        groupColor: "Color in charts",
+        resetAppearance: "Reset name and color",
         column: "Column",
         operator: "Operator",
         value: "Value",
@@ -649,6 +1244,18 @@ const resources = {
           isNotEmpty: "is not empty",
         },
       },
+      filterPresets: {
+        title: "Filter presets",
+        save: "Save as preset",
+        name: "Preset name",
+        empty: "No presets saved yet",
+        applyTo: "Apply to filter group {{group}}",
+        delete: "Delete preset",
+        droppedFields: "This page does not have all columns of the preset. Not applied: {{fields}}",
+        invalid: "The preset “{{name}}” could not be read.",
+        saveFailed: "The preset was saved on this device only, not in your account: {{message}}",
+        deleteFailed: "The preset could not be deleted from your account: {{message}}",
+      },
       dataQuality: {
         unrealisticCopHigh:
           "Unrealistic COP: {{cop}} is too high (>{{max}}) - value will not be considered",
@@ -656,6 +1263,23 @@ const resources = {
           "Unrealistic COP: {{cop}} is too low (<{{min}}) - value will not be considered",
         negativeElectricalEnergy: "Electrical energy cannot be negative",
         negativeThermalEnergy: "Thermal energy - probably defrost energy",
+        flowTemperatureOutOfRange:
+          "Flow temperature {{temperature}} °C is outside of {{min}}–{{max}} °C",
+        implausibleOutdoorTemperature:
+          "Implausible outdoor temperature: {{temperature}} °C - check the sensor",
+        thermalWithoutElectrical:
+          "Thermal energy without electrical energy - value will not be considered",
+        heatingShareExceedsTotal:
+          "Heating energy exceeds total energy - value will not be considered",
+        statisticalOutlier: {
+          az: "Outlier: COP {{value}} deviates strongly from the system's median ({{median}})",
+          az_heating:
+            "Outlier: heating COP {{value}} deviates strongly from the system's median ({{median}})",
+          thermal_energy_kwh:
+            "Outlier: thermal energy {{value}} kWh deviates strongly from the system's median ({{median}} kWh)",
+          electrical_energy_kwh:
+            "Outlier: electrical energy {{value}} kWh deviates strongly from the system's median ({{median}} kWh)",
+        },
         dataIssue: "Data issue detected",
       },
       tableHeaders: {
@@ -677,7 +1301,20 @@ const resources = {
         electricalEnergy: "Electrical Energy",
         thermalEnergyHeating: "Thermal Energy Heating",
         electricalEnergyHeating: "Electrical Energy Heating",
+        azDhw: "COP (hot water)",
+        thermalEnergyDhw: "Thermal Energy Hot Water",
+        electricalEnergyDhw: "Electrical Energy Hot Water",
+        coverage: "Coverage",
+        coverageMissingHours: "Missing hours: {{hours}}",
+        coverageMergedHours: "Merged hours: {{hours}}",
+        defrostHours: "Defrost hours",
+        defrostEnergy: "Defrost energy",
         hints: {
+          defrostHours:
+            "Hours with a negative thermal energy: while defrosting, the heat pump draws heat from the heating circuit.",
+          defrostEnergy: "Heat drawn from the heating circuit while defrosting",
+          coverage:
+            "Hours of the day for which the system delivered values. Merged hours are contained in a single measurement spanning several hours.",
           az: "Ratio of thermal energy generated to electrical energy consumed (including heating, domestic hot water, and cooling)",
           azHeating:
             "Ratio of thermal energy generated to electrical energy consumed for heating only (excluding domestic hot water and cooling)",
@@ -697,6 +1334,11 @@ const resources = {
             "The electrical energy consumed only for heating (excluding domestic hot water and cooling)",
           thermalEnergyHeating:
             "The thermal energy generated only for heating (excluding domestic hot water and cooling)",
+          azDhw:
+            "Ratio of heat to electricity for hot water, calculated as total minus heating values (including cooling for systems with cooling)",
+          thermalEnergyDhw: "Total minus heating heat; empty for systems without hot water",
+          electricalEnergyDhw:
+            "Total minus heating electricity; empty for systems without hot water",
           flowTemperature:
             "The flow temperature of the heating circuit. Higher temperatures mean higher energy consumption",
           outdoorTemperature:
@@ -868,6 +1510,8 @@ const resources = {
         buildingConstructionYear: "Construction year",
         designOutdoorTemp: "Design outdoor temperature",
         thermometerOffset: "Thermometer offset",
+        standbyPower: "Standby consumption",
+        configEffectiveFrom: "Change effective from",
         buildingType: "Building type",
         country: "Country",
         buildingEnergyStandard: "Energy standard",
@@ -904,6 +1548,10 @@ const resources = {
             "Correction value for your outdoor temperature sensor. Use this if the sensor measures too high or too low. A positive value means the sensor reads too high, a negative value means it reads too low, e.g., 2 K if the sensor reads 2°C too high. This value will be used to correct all your measurements.",
           modelIndoor: "The model of your indoor unit.",
           modelOutdoor: "The model of your outdoor unit.",
+          standbyPower:
+            "Power draw of your system in standby (indoor unit, outdoor unit and additional electronics). Subtracted for the COP without system consumption. Leave empty to use the estimate for your model ({{watts}} W).",
+          configEffectiveFrom:
+            "The changed software, thermometer offset or heat distribution applies from this day. Older measurements keep the previous settings, so that e.g. software comparisons stay correct.",
           softwareIndoor:
             "The software version of your indoor unit. You can find this in the service menu of your heat pump or in the app.",
           softwareOutdoor:
@@ -1,5 +1,15 @@
 import { describe, expect, it } from "vitest";
-import { calculateSystemAz, createHistogramBins } from "../chartDataProcessing";
+import {
+  calculatePercentile,
+  calculatePercentileRank,
+  calculateSystemAz,
+  createHistogramBins,
+  mergeComparisonDatasets,
+  mergeHistogramBins,
+  percentileKey,
+  processDataset,
+  resolveAggregationMode,
+} from "../chartDataProcessing";
 
 describe("calculateSystemAz", () => {
   it("should calculate AZ correctly for a single system", () => {
@@ -456,3 +466,279 @@ describe("createHistogramBins", () => {
     expect(result.bins[0].binEnd).toBe(2.5);
   });
 });
+
+describe("processDataset aggregation modes", () => {
+  // A small hour at a high COP and a large hour at a low COP
+  const rows = [
+    { hour: "1", az: 8, thermal_energy_kwh: 2.4, electrical_energy_kwh: 0.3 },
+    { hour: "1", az: 3, thermal_energy_kwh: 9, electrical_energy_kwh: 3 },
+    { hour: "1", az: 4, thermal_energy_kwh: 4, electrical_energy_kwh: 1 },
+  ];
+  const baseOptions = { indexField: "hour", azTotalKey: "total", azHeatingKey: "heating" };
+
+  it("averages the per-row ratios by default", () => {
+    const [row] = processDataset(rows, baseOptions);
+    expect(row.total).toBe(5);
+  });
+
+  it("computes the energy-weighted ratio sum(thermal) / sum(electrical)", () => {
+    const [row] = processDataset(rows, { ...baseOptions, aggregationMode: "weighted" });
+    expect(row.total).toBe(Number((15.4 / 4.3).toFixed(2)));
+  });
+
+  it("computes the median of the per-row values", () => {
+    const [row] = processDataset(rows, { ...baseOptions, aggregationMode: "median" });
+    expect(row.total).toBe(4);
+  });
+
+  it("falls back to the mean when rows carry no energy values", () => {
+    const [row] = processDataset(
+      [
+        { hour: "1", az: 3 },
+        { hour: "1", az: 4 },
+      ],
+      { ...baseOptions, aggregationMode: "weighted" },
+    );
+    expect(row.total).toBe(3.5);
+  });
+
+  it("falls back to the mean when only some rows carry energy values", () => {
+    const [row] = processDataset([...rows, { hour: "1", az: 5 }], {
+      ...baseOptions,
+      aggregationMode: "weighted",
+    });
+    expect(row.total).toBe(5);
+  });
+
+  it("ignores energy of rows without a valid AZ in the weighted ratio", () => {
+    const [row] = processDataset(
+      [...rows, { hour: "1", az: null, thermal_energy_kwh: 100, electrical_energy_kwh: 1 }],
+      { ...baseOptions, aggregationMode: "weighted" },
+    );
+    expect(row.total).toBe(Number((15.4 / 4.3).toFixed(2)));
+  });
+
+  it("applies the aggregation mode to every comparison group", () => {
+    const merged = mergeComparisonDatasets(
+      [
+        { name: "A", data: rows },
+        { name: "B", data: rows.slice(1) },
+      ],
+      { ...baseOptions, aggregationMode: "median" },
+    );
+    expect(merged[0]["total (A)"]).toBe(4);
+    expect(merged[0]["total (B)"]).toBe(3.5);
+  });
+});
+
+describe("resolveAggregationMode", () => {
+  it("keeps the selected mode for COP values", () => {
+    expect(resolveAggregationMode("weighted", "cop")).toBe("weighted");
+  });
+
+  it("falls back to the mean for energy values in weighted mode", () => {
+    expect(resolveAggregationMode("weighted", "energy")).toBe("mean");
+    expect(resolveAggregationMode("weighted", "normalized")).toBe("mean");
+    expect(resolveAggregationMode("median", "energy")).toBe("median");
+  });
+});
+
+describe("calculatePercentile", () => {
+  it("interpolates linearly between closest ranks", () => {
+    expect(calculatePercentile([1, 2, 3, 4, 5], 25)).toBe(2);
+    expect(calculatePercentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(calculatePercentile([4, 1, 3, 2], 10)).toBeCloseTo(1.3);
+  });
+
+  it("returns null for empty input", () => {
+    expect(calculatePercentile([], 50)).toBeNull();
+  });
+});
+
+describe("processDataset percentile bands", () => {
+  const baseOptions = { indexField: "month", azTotalKey: "total", azHeatingKey: "heating" };
+  const rows = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map((az) => ({ month: "1", az }));
+
+  it("adds P10/P25/P75/P90 of the aggregated values", () => {
+    const [row] = processDataset(rows, baseOptions);
+    expect(row[percentileKey("total", 10)]).toBe(2);
+    expect(row[percentileKey("total", 25)]).toBe(3.5);
+    expect(row[percentileKey("total", 75)]).toBe(8.5);
+    expect(row[percentileKey("total", 90)]).toBe(10);
+  });
+
+  it("omits bands for single values and unaggregated data", () => {
+    const [single] = processDataset([{ month: "1", az: 3 }], baseOptions);
+    expect(single[percentileKey("total", 10)]).toBeUndefined();
+
+    const [direct] = processDataset(rows, { ...baseOptions, aggregateData: false });
+    expect(direct[percentileKey("total", 10)]).toBeUndefined();
+  });
+
+  it("keeps the band that unaggregated rows carry already", () => {
+    const [row] = processDataset(
+      [{ month: "1", az: 3.2, [percentileKey("az", 10)]: 2.456, [percentileKey("az", 90)]: 4 }],
+      { ...baseOptions, aggregateData: false },
+    );
+    expect(row.total).toBe(3.2);
+    expect(row[percentileKey("total", 10)]).toBe(2.46);
+    expect(row[percentileKey("total", 90)]).toBe(4);
+    expect(row[percentileKey("total", 25)]).toBeUndefined();
+  });
+
+  it("keeps a separate band per comparison group", () => {
+    const merged = mergeComparisonDatasets(
+      [
+        { name: "A", data: rows },
+        { name: "B", data: rows.map((r) => ({ ...r, az: r.az / 2 })) },
+      ],
+      baseOptions,
+    );
+    expect(merged[0][percentileKey("total (A)", 90)]).toBe(10);
+    expect(merged[0][percentileKey("total (B)", 90)]).toBe(5);
+  });
+});
+
+describe("createHistogramBins descriptive statistics", () => {
+  const makeSystems = (values: number[]) =>
+    values.map((az, i) => ({
+      heatingId: `s${i + 1}`,
+      az,
+      azHeating: az,
+      thermalTotal: 0,
+      electricalTotal: 0,
+      thermalHeatingTotal: 0,
+      electricalHeatingTotal: 0,
+    }));
+
+  it("computes interpolated median, quartiles and IQR", () => {
+    const { stats } = createHistogramBins(makeSystems([2, 3, 4, 5]), "az", 1);
+    expect(stats.median).toBe(3.5);
+    expect(stats.q1).toBe(2.75);
+    expect(stats.q3).toBe(4.25);
+    expect(stats.iqr).toBe(1.5);
+  });
+
+  it("computes sample standard deviation and 10% trimmed mean", () => {
+    const { stats } = createHistogramBins(makeSystems([1, 3, 3, 3, 3, 3, 3, 3, 3, 10]), "az", 1);
+    expect(stats.mean).toBe(3.5);
+    expect(stats.trimmedMean).toBe(3);
+    expect(stats.stdDev).toBeCloseTo(2.37, 2);
+  });
+
+  it("ranks and marks the user's system", () => {
+    const { bins, stats } = createHistogramBins(makeSystems([2, 3, 4.5, 5.5]), "az", 1, false, [
+      "s3",
+    ]);
+    expect(stats.userValue).toBe(4.5);
+    expect(stats.userPercentileRank).toBe(62.5);
+    expect(bins.filter((bin) => bin.containsUserSystem).map((bin) => bin.binLabel)).toEqual([
+      "4.0-5.0",
+    ]);
+  });
+
+  it("has no user rank without user systems", () => {
+    const { stats } = createHistogramBins(makeSystems([2, 3]), "az", 1);
+    expect(stats.userValue).toBeNull();
+    expect(stats.userPercentileRank).toBeNull();
+  });
+});
+
+describe("mergeHistogramBins", () => {
+  const makeSystems = (values: number[]) =>
+    values.map((az, i) => ({
+      heatingId: `s${i + 1}`,
+      az,
+      azHeating: az,
+      thermalTotal: 0,
+      electricalTotal: 0,
+      thermalHeatingTotal: 0,
+      electricalHeatingTotal: 0,
+    }));
+
+  it("combines the counts of all groups per bin, sorted by bin start", () => {
+    const merged = mergeHistogramBins([
+      { name: "Filter 1", bins: createHistogramBins(makeSystems([3.2, 3.4, 4.1]), "az", 0.5).bins },
+      { name: "Filter 2", bins: createHistogramBins(makeSystems([2.6, 4.2]), "az", 0.5).bins },
+      { name: "Filter 3", bins: [] },
+    ]);
+
+    expect(merged).toEqual([
+      {
+        binLabel: "2.5-3.0",
+        binStart: 2.5,
+        binEnd: 3,
+        "Filter 1": 0,
+        "Filter 2": 1,
+        "Filter 3": 0,
+      },
+      {
+        binLabel: "3.0-3.5",
+        binStart: 3,
+        binEnd: 3.5,
+        "Filter 1": 2,
+        "Filter 2": 0,
+        "Filter 3": 0,
+      },
+      {
+        binLabel: "4.0-4.5",
+        binStart: 4,
+        binEnd: 4.5,
+        "Filter 1": 1,
+        "Filter 2": 1,
+        "Filter 3": 0,
+      },
+    ]);
+  });
+});
+
+describe("calculatePercentileRank", () => {
+  it("counts ties half", () => {
+    expect(calculatePercentileRank([1, 2, 3], 2)).toBe(50);
+    expect(calculatePercentileRank([1, 2, 3], 4)).toBe(100);
+    expect(calculatePercentileRank([], 1)).toBeNull();
+  });
+});
+
+describe("processDataset normalized metric mode", () => {
+  const baseOptions = {
+    indexField: "date",
+    azTotalKey: "total",
+    azHeatingKey: "heating",
+    metricMode: "normalized" as const,
+  };
+
+  it("aggregates the weather-normalized energy values", () => {
+    const [row] = processDataset(
+      [
+        { date: "2025-01-01", az: 4, normalized_energy: 2.5, normalized_energy_heating: 2 },
+        { date: "2025-01-01", az: 3, normalized_energy: 3.5, normalized_energy_heating: 3 },
+      ],
+      baseOptions,
+    );
+    expect(row.total).toBe(3);
+    expect(row.heating).toBe(2.5);
+  });
+
+  it("treats rows without degree days as missing data", () => {
+    const [row] = processDataset([{ date: "2025-07-01", az: 4, normalized_energy: null }], {
+      ...baseOptions,
+      indexValues: ["2025-07-01"],
+    });
+    expect(row.total).toBe(0);
+  });
+});
+
+describe("processDataset cost metric mode", () => {
+  it("aggregates the electricity costs", () => {
+    const [row] = processDataset(
+      [
+        { date: "2025-01-01", az: 4, electricity_cost_eur: 2.5, electricity_cost_heating_eur: 2 },
+        { date: "2025-01-01", az: 3, electricity_cost_eur: 3.5, electricity_cost_heating_eur: 3 },
+      ],
+      { indexField: "date", azTotalKey: "total", azHeatingKey: "heating", metricMode: "cost" },
+    );
+    expect(row.total).toBe(3);
+    expect(row.heating).toBe(2.5);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  DATA_QUALITY_RULES,
+  filterRealisticDataForCharts,
+  filterSystemsByRealisticCOP,
+  getDataQualityRules,
+  isRealisticCOP,
+  summarizeDataQuality,
+  validateMeasurementData,
+} from "../dataQuality";
+
+describe("DATA_QUALITY_RULES", () => {
+  it("has unique rule ids", () => {
+    const ids = DATA_QUALITY_RULES.map((rule) => rule.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("selects rules by granularity", () => {
+    const hourlyIds = getDataQualityRules("hour").map((rule) => rule.id);
+    const dailyIds = getDataQualityRules("day").map((rule) => rule.id);
+
+    expect(hourlyIds).not.toContain("thermal_without_electrical");
+    expect(dailyIds).toContain("thermal_without_electrical");
+    expect(getDataQualityRules().map((rule) => rule.id)).toEqual(hourlyIds);
+  });
+});
+
+describe("isRealisticCOP", () => {
+  it("accepts values between 0 and 10 and missing values", () => {
+    expect(isRealisticCOP(4.2)).toBe(true);
+    expect(isRealisticCOP(null)).toBe(true);
+    expect(isRealisticCOP(10.5)).toBe(false);
+    expect(isRealisticCOP(-0.1)).toBe(false);
+  });
+});
+
+describe("validateMeasurementData", () => {
+  it("reports unrealistic COP values with translation params", () => {
+    const result = validateMeasurementData({ az: 12.34, az_heating: -1 });
+
+    expect(result.isValid).toBe(false);
+    expect(result.issues.map((issue) => issue.ruleId)).toEqual([
+      "cop_too_high",
+      "cop_heating_too_low",
+    ]);
+    expect(result.issues[0]).toMatchObject({
+      type: "unrealistic_cop",
+      severity: "error",
+      translationKey: "dataQuality.unrealisticCopHigh",
+      translationParams: { cop: "12.3", max: 10 },
+    });
+  });
+
+  it("flags implausible temperatures as warnings", () => {
+    const result = validateMeasurementData({ flow_temperature_c: 95, outdoor_temperature_c: -60 });
+
+    expect(result.issues.map((issue) => issue.ruleId)).toEqual([
+      "flow_temperature_range",
+      "implausible_outdoor_temperature",
+    ]);
+    expect(result.issues.every((issue) => issue.severity === "warning")).toBe(true);
+  });
+
+  it("flags thermal energy without electrical energy only for daily and monthly rows", () => {
+    const row = { thermal_energy_kwh: 2, electrical_energy_kwh: 0 };
+
+    expect(validateMeasurementData(row, "hour").isValid).toBe(true);
+    expect(validateMeasurementData(row, "day").issues[0]?.ruleId).toBe(
+      "thermal_without_electrical",
+    );
+  });
+
+  it("flags a heating share above the total", () => {
+    const result = validateMeasurementData({
+      thermal_energy_kwh: 10,
+      thermal_energy_heating_kwh: 12,
+      electrical_energy_kwh: 3,
+      electrical_energy_heating_kwh: 2,
+    });
+
+    expect(result.issues.map((issue) => issue.ruleId)).toEqual(["heating_share_exceeds_total"]);
+  });
+
+  it("accepts plausible rows", () => {
+    expect(
+      validateMeasurementData(
+        {
+          az: 4,
+          az_heating: 4.5,
+          thermal_energy_kwh: 40,
+          electrical_energy_kwh: 10,
+          thermal_energy_heating_kwh: 27,
+          electrical_energy_heating_kwh: 6,
+          flow_temperature_c: 35,
+          outdoor_temperature_c: 2,
+        },
+        "month",
+      ),
+    ).toEqual({ isValid: true, issues: [] });
+  });
+});
+
+describe("filterRealisticDataForCharts", () => {
+  it("excludes rows violating error rules but keeps warnings", () => {
+    const rows = [
+      { id: 1, az: 4 },
+      { id: 2, az: 15 },
+      { id: 3, electrical_energy_kwh: -1 },
+      { id: 4, thermal_energy_kwh: -0.5 },
+      { id: 5, az: 3, flow_temperature_c: 90 },
+      { id: 6, thermal_energy_kwh: 5, electrical_energy_kwh: 0 },
+    ];
+
+    expect(filterRealisticDataForCharts(rows).map((row) => row.id)).toEqual([1, 4, 5, 6]);
+    expect(filterRealisticDataForCharts(rows, "day").map((row) => row.id)).toEqual([1, 4, 5]);
+  });
+});
+
+describe("filterSystemsByRealisticCOP", () => {
+  it("checks the COP of the energy totals", () => {
+    const systems = [
+      { heatingId: "a", az: 4, thermalTotal: 400, electricalTotal: 100 },
+      { heatingId: "b", az: 4, thermalTotal: 1200, electricalTotal: 100 },
+      { heatingId: "c", az: 11, thermalTotal: 400, electricalTotal: 100 },
+    ];
+
+    expect(filterSystemsByRealisticCOP(systems).map((s) => s.heatingId)).toEqual(["a"]);
+    expect(filterSystemsByRealisticCOP(systems, false).map((s) => s.heatingId)).toEqual(["a", "c"]);
+  });
+});
+
+describe("summarizeDataQuality", () => {
+  it("counts affected rows per issue type with the most severe severity", () => {
+    const summary = summarizeDataQuality([
+      { az: 4 },
+      { az: 15 },
+      { electrical_energy_kwh: -1 },
+      { thermal_energy_kwh: -0.5 },
+      { az: 3, flow_temperature_c: 90 },
+    ]);
+
+    expect(summary).toMatchObject({ rowCount: 5, rowsWithIssues: 4, rowsWithErrors: 2 });
+    expect(summary.entries).toEqual([
+      { type: "negative_value", severity: "error", count: 2 },
+      { type: "unrealistic_cop", severity: "error", count: 1 },
+      { type: "implausible_temperature", severity: "warning", count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDefrostStatistics,
+  addHourlyDefrost,
+  binDefrostByOutdoorTemperature,
+  type DefrostDay,
+  detectDefrostDays,
+  summarizeDefrost,
+} from "../defrost";
+
+const hour = (
+  createdAt: string,
+  thermal: number | null,
+  outdoor: number | null = 0,
+  heatingId = "h1",
+) => ({
+  heating_id: heatingId,
+  created_at: createdAt,
+  thermal_energy_kwh: thermal,
+  outdoor_temperature_c: outdoor,
+});
+
+const day = (overrides: Partial<DefrostDay>): DefrostDay => ({
+  heatingId: "h1",
+  date: "2025-01-05",
+  defrostHours: 0,
+  defrostEnergyKwh: 0,
+  thermalEnergyKwh: 20,
+  outdoorTemperatureC: 0,
+  ...overrides,
+});
+
+describe("addHourlyDefrost", () => {
+  it("marks hours with a negative thermal delta", () => {
+    const [defrost, heating, missing] = addHourlyDefrost([
+      hour("2025-01-05T03:00:00", -0.4),
+      hour("2025-01-05T04:00:00", 2),
+      hour("2025-01-05T05:00:00", null),
+    ]);
+
+    expect(defrost).toMatchObject({ defrost_hours: 1, defrost_energy_kwh: 0.4 });
+    expect(heating).toMatchObject({ defrost_hours: 0, defrost_energy_kwh: 0 });
+    expect(missing).toMatchObject({ defrost_hours: null, defrost_energy_kwh: null });
+  });
+});
+
+describe("detectDefrostDays", () => {
+  it("counts defrost hours and energy per system and day", () => {
+    const days = detectDefrostDays([
+      hour("2025-01-05T03:00:00", -0.5, -2),
+      hour("2025-01-05T04:00:00", 3, -4),
+      hour("2025-01-05T05:00:00", -0.25, null),
+      hour("2025-01-06T03:00:00", 2, 1),
+      hour("2025-01-05T03:00:00", -1, 0, "h0"),
+      hour("2025-01-05T06:00:00", null, 0),
+    ]);
+
+    expect(days).toEqual([
+      {
+        heatingId: "h0",
+        date: "2025-01-05",
+        defrostHours: 1,
+        defrostEnergyKwh: 1,
+        thermalEnergyKwh: 0,
+        outdoorTemperatureC: 0,
+      },
+      {
+        heatingId: "h1",
+        date: "2025-01-05",
+        defrostHours: 2,
+        defrostEnergyKwh: 0.75,
+        thermalEnergyKwh: 3,
+        outdoorTemperatureC: -3,
+      },
+      {
+        heatingId: "h1",
+        date: "2025-01-06",
+        defrostHours: 0,
+        defrostEnergyKwh: 0,
+        thermalEnergyKwh: 2,
+        outdoorTemperatureC: 1,
+      },
+    ]);
+  });
+});
+
+describe("addDefrostStatistics", () => {
+  it("joins the statistics of each system day", () => {
+    const rows = addDefrostStatistics(
+      [
+        { heating_id: "h1", date: "2025-01-05" },
+        { heating_id: "h1", date: "2025-01-07" },
+      ],
+      [day({ defrostHours: 3, defrostEnergyKwh: 1.2 })],
+    );
+
+    expect(rows[0]).toMatchObject({ defrost_hours: 3, defrost_energy_kwh: 1.2 });
+    expect(rows[1]).toMatchObject({ defrost_hours: null, defrost_energy_kwh: null });
+  });
+});
+
+describe("binDefrostByOutdoorTemperature", () => {
+  it("averages the days of each outdoor temperature bin", () => {
+    const bins = binDefrostByOutdoorTemperature([
+      day({ outdoorTemperatureC: -3, defrostHours: 4, defrostEnergyKwh: 2 }),
+      day({ outdoorTemperatureC: -1.5, defrostHours: 2, defrostEnergyKwh: 1 }),
+      day({ outdoorTemperatureC: 3, defrostHours: 1, defrostEnergyKwh: 0.5 }),
+      day({ outdoorTemperatureC: null, defrostHours: 8 }),
+    ]);
+
+    expect(bins).toEqual([
+      { binStartC: -4, days: 1, meanDefrostHours: 4, meanDefrostEnergyKwh: 2, lossShare: 0.1 },
+      { binStartC: -2, days: 1, meanDefrostHours: 2, meanDefrostEnergyKwh: 1, lossShare: 0.05 },
+      {
+        binStartC: 2,
+        days: 1,
+        meanDefrostHours: 1,
+        meanDefrostEnergyKwh: 0.5,
+        lossShare: 0.025,
+      },
+    ]);
+  });
+});
+
+describe("summarizeDefrost", () => {
+  it("relates defrost hours to the outdoor temperature", () => {
+    const summary = summarizeDefrost([
+      day({ outdoorTemperatureC: -5, defrostHours: 6, defrostEnergyKwh: 3 }),
+      day({ outdoorTemperatureC: 0, defrostHours: 4, defrostEnergyKwh: 1 }),
+      day({ outdoorTemperatureC: 5, defrostHours: 0 }),
+    ]);
+
+    expect(summary).toMatchObject({
+      days: 3,
+      daysWithDefrost: 2,
+      defrostHours: 10,
+      defrostEnergyKwh: 4,
+    });
+    expect(summary.lossShare).toBeCloseTo(4 / 60);
+    expect(summary.temperatureCorrelation).toBeLessThan(-0.9);
+  });
+
+  it("needs three days for a correlation", () => {
+    expect(summarizeDefrost([day({}), day({ defrostHours: 2 })]).temperatureCorrelation).toBeNull();
+  });
+});
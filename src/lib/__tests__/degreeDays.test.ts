@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  addWeatherNormalization,
+  calculateSystemNormalizedEnergy,
+  heatingDegreeDays,
+  monthlyDegreeDayKey,
+  normalizeEnergy,
+  sumMonthlyDegreeDays,
+} from "../degreeDays";
+
+describe("heatingDegreeDays", () => {
+  it("counts the difference to the base temperature on cold days only", () => {
+    expect(heatingDegreeDays(5, 15)).toBe(10);
+    expect(heatingDegreeDays(5, 20)).toBe(15);
+    expect(heatingDegreeDays(18, 15)).toBe(0);
+    expect(heatingDegreeDays(null, 15)).toBeNull();
+  });
+});
+
+describe("sumMonthlyDegreeDays", () => {
+  it("sums degree days per system and month", () => {
+    const result = sumMonthlyDegreeDays(
+      [
+        { heating_id: "a", date: "2025-02-01", outdoor_temperature_c: 5 },
+        { heating_id: "a", date: "2025-02-02", outdoor_temperature_c: 10 },
+        { heating_id: "b", date: "2025-02-01", outdoor_temperature_c: 0 },
+      ],
+      15,
+    );
+
+    // Two observed days with 10 and 5 HDD, extrapolated to the 28 days of February
+    expect(result.get(monthlyDegreeDayKey("a", 2025, 2))).toBe(7.5 * 28);
+    expect(result.get(monthlyDegreeDayKey("b", 2025, 2))).toBe(15 * 28);
+  });
+
+  it("ignores days without outdoor temperature", () => {
+    const result = sumMonthlyDegreeDays(
+      [
+        { heating_id: "a", date: "2025-01-01", outdoor_temperature_c: null },
+        { heating_id: "a", date: "2025-01-02", outdoor_temperature_c: 5 },
+      ],
+      15,
+    );
+    expect(result.get(monthlyDegreeDayKey("a", 2025, 1))).toBe(10 * 31);
+  });
+
+  it("keeps the same month of different years apart", () => {
+    const result = sumMonthlyDegreeDays(
+      [
+        { heating_id: "a", date: "2024-01-01", outdoor_temperature_c: 5 },
+        { heating_id: "a", date: "2025-01-01", outdoor_temperature_c: 10 },
+      ],
+      15,
+    );
+    expect(result.get(monthlyDegreeDayKey("a", 2024, 1))).toBe(10 * 31);
+    expect(result.get(monthlyDegreeDayKey("a", 2025, 1))).toBe(5 * 31);
+  });
+});
+
+describe("normalizeEnergy", () => {
+  it("returns kWh per degree day and m²", () => {
+    expect(normalizeEnergy(300, 400, 150)).toBe(0.005);
+  });
+
+  it("returns null without degree days or heated area", () => {
+    expect(normalizeEnergy(300, 0, 150)).toBeNull();
+    expect(normalizeEnergy(300, 0.5, 150)).toBeNull();
+    expect(normalizeEnergy(300, 400, null)).toBeNull();
+    expect(normalizeEnergy(300, 400, 0)).toBeNull();
+  });
+});
+
+describe("addWeatherNormalization", () => {
+  it("adds degree days and normalizes the heating energy without hot water", () => {
+    const [row] = addWeatherNormalization(
+      [{ heated_area_m2: 100, electrical_energy_kwh: 20, electrical_energy_heating_kwh: 15 }],
+      () => 10,
+    );
+    expect(row.heating_degree_days).toBe(10);
+    expect(row.normalized_energy).toBe(0.015);
+    expect(row.normalized_energy_heating).toBe(0.015);
+  });
+
+  it("falls back to the total energy without a heating share", () => {
+    const [row] = addWeatherNormalization(
+      [{ heated_area_m2: 100, electrical_energy_kwh: 20, electrical_energy_heating_kwh: null }],
+      () => 10,
+    );
+    expect(row.normalized_energy).toBe(0.02);
+    expect(row.normalized_energy_heating).toBeNull();
+  });
+});
+
+describe("calculateSystemNormalizedEnergy", () => {
+  it("divides summed energy by summed degree days and area per system", () => {
+    const [system] = calculateSystemNormalizedEnergy([
+      {
+        heating_id: "a",
+        heated_area_m2: 100,
+        electrical_energy_kwh: 10,
+        electrical_energy_heating_kwh: 8,
+        heating_degree_days: 5,
+      },
+      {
+        heating_id: "a",
+        heated_area_m2: 100,
+        electrical_energy_kwh: 30,
+        electrical_energy_heating_kwh: 24,
+        heating_degree_days: 15,
+      },
+      {
+        heating_id: "a",
+        heated_area_m2: 100,
+        electrical_energy_kwh: 8,
+        heating_degree_days: 20,
+      },
+      {
+        heating_id: "a",
+        heated_area_m2: 100,
+        electrical_energy_kwh: 99,
+        heating_degree_days: null,
+      },
+    ]);
+
+    expect(system.heatingId).toBe("a");
+    // Heating energy where it is measured, the total of the row without a heating share
+    expect(system.az).toBeCloseTo(0.01);
+    expect(system.azHeating).toBeCloseTo(0.008);
+  });
+});
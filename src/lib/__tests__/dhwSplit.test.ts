@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { computeDhwValues, dhwShare, toDhwSplitRows } from "../dhwSplit";
+
+const row = {
+  az: 3.5,
+  thermal_energy_kwh: 35,
+  electrical_energy_kwh: 10,
+  thermal_energy_heating_kwh: 28,
+  electrical_energy_heating_kwh: 7,
+  electricity_cost_eur: 3.2,
+  electricity_cost_heating_eur: 2.24,
+};
+
+describe("computeDhwValues", () => {
+  it("derives DHW as total minus heating", () => {
+    const dhw = computeDhwValues(row);
+
+    expect(dhw.thermalDhw).toBeCloseTo(7);
+    expect(dhw.electricalDhw).toBeCloseTo(3);
+    expect(dhw.azDhw).toBeCloseTo(7 / 3);
+    expect(dhw.costDhw).toBeCloseTo(0.96);
+  });
+
+  it("has no DHW values for systems not used for DHW", () => {
+    expect(computeDhwValues({ ...row, used_for_dhw: false })).toEqual({
+      thermalDhw: null,
+      electricalDhw: null,
+      azDhw: null,
+      costDhw: null,
+    });
+  });
+
+  it("ignores heating values exceeding the total beyond rounding", () => {
+    const rounded = computeDhwValues({ ...row, thermal_energy_heating_kwh: 35.005 });
+    const inconsistent = computeDhwValues({ ...row, thermal_energy_heating_kwh: 36 });
+
+    expect(rounded.thermalDhw).toBe(0);
+    expect(inconsistent.thermalDhw).toBeNull();
+    expect(inconsistent.azDhw).toBeNull();
+  });
+
+  it("has no DHW AZ without DHW electricity", () => {
+    expect(computeDhwValues({ ...row, electrical_energy_heating_kwh: 10 }).azDhw).toBeNull();
+  });
+});
+
+describe("toDhwSplitRows", () => {
+  it("replaces the total fields by the DHW values and keeps heating", () => {
+    const [split] = toDhwSplitRows([row]);
+
+    expect(split.az).toBeCloseTo(7 / 3);
+    expect(split.electrical_energy_kwh).toBeCloseTo(3);
+    expect(split.electricity_cost_eur).toBeCloseTo(0.96);
+    expect(split.electrical_energy_heating_kwh).toBe(7);
+  });
+});
+
+describe("dhwShare", () => {
+  it("relates DHW to the sum of heating and DHW", () => {
+    expect(dhwShare(7, 3)).toBeCloseTo(0.3);
+    expect(dhwShare(5, null)).toBe(0);
+    expect(dhwShare(null, null)).toBeNull();
+  });
+});
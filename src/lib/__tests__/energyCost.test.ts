@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  addEnergyCosts,
+  type CostSettings,
+  calculateSystemCosts,
+  createElectricityPriceLookup,
+  DEFAULT_COST_SETTINGS,
+  isLowTariffHour,
+  parseHourlyPriceCsv,
+  summarizeRunningCosts,
+} from "../energyCost";
+
+const timeOfUse: CostSettings = {
+  ...DEFAULT_COST_SETTINGS,
+  tariffType: "timeOfUse",
+  highTariffPriceCt: 36,
+  lowTariffPriceCt: 24,
+  lowTariffStartHour: 22,
+  lowTariffEndHour: 4,
+};
+
+describe("parseHourlyPriceCsv", () => {
+  it("reads semicolon and comma separated lines and skips the header", () => {
+    const { prices, skippedLines } = parseHourlyPriceCsv(
+      "Zeit;Preis\n2025-01-01 00:00;28,4\n\n2025-01-01 01:00,27.5\n",
+    );
+
+    expect(prices).toEqual([
+      { hour: "2025-01-01T00", priceCt: 28.4 },
+      { hour: "2025-01-01T01", priceCt: 27.5 },
+    ]);
+    expect(skippedLines).toBe(1);
+  });
+});
+
+describe("isLowTariffHour", () => {
+  it("handles windows wrapping around midnight", () => {
+    expect(isLowTariffHour(23, 22, 4)).toBe(true);
+    expect(isLowTariffHour(3, 22, 4)).toBe(true);
+    expect(isLowTariffHour(4, 22, 4)).toBe(false);
+    expect(isLowTariffHour(13, 12, 15)).toBe(true);
+  });
+});
+
+describe("createElectricityPriceLookup", () => {
+  it("uses the flat price for every period", () => {
+    expect(createElectricityPriceLookup(DEFAULT_COST_SETTINGS)("2025-01-01", "month")).toBe(32);
+  });
+
+  it("picks HT or NT for hours and the hour-weighted mean for longer periods", () => {
+    const priceAt = createElectricityPriceLookup(timeOfUse);
+
+    expect(priceAt("2025-01-01T23:00:00", "hour")).toBe(24);
+    expect(priceAt("2025-01-01T12:00:00", "hour")).toBe(36);
+    // 6 of 24 hours in the low tariff
+    expect(priceAt("2025-01-01", "day")).toBe(33);
+  });
+
+  it("averages the dynamic prices of the period and falls back to the flat price", () => {
+    const priceAt = createElectricityPriceLookup({
+      ...DEFAULT_COST_SETTINGS,
+      tariffType: "dynamic",
+      hourlyPrices: [
+        { hour: "2025-01-01T00", priceCt: 20 },
+        { hour: "2025-01-01T01", priceCt: 30 },
+        { hour: "2025-01-02T00", priceCt: 40 },
+      ],
+    });
+
+    expect(priceAt("2025-01-01T01:00:00", "hour")).toBe(30);
+    expect(priceAt("2025-01-01", "day")).toBe(25);
+    expect(priceAt("2025-01-01", "month")).toBe(30);
+    expect(priceAt("2025-02-01", "month")).toBe(32);
+  });
+});
+
+describe("addEnergyCosts", () => {
+  it("adds electricity costs, CO₂ and the gas boiler baseline", () => {
+    const [row] = addEnergyCosts(
+      [
+        {
+          year: 2025,
+          month: 1,
+          thermal_energy_kwh: 900,
+          electrical_energy_kwh: 300,
+          electrical_energy_heating_kwh: 250,
+        },
+      ],
+      DEFAULT_COST_SETTINGS,
+      "month",
+    );
+
+    expect(row.electricity_cost_eur).toBeCloseTo(96);
+    expect(row.electricity_cost_heating_eur).toBeCloseTo(80);
+    expect(row.co2_kg).toBeCloseTo(114);
+    // 900 kWh heat at 90% efficiency need 1000 kWh gas
+    expect(row.boiler_cost_eur).toBeCloseTo(120);
+    expect(row.boiler_co2_kg).toBeCloseTo(201);
+  });
+
+  it("leaves costs empty for rows without energy values", () => {
+    const [row] = addEnergyCosts([{ date: "2025-01-01" }], DEFAULT_COST_SETTINGS, "day");
+
+    expect(row.electricity_cost_eur).toBeNull();
+    expect(row.boiler_cost_eur).toBeNull();
+  });
+});
+
+describe("summarizeRunningCosts", () => {
+  it("sums the rows and compares with the boiler", () => {
+    const summary = summarizeRunningCosts([
+      {
+        electricity_cost_eur: 100,
+        boiler_cost_eur: 150,
+        co2_kg: 100,
+        boiler_co2_kg: 250,
+      },
+      { electricity_cost_eur: 50, boiler_cost_eur: 60, co2_kg: 40, boiler_co2_kg: 90 },
+      { electricity_cost_eur: null, boiler_cost_eur: null },
+    ]);
+
+    expect(summary).toMatchObject({ savingsEur: 60, co2SavingsKg: 200 });
+    expect(summarizeRunningCosts([])).toBeNull();
+  });
+});
+
+describe("calculateSystemCosts", () => {
+  it("sums the costs per system", () => {
+    const [system] = calculateSystemCosts([
+      { heating_id: "h1", electricity_cost_eur: 2, electricity_cost_heating_eur: 1.5 },
+      { heating_id: "h1", electricity_cost_eur: 3, electricity_cost_heating_eur: 2 },
+    ]);
+
+    expect(system).toMatchObject({ heatingId: "h1", az: 5, azHeating: 3.5 });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareHeatLoad,
+  type EnergySignature,
+  estimateHeatLoadKw,
+  fitEnergySignature,
+  toEnergySignaturePoints,
+} from "../energySignature";
+
+// 4 kWh more heat per kelvin below a heating limit of 15°C, 5 kWh hot water base demand
+function signaturePoints() {
+  const points = [];
+  for (let x = -8; x <= 25; x++) {
+    points.push({ x, y: x < 15 ? 5 + 4 * (15 - x) : 5 });
+  }
+  return points;
+}
+
+describe("toEnergySignaturePoints", () => {
+  it("prefers the heating share and skips incomplete days", () => {
+    expect(
+      toEnergySignaturePoints([
+        { outdoor_temperature_c: 0, thermal_energy_kwh: 70, thermal_energy_heating_kwh: 60 },
+        { outdoor_temperature_c: 5, thermal_energy_kwh: 40, thermal_energy_heating_kwh: null },
+        { outdoor_temperature_c: null, thermal_energy_kwh: 40 },
+        { outdoor_temperature_c: 5, thermal_energy_kwh: -1 },
+      ]),
+    ).toEqual([
+      { x: 0, y: 60 },
+      { x: 5, y: 40 },
+    ]);
+  });
+});
+
+describe("fitEnergySignature", () => {
+  it("finds the heating line, base demand and heating limit", () => {
+    const signature = fitEnergySignature(signaturePoints()) as EnergySignature;
+
+    expect(signature.fit.slope).toBeCloseTo(-4);
+    expect(signature.baseDemandKwh).toBeCloseTo(5);
+    expect(signature.heatingLimitC).toBeCloseTo(15);
+  });
+
+  it("returns null for too few heating days", () => {
+    expect(fitEnergySignature(signaturePoints().slice(0, 5))).toBeNull();
+  });
+
+  it("returns null if heat does not rise with cold", () => {
+    expect(fitEnergySignature(signaturePoints().map((p) => ({ x: p.x, y: 10 + p.x })))).toBeNull();
+  });
+});
+
+describe("estimateHeatLoadKw", () => {
+  it("converts the daily heat at the design temperature into kW", () => {
+    const signature = fitEnergySignature(signaturePoints()) as EnergySignature;
+
+    // 5 + 4 * (15 - -12) = 113 kWh per day
+    expect(estimateHeatLoadKw(signature, -12)).toBeCloseTo(113 / 24);
+  });
+});
+
+describe("compareHeatLoad", () => {
+  it("flags entered heat loads far from the estimate", () => {
+    expect(compareHeatLoad(5, 8)?.assessment).toBe("oversized");
+    expect(compareHeatLoad(5, 3)?.assessment).toBe("undersized");
+    expect(compareHeatLoad(5, 6)?.assessment).toBe("matching");
+    expect(compareHeatLoad(5, 6)?.deviation).toBeCloseTo(0.2);
+  });
+
+  it("returns null without both values", () => {
+    expect(compareHeatLoad(5, null)).toBeNull();
+    expect(compareHeatLoad(null, 5)).toBeNull();
+  });
+});
@@ -1,6 +1,10 @@
 import { type GridFilterModel, GridLogicOperator } from "@mui/x-data-grid";
 import { describe, expect, it } from "vitest";
-import { applyGridFilterModel, countActiveFilterItems } from "../filterModelUtils";
+import {
+  applyGridFilterModel,
+  countActiveFilterItems,
+  suggestFilterModelLabel,
+} from "../filterModelUtils";
 
 const rows = [
   { id: 1, type: "floor", cop: 4.2 },
@@ -41,3 +45,38 @@ describe("filterModelUtils", () => {
     expect(countActiveFilterItems(model)).toBe(1);
   });
 });
+
+describe("suggestFilterModelLabel", () => {
+  it("describes the active items", () => {
+    expect(
+      suggestFilterModelLabel({
+        items: [
+          { id: 1, field: "model_idu", operator: "is", value: "CS6800i_E" },
+          { id: 2, field: "az", operator: ">=", value: 4 },
+          { id: 3, field: "city", operator: "contains", value: "" },
+        ],
+      }),
+    ).toBe("model_idu = CS6800i_E & az >= 4");
+  });
+
+  it("joins OR filters and multiple values", () => {
+    expect(
+      suggestFilterModelLabel({
+        logicOperator: GridLogicOperator.Or,
+        items: [
+          { id: 1, field: "country", operator: "isAnyOf", value: ["DE", "AT"] },
+          { id: 2, field: "notes", operator: "isEmpty" },
+        ],
+      }),
+    ).toBe("country ∈ DE, AT | notes = ∅");
+  });
+
+  it("shortens long labels and has none without filters", () => {
+    const label = suggestFilterModelLabel({
+      items: [{ id: 1, field: "name", operator: "contains", value: "x".repeat(100) }],
+    });
+    expect(label).toHaveLength(60);
+    expect(label?.endsWith("…")).toBe(true);
+    expect(suggestFilterModelLabel({ items: [] })).toBeNull();
+  });
+});
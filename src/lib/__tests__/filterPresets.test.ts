@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  type FilterPreset,
+  fitFilterPresetToFields,
+  mergeFilterPresets,
+  parseStoredFilterPresets,
+} from "../filterPresets";
+import { encodeFilterModel } from "../urlState";
+
+const preset = (overrides: Partial<FilterPreset>): FilterPreset => ({
+  id: "p1",
+  name: "Preset",
+  filter:
+    encodeFilterModel({
+      items: [
+        { field: "heating_type", operator: "is", value: "Luft-Wasser" },
+        { field: "outdoor_temperature_c", operator: "<", value: 0 },
+        { field: "hour", operator: "equals", value: "3" },
+      ],
+    }) ?? "",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("parseStoredFilterPresets", () => {
+  it("skips malformed entries", () => {
+    const stored = JSON.stringify([preset({}), { id: "p2", name: "No filter" }, null]);
+    expect(parseStoredFilterPresets(stored)).toEqual([preset({})]);
+  });
+
+  it("returns no presets for broken storage", () => {
+    expect(parseStoredFilterPresets("{")).toEqual([]);
+    expect(parseStoredFilterPresets(null)).toEqual([]);
+  });
+});
+
+describe("mergeFilterPresets", () => {
+  it("keeps the first preset per ID and sorts by name", () => {
+    const merged = mergeFilterPresets(
+      [preset({ id: "p1", name: "Winter" })],
+      [preset({ id: "p1", name: "Old name" }), preset({ id: "p2", name: "Altbau" })],
+    );
+    expect(merged.map((entry) => entry.name)).toEqual(["Altbau", "Winter"]);
+  });
+});
+
+describe("fitFilterPresetToFields", () => {
+  it("drops the items on fields the grid does not have", () => {
+    const fitted = fitFilterPresetToFields(preset({}), ["heating_type", "outdoor_temperature_c"]);
+
+    expect(fitted?.model.items.map((item) => item.field)).toEqual([
+      "heating_type",
+      "outdoor_temperature_c",
+    ]);
+    expect(fitted?.droppedFields).toEqual(["hour"]);
+  });
+
+  it("returns null for an unreadable filter", () => {
+    expect(fitFilterPresetToFields(preset({ filter: "9.abc" }), ["hour"])).toBeNull();
+  });
+});
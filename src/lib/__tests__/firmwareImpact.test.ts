@@ -0,0 +1,154 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import {
+  compareFirmwareTransition,
+  type FirmwareDayRow,
+  type FirmwareTransition,
+  findFirmwareTransitions,
+  meanConfidenceInterval,
+  summarizeFirmwareTransitions,
+} from "../firmwareImpact";
+import { groupConfigsBySystem, type SystemConfig } from "../systemConfigHistory";
+
+const config = (
+  effectiveFrom: string,
+  swIdu: SystemConfig["sw_idu"],
+  swOdu: SystemConfig["sw_odu"] = "9.12.0",
+): SystemConfig => ({
+  heating_id: "h1",
+  effective_from: effectiveFrom,
+  heating_type: "underfloorheating",
+  sw_idu: swIdu,
+  sw_odu: swOdu,
+  thermometer_offset_k: 0,
+});
+
+const transition: FirmwareTransition = {
+  heatingId: "h1",
+  component: "sw_idu",
+  from: "9.7.0",
+  to: "12.11.1",
+  changedOn: "2025-01-15",
+  previousChangeOn: null,
+  nextChangeOn: null,
+};
+
+// One day per offset from the change, all at the same outdoor temperature
+function days(offsets: number[], temperature: number, az: number): FirmwareDayRow[] {
+  return offsets.map((offset) => ({
+    heating_id: "h1",
+    date: dayjs("2025-01-15").add(offset, "day").format("YYYY-MM-DD"),
+    outdoor_temperature_c: temperature,
+    thermal_energy_kwh: az * 10,
+    electrical_energy_kwh: 10,
+  }));
+}
+
+describe("findFirmwareTransitions", () => {
+  it("finds changes of each component between consecutive configurations", () => {
+    const transitions = findFirmwareTransitions(
+      groupConfigsBySystem([
+        config("2024-03-10", "9.7.0"),
+        config("2025-01-15", "12.11.1"),
+        config("2025-06-01", "12.11.1", "9.15.0"),
+      ]),
+    );
+
+    expect(transitions).toEqual([
+      {
+        heatingId: "h1",
+        component: "sw_idu",
+        from: "9.7.0",
+        to: "12.11.1",
+        changedOn: "2025-01-15",
+        previousChangeOn: null,
+        nextChangeOn: "2025-06-01",
+      },
+      {
+        heatingId: "h1",
+        component: "sw_odu",
+        from: "9.12.0",
+        to: "9.15.0",
+        changedOn: "2025-06-01",
+        previousChangeOn: "2025-01-15",
+        nextChangeOn: null,
+      },
+    ]);
+  });
+});
+
+describe("compareFirmwareTransition", () => {
+  it("compares days within the same outdoor temperature bin", () => {
+    const rows = [
+      ...days([-10, -9, -8], 1, 3),
+      ...days([0, 1, 2], 0.5, 3.5),
+      // Only on one side, so not comparable
+      ...days([-7, -6, -5], 7, 4),
+    ];
+
+    const { bins } = compareFirmwareTransition(transition, rows, 60);
+
+    expect(bins).toHaveLength(1);
+    expect(bins[0]).toMatchObject({ binStartC: 0, daysBefore: 3, daysAfter: 3 });
+    expect(bins[0].delta).toBeCloseTo(0.5);
+  });
+
+  it("ignores days outside the window and bins with too few days", () => {
+    const rows = [...days([-30, -29, -28, -3, -2], 1, 3), ...days([0, 1, 2], 1, 3.5)];
+
+    expect(compareFirmwareTransition(transition, rows, 20).bins).toEqual([]);
+    expect(compareFirmwareTransition(transition, rows, 60).bins).toHaveLength(1);
+  });
+
+  it("stops at the neighbouring configuration changes", () => {
+    const rows = [...days([-10, -9, -8], 1, 3), ...days([0, 1, 2], 1, 3.5)];
+
+    const bounded = compareFirmwareTransition(
+      { ...transition, previousChangeOn: "2025-01-07", nextChangeOn: "2025-01-17" },
+      rows,
+      60,
+    );
+
+    expect(bounded.bins).toEqual([]);
+  });
+});
+
+describe("meanConfidenceInterval", () => {
+  it("uses the t distribution for small samples", () => {
+    const [low, high] = meanConfidenceInterval([1, 2, 3]) as [number, number];
+
+    // mean 2, standard error 1 / sqrt(3), t = 4.303 for two degrees of freedom
+    expect(low).toBeCloseTo(2 - 4.303 / Math.sqrt(3), 3);
+    expect(high).toBeCloseTo(2 + 4.303 / Math.sqrt(3), 3);
+  });
+
+  it("returns null for a single value", () => {
+    expect(meanConfidenceInterval([0.2])).toBeNull();
+  });
+});
+
+describe("summarizeFirmwareTransitions", () => {
+  const bin = (delta: number) => ({
+    binStartC: 0,
+    daysBefore: 5,
+    daysAfter: 5,
+    azBefore: 3,
+    azAfter: 3 + delta,
+    delta,
+  });
+
+  it("pools the bins of all systems with the same transition", () => {
+    const [summary, other] = summarizeFirmwareTransitions([
+      { transition, bins: [bin(0.2), bin(0.4)] },
+      { transition: { ...transition, heatingId: "h2" }, bins: [bin(0.3)] },
+      { transition: { ...transition, heatingId: "h3" }, bins: [] },
+      { transition: { ...transition, to: "12.12.0" }, bins: [bin(-0.1)] },
+    ]);
+
+    expect(summary).toMatchObject({ to: "12.11.1", systemCount: 2, binCount: 3 });
+    expect(summary.meanDelta).toBeCloseTo(0.3);
+    expect(summary.ciLow).toBeLessThan(0.3);
+    expect(summary.ciHigh).toBeGreaterThan(0.3);
+    expect(other).toMatchObject({ to: "12.12.0", systemCount: 1, ciLow: null, ciHigh: null });
+  });
+});
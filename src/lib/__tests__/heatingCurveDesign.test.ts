@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareWithDesignCurve,
+  computeDesignCurve,
+  DEFAULT_DESIGN_OUTDOOR_TEMP_C,
+  type DesignCurve,
+  evaluateCurve,
+  getDefaultTargetFlowTemp,
+} from "../heatingCurveDesign";
+
+const outdoorTemps = [-10, -6, -2, 0, 2, 5, 8, 12, 16];
+
+function curvePoints(curve: { slope: number; intercept: number }, offset = 0) {
+  return outdoorTemps.map((x) => ({ x, y: evaluateCurve(curve, x) + offset }));
+}
+
+describe("computeDesignCurve", () => {
+  it("runs from the heating limit to the target flow at the design temperature", () => {
+    const design = computeDesignCurve(-10, 35) as DesignCurve;
+
+    expect(evaluateCurve(design, 20)).toBeCloseTo(20);
+    expect(evaluateCurve(design, -10)).toBeCloseTo(35);
+    expect(design.slope).toBeCloseTo(-0.5);
+  });
+
+  it("falls back to the default design outdoor temperature", () => {
+    expect(computeDesignCurve(null, 35)?.designOutdoorTempC).toBe(DEFAULT_DESIGN_OUTDOOR_TEMP_C);
+  });
+
+  it("returns null for design temperatures at or above the heating limit", () => {
+    expect(computeDesignCurve(20, 35)).toBeNull();
+  });
+
+  it("uses typical target flow temperatures per heating type", () => {
+    expect(getDefaultTargetFlowTemp("radiators")).toBe(55);
+    expect(getDefaultTargetFlowTemp(null)).toBe(getDefaultTargetFlowTemp("underfloorheating"));
+  });
+});
+
+describe("compareWithDesignCurve", () => {
+  const design = computeDesignCurve(-10, 35) as DesignCurve;
+
+  it("suggests nothing when the measured curve matches the design", () => {
+    const comparison = compareWithDesignCurve(curvePoints(design), design);
+
+    expect(comparison?.suggestions).toEqual([]);
+    expect(comparison?.meanAbsoluteResidualK).toBeCloseTo(0);
+  });
+
+  it("detects a parallel shift", () => {
+    const comparison = compareWithDesignCurve(curvePoints(design, 4), design);
+
+    expect(comparison?.parallelShiftK).toBeCloseTo(4);
+    expect(comparison?.slopeDeviation).toBeCloseTo(0);
+    expect(comparison?.meanResidualK).toBeCloseTo(4);
+    expect(comparison?.suggestions).toEqual(["shiftDown"]);
+  });
+
+  it("detects a too steep curve independent of the shift", () => {
+    const steep = { slope: design.slope * 1.4, intercept: 20 - design.slope * 1.4 * 20 };
+    const comparison = compareWithDesignCurve(curvePoints(steep), design);
+
+    expect(comparison?.slopeDeviation).toBeCloseTo(0.4);
+    expect(comparison?.suggestions).toContain("decreaseSlope");
+  });
+
+  it("ignores days above the heating limit and requires enough points", () => {
+    const points = [...curvePoints(design).slice(0, 4), { x: 22, y: 60 }, { x: 25, y: 60 }];
+    expect(compareWithDesignCurve(points, design)).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  countElapsedSeasonMonths,
+  filterSystemsWithCompleteMonths,
+  formatSeasonLabel,
+  getSeasonDateRange,
+  getSeasonIndexValues,
+  getSeasonMonthFilter,
+  getSeasonMonths,
+  getSeasonStartYear,
+} from "../heatingSeason";
+
+describe("getSeasonMonths", () => {
+  it("returns the calendar year for the calendar definition", () => {
+    const months = getSeasonMonths(2025, "calendar");
+    expect(months).toHaveLength(12);
+    expect(months[0]).toEqual({ year: 2025, month: 1 });
+    expect(months[11]).toEqual({ year: 2025, month: 12 });
+  });
+
+  it("spans two calendar years for heating seasons", () => {
+    const months = getSeasonMonths(2024, "octSep");
+    expect(months[0]).toEqual({ year: 2024, month: 10 });
+    expect(months[2]).toEqual({ year: 2024, month: 12 });
+    expect(months[3]).toEqual({ year: 2025, month: 1 });
+    expect(months[11]).toEqual({ year: 2025, month: 9 });
+  });
+});
+
+describe("getSeasonIndexValues", () => {
+  it("orders the months from the season start", () => {
+    expect(getSeasonIndexValues("julJun")).toEqual([
+      "7",
+      "8",
+      "9",
+      "10",
+      "11",
+      "12",
+      "1",
+      "2",
+      "3",
+      "4",
+      "5",
+      "6",
+    ]);
+  });
+});
+
+describe("getSeasonDateRange", () => {
+  it("covers the first to the last day of the season", () => {
+    expect(getSeasonDateRange(2025, "calendar")).toEqual({
+      start: "2025-01-01",
+      end: "2025-12-31",
+    });
+    expect(getSeasonDateRange(2024, "julJun")).toEqual({ start: "2024-07-01", end: "2025-06-30" });
+  });
+});
+
+describe("getSeasonMonthFilter", () => {
+  it("filters a single year for calendar years", () => {
+    expect(getSeasonMonthFilter(2025, "calendar")).toBe("year.eq.2025");
+  });
+
+  it("combines the months of both calendar years for seasons", () => {
+    expect(getSeasonMonthFilter(2024, "octSep")).toBe(
+      "and(year.eq.2024,month.gte.10),and(year.eq.2025,month.lt.10)",
+    );
+  });
+});
+
+describe("getSeasonStartYear", () => {
+  it("assigns months before the season start to the previous season", () => {
+    expect(getSeasonStartYear(2025, 3, "calendar")).toBe(2025);
+    expect(getSeasonStartYear(2025, 3, "julJun")).toBe(2024);
+    expect(getSeasonStartYear(2025, 10, "octSep")).toBe(2025);
+  });
+});
+
+describe("formatSeasonLabel", () => {
+  it("labels seasons with both years", () => {
+    expect(formatSeasonLabel(2025, "calendar")).toBe("2025");
+    expect(formatSeasonLabel(2024, "julJun")).toBe("2024/25");
+    expect(formatSeasonLabel(2099, "octSep")).toBe("2099/00");
+  });
+});
+
+describe("countElapsedSeasonMonths", () => {
+  const now = new Date(2025, 1, 15); // February 2025
+
+  it("expects all months of past seasons", () => {
+    expect(countElapsedSeasonMonths(2024, "calendar", now)).toBe(12);
+    expect(countElapsedSeasonMonths(2023, "julJun", now)).toBe(12);
+  });
+
+  it("expects the months up to now of the current season", () => {
+    expect(countElapsedSeasonMonths(2025, "calendar", now)).toBe(2);
+    expect(countElapsedSeasonMonths(2024, "octSep", now)).toBe(5);
+  });
+
+  it("expects no months of future seasons", () => {
+    expect(countElapsedSeasonMonths(2025, "julJun", now)).toBe(0);
+  });
+});
+
+describe("filterSystemsWithCompleteMonths", () => {
+  it("distinguishes the same month in different years", () => {
+    const rows = [
+      { heating_id: "a", year: 2024, month: 12 },
+      { heating_id: "a", year: 2025, month: 1 },
+      { heating_id: "b", year: 2024, month: 12 },
+      { heating_id: "b", year: 2024, month: 12 },
+      { heating_id: null, year: 2025, month: 1 },
+    ];
+
+    expect(filterSystemsWithCompleteMonths(rows, 2)).toEqual([
+      { heating_id: "a", year: 2024, month: 12 },
+      { heating_id: "a", year: 2025, month: 1 },
+    ]);
+  });
+});
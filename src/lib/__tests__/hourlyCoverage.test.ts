@@ -0,0 +1,76 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { analyzeHourlyCoverage, countExpectedHours, isCompleteDay } from "../hourlyCoverage";
+
+function hourlyRows(heatingId: string, hours: number[]) {
+  return hours.map((hour) => ({
+    heating_id: heatingId,
+    created_at: `2025-01-15T${String(hour).padStart(2, "0")}:02:00`,
+  }));
+}
+
+const allHours = Array.from({ length: 24 }, (_, h) => h);
+
+describe("analyzeHourlyCoverage", () => {
+  it("reports a complete day without merged hours", () => {
+    const rows = analyzeHourlyCoverage(hourlyRows("a", allHours));
+
+    expect(rows[0].coverage).toEqual({
+      measuredHours: allHours,
+      mergedHours: [],
+      missingHours: [],
+      expectedHours: 24,
+    });
+    expect(rows.every((row) => row.merged_hours === 0)).toBe(true);
+    expect(isCompleteDay(rows[0].coverage)).toBe(true);
+  });
+
+  it("detects hours merged into a multi-hour delta", () => {
+    const hours = allHours.filter((h) => h !== 4 && h !== 5);
+    const rows = analyzeHourlyCoverage(hourlyRows("a", hours));
+    const mergedRow = rows.find((row) => row.created_at.includes("T06:"));
+
+    expect(mergedRow?.merged_hours).toBe(3);
+    expect(rows[0].coverage?.mergedHours).toEqual([4, 5, 6]);
+    expect(rows[0].coverage?.missingHours).toEqual([]);
+    expect(isCompleteDay(rows[0].coverage)).toBe(true);
+  });
+
+  it("reports hours before the first and after the last measurement as missing", () => {
+    const rows = analyzeHourlyCoverage(hourlyRows("a", [2, 3, 4, 20, 21]).reverse());
+
+    expect(rows[0].coverage?.missingHours).toEqual([0, 1, 22, 23]);
+    expect(rows[0].coverage?.mergedHours).toEqual([
+      5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20,
+    ]);
+    expect(isCompleteDay(rows[0].coverage)).toBe(false);
+  });
+
+  it("analyzes each system separately and keeps the row order", () => {
+    const rows = analyzeHourlyCoverage([
+      ...hourlyRows("a", [1]),
+      ...hourlyRows("b", allHours),
+      { heating_id: null, created_at: "2025-01-15T01:00:00" },
+    ]);
+
+    expect(rows[0].heating_id).toBe("a");
+    expect(rows[0].coverage?.missingHours).toHaveLength(23);
+    expect(rows[1].coverage?.missingHours).toEqual([]);
+    expect(rows[rows.length - 1].coverage).toBeNull();
+  });
+
+  it("only expects the hours passed so far", () => {
+    const rows = analyzeHourlyCoverage(hourlyRows("a", [0, 1, 2]), () => 3);
+    expect(isCompleteDay(rows[0].coverage)).toBe(true);
+  });
+});
+
+describe("countExpectedHours", () => {
+  const now = dayjs("2025-01-15T10:30:00");
+
+  it("expects all hours of past days and the passed hours of today", () => {
+    expect(countExpectedHours("2025-01-14", now)).toBe(24);
+    expect(countExpectedHours("2025-01-15", now)).toBe(10);
+    expect(countExpectedHours("2025-01-16", now)).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { buildHourlyHeatmap, getMonthDates, heatmapCellKey } from "../hourlyHeatmap";
+
+const row = (createdAt: string, az: number, electrical: number) => ({
+  created_at: createdAt,
+  az,
+  thermal_energy_kwh: az * electrical,
+  electrical_energy_kwh: electrical,
+});
+
+describe("getMonthDates", () => {
+  it("lists every day of the month", () => {
+    const dates = getMonthDates("2024-02");
+
+    expect(dates).toHaveLength(29);
+    expect(dates[0]).toBe("2024-02-01");
+    expect(dates[28]).toBe("2024-02-29");
+  });
+});
+
+describe("buildHourlyHeatmap", () => {
+  const rows = [
+    row("2025-01-05T03:10:00", 3, 1),
+    row("2025-01-05T03:20:00", 5, 1),
+    row("2025-01-05T14:05:00", 4, 2),
+    row("2025-01-20T23:59:00", 2, 0.5),
+  ];
+
+  it("aggregates the rows of each day and hour", () => {
+    const heatmap = buildHourlyHeatmap("2025-01", rows, "cop", "mean");
+
+    expect(heatmap.dates).toHaveLength(31);
+    expect(heatmap.values.get(heatmapCellKey("2025-01-05", 3))).toBe(4);
+    expect(heatmap.values.get(heatmapCellKey("2025-01-05", 14))).toBe(4);
+    expect(heatmap.values.get(heatmapCellKey("2025-01-20", 23))).toBe(2);
+    expect(heatmap.values.size).toBe(3);
+    expect(heatmap).toMatchObject({ min: 2, max: 4 });
+  });
+
+  it("colors by the selected metric", () => {
+    const heatmap = buildHourlyHeatmap("2025-01", rows, "energy", "mean");
+
+    expect(heatmap.values.get(heatmapCellKey("2025-01-05", 14))).toBe(2);
+    expect(heatmap).toMatchObject({ min: 0.5, max: 2 });
+  });
+
+  it("leaves cells without data empty", () => {
+    const heatmap = buildHourlyHeatmap(
+      "2025-01",
+      [row("2025-01-05T03:10:00", 0, 0)],
+      "cop",
+      "mean",
+    );
+
+    expect(heatmap.values.size).toBe(0);
+    expect(heatmap).toMatchObject({ min: null, max: null });
+  });
+});
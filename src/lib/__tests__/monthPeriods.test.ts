@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { formatMonthPeriod, getLastTwelveMonthsFilter } from "../monthPeriods";
+
+describe("getLastTwelveMonthsFilter", () => {
+  it("selects the twelve months before the current month", () => {
+    expect(getLastTwelveMonthsFilter(new Date(2025, 2, 15))).toBe(
+      "and(year.eq.2024,month.gte.3),and(year.eq.2025,month.lt.3)",
+    );
+  });
+});
+
+describe("formatMonthPeriod", () => {
+  it("formats periods as month and two-digit year", () => {
+    expect(formatMonthPeriod("2025-03")).toBe("03/25");
+  });
+});
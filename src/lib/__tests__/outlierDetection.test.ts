@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { filterRealisticDataForCharts, validateMeasurementData } from "../dataQuality";
+import {
+  detectSystemOutliers,
+  hourOfDayKey,
+  MIN_OUTLIER_SAMPLE_SIZE,
+  modifiedZScores,
+} from "../outlierDetection";
+
+const dailyCops = [3.8, 4.1, 3.9, 4.0, 4.2, 3.7, 4.0, 4.1];
+
+function systemRows(heatingId: string, cops: number[]) {
+  return cops.map((az, day) => ({ heating_id: heatingId, day, az }));
+}
+
+describe("modifiedZScores", () => {
+  it("scales deviations from the median by the MAD", () => {
+    const scores = modifiedZScores([1, 2, 3, 4, 100]);
+    expect(scores?.[2]).toBe(0);
+    expect(scores?.[4]).toBeCloseTo(65.4, 1);
+  });
+
+  it("returns null for constant values", () => {
+    expect(modifiedZScores([2, 2, 2, 2])).toBeNull();
+  });
+});
+
+describe("detectSystemOutliers", () => {
+  const history = systemRows("a", dailyCops);
+
+  it("flags a day far from the system's own history", () => {
+    const rows = detectSystemOutliers(systemRows("a", [4.0, 8.5]), history);
+
+    const flagged = rows.filter((row) => row.outlier_issues.length > 0);
+    expect(flagged.map((row) => row.day)).toEqual([1]);
+    expect(flagged[0].outlier_issues[0]).toMatchObject({
+      type: "statistical_outlier",
+      ruleId: "az_outlier",
+      severity: "warning",
+      translationKey: "dataQuality.statisticalOutlier.az",
+      translationParams: { value: "8.5", median: "4.0" },
+    });
+  });
+
+  it("flags a period that is off as a whole", () => {
+    const rows = detectSystemOutliers(systemRows("a", [8.4, 8.5, 8.6]), history);
+
+    expect(rows.every((row) => row.outlier_issues.length === 1)).toBe(true);
+  });
+
+  it("compares each system only with its own history", () => {
+    const rows = detectSystemOutliers(
+      [...systemRows("a", [2.0]), ...systemRows("b", [2.0])],
+      [
+        ...history,
+        ...systemRows(
+          "b",
+          dailyCops.map((cop) => cop - 2),
+        ),
+      ],
+    );
+
+    expect(rows.map((row) => row.outlier_issues.length)).toEqual([1, 0]);
+  });
+
+  it("compares hours with the same hour of other days", () => {
+    // Hot water at noon lowers the COP of that hour every day
+    const hourlyHistory = dailyCops.flatMap((cop, day) => [
+      { heating_id: "a", created_at: `2025-01-0${day + 1}T03:00:00`, az: cop },
+      { heating_id: "a", created_at: `2025-01-0${day + 1}T12:00:00`, az: cop - 1.5 },
+    ]);
+    const rows = detectSystemOutliers(
+      [
+        { heating_id: "a", created_at: "2025-01-10T03:00:00", az: 2.5 },
+        { heating_id: "a", created_at: "2025-01-10T12:00:00", az: 2.5 },
+      ],
+      hourlyHistory,
+      { baselineKey: hourOfDayKey },
+    );
+
+    expect(rows.map((row) => row.outlier_issues.length)).toEqual([1, 0]);
+  });
+
+  it("needs a minimum history per system", () => {
+    const rows = detectSystemOutliers(
+      systemRows("a", [9]),
+      systemRows("a", dailyCops.slice(0, MIN_OUTLIER_SAMPLE_SIZE - 1)),
+    );
+
+    expect(rows.every((row) => row.outlier_issues.length === 0)).toBe(true);
+  });
+
+  it("surfaces outliers in the validation and optionally excludes them from charts", () => {
+    const rows = detectSystemOutliers(systemRows("a", [...dailyCops, 8.5]), history);
+    const outlier = rows[rows.length - 1];
+
+    expect(validateMeasurementData(outlier).issues.map((issue) => issue.ruleId)).toEqual([
+      "az_outlier",
+    ]);
+    expect(filterRealisticDataForCharts(rows)).toHaveLength(rows.length);
+    expect(filterRealisticDataForCharts(rows, "day", true)).toHaveLength(rows.length - 1);
+  });
+});
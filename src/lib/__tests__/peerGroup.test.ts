@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildOwnSystemFilterModel,
+  buildPeerFilterModel,
+  computePeerStats,
+  DEFAULT_PEER_GROUP_SETTINGS,
+  loosenPeerGroupSettings,
+  type PeerGroupSettings,
+  type PeerSystem,
+  summarizePeerMonths,
+} from "../peerGroup";
+
+const system: PeerSystem = {
+  heating_id: "h1",
+  user_id: "u1",
+  model_idu: "CS5800i_E",
+  heating_type: "underfloorheating",
+  building_energy_standard: "kfw_55",
+  heated_area_m2: 150,
+};
+
+describe("buildPeerFilterModel", () => {
+  it("filters on all criteria with a heated area range", () => {
+    const model = buildPeerFilterModel(system, DEFAULT_PEER_GROUP_SETTINGS);
+
+    expect(model.items.map(({ field, operator, value }) => [field, operator, value])).toEqual([
+      ["model_idu", "is", "CS5800i_E"],
+      ["heating_type", "is", "underfloorheating"],
+      ["heated_area_m2", ">=", 120],
+      ["heated_area_m2", "<=", 180],
+      ["building_energy_standard", "is", "kfw_55"],
+    ]);
+  });
+
+  it("skips disabled criteria and criteria without a value", () => {
+    const model = buildPeerFilterModel(
+      { ...system, building_energy_standard: null },
+      { ...DEFAULT_PEER_GROUP_SETTINGS, criteria: ["model_idu", "building_energy_standard"] },
+    );
+
+    expect(model.items.map((item) => item.field)).toEqual(["model_idu"]);
+  });
+
+  it("selects the own system by its user", () => {
+    expect(buildOwnSystemFilterModel(system).items[0]).toMatchObject({
+      field: "user_id",
+      value: "u1",
+    });
+  });
+});
+
+describe("loosenPeerGroupSettings", () => {
+  it("widens the heated area range before dropping criteria", () => {
+    const steps: PeerGroupSettings[] = [];
+    let settings: PeerGroupSettings | null = DEFAULT_PEER_GROUP_SETTINGS;
+    while (settings) {
+      steps.push(settings);
+      settings = loosenPeerGroupSettings(settings);
+    }
+
+    expect(steps.map((s) => [s.criteria.length, s.heatedAreaTolerance])).toEqual([
+      [4, 0.2],
+      [4, 0.35],
+      [4, 0.5],
+      [3, 0.5],
+      [2, 0.5],
+      [1, 0.5],
+      [0, 0.5],
+    ]);
+    expect(steps[4].criteria).toEqual(["model_idu", "heating_type"]);
+  });
+});
+
+describe("computePeerStats", () => {
+  const values = new Map([
+    ["a", 3],
+    ["b", 4],
+    ["c", 5],
+    ["d", 6],
+    ["e", 7],
+  ]);
+
+  it("ranks higher values first when higher is better", () => {
+    expect(computePeerStats(values, "d", true)).toMatchObject({
+      count: 5,
+      ownValue: 6,
+      median: 5,
+      q1: 4,
+      q3: 6,
+      rank: 2,
+    });
+  });
+
+  it("ranks lower values first when lower is better", () => {
+    expect(computePeerStats(values, "d", false)?.rank).toBe(4);
+  });
+
+  it("has no rank without an own value", () => {
+    expect(computePeerStats(values, "x", true)?.rank).toBeNull();
+    expect(computePeerStats(new Map(), "x", true)).toBeNull();
+  });
+});
+
+describe("summarizePeerMonths", () => {
+  it("computes COP and electrical energy per area for each month", () => {
+    const summary = summarizePeerMonths(
+      [
+        {
+          heating_id: "h1",
+          year: 2025,
+          month: 1,
+          thermal_energy_kwh: 400,
+          electrical_energy_kwh: 100,
+          heated_area_m2: 100,
+        },
+        {
+          heating_id: "h2",
+          year: 2025,
+          month: 1,
+          thermal_energy_kwh: 600,
+          electrical_energy_kwh: 200,
+          heated_area_m2: 100,
+        },
+        {
+          heating_id: "h1",
+          year: 2024,
+          month: 12,
+          thermal_energy_kwh: 300,
+          electrical_energy_kwh: 0,
+          heated_area_m2: null,
+        },
+      ],
+      "h1",
+    );
+
+    expect(summary.map((m) => [m.year, m.month])).toEqual([
+      [2024, 12],
+      [2025, 1],
+    ]);
+    expect(summary[0].az).toBeNull();
+    expect(summary[1].az).toMatchObject({ ownValue: 4, rank: 1, count: 2 });
+    expect(summary[1].electricalEnergyPerArea).toMatchObject({ ownValue: 1, rank: 1 });
+  });
+});
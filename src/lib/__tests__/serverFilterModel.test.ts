@@ -1,6 +1,14 @@
 import type { GridFilterModel } from "@mui/x-data-grid";
 import { describe, expect, it } from "vitest";
-import { sanitizeGridFilterModel } from "../serverFilterModel";
+import {
+  applyServerFilterModels,
+  applyServerSortModel,
+  canFilterOnServer,
+  restrictServerFilterModel,
+  SYSTEM_FILTER_FIELDS,
+  sanitizeGridFilterModel,
+  serverFilterExpression,
+} from "../serverFilterModel";
 
 describe("sanitizeGridFilterModel", () => {
   it("maps aliased fields and normalizes scalar values", () => {
@@ -53,3 +61,154 @@ describe("sanitizeGridFilterModel", () => {
     });
   });
 });
+
+describe("serverFilterExpression", () => {
+  it("translates grid operators into a PostgREST logic tree", () => {
+    expect(
+      serverFilterExpression({
+        logic: "and",
+        items: [
+          { field: "az_heating", operator: ">=", value: 4 },
+          { field: "name", operator: "contains", value: "Haus, Nord" },
+          { field: "model_idu", operator: "not", value: "CS6800i_E" },
+          { field: "postal_code", operator: "isNotEmpty" },
+        ],
+      }),
+    ).toBe(
+      'and(az_heating.gte.4,name.ilike."*Haus, Nord*",' +
+        "or(model_idu.neq.CS6800i_E,model_idu.is.null),postal_code.not.is.null)",
+    );
+  });
+
+  it("quotes list values and escapes LIKE wildcards", () => {
+    expect(
+      serverFilterExpression({
+        logic: "or",
+        items: [
+          { field: "country", operator: "isAnyOf", value: ["DE", "A(T)"] },
+          { field: "name", operator: "startsWith", value: "100%" },
+        ],
+      }),
+    ).toBe('or(country.in.(DE,"A(T)"),name.ilike."100\\\\%*")');
+  });
+
+  it("returns null without conditions or with an unsupported OR item", () => {
+    expect(serverFilterExpression({ logic: "and", items: [] })).toBeNull();
+    expect(
+      serverFilterExpression({
+        logic: "or",
+        items: [
+          { field: "az", operator: ">", value: 3 },
+          { field: "az", operator: "unknown", value: 1 },
+        ],
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("restrictServerFilterModel", () => {
+  const fields = new Set(["az", "name"]);
+
+  it("drops items on fields the server does not know", () => {
+    expect(
+      restrictServerFilterModel(
+        {
+          logic: "and",
+          items: [
+            { field: "az", operator: ">", value: 3 },
+            { field: "defrost_hours", operator: ">", value: 0 },
+          ],
+        },
+        fields,
+      ),
+    ).toEqual({ logic: "and", items: [{ field: "az", operator: ">", value: 3 }] });
+  });
+
+  it("drops an OR filter with unknown fields as a whole", () => {
+    expect(
+      restrictServerFilterModel(
+        {
+          logic: "or",
+          items: [
+            { field: "az", operator: ">", value: 3 },
+            { field: "defrost_hours", operator: ">", value: 0 },
+          ],
+        },
+        fields,
+      ),
+    ).toEqual({ logic: "or", items: [] });
+  });
+});
+
+describe("canFilterOnServer", () => {
+  it("accepts filters on system attributes only", () => {
+    expect(
+      canFilterOnServer(
+        { logic: "and", items: [{ field: "model_idu", operator: "is", value: "CS6800i_E" }] },
+        SYSTEM_FILTER_FIELDS,
+      ),
+    ).toBe(true);
+    // Measurements and versioned configuration fields are filtered on the client
+    expect(
+      canFilterOnServer(
+        { logic: "and", items: [{ field: "az", operator: ">", value: 3 }] },
+        SYSTEM_FILTER_FIELDS,
+      ),
+    ).toBe(false);
+    expect(
+      canFilterOnServer(
+        { logic: "and", items: [{ field: "sw_idu", operator: "is", value: "5.35" }] },
+        SYSTEM_FILTER_FIELDS,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("applyServerFilterModels", () => {
+  const createQuery = () => {
+    const calls: string[] = [];
+    const query = {
+      calls,
+      or(filters: string) {
+        calls.push(`or:${filters}`);
+        return query;
+      },
+      order(column: string, options: { ascending: boolean }) {
+        calls.push(`order:${column}:${options.ascending ? "asc" : "desc"}`);
+        return query;
+      },
+    };
+    return query;
+  };
+
+  it("matches the rows of any of the models", () => {
+    const query = createQuery();
+    applyServerFilterModels(query, [
+      { logic: "and", items: [{ field: "heating_type", operator: "is", value: "floor" }] },
+      { logic: "and", items: [{ field: "heating_type", operator: "is", value: "radiator" }] },
+    ]);
+
+    expect(query.calls).toEqual(["or:and(heating_type.eq.floor),and(heating_type.eq.radiator)"]);
+  });
+
+  it("leaves the query unfiltered when one model matches all rows", () => {
+    const query = createQuery();
+    applyServerFilterModels(query, [
+      { logic: "and", items: [{ field: "az", operator: ">", value: 3 }] },
+      { logic: "and", items: [] },
+    ]);
+
+    expect(query.calls).toEqual([]);
+  });
+
+  it("orders by the sorted columns", () => {
+    const query = createQuery();
+    applyServerSortModel(query, [
+      { field: "azHeating", sort: "desc" },
+      { field: "name", sort: null },
+      { field: "date", sort: "asc" },
+    ]);
+
+    expect(query.calls).toEqual(["order:az_heating:desc", "order:date:asc"]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import type { Database } from "../../types/database.types";
+import {
+  applyConfigHistory,
+  buildConfigHistoryEntries,
+  getHeatingIds,
+  getMeasurementDate,
+  groupConfigsBySystem,
+  resolveConfigAt,
+  type SystemConfig,
+} from "../systemConfigHistory";
+
+type HeatingSystem = Database["public"]["Tables"]["heating_systems"]["Row"];
+
+const system = {
+  heating_id: "h1",
+  created_at: "2024-03-10T08:00:00Z",
+  heating_type: "underfloorheating",
+  sw_idu: "9.7.0",
+  sw_odu: "9.12.0",
+  thermometer_offset_k: 1,
+} as HeatingSystem;
+
+const configs: SystemConfig[] = [
+  {
+    heating_id: "h1",
+    effective_from: "2025-01-15",
+    heating_type: "underfloorheating",
+    sw_idu: "12.11.1",
+    sw_odu: "9.15.0",
+    thermometer_offset_k: 2,
+  },
+  {
+    heating_id: "h1",
+    effective_from: "2024-03-10",
+    heating_type: "underfloorheating",
+    sw_idu: "9.7.0",
+    sw_odu: "9.12.0",
+    thermometer_offset_k: 1,
+  },
+];
+
+describe("buildConfigHistoryEntries", () => {
+  it("records the previous configuration before the first change", () => {
+    const entries = buildConfigHistoryEntries(
+      system,
+      { ...system, sw_idu: "12.11.1" },
+      "2025-01-15",
+      false,
+    );
+
+    expect(entries.map((e) => [e.effective_from, e.sw_idu])).toEqual([
+      ["2024-03-10", "9.7.0"],
+      ["2025-01-15", "12.11.1"],
+    ]);
+  });
+
+  it("only adds the new configuration once a history exists", () => {
+    const entries = buildConfigHistoryEntries(
+      system,
+      { ...system, sw_idu: "12.11.1" },
+      "2025-01-15",
+      true,
+    );
+
+    expect(entries).toHaveLength(1);
+  });
+
+  it("returns no entries if no versioned setting changed", () => {
+    expect(buildConfigHistoryEntries(system, { ...system }, "2025-01-15", false)).toEqual([]);
+  });
+});
+
+describe("resolveConfigAt", () => {
+  const sorted = groupConfigsBySystem(configs).get("h1") as SystemConfig[];
+
+  it("uses the configuration effective on the given day", () => {
+    expect(resolveConfigAt(sorted, "2025-01-14")?.sw_idu).toBe("9.7.0");
+    expect(resolveConfigAt(sorted, "2025-01-15T00:30:00Z")?.sw_idu).toBe("12.11.1");
+  });
+
+  it("falls back to the first configuration before the history starts", () => {
+    expect(resolveConfigAt(sorted, "2023-12-01")?.sw_idu).toBe("9.7.0");
+    expect(resolveConfigAt([], "2023-12-01")).toBeNull();
+  });
+});
+
+describe("getHeatingIds", () => {
+  it("returns each heating ID once, sorted", () => {
+    expect(
+      getHeatingIds([
+        { heating_id: "h2" },
+        { heating_id: "h1" },
+        { heating_id: null },
+        { heating_id: "h2" },
+      ]),
+    ).toEqual(["h1", "h2"]);
+  });
+});
+
+describe("getMeasurementDate", () => {
+  it("reads daily, monthly and hourly rows", () => {
+    expect(getMeasurementDate({ date: "2025-02-01" })).toBe("2025-02-01");
+    expect(getMeasurementDate({ year: 2025, month: 2, created_at: "2025-03-01" })).toBe(
+      "2025-02-01",
+    );
+    expect(getMeasurementDate({ created_at: "2025-02-01T10:00:00Z" })).toBe("2025-02-01T10:00:00Z");
+  });
+});
+
+describe("applyConfigHistory", () => {
+  it("restores the historic configuration and thermometer correction", () => {
+    // The view corrected with the current offset of 2 K, the measurement was taken with 1 K
+    const [row] = applyConfigHistory(
+      [
+        {
+          heating_id: "h1",
+          date: "2024-12-01",
+          sw_idu: "12.11.1" as const,
+          thermometer_offset_k: 2,
+          outdoor_temperature_c: 3,
+        },
+      ],
+      groupConfigsBySystem(configs),
+    );
+
+    expect(row).toMatchObject({
+      sw_idu: "9.7.0",
+      thermometer_offset_k: 1,
+      outdoor_temperature_c: 4,
+    });
+  });
+
+  it("leaves rows of systems without history unchanged", () => {
+    const rows = [{ heating_id: "h2", date: "2024-12-01", sw_idu: "12.11.1" as const }];
+
+    expect(applyConfigHistory(rows, groupConfigsBySystem(configs))[0]).toBe(rows[0]);
+  });
+});
@@ -1,8 +1,12 @@
 import { describe, expect, it } from "vitest";
 import {
   getPeriodHours,
+  getStandbyPower,
   removeSystemConsumption,
+  STANDBY_POWER_W_BY_MODEL_IDU,
+  STANDBY_POWER_W_BY_MODEL_ODU,
   SYSTEM_CONSUMPTION_KW,
+  summarizeStandbyPower,
 } from "../systemConsumption";
 
 describe("system consumption correction", () => {
@@ -51,4 +55,48 @@ describe("system consumption correction", () => {
     const now = new Date("2026-03-15T00:00:00");
     expect(getPeriodHours({ year: 2026, month: 2 }, "month", now)).toBe(28 * 24);
   });
+
+  it("subtracts the model estimate for known indoor and outdoor units", () => {
+    const result = removeSystemConsumption(
+      { electrical_energy_kwh: 1, model_idu: "WLW186i_T180", model_odu: "12" },
+      "hour",
+    );
+
+    const expectedWatts =
+      STANDBY_POWER_W_BY_MODEL_IDU.WLW186i_T180 + STANDBY_POWER_W_BY_MODEL_ODU["12"];
+    expect(result.electrical_energy_kwh).toBeCloseTo(1 - expectedWatts / 1000);
+  });
+});
+
+describe("getStandbyPower", () => {
+  it("prefers the value stored for the system", () => {
+    expect(
+      getStandbyPower({ standby_power_w: 40, model_idu: "CS5800i_E", model_odu: "5" }),
+    ).toEqual({ watts: 40, source: "system" });
+    expect(getStandbyPower({ standby_power_w: 0 })).toEqual({ watts: 0, source: "system" });
+  });
+
+  it("estimates from the models and falls back to the global default", () => {
+    expect(getStandbyPower({ model_idu: "CS5800i_E", model_odu: "5" })).toEqual({
+      watts: 25,
+      source: "model",
+    });
+    expect(getStandbyPower({ model_idu: "CS5800i_E", model_odu: null })).toEqual({
+      watts: SYSTEM_CONSUMPTION_KW * 1000,
+      source: "default",
+    });
+  });
+});
+
+describe("summarizeStandbyPower", () => {
+  it("reports the range and sources of the subtracted standby power", () => {
+    expect(
+      summarizeStandbyPower([
+        { model_idu: "CS5800i_E", model_odu: "5" },
+        { standby_power_w: 32 },
+        { standby_power_w: 32 },
+      ]),
+    ).toEqual({ minWatts: 25, maxWatts: 32, sources: ["model", "system"] });
+    expect(summarizeStandbyPower([])).toBeNull();
+  });
 });
@@ -109,5 +109,17 @@ describe("tableHelpers", () => {
       expect(result.az).toBe(1000);
       expect(result.azHeating).toBe(1000);
     });
+
+    it("computes the DHW AZ from the difference of total and heating", () => {
+      const row = {
+        thermal_energy_kwh: 100,
+        electrical_energy_kwh: 30,
+        thermal_energy_heating_kwh: 80,
+        electrical_energy_heating_kwh: 20,
+      };
+
+      expect(computeAz(row).azDhw).toBe(2); // (100 - 80) / (30 - 20)
+      expect(computeAz({ ...row, used_for_dhw: false }).azDhw).toBeNull();
+    });
   });
 });
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { percentileKey } from "../chartDataProcessing";
+import { aggregatesToChartRows, type TimeSeriesAggregate } from "../timeSeriesAggregates";
+
+function aggregate(overrides: Partial<TimeSeriesAggregate> = {}): TimeSeriesAggregate {
+  const fields = ["az", "az_heating", "electrical_energy_kwh", "electrical_energy_heating_kwh"];
+  const empty = Object.fromEntries(
+    fields.flatMap((field) =>
+      ["mean", "median", "p10", "p25", "p75", "p90", "weighted"].map((suffix) => [
+        `${field}_${suffix}`,
+        null,
+      ]),
+    ),
+  );
+
+  return {
+    ...empty,
+    period_start: "2025-01-15T06:00:00Z",
+    row_count: 10,
+    merged_hours: 0,
+    outdoor_temperature_c: 2,
+    flow_temperature_c: 35,
+    ...overrides,
+  } as TimeSeriesAggregate;
+}
+
+const options = {
+  indexField: "hour",
+  indexOf: () => "6",
+  aggregationMode: "weighted" as const,
+  priceAt: () => 0.3,
+};
+
+describe("aggregatesToChartRows", () => {
+  it("uses the weighted ratio and falls back to the mean where it is missing", () => {
+    const [weighted, fallback] = aggregatesToChartRows(
+      [
+        aggregate({ az_weighted: 3.2, az_mean: 3.5, az_heating_mean: 3.8 }),
+        aggregate({ az_weighted: null, az_mean: 2.9 }),
+      ],
+      { ...options, metricMode: "cop" },
+    );
+
+    expect(weighted).toMatchObject({ hour: "6", az: 3.2, az_heating: 3.8 });
+    expect(fallback.az).toBe(2.9);
+  });
+
+  it("stores the percentiles under the chart fields", () => {
+    const [row] = aggregatesToChartRows(
+      [aggregate({ az_mean: 3, az_p10: 2.1, az_p25: 2.6, az_p75: 3.4, az_p90: 3.9 })],
+      { ...options, metricMode: "cop", aggregationMode: "mean" },
+    );
+
+    expect(row[percentileKey("az", 10)]).toBe(2.1);
+    expect(row[percentileKey("az", 90)]).toBe(3.9);
+    expect(row[percentileKey("az_heating", 25)]).toBeNull();
+  });
+
+  it("prices the energies of each period for the cost metric mode", () => {
+    const [row] = aggregatesToChartRows(
+      [
+        aggregate({
+          electrical_energy_kwh_mean: 2,
+          electrical_energy_kwh_median: 1.5,
+          electrical_energy_kwh_p75: 3,
+          electrical_energy_heating_kwh_median: 1,
+        }),
+      ],
+      { ...options, metricMode: "cost", aggregationMode: "median" },
+    );
+
+    expect(row.electricity_cost_eur).toBeCloseTo(0.45);
+    expect(row.electricity_cost_heating_eur).toBeCloseTo(0.3);
+    expect(row[percentileKey("electricity_cost_eur", 75)]).toBeCloseTo(0.9);
+    expect(row.electrical_energy_kwh).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import { GridLogicOperator } from "@mui/x-data-grid";
+import { describe, expect, it } from "vitest";
+import {
+  decodeFilterModel,
+  encodeFilterModel,
+  filterParams,
+  mergeSearchParams,
+  parseDateParam,
+  parseEnumParam,
+  parseIntParam,
+  parseMonthParam,
+  readFilterParams,
+} from "../urlState";
+
+describe("encodeFilterModel / decodeFilterModel", () => {
+  it("round-trips the active items, logic operator and quick filter", () => {
+    const encoded = encodeFilterModel({
+      items: [
+        { id: 7, field: "heating_type", operator: "is", value: "Luft-Wasser" },
+        { id: 8, field: "az", operator: ">", value: 3.5 },
+        { id: 9, field: "city", operator: "contains", value: "" },
+        { id: 10, field: "notes", operator: "isEmpty" },
+      ],
+      logicOperator: GridLogicOperator.Or,
+      quickFilterValues: ["Müller"],
+    });
+
+    expect(encoded).toMatch(/^1\.[A-Za-z0-9_-]+$/);
+    expect(decodeFilterModel(encoded)).toEqual({
+      items: [
+        { id: 1, field: "heating_type", operator: "is", value: "Luft-Wasser" },
+        { id: 2, field: "az", operator: ">", value: 3.5 },
+        { id: 3, field: "notes", operator: "isEmpty", value: undefined },
+      ],
+      logicOperator: GridLogicOperator.Or,
+      quickFilterValues: ["Müller"],
+    });
+  });
+
+  it("keeps multi-value filters", () => {
+    const model = { items: [{ id: 1, field: "city", operator: "isAnyOf", value: ["A", "B"] }] };
+    expect(decodeFilterModel(encodeFilterModel(model))).toEqual(model);
+  });
+
+  it("encodes a model without active items as null", () => {
+    expect(encodeFilterModel({ items: [] })).toBeNull();
+    expect(encodeFilterModel({ items: [{ field: "az", operator: ">", value: "" }] })).toBeNull();
+  });
+
+  it("ignores unknown versions and broken payloads", () => {
+    const encoded = encodeFilterModel({ items: [{ field: "az", operator: ">", value: 3 }] });
+    expect(decodeFilterModel(encoded?.replace(/^1\./, "2."))).toBeNull();
+    expect(decodeFilterModel("1.not-json")).toBeNull();
+    expect(decodeFilterModel("1")).toBeNull();
+    expect(decodeFilterModel(null)).toBeNull();
+  });
+
+  it("reads the comparison groups up to the last one set", () => {
+    const params = new URLSearchParams({
+      f3: encodeFilterModel({ items: [{ field: "az", operator: ">", value: 3 }] }) ?? "",
+    });
+    expect(readFilterParams(params)).toEqual({
+      filterGroups: [null, null, { items: [{ id: 1, field: "az", operator: ">", value: 3 }] }],
+    });
+  });
+
+  it("writes every group and removes unused ones", () => {
+    const params = filterParams([
+      { items: [{ field: "az", operator: ">", value: 3 }] },
+      { items: [] },
+    ]);
+    expect(params.f1).toMatch(/^1\./);
+    expect(params).toMatchObject({ f2: null, f3: null, f6: null });
+  });
+});
+
+describe("param parsers", () => {
+  it("accepts only allowed enum values", () => {
+    expect(parseEnumParam("energy", ["cop", "energy"])).toBe("energy");
+    expect(parseEnumParam("normalized", ["cop", "energy"])).toBeNull();
+    expect(parseEnumParam(null, ["cop"])).toBeNull();
+  });
+
+  it("parses integers within bounds", () => {
+    expect(parseIntParam("2025", 1900, 2999)).toBe(2025);
+    expect(parseIntParam("20x5", 1900, 2999)).toBeNull();
+    expect(parseIntParam("1800", 1900, 2999)).toBeNull();
+  });
+
+  it("parses valid dates and months only", () => {
+    expect(parseDateParam("2025-02-28")).toBe("2025-02-28");
+    expect(parseDateParam("2025-02-30")).toBeNull();
+    expect(parseDateParam("28.02.2025")).toBeNull();
+    expect(parseMonthParam("2025-03")).toEqual({ month: 3, year: 2025 });
+    expect(parseMonthParam("2025-13")).toBeNull();
+  });
+});
+
+describe("mergeSearchParams", () => {
+  it("sets and removes parameters while keeping the others", () => {
+    const params = mergeSearchParams("?view=distribution&f2=x&other=1", {
+      view: "timeSeries",
+      f2: null,
+    });
+    expect(params.toString()).toBe("view=timeSeries&other=1");
+  });
+});
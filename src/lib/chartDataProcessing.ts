@@ -3,14 +3,33 @@
  * Handles aggregation, formatting, and transformation of data for charts.
  */
 
-import type { ChartDataRow } from "../components/common/charts/AzBarChart";
+import type { ChartDataRow, MetricMode } from "../components/common/charts/AzBarChart";
+import { NORMALIZED_DIGITS } from "./metricModes";
 import { robustLinearRegression } from "./regressionUtils";
 
+/**
+ * How multiple rows of one index bucket are combined into a single bar value.
+ * - "mean": arithmetic mean of the per-row ratios (every row counts the same)
+ * - "weighted": energy-weighted ratio sum(thermal) / sum(electrical)
+ * - "median": median of the per-row values
+ */
+export type AggregationMode = "mean" | "weighted" | "median";
+
 interface AggregatedGroup {
   az_values: number[];
   az_heating_values: number[];
+  thermal_energy_sum: number;
+  electrical_energy_sum: number;
+  weighted_count: number; // Rows of az_values included in the energy sums
+  thermal_energy_heating_sum: number;
+  electrical_energy_heating_sum: number;
+  weighted_heating_count: number;
   electrical_energy_values: number[];
   electrical_energy_heating_values: number[];
+  normalized_energy_values: number[];
+  normalized_energy_heating_values: number[];
+  cost_values: number[];
+  cost_heating_values: number[];
   outdoor_temp_values: number[];
   flow_temp_values: number[];
 }
@@ -23,34 +42,120 @@ interface ProcessDatasetOptions {
   azHeatingKey: string;
   groupSuffix?: string;
   aggregateData?: boolean;
-  metricMode?: "cop" | "energy"; // "cop" = AZ values, "energy" = electrical energy values
+  metricMode?: MetricMode; // "cop" = AZ, "energy" = electrical energy, "normalized" = energy per HDD and m², "cost" = electricity costs
+  aggregationMode?: AggregationMode; // How rows of the same index are combined (default: "mean")
+}
+
+/**
+ * Returns the aggregation mode that is actually applied for a metric mode.
+ * Only COP values are thermal/electrical ratios, so other modes fall back to the mean.
+ */
+export function resolveAggregationMode(
+  aggregationMode: AggregationMode,
+  metricMode: MetricMode = "cop",
+): AggregationMode {
+  return metricMode !== "cop" && aggregationMode === "weighted" ? "mean" : aggregationMode;
+}
+
+/**
+ * Percentile levels drawn as bands on the bar chart (outer whisker P10–P90, inner box P25–P75)
+ */
+export const PERCENTILE_LEVELS = [10, 25, 75, 90] as const;
+export type PercentileLevel = (typeof PERCENTILE_LEVELS)[number];
+
+/**
+ * Key under which a percentile of a bar series is stored in a chart row,
+ * e.g. "COP (total) (Filter 1)" -> "COP (total) (Filter 1)::p25"
+ */
+export function percentileKey(seriesKey: string, level: PercentileLevel): string {
+  return `${seriesKey}::p${level}`;
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks (same as numpy's default).
+ * @param values - Unsorted values
+ * @param level - Percentile between 0 and 100
+ */
+export function calculatePercentile(values: number[], level: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (level / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, val) => sum + val, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Combines the ratios of one bucket. The energy-weighted ratio needs the energies of every
+ * row; buckets where some rows only carry an AZ fall back to the mean, so that the bar
+ * always covers all rows of the bucket.
+ */
+function aggregateRatio(
+  values: number[],
+  weightedCount: number,
+  thermalSum: number,
+  electricalSum: number,
+  aggregationMode: AggregationMode,
+): number {
+  if (values.length === 0) return 0;
+  if (aggregationMode === "median") return median(values);
+  if (aggregationMode === "weighted" && weightedCount === values.length && electricalSum > 0) {
+    return thermalSum / electricalSum;
+  }
+  return mean(values);
+}
+
+function aggregateValues(values: number[], aggregationMode: AggregationMode): number {
+  if (values.length === 0) return 0;
+  return aggregationMode === "median" ? median(values) : mean(values);
 }
 
 /**
  * Aggregates values for a single group of data
  */
-function aggregateGroup(group: AggregatedGroup) {
-  const azAvg =
-    group.az_values.length > 0
-      ? group.az_values.reduce((sum, val) => sum + val, 0) / group.az_values.length
-      : 0;
-
-  const azHeatingAvg =
-    group.az_heating_values.length > 0
-      ? group.az_heating_values.reduce((sum, val) => sum + val, 0) / group.az_heating_values.length
-      : 0;
-
-  const electricalEnergyAvg =
-    group.electrical_energy_values.length > 0
-      ? group.electrical_energy_values.reduce((sum, val) => sum + val, 0) /
-        group.electrical_energy_values.length
-      : 0;
-
-  const electricalEnergyHeatingAvg =
-    group.electrical_energy_heating_values.length > 0
-      ? group.electrical_energy_heating_values.reduce((sum, val) => sum + val, 0) /
-        group.electrical_energy_heating_values.length
-      : 0;
+function aggregateGroup(group: AggregatedGroup, aggregationMode: AggregationMode = "mean") {
+  const azAvg = aggregateRatio(
+    group.az_values,
+    group.weighted_count,
+    group.thermal_energy_sum,
+    group.electrical_energy_sum,
+    aggregationMode,
+  );
+
+  const azHeatingAvg = aggregateRatio(
+    group.az_heating_values,
+    group.weighted_heating_count,
+    group.thermal_energy_heating_sum,
+    group.electrical_energy_heating_sum,
+    aggregationMode,
+  );
+
+  const electricalEnergyAvg = aggregateValues(group.electrical_energy_values, aggregationMode);
+
+  const electricalEnergyHeatingAvg = aggregateValues(
+    group.electrical_energy_heating_values,
+    aggregationMode,
+  );
+
+  const normalizedEnergyAvg = aggregateValues(group.normalized_energy_values, aggregationMode);
+
+  const normalizedEnergyHeatingAvg = aggregateValues(
+    group.normalized_energy_heating_values,
+    aggregationMode,
+  );
+
+  const costAvg = aggregateValues(group.cost_values, aggregationMode);
+  const costHeatingAvg = aggregateValues(group.cost_heating_values, aggregationMode);
 
   const outdoorTempAvg =
     group.outdoor_temp_values.length > 0
@@ -76,11 +181,94 @@ function aggregateGroup(group: AggregatedGroup) {
         ? Number(electricalEnergyHeatingAvg.toFixed(1))
         : Math.round(electricalEnergyHeatingAvg)
       : 0,
+    normalizedEnergyAvg: Number(normalizedEnergyAvg.toFixed(NORMALIZED_DIGITS)),
+    normalizedEnergyHeatingAvg: Number(normalizedEnergyHeatingAvg.toFixed(NORMALIZED_DIGITS)),
+    costAvg: Number(costAvg.toFixed(2)),
+    costHeatingAvg: Number(costHeatingAvg.toFixed(2)),
     outdoorTempAvg: outdoorTempAvg !== null ? Number(outdoorTempAvg.toFixed(2)) : null,
     flowTempAvg: flowTempAvg !== null ? Number(flowTempAvg.toFixed(2)) : null,
   };
 }
 
+/**
+ * Rounds a chart value the same way the bar values are rounded
+ */
+function roundMetricValue(value: number, metricMode: MetricMode): number {
+  if (metricMode === "normalized") return Number(value.toFixed(NORMALIZED_DIGITS));
+  if (metricMode !== "energy") return Number(value.toFixed(2));
+  return value < 10 ? Number(value.toFixed(1)) : Math.round(value);
+}
+
+/**
+ * Per-row values of the total and heating series for a metric mode
+ */
+function seriesValues(group: AggregatedGroup, metricMode: MetricMode) {
+  if (metricMode === "energy") {
+    return {
+      totalValues: group.electrical_energy_values,
+      heatingValues: group.electrical_energy_heating_values,
+    };
+  }
+  if (metricMode === "normalized") {
+    return {
+      totalValues: group.normalized_energy_values,
+      heatingValues: group.normalized_energy_heating_values,
+    };
+  }
+  if (metricMode === "cost") {
+    return { totalValues: group.cost_values, heatingValues: group.cost_heating_values };
+  }
+  return { totalValues: group.az_values, heatingValues: group.az_heating_values };
+}
+
+/**
+ * Percentile band of one bar series. Needs at least two values to describe a spread.
+ */
+function percentileBand(
+  values: number[],
+  seriesKey: string,
+  metricMode: MetricMode,
+): Record<string, number> {
+  if (values.length < 2) return {};
+
+  const band: Record<string, number> = {};
+  for (const level of PERCENTILE_LEVELS) {
+    const value = calculatePercentile(values, level);
+    if (value !== null) {
+      band[percentileKey(seriesKey, level)] = roundMetricValue(value, metricMode);
+    }
+  }
+  return band;
+}
+
+// Row fields of the total and heating series per metric mode
+const SERIES_ROW_FIELDS: Record<MetricMode, readonly [string, string]> = {
+  cop: ["az", "az_heating"],
+  energy: ["electrical_energy_kwh", "electrical_energy_heating_kwh"],
+  normalized: ["normalized_energy", "normalized_energy_heating"],
+  cost: ["electricity_cost_eur", "electricity_cost_heating_eur"],
+};
+
+/**
+ * Percentile band a row that is an aggregate already carries for a field
+ * (see aggregatesToChartRows), stored under the series key
+ */
+function carriedPercentileBand(
+  item: ChartDataRow,
+  field: string,
+  seriesKey: string,
+  metricMode: MetricMode,
+): Record<string, number> {
+  const band: Record<string, number> = {};
+  for (const level of PERCENTILE_LEVELS) {
+    const value = item[percentileKey(field, level)];
+    if (typeof value === "number") {
+      band[percentileKey(seriesKey, level)] = roundMetricValue(value, metricMode);
+    }
+  }
+  return band;
+}
+
 /**
  * Groups raw data by index field for aggregation
  */
@@ -99,8 +287,18 @@ function groupDataByIndex(
       grouped[key] = {
         az_values: [],
         az_heating_values: [],
+        thermal_energy_sum: 0,
+        electrical_energy_sum: 0,
+        weighted_count: 0,
+        thermal_energy_heating_sum: 0,
+        electrical_energy_heating_sum: 0,
+        weighted_heating_count: 0,
         electrical_energy_values: [],
         electrical_energy_heating_values: [],
+        normalized_energy_values: [],
+        normalized_energy_heating_values: [],
+        cost_values: [],
+        cost_heating_values: [],
         outdoor_temp_values: [],
         flow_temp_values: [],
       };
@@ -108,9 +306,20 @@ function groupDataByIndex(
 
     if (row.az !== undefined && row.az !== null && row.az > 0) {
       grouped[key].az_values.push(row.az);
+      // Only rows that contribute an AZ take part in the energy-weighted ratio
+      if (row.thermal_energy_kwh != null && row.electrical_energy_kwh != null) {
+        grouped[key].thermal_energy_sum += row.thermal_energy_kwh;
+        grouped[key].electrical_energy_sum += row.electrical_energy_kwh;
+        grouped[key].weighted_count += 1;
+      }
     }
     if (row.az_heating !== undefined && row.az_heating !== null && row.az_heating > 0) {
       grouped[key].az_heating_values.push(row.az_heating);
+      if (row.thermal_energy_heating_kwh != null && row.electrical_energy_heating_kwh != null) {
+        grouped[key].thermal_energy_heating_sum += row.thermal_energy_heating_kwh;
+        grouped[key].electrical_energy_heating_sum += row.electrical_energy_heating_kwh;
+        grouped[key].weighted_heating_count += 1;
+      }
     }
     if (
       row.electrical_energy_kwh !== undefined &&
@@ -126,6 +335,18 @@ function groupDataByIndex(
     ) {
       grouped[key].electrical_energy_heating_values.push(row.electrical_energy_heating_kwh);
     }
+    if (row.normalized_energy != null && row.normalized_energy > 0) {
+      grouped[key].normalized_energy_values.push(row.normalized_energy);
+    }
+    if (row.normalized_energy_heating != null && row.normalized_energy_heating > 0) {
+      grouped[key].normalized_energy_heating_values.push(row.normalized_energy_heating);
+    }
+    if (row.electricity_cost_eur != null && row.electricity_cost_eur > 0) {
+      grouped[key].cost_values.push(row.electricity_cost_eur);
+    }
+    if (row.electricity_cost_heating_eur != null && row.electricity_cost_heating_eur > 0) {
+      grouped[key].cost_heating_values.push(row.electricity_cost_heating_eur);
+    }
     if (row.outdoor_temperature_c !== undefined && row.outdoor_temperature_c !== null) {
       grouped[key].outdoor_temp_values.push(row.outdoor_temperature_c);
     }
@@ -159,38 +380,59 @@ function formatDataPoint(
 
   // In energy mode, use electrical energy values instead of AZ
   const totalValue =
-    metricMode === "energy"
-      ? item.electrical_energy_kwh
-        ? item.electrical_energy_kwh < 10
-          ? Number(item.electrical_energy_kwh.toFixed(1))
-          : Math.round(item.electrical_energy_kwh)
+    metricMode === "cost"
+      ? item.electricity_cost_eur
+        ? Number(item.electricity_cost_eur.toFixed(2))
         : 0
-      : item.az
-        ? Number(item.az.toFixed(2))
-        : 0;
+      : metricMode === "normalized"
+        ? item.normalized_energy
+          ? Number(item.normalized_energy.toFixed(NORMALIZED_DIGITS))
+          : 0
+        : metricMode === "energy"
+          ? item.electrical_energy_kwh
+            ? item.electrical_energy_kwh < 10
+              ? Number(item.electrical_energy_kwh.toFixed(1))
+              : Math.round(item.electrical_energy_kwh)
+            : 0
+          : item.az
+            ? Number(item.az.toFixed(2))
+            : 0;
 
   const heatingValue =
-    metricMode === "energy"
-      ? item.electrical_energy_heating_kwh
-        ? item.electrical_energy_heating_kwh < 10
-          ? Number(item.electrical_energy_heating_kwh.toFixed(1))
-          : Math.round(item.electrical_energy_heating_kwh)
+    metricMode === "cost"
+      ? item.electricity_cost_heating_eur
+        ? Number(item.electricity_cost_heating_eur.toFixed(2))
         : 0
-      : item.az_heating
-        ? Number(item.az_heating.toFixed(2))
-        : 0;
+      : metricMode === "normalized"
+        ? item.normalized_energy_heating
+          ? Number(item.normalized_energy_heating.toFixed(NORMALIZED_DIGITS))
+          : 0
+        : metricMode === "energy"
+          ? item.electrical_energy_heating_kwh
+            ? item.electrical_energy_heating_kwh < 10
+              ? Number(item.electrical_energy_heating_kwh.toFixed(1))
+              : Math.round(item.electrical_energy_heating_kwh)
+            : 0
+          : item.az_heating
+            ? Number(item.az_heating.toFixed(2))
+            : 0;
+
+  const [totalField, heatingField] = SERIES_ROW_FIELDS[metricMode];
 
   return {
     [indexField]: formattedIndex,
     [`${azTotalKey}${groupSuffix}`]: totalValue,
     [`${azHeatingKey}${groupSuffix}`]: heatingValue,
+    ...carriedPercentileBand(item, totalField, `${azTotalKey}${groupSuffix}`, metricMode),
+    ...carriedPercentileBand(item, heatingField, `${azHeatingKey}${groupSuffix}`, metricMode),
     outdoor_temp: item.outdoor_temperature_c ? Number(item.outdoor_temperature_c.toFixed(1)) : null,
     flow_temp: item.flow_temperature_c ? Number(item.flow_temperature_c.toFixed(1)) : null,
   };
 }
 
 /**
- * Processes a dataset: either direct mapping or aggregation
+ * Processes a dataset: either direct mapping or aggregation.
+ * Aggregated rows also carry the percentile band of each series (see percentileKey).
  */
 export function processDataset(
   dataset: ChartDataRow[],
@@ -207,6 +449,7 @@ export function processDataset(
     groupSuffix = "",
     aggregateData = true,
     metricMode = "cop",
+    aggregationMode = "mean",
   } = options;
 
   // Direct mapping without aggregation
@@ -222,12 +465,8 @@ export function processDataset(
     const group = grouped[idx];
 
     // Check if we have data for this index based on metric mode
-    const hasData =
-      metricMode === "energy"
-        ? group &&
-          (group.electrical_energy_values.length > 0 ||
-            group.electrical_energy_heating_values.length > 0)
-        : group && (group.az_values.length > 0 || group.az_heating_values.length > 0);
+    const series = group ? seriesValues(group, metricMode) : null;
+    const hasData = series && (series.totalValues.length > 0 || series.heatingValues.length > 0);
 
     // No data for this index
     if (!hasData) {
@@ -245,24 +484,52 @@ export function processDataset(
       azHeatingAvg,
       electricalEnergyAvg,
       electricalEnergyHeatingAvg,
+      normalizedEnergyAvg,
+      normalizedEnergyHeatingAvg,
+      costAvg,
+      costHeatingAvg,
       outdoorTempAvg,
       flowTempAvg,
-    } = aggregateGroup(group);
+    } = aggregateGroup(group, aggregationMode);
 
     // Choose values based on metric mode
-    const totalValue = metricMode === "energy" ? electricalEnergyAvg : azAvg;
-    const heatingValue = metricMode === "energy" ? electricalEnergyHeatingAvg : azHeatingAvg;
+    const totalValue =
+      metricMode === "energy"
+        ? electricalEnergyAvg
+        : metricMode === "normalized"
+          ? normalizedEnergyAvg
+          : metricMode === "cost"
+            ? costAvg
+            : azAvg;
+    const heatingValue =
+      metricMode === "energy"
+        ? electricalEnergyHeatingAvg
+        : metricMode === "normalized"
+          ? normalizedEnergyHeatingAvg
+          : metricMode === "cost"
+            ? costHeatingAvg
+            : azHeatingAvg;
+    const { totalValues, heatingValues } = series;
 
     return {
       [indexField]: indexFormatter ? indexFormatter(idx) : idx,
       [`${azTotalKey}${groupSuffix}`]: totalValue,
       [`${azHeatingKey}${groupSuffix}`]: heatingValue,
+      ...percentileBand(totalValues, `${azTotalKey}${groupSuffix}`, metricMode),
+      ...percentileBand(heatingValues, `${azHeatingKey}${groupSuffix}`, metricMode),
       outdoor_temp: outdoorTempAvg,
       flow_temp: flowTempAvg,
     };
   });
 }
 
+/**
+ * Key of a group's bar series in comparison mode, e.g. "COP (total) (Filter 1)"
+ */
+export function comparisonSeriesKey(seriesKey: string, groupName: string): string {
+  return `${seriesKey} (${groupName})`;
+}
+
 /**
  * Merges multiple datasets for comparison mode
  */
@@ -314,8 +581,8 @@ export function mergeComparisonDatasets(
         d &&
         groups.some(
           (group) =>
-            ((d[`${azTotalKey} (${group.name})`] as number) || 0) > 0 ||
-            ((d[`${azHeatingKey} (${group.name})`] as number) || 0) > 0,
+            ((d[comparisonSeriesKey(azTotalKey, group.name)] as number) || 0) > 0 ||
+            ((d[comparisonSeriesKey(azHeatingKey, group.name)] as number) || 0) > 0,
         ),
     );
 }
@@ -418,6 +685,7 @@ export interface HistogramBin {
   countHeating: number;
   systemIds: string[];
   systemIdsHeating?: string[];
+  containsUserSystem?: boolean; // True if one of the current user's systems falls into this bin
 }
 
 export interface HistogramStats {
@@ -426,6 +694,55 @@ export interface HistogramStats {
   min: number;
   max: number;
   count: number;
+  q1: number; // 25th percentile
+  q3: number; // 75th percentile
+  iqr: number; // Interquartile range (q3 - q1)
+  stdDev: number; // Sample standard deviation
+  trimmedMean: number; // Mean without the lowest and highest 10%
+  userValue: number | null; // Value of the current user's system (first one if several)
+  userPercentileRank: number | null; // Share of systems (0-100) below the user's system
+}
+
+export const EMPTY_HISTOGRAM_STATS: HistogramStats = {
+  mean: 0,
+  median: 0,
+  min: 0,
+  max: 0,
+  count: 0,
+  q1: 0,
+  q3: 0,
+  iqr: 0,
+  stdDev: 0,
+  trimmedMean: 0,
+  userValue: null,
+  userPercentileRank: null,
+};
+
+/**
+ * Percentile rank of a value within a distribution (0-100).
+ * Ties count half, so the median system of an odd-sized group gets exactly 50.
+ */
+export function calculatePercentileRank(values: number[], value: number): number | null {
+  if (values.length === 0) return null;
+  const below = values.filter((v) => v < value).length;
+  const equal = values.filter((v) => v === value).length;
+  return ((below + 0.5 * equal) / values.length) * 100;
+}
+
+/**
+ * Mean after dropping the given share of values at both ends of the sorted list
+ */
+function trimmedMean(sortedValues: number[], trimShare: number): number {
+  const trimCount = Math.floor(sortedValues.length * trimShare);
+  const kept = sortedValues.slice(trimCount, sortedValues.length - trimCount);
+  return mean(kept.length > 0 ? kept : sortedValues);
+}
+
+function sampleStandardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
 }
 
 /**
@@ -445,11 +762,16 @@ export function computeAzTemperatureRegression(
   return robustLinearRegression(validPoints);
 }
 
+/**
+ * Bins system values and computes descriptive statistics.
+ * Systems listed in userHeatingIds are marked in their bin and ranked within the distribution.
+ */
 export function createHistogramBins(
   systemData: SystemAzData[],
   azField: "az" | "azHeating" = "az",
   binSize = 0.5,
   isEnergyMode = false,
+  userHeatingIds: string[] = [],
 ): { bins: HistogramBin[]; stats: HistogramStats } {
   // Filter out null values and extract AZ values
   const validData = systemData
@@ -459,7 +781,7 @@ export function createHistogramBins(
   if (validData.length === 0) {
     return {
       bins: [],
-      stats: { mean: 0, median: 0, min: 0, max: 0, count: 0 },
+      stats: EMPTY_HISTOGRAM_STATS,
     };
   }
 
@@ -467,37 +789,39 @@ export function createHistogramBins(
 
   // Calculate statistics
   const sortedValues = [...values].sort((a, b) => a - b);
-  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
-  const median = sortedValues[Math.floor(sortedValues.length / 2)];
   const min = sortedValues[0];
   const max = sortedValues[sortedValues.length - 1];
+  const q1 = calculatePercentile(sortedValues, 25) as number;
+  const q3 = calculatePercentile(sortedValues, 75) as number;
+
+  // Position of the current user's system within the distribution
+  const userEntry = validData.find((d) => userHeatingIds.includes(d.heatingId));
+  const userValue = userEntry ? userEntry.value : null;
+  const userPercentileRank = userValue !== null ? calculatePercentileRank(values, userValue) : null;
 
   // Determine bin range
   const minBin = Math.floor(min / binSize) * binSize;
   const maxBin = Math.ceil(max / binSize) * binSize;
 
+  // Labels without decimals for energy, otherwise with as many as the bin size needs
+  const labelDigits = Math.max(1, Math.ceil(-Math.log10(binSize)));
+  const formatBinLabel = (binStart: number, binEnd: number) =>
+    isEnergyMode
+      ? `${Math.round(binStart)}-${Math.round(binEnd)}`
+      : `${binStart.toFixed(labelDigits)}-${binEnd.toFixed(labelDigits)}`;
+
   // Create bins
   const binsMap = new Map<string, { start: number; end: number; systemIds: string[] }>();
 
   for (let binStart = minBin; binStart < maxBin; binStart += binSize) {
     const binEnd = binStart + binSize;
-    // Format labels: no decimals for energy mode, 1 decimal for COP mode
-    const binLabel = isEnergyMode
-      ? `${Math.round(binStart)}-${Math.round(binEnd)}`
-      : `${binStart.toFixed(1)}-${binEnd.toFixed(1)}`;
-    binsMap.set(binLabel, { start: binStart, end: binEnd, systemIds: [] });
+    binsMap.set(formatBinLabel(binStart, binEnd), { start: binStart, end: binEnd, systemIds: [] });
   }
 
   // Assign systems to bins
   validData.forEach(({ heatingId, value }) => {
     const binStart = Math.floor(value / binSize) * binSize;
-    const binEnd = binStart + binSize;
-    // Format labels: no decimals for energy mode, 1 decimal for COP mode
-    const binLabel = isEnergyMode
-      ? `${Math.round(binStart)}-${Math.round(binEnd)}`
-      : `${binStart.toFixed(1)}-${binEnd.toFixed(1)}`;
-
-    const bin = binsMap.get(binLabel);
+    const bin = binsMap.get(formatBinLabel(binStart, binStart + binSize));
     if (bin) {
       bin.systemIds.push(heatingId);
     }
@@ -513,11 +837,63 @@ export function createHistogramBins(
       countHeating: 0, // Will be set separately when combining az and azHeating
       systemIds: bin.systemIds,
       systemIdsHeating: [],
+      containsUserSystem: bin.systemIds.some((id) => userHeatingIds.includes(id)),
     }))
     .filter((bin) => bin.count > 0); // Only include bins with data
 
   return {
     bins,
-    stats: { mean, median, min, max, count: validData.length },
+    stats: {
+      mean: mean(values),
+      median: calculatePercentile(sortedValues, 50) as number,
+      min,
+      max,
+      count: validData.length,
+      q1,
+      q3,
+      iqr: q3 - q1,
+      stdDev: sampleStandardDeviation(values),
+      trimmedMean: trimmedMean(sortedValues, 0.1),
+      userValue,
+      userPercentileRank,
+    },
   };
 }
+
+export interface GroupedHistogramBin {
+  binLabel: string;
+  binStart: number;
+  binEnd: number;
+  [groupName: string]: string | number;
+}
+
+/**
+ * Combines the bins of several groups, created with the same bin size, into one row per bin
+ * with the count of each group under its name. Bins a group has no systems in count 0.
+ */
+export function mergeHistogramBins(
+  groups: { name: string; bins: HistogramBin[] }[],
+): GroupedHistogramBin[] {
+  const merged = new Map<string, GroupedHistogramBin>();
+
+  for (const { bins } of groups) {
+    for (const bin of bins) {
+      if (merged.has(bin.binLabel)) continue;
+      const row: GroupedHistogramBin = {
+        binLabel: bin.binLabel,
+        binStart: bin.binStart,
+        binEnd: bin.binEnd,
+      };
+      for (const group of groups) row[group.name] = 0;
+      merged.set(bin.binLabel, row);
+    }
+  }
+
+  for (const { name, bins } of groups) {
+    for (const bin of bins) {
+      (merged.get(bin.binLabel) as GroupedHistogramBin)[name] = bin.count;
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => a.binStart - b.binStart);
+}
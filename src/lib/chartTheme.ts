@@ -16,11 +16,62 @@ export const CHART_COLORS = {
   // Statistical/analysis colors
   regression: "#176f50ff", // Red for regression curves (community average)
   userRegression: "#ff99009f", // Dark orange for user's regression curve
+  designCurve: "#6366f1", // Indigo for theoretical design heating curves
+  percentileBand: "#374151", // Dark gray for percentile boxes and whiskers on bars
+  dhw: "#f59e0b", // Amber for domestic hot water next to heating
 
   // Comparison mode colors (used for both chart bars and filter UI)
   group1: "#23a477ff", // Green for group 1 (charts and filters)
   group2: "#86efac", // Light green for group 2 (charts and filters)
+  group3: "#3b82f6", // Blue for group 3
+  group4: "#f59e0b", // Amber for group 4
+  group5: "#8b5cf6", // Violet for group 5
+  group6: "#ec4899", // Pink for group 6
 } as const;
 
+// Colors of the comparison filter groups in order; also limits the number of groups
+export const COMPARISON_GROUP_COLORS = [
+  CHART_COLORS.group1,
+  CHART_COLORS.group2,
+  CHART_COLORS.group3,
+  CHART_COLORS.group4,
+  CHART_COLORS.group5,
+  CHART_COLORS.group6,
+] as const;
+
+export const MAX_COMPARISON_GROUPS = COMPARISON_GROUP_COLORS.length;
+
+/**
+ * Color of a comparison group by its 1-based ID
+ */
+export function comparisonGroupColor(group: number): string {
+  return COMPARISON_GROUP_COLORS[(group - 1) % COMPARISON_GROUP_COLORS.length];
+}
+
+// Distinguishable colors for an arbitrary number of series (e.g. one per year)
+export const SERIES_PALETTE = [
+  "#23a477ff",
+  "#3b82f6",
+  "#f59e0b",
+  "#8b5cf6",
+  "#ef4444",
+  "#14b8a6",
+  "#ec4899",
+  "#64748b",
+] as const;
+
+/**
+ * A hex color (#rrggbb or #rrggbbaa) with the given opacity between 0 and 1
+ */
+export function withOpacity(color: string, opacity: number): string {
+  const alpha = Math.round(Math.min(1, Math.max(0, opacity)) * 255);
+  return `${color.slice(0, 7)}${alpha.toString(16).padStart(2, "0")}`;
+}
+
+// Colors offered when picking the color of a comparison group
+export const GROUP_COLOR_CHOICES: readonly string[] = Array.from(
+  new Set<string>([...COMPARISON_GROUP_COLORS, ...SERIES_PALETTE]),
+);
+
 // Type for accessing color values with autocomplete
 export type ChartColorKey = keyof typeof CHART_COLORS;
@@ -1,12 +1,26 @@
 /**
  * Data quality validation utilities
  * Identifies unrealistic or suspicious data in heat pump measurements
+ *
+ * All checks are defined once in DATA_QUALITY_RULES and shared by the table's
+ * data quality column and the chart filters: rows violating an "error" rule are
+ * excluded from charts, "warning" rules are only flagged in the table.
  */
 
+export type DataGranularity = "hour" | "day" | "month";
+
+export type DataQualitySeverity = "error" | "warning";
+
 export interface DataQualityIssue {
-  type: "unrealistic_cop" | "negative_value";
+  type:
+    | "unrealistic_cop"
+    | "negative_value"
+    | "implausible_temperature"
+    | "inconsistent_energy"
+    | "statistical_outlier";
+  ruleId: string;
   message: string;
-  severity: "error" | "warning";
+  severity: DataQualitySeverity;
   // Additional data for translation
   translationKey?: string;
   translationParams?: Record<string, number | string>;
@@ -17,6 +31,34 @@ export interface DataQualityResult {
   issues: DataQualityIssue[];
 }
 
+export interface DataQualityRow {
+  az?: number | null;
+  az_heating?: number | null;
+  electrical_energy_kwh?: number | null;
+  thermal_energy_kwh?: number | null;
+  electrical_energy_heating_kwh?: number | null;
+  thermal_energy_heating_kwh?: number | null;
+  flow_temperature_c?: number | null;
+  outdoor_temperature_c?: number | null;
+  // Issues found by comparing the row with its system's history (see outlierDetection.ts)
+  outlier_issues?: DataQualityIssue[];
+}
+
+export interface DataQualityRule {
+  id: string;
+  type: DataQualityIssue["type"];
+  severity: DataQualitySeverity;
+  granularities: DataGranularity[];
+  translationKey: string;
+  // Returns true if the row violates the rule
+  predicate: (row: DataQualityRow) => boolean;
+  translationParams?: (row: DataQualityRow) => Record<string, number | string>;
+  // English fallback if no translation is available
+  message: (row: DataQualityRow) => string;
+}
+
+const ALL_GRANULARITIES: DataGranularity[] = ["hour", "day", "month"];
+
 /**
  * Realistic COP ranges for heat pumps
  * Values outside this range are almost certainly measurement errors
@@ -26,6 +68,149 @@ const COP_THRESHOLDS = {
   MIN_REALISTIC: 0.0,
 };
 
+// Flow temperatures of space heating and hot water heat pumps
+const FLOW_TEMPERATURE_RANGE_C = { MIN: 10, MAX: 80 };
+
+// Outside of this range the outdoor sensor is almost certainly broken or misplaced
+const OUTDOOR_TEMPERATURE_RANGE_C = { MIN: -40, MAX: 45 };
+
+// Tolerance for rounding of the energy counters
+const ENERGY_TOLERANCE_KWH = 0.01;
+
+function exceeds(part: number | null | undefined, total: number | null | undefined): boolean {
+  return part != null && total != null && part > total + ENERGY_TOLERANCE_KWH;
+}
+
+function copRules(field: "az" | "az_heating", idPrefix: string, label: string): DataQualityRule[] {
+  return [
+    {
+      id: `${idPrefix}_too_high`,
+      type: "unrealistic_cop",
+      severity: "error",
+      granularities: ALL_GRANULARITIES,
+      translationKey: "dataQuality.unrealisticCopHigh",
+      predicate: (row) => row[field] != null && Number(row[field]) > COP_THRESHOLDS.MAX_REALISTIC,
+      translationParams: (row) => ({
+        cop: Number(row[field]).toFixed(1),
+        max: COP_THRESHOLDS.MAX_REALISTIC,
+      }),
+      message: (row) =>
+        `${label} ${Number(row[field]).toFixed(1)} is unrealistically high (>${COP_THRESHOLDS.MAX_REALISTIC})`,
+    },
+    {
+      id: `${idPrefix}_too_low`,
+      type: "unrealistic_cop",
+      severity: "error",
+      granularities: ALL_GRANULARITIES,
+      translationKey: "dataQuality.unrealisticCopLow",
+      predicate: (row) => row[field] != null && Number(row[field]) < COP_THRESHOLDS.MIN_REALISTIC,
+      translationParams: (row) => ({
+        cop: Number(row[field]).toFixed(1),
+        min: COP_THRESHOLDS.MIN_REALISTIC,
+      }),
+      message: (row) =>
+        `${label} ${Number(row[field]).toFixed(1)} is unrealistically low (<${COP_THRESHOLDS.MIN_REALISTIC})`,
+    },
+  ];
+}
+
+/**
+ * Registry of all data quality rules, evaluated in this order
+ */
+export const DATA_QUALITY_RULES: DataQualityRule[] = [
+  ...copRules("az", "cop", "COP"),
+  ...copRules("az_heating", "cop_heating", "COP Heating"),
+  {
+    id: "negative_electrical_energy",
+    type: "negative_value",
+    severity: "error",
+    granularities: ALL_GRANULARITIES,
+    translationKey: "dataQuality.negativeElectricalEnergy",
+    predicate: (row) => row.electrical_energy_kwh != null && row.electrical_energy_kwh < 0,
+    message: () => "Electrical energy cannot be negative",
+  },
+  {
+    id: "negative_thermal_energy",
+    type: "negative_value",
+    severity: "warning",
+    granularities: ALL_GRANULARITIES,
+    translationKey: "dataQuality.negativeThermalEnergy",
+    predicate: (row) => row.thermal_energy_kwh != null && row.thermal_energy_kwh < 0,
+    message: () =>
+      "Thermal energy can be negative during defrosting but we exclude it from the statistics",
+  },
+  {
+    id: "flow_temperature_range",
+    type: "implausible_temperature",
+    severity: "warning",
+    granularities: ALL_GRANULARITIES,
+    translationKey: "dataQuality.flowTemperatureOutOfRange",
+    predicate: (row) =>
+      row.flow_temperature_c != null &&
+      (row.flow_temperature_c < FLOW_TEMPERATURE_RANGE_C.MIN ||
+        row.flow_temperature_c > FLOW_TEMPERATURE_RANGE_C.MAX),
+    translationParams: (row) => ({
+      temperature: Number(row.flow_temperature_c).toFixed(1),
+      min: FLOW_TEMPERATURE_RANGE_C.MIN,
+      max: FLOW_TEMPERATURE_RANGE_C.MAX,
+    }),
+    message: (row) =>
+      `Flow temperature ${Number(row.flow_temperature_c).toFixed(1)} °C is outside of ${FLOW_TEMPERATURE_RANGE_C.MIN}-${FLOW_TEMPERATURE_RANGE_C.MAX} °C`,
+  },
+  {
+    id: "implausible_outdoor_temperature",
+    type: "implausible_temperature",
+    severity: "warning",
+    granularities: ALL_GRANULARITIES,
+    translationKey: "dataQuality.implausibleOutdoorTemperature",
+    predicate: (row) =>
+      row.outdoor_temperature_c != null &&
+      (row.outdoor_temperature_c < OUTDOOR_TEMPERATURE_RANGE_C.MIN ||
+        row.outdoor_temperature_c > OUTDOOR_TEMPERATURE_RANGE_C.MAX),
+    translationParams: (row) => ({
+      temperature: Number(row.outdoor_temperature_c).toFixed(1),
+    }),
+    message: (row) =>
+      `Outdoor temperature ${Number(row.outdoor_temperature_c).toFixed(1)} °C is implausible`,
+  },
+  {
+    // Hourly counter deltas may round the electrical energy down to zero
+    id: "thermal_without_electrical",
+    type: "inconsistent_energy",
+    severity: "error",
+    granularities: ["day", "month"],
+    translationKey: "dataQuality.thermalWithoutElectrical",
+    predicate: (row) =>
+      row.thermal_energy_kwh != null &&
+      row.thermal_energy_kwh > ENERGY_TOLERANCE_KWH &&
+      (row.electrical_energy_kwh == null || row.electrical_energy_kwh === 0),
+    message: () => "Thermal energy without electrical energy",
+  },
+  {
+    id: "heating_share_exceeds_total",
+    type: "inconsistent_energy",
+    severity: "error",
+    granularities: ALL_GRANULARITIES,
+    translationKey: "dataQuality.heatingShareExceedsTotal",
+    predicate: (row) =>
+      exceeds(row.thermal_energy_heating_kwh, row.thermal_energy_kwh) ||
+      exceeds(row.electrical_energy_heating_kwh, row.electrical_energy_kwh),
+    message: () => "Heating energy exceeds total energy",
+  },
+];
+
+/**
+ * Rules applicable to the given granularity.
+ * Without a granularity only the rules applicable to all granularities are returned.
+ */
+export function getDataQualityRules(granularity?: DataGranularity): DataQualityRule[] {
+  return DATA_QUALITY_RULES.filter((rule) =>
+    granularity
+      ? rule.granularities.includes(granularity)
+      : ALL_GRANULARITIES.every((g) => rule.granularities.includes(g)),
+  );
+}
+
 /**
  * Check if a COP value is realistic
  */
@@ -35,78 +220,23 @@ export function isRealisticCOP(cop: number | null | undefined): boolean {
 }
 
 /**
- * Validate measurement data quality
- * Works for hourly, daily, and monthly data
+ * Validate measurement data quality against all rules of the given granularity
  */
-function validateData(data: {
-  az?: number | null;
-  az_heating?: number | null;
-  electrical_energy_kwh?: number | null;
-  thermal_energy_kwh?: number | null;
-}): DataQualityResult {
-  const issues: DataQualityIssue[] = [];
-
-  // Check total COP
-  if (data.az != null && !isRealisticCOP(data.az)) {
-    if (data.az > COP_THRESHOLDS.MAX_REALISTIC) {
-      issues.push({
-        type: "unrealistic_cop",
-        message: `COP ${data.az.toFixed(1)} is unrealistically high (>${COP_THRESHOLDS.MAX_REALISTIC})`,
-        severity: "error",
-        translationKey: "dataQuality.unrealisticCopHigh",
-        translationParams: { cop: data.az.toFixed(1), max: COP_THRESHOLDS.MAX_REALISTIC },
-      });
-    } else if (data.az < COP_THRESHOLDS.MIN_REALISTIC) {
-      issues.push({
-        type: "unrealistic_cop",
-        message: `COP ${data.az.toFixed(1)} is unrealistically low (<${COP_THRESHOLDS.MIN_REALISTIC})`,
-        severity: "error",
-        translationKey: "dataQuality.unrealisticCopLow",
-        translationParams: { cop: data.az.toFixed(1), min: COP_THRESHOLDS.MIN_REALISTIC },
-      });
-    }
-  }
-
-  // Check heating COP
-  if (data.az_heating != null && !isRealisticCOP(data.az_heating)) {
-    if (data.az_heating > COP_THRESHOLDS.MAX_REALISTIC) {
-      issues.push({
-        type: "unrealistic_cop",
-        message: `COP Heating ${data.az_heating.toFixed(1)} is unrealistically high (>${COP_THRESHOLDS.MAX_REALISTIC})`,
-        severity: "error",
-        translationKey: "dataQuality.unrealisticCopHigh",
-        translationParams: { cop: data.az_heating.toFixed(1), max: COP_THRESHOLDS.MAX_REALISTIC },
-      });
-    } else if (data.az_heating < COP_THRESHOLDS.MIN_REALISTIC) {
-      issues.push({
-        type: "unrealistic_cop",
-        message: `COP Heating ${data.az_heating.toFixed(1)} is unrealistically low (<${COP_THRESHOLDS.MIN_REALISTIC})`,
-        severity: "error",
-        translationKey: "dataQuality.unrealisticCopLow",
-        translationParams: { cop: data.az_heating.toFixed(1), min: COP_THRESHOLDS.MIN_REALISTIC },
-      });
-    }
-  }
-
-  // Check for negative values
-  if (data.electrical_energy_kwh != null && data.electrical_energy_kwh < 0) {
-    issues.push({
-      type: "negative_value",
-      message: "Electrical energy cannot be negative",
-      severity: "error",
-      translationKey: "dataQuality.negativeElectricalEnergy",
-    });
-  }
-
-  if (data.thermal_energy_kwh != null && data.thermal_energy_kwh < 0) {
-    issues.push({
-      type: "negative_value",
-      message:
-        "Thermal energy can be negative during defrosting but we exclude it from the statistics",
-      severity: "warning",
-      translationKey: "dataQuality.negativeThermalEnergy",
-    });
-  }
+export function validateMeasurementData(
+  data: DataQualityRow,
+  granularity?: DataGranularity,
+): DataQualityResult {
+  const issues: DataQualityIssue[] = getDataQualityRules(granularity)
+    .filter((rule) => rule.predicate(data))
+    .map((rule) => ({
+      type: rule.type,
+      ruleId: rule.id,
+      message: rule.message(data),
+      severity: rule.severity,
+      translationKey: rule.translationKey,
+      translationParams: rule.translationParams?.(data),
+    }));
+  issues.push(...(data.outlier_issues ?? []));
 
   return {
     isValid: issues.length === 0,
@@ -114,17 +244,8 @@ function validateData(data: {
   };
 }
 
-/**
- * Validate measurement data quality
- * Works for hourly, daily, and monthly data (same validation rules for all)
- */
-export function validateMeasurementData(data: {
-  az?: number | null;
-  az_heating?: number | null;
-  electrical_energy_kwh?: number | null;
-  thermal_energy_kwh?: number | null;
-}): DataQualityResult {
-  return validateData(data);
+function hasError(row: DataQualityRow, rules: DataQualityRule[]): boolean {
+  return rules.some((rule) => rule.severity === "error" && rule.predicate(row));
 }
 
 /**
@@ -145,40 +266,28 @@ export function filterSystemsByRealisticCOP<
     electricalHeatingTotal?: number;
   },
 >(systems: T[], checkAzFields = true): T[] {
-  return systems.filter((system) => {
-    // Check total COP calculated from energy totals
-    if (
-      system.thermalTotal != null &&
-      system.electricalTotal != null &&
-      system.electricalTotal > 0
-    ) {
-      const totalCop = system.thermalTotal / system.electricalTotal;
-      if (!isRealisticCOP(totalCop)) {
-        return false;
-      }
-    }
+  const copRuleSet = DATA_QUALITY_RULES.filter((rule) => rule.type === "unrealistic_cop");
 
-    // Check heating COP calculated from energy totals
-    if (
+  return systems.filter((system) => {
+    // COP calculated from energy totals
+    const totalCop =
+      system.thermalTotal != null && system.electricalTotal != null && system.electricalTotal > 0
+        ? system.thermalTotal / system.electricalTotal
+        : null;
+    const heatingCop =
       system.thermalHeatingTotal != null &&
       system.electricalHeatingTotal != null &&
       system.electricalHeatingTotal > 0
-    ) {
-      const heatingCop = system.thermalHeatingTotal / system.electricalHeatingTotal;
-      if (!isRealisticCOP(heatingCop)) {
-        return false;
-      }
+        ? system.thermalHeatingTotal / system.electricalHeatingTotal
+        : null;
+
+    if (hasError({ az: totalCop, az_heating: heatingCop }, copRuleSet)) {
+      return false;
     }
 
     // Only check az/azHeating if they represent COP values (not in energy mode)
-    if (checkAzFields) {
-      if (system.az != null && !isRealisticCOP(system.az)) {
-        return false;
-      }
-
-      if (system.azHeating != null && !isRealisticCOP(system.azHeating)) {
-        return false;
-      }
+    if (checkAzFields && hasError({ az: system.az, az_heating: system.azHeating }, copRuleSet)) {
+      return false;
     }
 
     return true;
@@ -186,35 +295,79 @@ export function filterSystemsByRealisticCOP<
 }
 
 /**
- * Filter out rows with unrealistic data for chart visualization
+ * Check if the row was flagged as a statistical outlier of its system
+ */
+export function isStatisticalOutlier(row: DataQualityRow): boolean {
+  return (row.outlier_issues?.length ?? 0) > 0;
+}
+
+/**
+ * Filter out rows violating an error rule for chart visualization
  * This excludes data that would skew charts and make them misleading
  *
  * @param data - Array of data rows to filter
- * @param _isHourly - Deprecated parameter, no longer used (kept for backward compatibility)
+ * @param granularity - Granularity of the rows, selects the applicable rules
+ * @param excludeOutliers - If true, also exclude rows flagged as statistical outliers
  */
-export function filterRealisticDataForCharts<
-  T extends {
-    az?: number | null;
-    az_heating?: number | null;
-    electrical_energy_kwh?: number | null;
-  },
->(data: T[], _isHourly = false): T[] {
-  return data.filter((row) => {
-    // Exclude if total COP is unrealistic
-    if (row.az != null && !isRealisticCOP(row.az)) {
-      return false;
-    }
+export function filterRealisticDataForCharts<T extends DataQualityRow>(
+  data: T[],
+  granularity?: DataGranularity,
+  excludeOutliers = false,
+): T[] {
+  const rules = getDataQualityRules(granularity);
+  return data.filter(
+    (row) => !hasError(row, rules) && !(excludeOutliers && isStatisticalOutlier(row)),
+  );
+}
 
-    // Exclude if heating COP is unrealistic
-    if (row.az_heating != null && !isRealisticCOP(row.az_heating)) {
-      return false;
-    }
+export interface DataQualitySummaryEntry {
+  type: DataQualityIssue["type"];
+  severity: DataQualitySeverity; // Most severe issue of this type
+  count: number; // Rows with at least one issue of this type
+}
 
-    // Exclude if energy values are negative
-    if (row.electrical_energy_kwh != null && row.electrical_energy_kwh < 0) {
-      return false;
+export interface DataQualitySummary {
+  rowCount: number;
+  rowsWithIssues: number;
+  rowsWithErrors: number;
+  entries: DataQualitySummaryEntry[];
+}
+
+/**
+ * Count the rows affected by each issue type, e.g. for the quality overview of one system
+ */
+export function summarizeDataQuality(
+  data: DataQualityRow[],
+  granularity?: DataGranularity,
+): DataQualitySummary {
+  const entries = new Map<DataQualityIssue["type"], DataQualitySummaryEntry>();
+  let rowsWithIssues = 0;
+  let rowsWithErrors = 0;
+
+  for (const row of data) {
+    const { issues } = validateMeasurementData(row, granularity);
+    if (issues.length === 0) continue;
+
+    rowsWithIssues++;
+    if (issues.some((issue) => issue.severity === "error")) rowsWithErrors++;
+
+    const severityByType = new Map<DataQualityIssue["type"], DataQualitySeverity>();
+    for (const issue of issues) {
+      if (severityByType.get(issue.type) !== "error")
+        severityByType.set(issue.type, issue.severity);
     }
+    severityByType.forEach((severity, type) => {
+      const entry = entries.get(type) ?? { type, severity, count: 0 };
+      entry.count++;
+      if (severity === "error") entry.severity = "error";
+      entries.set(type, entry);
+    });
+  }
 
-    return true;
-  });
+  return {
+    rowCount: data.length,
+    rowsWithIssues,
+    rowsWithErrors,
+    entries: [...entries.values()].sort((a, b) => b.count - a.count),
+  };
 }
@@ -0,0 +1,201 @@
+/**
+ * Defrost cycles in hourly measurements (measurement_deltas_view).
+ * While the outdoor unit defrosts, the heat pump draws heat back from the heating circuit,
+ * so the thermal delta of the hour turns negative. dataQuality keeps these hours out of
+ * the COP statistics; here they are counted instead.
+ */
+
+import dayjs from "dayjs";
+
+export const DEFAULT_DEFROST_BIN_SIZE_C = 2;
+
+export interface DefrostHourRow {
+  heating_id?: string | null;
+  created_at?: string | null;
+  thermal_energy_kwh?: number | null;
+  outdoor_temperature_c?: number | null;
+}
+
+export interface DefrostDay {
+  heatingId: string;
+  date: string; // YYYY-MM-DD in local time
+  defrostHours: number;
+  defrostEnergyKwh: number; // Heat drawn back from the heating circuit
+  thermalEnergyKwh: number; // Heat produced in the other hours
+  outdoorTemperatureC: number | null; // Mean over the hours with a temperature
+}
+
+// Grid columns of DefrostFields
+export const DEFROST_FIELDS = ["defrost_hours", "defrost_energy_kwh"] as const;
+
+export interface DefrostFields {
+  defrost_hours: number | null;
+  defrost_energy_kwh: number | null;
+}
+
+export interface DefrostTemperatureBin {
+  binStartC: number;
+  days: number;
+  meanDefrostHours: number;
+  meanDefrostEnergyKwh: number;
+  lossShare: number | null; // Defrost energy relative to the heat produced
+}
+
+export interface DefrostSummary {
+  days: number;
+  daysWithDefrost: number;
+  defrostHours: number;
+  defrostEnergyKwh: number;
+  lossShare: number | null;
+  temperatureCorrelation: number | null; // Pearson r of outdoor temperature and defrost hours
+}
+
+export function isDefrostHour(row: DefrostHourRow): boolean {
+  return row.thermal_energy_kwh != null && row.thermal_energy_kwh < 0;
+}
+
+export function defrostDayKey(heatingId: string, date: string): string {
+  return `${heatingId}|${date}`;
+}
+
+/**
+ * Adds whether each hour was a defrost hour and the heat it drew back
+ */
+export function addHourlyDefrost<T extends DefrostHourRow>(rows: T[]): Array<T & DefrostFields> {
+  return rows.map((row) => ({
+    ...row,
+    defrost_hours: row.thermal_energy_kwh != null ? (isDefrostHour(row) ? 1 : 0) : null,
+    defrost_energy_kwh:
+      row.thermal_energy_kwh != null ? Math.max(0, -row.thermal_energy_kwh) : null,
+  }));
+}
+
+/**
+ * Defrost statistics per system and day, sorted by system and date.
+ * Hours without a thermal delta are skipped.
+ */
+export function detectDefrostDays(rows: DefrostHourRow[]): DefrostDay[] {
+  const days = new Map<string, DefrostDay & { temperatureSum: number; temperatureCount: number }>();
+
+  for (const row of rows) {
+    if (!row.heating_id || !row.created_at || row.thermal_energy_kwh == null) continue;
+
+    const date = dayjs(row.created_at).format("YYYY-MM-DD");
+    const key = defrostDayKey(row.heating_id, date);
+    const day = days.get(key) ?? {
+      heatingId: row.heating_id,
+      date,
+      defrostHours: 0,
+      defrostEnergyKwh: 0,
+      thermalEnergyKwh: 0,
+      outdoorTemperatureC: null,
+      temperatureSum: 0,
+      temperatureCount: 0,
+    };
+
+    if (isDefrostHour(row)) {
+      day.defrostHours += 1;
+      day.defrostEnergyKwh -= row.thermal_energy_kwh;
+    } else {
+      day.thermalEnergyKwh += row.thermal_energy_kwh;
+    }
+    if (row.outdoor_temperature_c != null) {
+      day.temperatureSum += row.outdoor_temperature_c;
+      day.temperatureCount += 1;
+    }
+    days.set(key, day);
+  }
+
+  return Array.from(days.values())
+    .map(({ temperatureSum, temperatureCount, ...day }) => ({
+      ...day,
+      outdoorTemperatureC: temperatureCount > 0 ? temperatureSum / temperatureCount : null,
+    }))
+    .sort((a, b) => a.heatingId.localeCompare(b.heatingId) || a.date.localeCompare(b.date));
+}
+
+/**
+ * Adds the defrost statistics of each row's system and day (null without hourly data)
+ */
+export function addDefrostStatistics<
+  T extends { heating_id?: string | null; date?: string | null },
+>(rows: T[], days: DefrostDay[]): Array<T & DefrostFields> {
+  const byKey = new Map(days.map((day) => [defrostDayKey(day.heatingId, day.date), day]));
+
+  return rows.map((row) => {
+    const day =
+      row.heating_id && row.date ? byKey.get(defrostDayKey(row.heating_id, row.date)) : undefined;
+    return {
+      ...row,
+      defrost_hours: day?.defrostHours ?? null,
+      defrost_energy_kwh: day?.defrostEnergyKwh ?? null,
+    };
+  });
+}
+
+function lossShare(defrostEnergyKwh: number, thermalEnergyKwh: number): number | null {
+  return thermalEnergyKwh > 0 ? defrostEnergyKwh / thermalEnergyKwh : null;
+}
+
+/**
+ * Mean defrost hours and energy per system day, binned by the day's outdoor temperature
+ */
+export function binDefrostByOutdoorTemperature(
+  days: DefrostDay[],
+  binSizeC = DEFAULT_DEFROST_BIN_SIZE_C,
+): DefrostTemperatureBin[] {
+  const bins = new Map<number, DefrostDay[]>();
+  for (const day of days) {
+    if (day.outdoorTemperatureC == null) continue;
+    const binStartC = Math.floor(day.outdoorTemperatureC / binSizeC) * binSizeC;
+    bins.set(binStartC, [...(bins.get(binStartC) ?? []), day]);
+  }
+
+  return Array.from(bins.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([binStartC, binDays]) => {
+      const defrostHours = binDays.reduce((sum, day) => sum + day.defrostHours, 0);
+      const defrostEnergyKwh = binDays.reduce((sum, day) => sum + day.defrostEnergyKwh, 0);
+      const thermalEnergyKwh = binDays.reduce((sum, day) => sum + day.thermalEnergyKwh, 0);
+      return {
+        binStartC,
+        days: binDays.length,
+        meanDefrostHours: defrostHours / binDays.length,
+        meanDefrostEnergyKwh: defrostEnergyKwh / binDays.length,
+        lossShare: lossShare(defrostEnergyKwh, thermalEnergyKwh),
+      };
+    });
+}
+
+function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : null;
+}
+
+export function summarizeDefrost(days: DefrostDay[]): DefrostSummary {
+  const defrostEnergyKwh = days.reduce((sum, day) => sum + day.defrostEnergyKwh, 0);
+  const thermalEnergyKwh = days.reduce((sum, day) => sum + day.thermalEnergyKwh, 0);
+  const withTemperature = days.filter((day) => day.outdoorTemperatureC != null);
+
+  return {
+    days: days.length,
+    daysWithDefrost: days.filter((day) => day.defrostHours > 0).length,
+    defrostHours: days.reduce((sum, day) => sum + day.defrostHours, 0),
+    defrostEnergyKwh,
+    lossShare: lossShare(defrostEnergyKwh, thermalEnergyKwh),
+    temperatureCorrelation: pearsonCorrelation(
+      withTemperature.map((day) => day.outdoorTemperatureC as number),
+      withTemperature.map((day) => day.defrostHours),
+    ),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Heating degree days (HDD) for weather-normalized energy comparisons.
+ * A day contributes max(0, base - mean outdoor temperature) degree days.
+ */
+
+import type { SystemAzData } from "./chartDataProcessing";
+
+export const DEGREE_DAY_BASE_TEMPERATURES_C = [12, 15, 18, 20] as const;
+export const DEFAULT_DEGREE_DAY_BASE_C = 15;
+
+// Periods below this are too mild for a meaningful ratio (energy is mostly hot water)
+export const MIN_DEGREE_DAYS = 1;
+
+export interface DegreeDayRow {
+  heating_id?: string | null;
+  date?: string | null;
+  outdoor_temperature_c?: number | null;
+}
+
+export interface NormalizableRow {
+  heated_area_m2?: number | null;
+  electrical_energy_kwh?: number | null;
+  electrical_energy_heating_kwh?: number | null;
+}
+
+export interface WeatherNormalizedFields {
+  heating_degree_days: number | null;
+  normalized_energy: number | null;
+  normalized_energy_heating: number | null;
+}
+
+export function heatingDegreeDays(
+  meanOutdoorTempC: number | null | undefined,
+  baseTempC = DEFAULT_DEGREE_DAY_BASE_C,
+): number | null {
+  if (meanOutdoorTempC == null) return null;
+  return Math.max(0, baseTempC - meanOutdoorTempC);
+}
+
+/**
+ * Sums degree days of daily rows per system and month ("heatingId-year-month" keys).
+ * Months with missing days are extrapolated from the observed days, so they stay
+ * comparable to the monthly energy values which cover the full month.
+ */
+export function sumMonthlyDegreeDays(
+  dailyRows: DegreeDayRow[],
+  baseTempC = DEFAULT_DEGREE_DAY_BASE_C,
+): Map<string, number> {
+  const totals = new Map<string, { degreeDays: number; days: number; daysInMonth: number }>();
+
+  for (const row of dailyRows) {
+    const degreeDays = heatingDegreeDays(row.outdoor_temperature_c, baseTempC);
+    if (degreeDays === null || !row.heating_id || !row.date) continue;
+
+    const date = new Date(`${row.date}T00:00:00`);
+    const key = monthlyDegreeDayKey(row.heating_id, date.getFullYear(), date.getMonth() + 1);
+    const existing = totals.get(key) ?? {
+      degreeDays: 0,
+      days: 0,
+      daysInMonth: new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate(),
+    };
+    existing.degreeDays += degreeDays;
+    existing.days += 1;
+    totals.set(key, existing);
+  }
+
+  const result = new Map<string, number>();
+  totals.forEach(({ degreeDays, days, daysInMonth }, key) => {
+    result.set(key, (degreeDays / days) * daysInMonth);
+  });
+  return result;
+}
+
+export function monthlyDegreeDayKey(heatingId: string, year: number, month: number): string {
+  return `${heatingId}-${year}-${month}`;
+}
+
+/**
+ * Electrical energy per degree day and heated area, in kWh/(Kd·m²)
+ */
+export function normalizeEnergy(
+  energyKwh: number | null | undefined,
+  degreeDays: number | null | undefined,
+  heatedAreaM2: number | null | undefined,
+): number | null {
+  if (energyKwh == null || degreeDays == null || heatedAreaM2 == null) return null;
+  if (degreeDays < MIN_DEGREE_DAYS || heatedAreaM2 <= 0) return null;
+  return energyKwh / (degreeDays * heatedAreaM2);
+}
+
+/**
+ * Electrical energy that depends on the weather: the heating share where it is measured,
+ * otherwise the total including hot water
+ */
+function weatherDependentEnergy(row: NormalizableRow): number | null | undefined {
+  return row.electrical_energy_heating_kwh ?? row.electrical_energy_kwh;
+}
+
+/**
+ * Adds degree days and normalized energy values to each row
+ */
+export function addWeatherNormalization<T extends NormalizableRow>(
+  rows: T[],
+  getDegreeDays: (row: T) => number | null,
+): Array<T & WeatherNormalizedFields> {
+  return rows.map((row) => {
+    const degreeDays = getDegreeDays(row);
+    return {
+      ...row,
+      heating_degree_days: degreeDays,
+      normalized_energy: normalizeEnergy(
+        weatherDependentEnergy(row),
+        degreeDays,
+        row.heated_area_m2,
+      ),
+      normalized_energy_heating: normalizeEnergy(
+        row.electrical_energy_heating_kwh,
+        degreeDays,
+        row.heated_area_m2,
+      ),
+    };
+  });
+}
+
+/**
+ * Normalized energy per system over all its rows: sum(energy) / (sum(HDD) · area).
+ * Returned in SystemAzData shape (az = weather-dependent energy, azHeating = heating energy)
+ * for histogram binning.
+ */
+export function calculateSystemNormalizedEnergy(
+  rows: Array<
+    NormalizableRow & { heating_id: string; heating_degree_days?: number | null | undefined }
+  >,
+): SystemAzData[] {
+  const systemTotals = new Map<
+    string,
+    { electrical: number; electricalHeating: number; degreeDays: number; area: number | null }
+  >();
+
+  for (const row of rows) {
+    if (row.heating_degree_days == null) continue;
+    const existing = systemTotals.get(row.heating_id) ?? {
+      electrical: 0,
+      electricalHeating: 0,
+      degreeDays: 0,
+      area: row.heated_area_m2 ?? null,
+    };
+    existing.electrical += weatherDependentEnergy(row) || 0;
+    existing.electricalHeating += row.electrical_energy_heating_kwh || 0;
+    existing.degreeDays += row.heating_degree_days;
+    systemTotals.set(row.heating_id, existing);
+  }
+
+  return Array.from(systemTotals.entries()).map(([heatingId, totals]) => ({
+    heatingId,
+    az: normalizeEnergy(totals.electrical, totals.degreeDays, totals.area),
+    azHeating: normalizeEnergy(totals.electricalHeating, totals.degreeDays, totals.area),
+    thermalTotal: 0,
+    electricalTotal: totals.electrical,
+    thermalHeatingTotal: 0,
+    electricalHeatingTotal: totals.electricalHeating,
+  }));
+}
@@ -0,0 +1,79 @@
+/**
+ * Domestic hot water (DHW) values derived as the difference between the total and the
+ * heating-only energy fields. Systems not used for DHW get no DHW values; for systems that
+ * also cool, the difference includes the cooling energy.
+ */
+
+// Tolerance for rounding of the energy counters
+const ENERGY_TOLERANCE_KWH = 0.01;
+
+export interface DhwSourceRow {
+  thermal_energy_kwh?: number | null;
+  electrical_energy_kwh?: number | null;
+  thermal_energy_heating_kwh?: number | null;
+  electrical_energy_heating_kwh?: number | null;
+  electricity_cost_eur?: number | null;
+  electricity_cost_heating_eur?: number | null;
+  used_for_dhw?: boolean | null;
+}
+
+export interface DhwValues {
+  thermalDhw: number | null;
+  electricalDhw: number | null;
+  azDhw: number | null;
+  costDhw: number | null;
+}
+
+// Total minus heating, null if either is missing or heating exceeds the total
+function difference(
+  total: number | null | undefined,
+  heating: number | null | undefined,
+): number | null {
+  if (total == null || heating == null) return null;
+  const value = total - heating;
+  if (value < -ENERGY_TOLERANCE_KWH) return null;
+  return Math.max(0, value);
+}
+
+export function computeDhwValues(row: DhwSourceRow): DhwValues {
+  if (row.used_for_dhw === false) {
+    return { thermalDhw: null, electricalDhw: null, azDhw: null, costDhw: null };
+  }
+
+  const thermalDhw = difference(row.thermal_energy_kwh, row.thermal_energy_heating_kwh);
+  const electricalDhw = difference(row.electrical_energy_kwh, row.electrical_energy_heating_kwh);
+  return {
+    thermalDhw,
+    electricalDhw,
+    azDhw:
+      thermalDhw != null && electricalDhw != null && electricalDhw > ENERGY_TOLERANCE_KWH
+        ? thermalDhw / electricalDhw
+        : null,
+    costDhw: difference(row.electricity_cost_eur, row.electricity_cost_heating_eur),
+  };
+}
+
+/**
+ * Replaces the total fields of each row by its DHW values, so that charts showing the
+ * total and heating series show DHW next to heating instead
+ */
+export function toDhwSplitRows<T extends DhwSourceRow & { az?: number | null }>(rows: T[]): T[] {
+  return rows.map((row) => {
+    const { thermalDhw, electricalDhw, azDhw, costDhw } = computeDhwValues(row);
+    return {
+      ...row,
+      az: azDhw,
+      thermal_energy_kwh: thermalDhw,
+      electrical_energy_kwh: electricalDhw,
+      electricity_cost_eur: costDhw,
+    };
+  });
+}
+
+/**
+ * Share of the DHW value in the sum of heating and DHW, null without any value
+ */
+export function dhwShare(heating: number | null | undefined, dhw: number | null | undefined) {
+  const sum = (heating ?? 0) + (dhw ?? 0);
+  return sum > 0 ? (dhw ?? 0) / sum : null;
+}
@@ -0,0 +1,286 @@
+/**
+ * Running costs and CO₂ emissions of the heat pump, compared with a gas or oil boiler
+ * that would have produced the same heat. Prices are entered in ct/kWh, results are in € and kg.
+ */
+
+import dayjs from "dayjs";
+import type { SystemAzData } from "./chartDataProcessing";
+import { getMeasurementDate } from "./systemConfigHistory";
+import type { EnergyPeriod } from "./systemConsumption";
+
+export type TariffType = "flat" | "timeOfUse" | "dynamic";
+export type BoilerFuel = "gas" | "oil";
+
+export const TARIFF_TYPES: TariffType[] = ["flat", "timeOfUse", "dynamic"];
+export const BOILER_FUELS: BoilerFuel[] = ["gas", "oil"];
+
+export interface HourlyPrice {
+  hour: string; // Local hour as "YYYY-MM-DDTHH"
+  priceCt: number;
+}
+
+export interface CostSettings {
+  tariffType: TariffType;
+  flatPriceCt: number; // Also used for hours missing in the dynamic price list
+  highTariffPriceCt: number;
+  lowTariffPriceCt: number;
+  lowTariffStartHour: number; // First hour of the low tariff window
+  lowTariffEndHour: number; // First hour after the window, may wrap around midnight
+  hourlyPrices: HourlyPrice[];
+  gridCo2KgPerKwh: number;
+  boilerFuel: BoilerFuel;
+  boilerEfficiency: number; // Share of the fuel energy that ends up as heat
+  fuelPriceCt: number;
+}
+
+/**
+ * Typical values for a new boiler; CO₂ factors refer to the net calorific value of the fuel
+ */
+export const BOILER_DEFAULTS: Record<
+  BoilerFuel,
+  { efficiency: number; fuelPriceCt: number; co2KgPerKwh: number }
+> = {
+  gas: { efficiency: 0.9, fuelPriceCt: 12, co2KgPerKwh: 0.201 },
+  oil: { efficiency: 0.85, fuelPriceCt: 11, co2KgPerKwh: 0.266 },
+};
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  tariffType: "flat",
+  flatPriceCt: 32,
+  highTariffPriceCt: 34,
+  lowTariffPriceCt: 26,
+  lowTariffStartHour: 22,
+  lowTariffEndHour: 6,
+  hourlyPrices: [],
+  // German electricity mix of 2023
+  gridCo2KgPerKwh: 0.38,
+  boilerFuel: "gas",
+  boilerEfficiency: BOILER_DEFAULTS.gas.efficiency,
+  fuelPriceCt: BOILER_DEFAULTS.gas.fuelPriceCt,
+};
+
+export interface CostDataRow {
+  created_at?: string | null;
+  date?: string | null;
+  year?: number | null;
+  month?: number | null;
+  thermal_energy_kwh?: number | null;
+  electrical_energy_kwh?: number | null;
+  electrical_energy_heating_kwh?: number | null;
+}
+
+export interface CostFields {
+  electricity_cost_eur: number | null;
+  electricity_cost_heating_eur: number | null;
+  co2_kg: number | null;
+  boiler_cost_eur: number | null;
+  boiler_co2_kg: number | null;
+}
+
+export interface HourlyPriceCsvResult {
+  prices: HourlyPrice[];
+  skippedLines: number; // Non-empty lines without a timestamp and price, e.g. the header
+}
+
+/**
+ * Parses a price list with one hour per line: timestamp and price in ct/kWh.
+ * Columns are separated by semicolon or tab (decimal comma allowed) or by comma (decimal point).
+ */
+export function parseHourlyPriceCsv(text: string): HourlyPriceCsvResult {
+  const prices: HourlyPrice[] = [];
+  let skippedLines = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === "") continue;
+
+    const columns = /[;\t]/.test(line) ? line.split(/[;\t]/) : line.split(",");
+    const timestamp = dayjs(columns[0]?.trim());
+    const priceCt = Number(columns[1]?.trim().replace(",", "."));
+    if (columns.length < 2 || !timestamp.isValid() || !Number.isFinite(priceCt)) {
+      skippedLines++;
+      continue;
+    }
+
+    prices.push({ hour: timestamp.format("YYYY-MM-DDTHH"), priceCt });
+  }
+
+  return { prices, skippedLines };
+}
+
+export function isLowTariffHour(hour: number, startHour: number, endHour: number): boolean {
+  return startHour <= endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+}
+
+function lowTariffShare(settings: CostSettings): number {
+  let hours = 0;
+  for (let hour = 0; hour < 24; hour++) {
+    if (isLowTariffHour(hour, settings.lowTariffStartHour, settings.lowTariffEndHour)) hours++;
+  }
+  return hours / 24;
+}
+
+/**
+ * Returns the electricity price in ct/kWh for a period starting at the given date.
+ * Daily and monthly values carry no hourly profile, so time-of-use and dynamic tariffs
+ * are averaged over all hours of the period.
+ */
+export function createElectricityPriceLookup(
+  settings: CostSettings,
+): (date: string, period: EnergyPeriod) => number {
+  if (settings.tariffType === "timeOfUse") {
+    const share = lowTariffShare(settings);
+    const dailyPriceCt =
+      settings.lowTariffPriceCt * share + settings.highTariffPriceCt * (1 - share);
+
+    return (date, period) => {
+      if (period !== "hour") return dailyPriceCt;
+      return isLowTariffHour(
+        dayjs(date).hour(),
+        settings.lowTariffStartHour,
+        settings.lowTariffEndHour,
+      )
+        ? settings.lowTariffPriceCt
+        : settings.highTariffPriceCt;
+    };
+  }
+
+  if (settings.tariffType === "dynamic" && settings.hourlyPrices.length > 0) {
+    const formats: Record<EnergyPeriod, string> = {
+      hour: "YYYY-MM-DDTHH",
+      day: "YYYY-MM-DD",
+      month: "YYYY-MM",
+    };
+    // Mean price per hour, day and month, keyed like the formats above
+    const means = new Map<string, { sum: number; count: number }>();
+    for (const { hour, priceCt } of settings.hourlyPrices) {
+      for (const key of [hour, hour.slice(0, 10), hour.slice(0, 7)]) {
+        const mean = means.get(key) ?? { sum: 0, count: 0 };
+        mean.sum += priceCt;
+        mean.count += 1;
+        means.set(key, mean);
+      }
+    }
+
+    return (date, period) => {
+      const mean = means.get(dayjs(date).format(formats[period]));
+      return mean ? mean.sum / mean.count : settings.flatPriceCt;
+    };
+  }
+
+  return () => settings.flatPriceCt;
+}
+
+/**
+ * Adds electricity costs, CO₂ emissions and the boiler baseline to each row
+ */
+export function addEnergyCosts<T extends CostDataRow>(
+  rows: T[],
+  settings: CostSettings,
+  period: EnergyPeriod,
+): Array<T & CostFields> {
+  const priceAt = createElectricityPriceLookup(settings);
+  const fuelCo2KgPerKwh = BOILER_DEFAULTS[settings.boilerFuel].co2KgPerKwh;
+
+  return rows.map((row) => {
+    const date = getMeasurementDate(row);
+    const priceEur = date ? priceAt(date, period) / 100 : null;
+    const electrical = row.electrical_energy_kwh;
+    const electricalHeating = row.electrical_energy_heating_kwh;
+    // Fuel the boiler would have burnt for the same heat
+    const fuelKwh =
+      row.thermal_energy_kwh != null && settings.boilerEfficiency > 0
+        ? row.thermal_energy_kwh / settings.boilerEfficiency
+        : null;
+
+    return {
+      ...row,
+      electricity_cost_eur: priceEur != null && electrical != null ? electrical * priceEur : null,
+      electricity_cost_heating_eur:
+        priceEur != null && electricalHeating != null ? electricalHeating * priceEur : null,
+      co2_kg: electrical != null ? electrical * settings.gridCo2KgPerKwh : null,
+      boiler_cost_eur: fuelKwh != null ? (fuelKwh * settings.fuelPriceCt) / 100 : null,
+      boiler_co2_kg: fuelKwh != null ? fuelKwh * fuelCo2KgPerKwh : null,
+    };
+  });
+}
+
+export interface RunningCostSummary {
+  electricityCostEur: number;
+  boilerCostEur: number;
+  savingsEur: number;
+  co2Kg: number;
+  boilerCo2Kg: number;
+  co2SavingsKg: number;
+}
+
+/**
+ * Totals of rows with costs; rows without energy values are skipped
+ */
+export function summarizeRunningCosts(rows: Partial<CostFields>[]): RunningCostSummary | null {
+  const counted = rows.filter(
+    (row) => row.electricity_cost_eur != null && row.boiler_cost_eur != null,
+  );
+  if (counted.length === 0) return null;
+
+  const sum = (field: keyof CostFields) =>
+    counted.reduce((total, row) => total + (row[field] ?? 0), 0);
+  const electricityCostEur = sum("electricity_cost_eur");
+  const boilerCostEur = sum("boiler_cost_eur");
+  const co2Kg = sum("co2_kg");
+  const boilerCo2Kg = sum("boiler_co2_kg");
+
+  return {
+    electricityCostEur,
+    boilerCostEur,
+    savingsEur: boilerCostEur - electricityCostEur,
+    co2Kg,
+    boilerCo2Kg,
+    co2SavingsKg: boilerCo2Kg - co2Kg,
+  };
+}
+
+/**
+ * Electricity costs per system over all its rows.
+ * Returned in SystemAzData shape (az = total, azHeating = heating) for histogram binning.
+ */
+export function calculateSystemCosts(
+  rows: Array<{
+    heating_id: string;
+    electrical_energy_kwh?: number | null;
+    electrical_energy_heating_kwh?: number | null;
+    electricity_cost_eur?: number | null;
+    electricity_cost_heating_eur?: number | null;
+  }>,
+): SystemAzData[] {
+  const systemTotals = new Map<
+    string,
+    { cost: number; costHeating: number; electrical: number; electricalHeating: number }
+  >();
+
+  for (const row of rows) {
+    if (row.electricity_cost_eur == null) continue;
+    const existing = systemTotals.get(row.heating_id) ?? {
+      cost: 0,
+      costHeating: 0,
+      electrical: 0,
+      electricalHeating: 0,
+    };
+    existing.cost += row.electricity_cost_eur;
+    existing.costHeating += row.electricity_cost_heating_eur ?? 0;
+    existing.electrical += row.electrical_energy_kwh ?? 0;
+    existing.electricalHeating += row.electrical_energy_heating_kwh ?? 0;
+    systemTotals.set(row.heating_id, existing);
+  }
+
+  return Array.from(systemTotals.entries()).map(([heatingId, totals]) => ({
+    heatingId,
+    az: totals.cost,
+    azHeating: totals.costHeating,
+    thermalTotal: 0,
+    electricalTotal: totals.electrical,
+    thermalHeatingTotal: 0,
+    electricalHeatingTotal: totals.electricalHeating,
+  }));
+}
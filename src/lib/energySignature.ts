@@ -0,0 +1,123 @@
+/**
+ * Energy signature of a building: daily heat demand against the outdoor temperature.
+ * Below the heating limit the demand rises linearly as it gets colder, above it only a
+ * constant base demand remains. Extrapolating the line to the design outdoor temperature
+ * estimates the building's heat load.
+ */
+
+import { DEFAULT_DESIGN_OUTDOOR_TEMP_C } from "./heatingCurveDesign";
+import type { DataPoint, RegressionResult } from "./regressionUtils";
+import { robustLinearRegression } from "./regressionUtils";
+
+export const MIN_ENERGY_SIGNATURE_DAYS = 14;
+
+// Heating limits tried when searching the breakpoint of the signature
+const BREAKPOINT_MIN_C = 10;
+const BREAKPOINT_MAX_C = 20;
+const BREAKPOINT_STEP_C = 0.5;
+
+// Entered heat loads deviating less than this from the estimate are considered matching
+export const HEAT_LOAD_TOLERANCE = 0.3;
+
+export type HeatLoadAssessment = "oversized" | "undersized" | "matching";
+
+export interface EnergySignatureRow {
+  outdoor_temperature_c?: number | null;
+  thermal_energy_kwh?: number | null;
+  thermal_energy_heating_kwh?: number | null;
+}
+
+export interface EnergySignature {
+  fit: RegressionResult; // Daily heat in kWh over outdoor temperature below the breakpoint
+  breakpointC: number;
+  baseDemandKwh: number; // Mean daily heat above the breakpoint, e.g. hot water
+  heatingLimitC: number; // Outdoor temperature at which the heating line meets the base demand
+}
+
+export interface HeatLoadComparison {
+  estimatedKw: number;
+  enteredKw: number;
+  deviation: number; // Entered relative to estimated, 0.5 = 50% larger
+  assessment: HeatLoadAssessment;
+}
+
+/**
+ * Daily points of outdoor temperature (x) and heat (y). The heating share is preferred,
+ * as hot water does not depend on the outdoor temperature.
+ */
+export function toEnergySignaturePoints(rows: EnergySignatureRow[]): DataPoint[] {
+  return rows.flatMap((row) => {
+    const heat = row.thermal_energy_heating_kwh ?? row.thermal_energy_kwh;
+    if (row.outdoor_temperature_c == null || heat == null || heat < 0) return [];
+    return [{ x: row.outdoor_temperature_c, y: heat }];
+  });
+}
+
+/**
+ * Fits the energy signature by trying each breakpoint and keeping the one with the
+ * smallest squared error of the heating line and the constant base demand.
+ *
+ * @returns Signature or null if there are too few heating days or heat does not rise with cold
+ */
+export function fitEnergySignature(points: DataPoint[]): EnergySignature | null {
+  let best: (EnergySignature & { error: number }) | null = null;
+
+  for (let b = BREAKPOINT_MIN_C; b <= BREAKPOINT_MAX_C; b += BREAKPOINT_STEP_C) {
+    const heating = points.filter((p) => p.x < b);
+    if (heating.length < MIN_ENERGY_SIGNATURE_DAYS) continue;
+
+    const fit = robustLinearRegression(heating);
+    if (!fit || fit.slope >= 0) continue;
+
+    const base = points.filter((p) => p.x >= b);
+    const baseDemandKwh = base.length > 0 ? base.reduce((sum, p) => sum + p.y, 0) / base.length : 0;
+
+    const error =
+      heating.reduce((sum, p) => sum + (p.y - (fit.slope * p.x + fit.intercept)) ** 2, 0) +
+      base.reduce((sum, p) => sum + (p.y - baseDemandKwh) ** 2, 0);
+
+    if (!best || error < best.error) {
+      best = {
+        fit,
+        breakpointC: b,
+        baseDemandKwh,
+        heatingLimitC: (baseDemandKwh - fit.intercept) / fit.slope,
+        error,
+      };
+    }
+  }
+
+  if (!best) return null;
+  const { error: _error, ...signature } = best;
+  return signature;
+}
+
+/**
+ * Heat load in kW at the design outdoor temperature, from the daily heat of the signature
+ */
+export function estimateHeatLoadKw(
+  signature: EnergySignature,
+  designOutdoorTempC: number | null | undefined,
+): number {
+  const designTemp = designOutdoorTempC ?? DEFAULT_DESIGN_OUTDOOR_TEMP_C;
+  const dailyKwh = signature.fit.slope * designTemp + signature.fit.intercept;
+  return Math.max(dailyKwh, 0) / 24;
+}
+
+/**
+ * Compares the user-entered heat load with the estimate.
+ * Returns null if either value is missing or the estimate is zero.
+ */
+export function compareHeatLoad(
+  estimatedKw: number | null | undefined,
+  enteredKw: number | null | undefined,
+): HeatLoadComparison | null {
+  if (estimatedKw == null || enteredKw == null || estimatedKw <= 0) return null;
+
+  const deviation = enteredKw / estimatedKw - 1;
+  let assessment: HeatLoadAssessment = "matching";
+  if (deviation > HEAT_LOAD_TOLERANCE) assessment = "oversized";
+  if (deviation < -HEAT_LOAD_TOLERANCE) assessment = "undersized";
+
+  return { estimatedKw, enteredKw, deviation, assessment };
+}
@@ -72,3 +72,40 @@ export function applyGridFilterModel<T extends Record<string, unknown>>(
 
   return data.filter((row) => matchRow(row).every(Boolean));
 }
+
+const OPERATOR_SYMBOLS: Record<string, string> = {
+  equals: "=",
+  is: "=",
+  "=": "=",
+  doesNotEqual: "≠",
+  not: "≠",
+  "!=": "≠",
+  isAnyOf: "∈",
+  contains: "~",
+  isEmpty: "= ∅",
+  isNotEmpty: "≠ ∅",
+};
+
+const MAX_SUGGESTED_LABEL_LENGTH = 60;
+
+/**
+ * Short label describing the active filter items, e.g. "model_idu = CS6800i_E",
+ * or null without active items
+ */
+export function suggestFilterModelLabel(model?: GridFilterModel | null): string | null {
+  const items = model?.items.filter(isFilterItemActive) ?? [];
+  if (items.length === 0) return null;
+
+  const label = items
+    .map((item) => {
+      const operator = OPERATOR_SYMBOLS[item.operator] ?? item.operator;
+      if (VALUELESS_OPERATORS.has(item.operator)) return `${item.field} ${operator}`;
+      const value = Array.isArray(item.value) ? item.value.join(", ") : String(item.value);
+      return `${item.field} ${operator} ${value}`;
+    })
+    .join(model?.logicOperator === GridLogicOperator.Or ? " | " : " & ");
+
+  return label.length > MAX_SUGGESTED_LABEL_LENGTH
+    ? `${label.slice(0, MAX_SUGGESTED_LABEL_LENGTH - 1)}…`
+    : label;
+}
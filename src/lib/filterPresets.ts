@@ -0,0 +1,92 @@
+/**
+ * Named filter presets. The filter model is stored in the versioned encoding of the URL
+ * state, so presets stay readable when the filter format changes. Presets are not bound
+ * to a page: fields that the grid of the current page does not have are dropped on apply.
+ */
+
+import type { GridFilterModel } from "@mui/x-data-grid";
+import { decodeFilterModel } from "./urlState";
+
+export const FILTER_PRESETS_STORAGE_KEY = "heatpump-metrics.filterPresets";
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filter: string; // Encoded with encodeFilterModel
+  createdAt: string;
+}
+
+export interface FittedFilterModel {
+  model: GridFilterModel;
+  droppedFields: string[];
+}
+
+function isFilterPreset(value: unknown): value is FilterPreset {
+  const preset = value as Partial<FilterPreset> | null;
+  return (
+    typeof preset?.id === "string" &&
+    typeof preset.name === "string" &&
+    typeof preset.filter === "string" &&
+    typeof preset.createdAt === "string"
+  );
+}
+
+/**
+ * Parses the presets kept in local storage, skipping malformed entries
+ */
+export function parseStoredFilterPresets(stored: string | null): FilterPreset[] {
+  if (!stored) return [];
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isFilterPreset) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function readLocalFilterPresets(): FilterPreset[] {
+  try {
+    return parseStoredFilterPresets(localStorage.getItem(FILTER_PRESETS_STORAGE_KEY));
+  } catch {
+    // Storage can be unavailable, e.g. in private browsing or embedded iframes
+    return [];
+  }
+}
+
+export function writeLocalFilterPresets(presets: FilterPreset[]) {
+  try {
+    localStorage.setItem(FILTER_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Presets then only last for the session
+  }
+}
+
+/**
+ * Combines presets from several sources, the first source wins for equal IDs.
+ * Sorted by name.
+ */
+export function mergeFilterPresets(...sources: FilterPreset[][]): FilterPreset[] {
+  const byId = new Map<string, FilterPreset>();
+  for (const preset of sources.flat()) {
+    if (!byId.has(preset.id)) byId.set(preset.id, preset);
+  }
+  return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Decodes the filter of a preset and keeps only the items on fields of the current grid
+ */
+export function fitFilterPresetToFields(
+  preset: FilterPreset,
+  fields: readonly string[],
+): FittedFilterModel | null {
+  const model = decodeFilterModel(preset.filter);
+  if (!model) return null;
+
+  const available = new Set(fields);
+  const items = model.items.filter((item) => available.has(item.field));
+  const droppedFields = Array.from(
+    new Set(model.items.filter((item) => !available.has(item.field)).map((item) => item.field)),
+  );
+  return { model: { ...model, items }, droppedFields };
+}
@@ -0,0 +1,244 @@
+/**
+ * Impact of firmware updates on the COP. For each recorded firmware change the days
+ * before and after are binned by outdoor temperature, so that only days with similar
+ * weather are compared, and the COP difference per bin is averaged over all systems
+ * with the same transition.
+ */
+
+import dayjs from "dayjs";
+import type { SystemConfig } from "./systemConfigHistory";
+
+export type FirmwareComponent = "sw_idu" | "sw_odu";
+
+export const FIRMWARE_COMPONENTS: FirmwareComponent[] = ["sw_idu", "sw_odu"];
+
+// Days before and after a change that are compared
+export const FIRMWARE_WINDOW_DAYS_OPTIONS = [60, 120, 180] as const;
+export const DEFAULT_FIRMWARE_WINDOW_DAYS = 120;
+
+// Same bin width as sample_daily_values_view_by_outdoor_temperature uses by default
+export const OUTDOOR_TEMPERATURE_BIN_WIDTH_K = 2;
+
+// Bins with fewer days on either side are too noisy to compare
+export const MIN_DAYS_PER_BIN = 3;
+
+// Two-sided 95% quantiles of the t distribution for 1 to 30 degrees of freedom
+const T_QUANTILES_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145,
+  2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048,
+  2.045, 2.042,
+];
+
+export interface FirmwareTransition {
+  heatingId: string;
+  component: FirmwareComponent;
+  from: string;
+  to: string;
+  changedOn: string; // First day with the new firmware
+  previousChangeOn: string | null; // Start of the old firmware's period, if recorded
+  nextChangeOn: string | null; // End of the new firmware's period, if changed again
+}
+
+export interface FirmwareDayRow {
+  heating_id?: string | null;
+  date?: string | null;
+  outdoor_temperature_c?: number | null;
+  thermal_energy_kwh?: number | null;
+  electrical_energy_kwh?: number | null;
+}
+
+export interface TemperatureBinComparison {
+  binStartC: number;
+  daysBefore: number;
+  daysAfter: number;
+  azBefore: number;
+  azAfter: number;
+  delta: number;
+}
+
+export interface SystemTransitionComparison {
+  transition: FirmwareTransition;
+  bins: TemperatureBinComparison[];
+}
+
+export interface FirmwareTransitionSummary {
+  key: string;
+  component: FirmwareComponent;
+  from: string;
+  to: string;
+  systemCount: number;
+  binCount: number;
+  azBefore: number;
+  azAfter: number;
+  meanDelta: number;
+  ciLow: number | null; // 95% confidence interval of the mean delta
+  ciHigh: number | null;
+}
+
+export function formatFirmwareTransition(transition: Pick<FirmwareTransition, "from" | "to">) {
+  return `${transition.from} → ${transition.to}`;
+}
+
+/**
+ * Firmware changes between consecutive entries of each system's configuration history
+ */
+export function findFirmwareTransitions(
+  configsBySystem: Map<string, SystemConfig[]>,
+): FirmwareTransition[] {
+  const transitions: FirmwareTransition[] = [];
+
+  for (const [heatingId, configs] of configsBySystem) {
+    for (let i = 1; i < configs.length; i++) {
+      const previous = configs[i - 1];
+      const current = configs[i];
+      for (const component of FIRMWARE_COMPONENTS) {
+        const from = previous[component];
+        const to = current[component];
+        if (from == null || to == null || from === to) continue;
+
+        transitions.push({
+          heatingId,
+          component,
+          from,
+          to,
+          changedOn: current.effective_from,
+          // The first entry also covers measurements before it was recorded
+          previousChangeOn: i > 1 ? previous.effective_from : null,
+          nextChangeOn: configs[i + 1]?.effective_from ?? null,
+        });
+      }
+    }
+  }
+
+  return transitions;
+}
+
+interface BinTotals {
+  days: number;
+  thermal: number;
+  electrical: number;
+}
+
+/**
+ * Compares the system's COP before and after a firmware change per outdoor temperature bin
+ *
+ * @param rows - Daily values of the transition's system
+ * @param windowDays - Days compared on each side of the change
+ */
+export function compareFirmwareTransition(
+  transition: FirmwareTransition,
+  rows: FirmwareDayRow[],
+  windowDays: number,
+): SystemTransitionComparison {
+  const changedOn = dayjs(transition.changedOn);
+  const windowStart = changedOn.subtract(windowDays, "day").format("YYYY-MM-DD");
+  const windowEnd = changedOn.add(windowDays, "day").format("YYYY-MM-DD");
+  const beforeFrom =
+    transition.previousChangeOn && transition.previousChangeOn > windowStart
+      ? transition.previousChangeOn
+      : windowStart;
+  const afterUntil =
+    transition.nextChangeOn && transition.nextChangeOn < windowEnd
+      ? transition.nextChangeOn
+      : windowEnd;
+
+  const before = new Map<number, BinTotals>();
+  const after = new Map<number, BinTotals>();
+
+  for (const row of rows) {
+    if (row.heating_id !== transition.heatingId || !row.date) continue;
+    const temperature = row.outdoor_temperature_c;
+    const thermal = row.thermal_energy_kwh;
+    const electrical = row.electrical_energy_kwh;
+    if (temperature == null || thermal == null || electrical == null || electrical <= 0) continue;
+
+    const day = row.date.slice(0, 10);
+    let side: Map<number, BinTotals> | null = null;
+    if (day >= beforeFrom && day < transition.changedOn) side = before;
+    if (day >= transition.changedOn && day < afterUntil) side = after;
+    if (!side) continue;
+
+    const bin =
+      Math.floor(temperature / OUTDOOR_TEMPERATURE_BIN_WIDTH_K) * OUTDOOR_TEMPERATURE_BIN_WIDTH_K;
+    const totals = side.get(bin) ?? { days: 0, thermal: 0, electrical: 0 };
+    totals.days += 1;
+    totals.thermal += thermal;
+    totals.electrical += electrical;
+    side.set(bin, totals);
+  }
+
+  const bins: TemperatureBinComparison[] = [];
+  for (const [binStartC, totalsBefore] of before) {
+    const totalsAfter = after.get(binStartC);
+    if (!totalsAfter) continue;
+    if (totalsBefore.days < MIN_DAYS_PER_BIN || totalsAfter.days < MIN_DAYS_PER_BIN) continue;
+
+    const azBefore = totalsBefore.thermal / totalsBefore.electrical;
+    const azAfter = totalsAfter.thermal / totalsAfter.electrical;
+    bins.push({
+      binStartC,
+      daysBefore: totalsBefore.days,
+      daysAfter: totalsAfter.days,
+      azBefore,
+      azAfter,
+      delta: azAfter - azBefore,
+    });
+  }
+
+  return { transition, bins: bins.sort((a, b) => a.binStartC - b.binStartC) };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * 95% confidence interval of the mean, null for fewer than two values
+ */
+export function meanConfidenceInterval(values: number[]): [number, number] | null {
+  if (values.length < 2) return null;
+
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  const df = values.length - 1;
+  const t = T_QUANTILES_95[df - 1] ?? 1.96;
+  const margin = (t * Math.sqrt(variance)) / Math.sqrt(values.length);
+  return [avg - margin, avg + margin];
+}
+
+/**
+ * Combines the comparisons of all systems with the same transition.
+ * Each matched temperature bin of each system counts as one observation of the delta.
+ */
+export function summarizeFirmwareTransitions(
+  comparisons: SystemTransitionComparison[],
+): FirmwareTransitionSummary[] {
+  const groups = new Map<string, SystemTransitionComparison[]>();
+  for (const comparison of comparisons) {
+    if (comparison.bins.length === 0) continue;
+    const { component, from, to } = comparison.transition;
+    const key = `${component}|${from}|${to}`;
+    groups.set(key, [...(groups.get(key) ?? []), comparison]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const { component, from, to } = group[0].transition;
+      const bins = group.flatMap((comparison) => comparison.bins);
+      const ci = meanConfidenceInterval(bins.map((bin) => bin.delta));
+      return {
+        key,
+        component,
+        from,
+        to,
+        systemCount: new Set(group.map((comparison) => comparison.transition.heatingId)).size,
+        binCount: bins.length,
+        azBefore: mean(bins.map((bin) => bin.azBefore)),
+        azAfter: mean(bins.map((bin) => bin.azAfter)),
+        meanDelta: mean(bins.map((bin) => bin.delta)),
+        ciLow: ci?.[0] ?? null,
+        ciHigh: ci?.[1] ?? null,
+      };
+    })
+    .sort((a, b) => b.systemCount - a.systemCount || b.binCount - a.binCount);
+}
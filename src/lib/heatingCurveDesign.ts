@@ -0,0 +1,136 @@
+/**
+ * Comparison of a system's measured heating curve with its design heating curve.
+ * The design curve is a straight line from the heating limit (no heating needed at
+ * 20°C outdoor temperature, flow at room temperature) to the target flow temperature
+ * at the design outdoor temperature.
+ */
+
+import type { Database } from "../types/database.types";
+import type { DataPoint, RegressionResult } from "./regressionUtils";
+import { robustLinearRegression } from "./regressionUtils";
+
+type HeatingType = Database["public"]["Enums"]["heating_type"];
+
+export const HEATING_LIMIT_TEMPERATURE_C = 20;
+export const DEFAULT_DESIGN_OUTDOOR_TEMP_C = -12;
+
+// Typical flow temperatures at the design outdoor temperature
+export const DEFAULT_TARGET_FLOW_TEMP_C: Record<HeatingType, number> = {
+  underfloorheating: 35,
+  radiators: 55,
+  mixed: 45,
+};
+
+export const MIN_SYSTEM_CURVE_POINTS = 5;
+
+// Deviations below these tolerances are not worth adjusting the controller for
+const SLOPE_TOLERANCE = 0.15; // Relative to the design slope
+const PARALLEL_SHIFT_TOLERANCE_K = 2;
+
+export type HeatingCurveSuggestion = "decreaseSlope" | "increaseSlope" | "shiftDown" | "shiftUp";
+
+export interface LinearCurve {
+  slope: number;
+  intercept: number;
+}
+
+export interface DesignCurve extends LinearCurve {
+  designOutdoorTempC: number;
+  targetFlowTempC: number;
+}
+
+export interface HeatingCurveResidual extends DataPoint {
+  residual: number; // Measured minus design flow temperature
+}
+
+export interface HeatingCurveComparison {
+  fit: RegressionResult;
+  design: DesignCurve;
+  residuals: HeatingCurveResidual[];
+  meanResidualK: number;
+  meanAbsoluteResidualK: number;
+  slopeDeviation: number; // Fitted slope relative to the design slope, 0.2 = 20% steeper
+  parallelShiftK: number; // Fitted minus design curve at the mean outdoor temperature
+  referenceTemperatureC: number;
+  suggestions: HeatingCurveSuggestion[];
+}
+
+export function getDefaultTargetFlowTemp(heatingType: HeatingType | null | undefined): number {
+  return DEFAULT_TARGET_FLOW_TEMP_C[heatingType ?? "underfloorheating"];
+}
+
+/**
+ * Design heating curve through the heating limit and the design point.
+ * Returns null if the design outdoor temperature is not below the heating limit.
+ */
+export function computeDesignCurve(
+  designOutdoorTempC: number | null | undefined,
+  targetFlowTempC: number,
+): DesignCurve | null {
+  const designTemp = designOutdoorTempC ?? DEFAULT_DESIGN_OUTDOOR_TEMP_C;
+  if (designTemp >= HEATING_LIMIT_TEMPERATURE_C) return null;
+
+  const slope =
+    (targetFlowTempC - HEATING_LIMIT_TEMPERATURE_C) / (designTemp - HEATING_LIMIT_TEMPERATURE_C);
+  return {
+    slope,
+    intercept: HEATING_LIMIT_TEMPERATURE_C - slope * HEATING_LIMIT_TEMPERATURE_C,
+    designOutdoorTempC: designTemp,
+    targetFlowTempC,
+  };
+}
+
+export function evaluateCurve(curve: LinearCurve, outdoorTemperature: number): number {
+  return curve.slope * outdoorTemperature + curve.intercept;
+}
+
+/**
+ * Fits the system's own heating curve and compares it with the design curve.
+ * Only points below the heating limit are used, as the heat pump does not heat above it.
+ *
+ * @param points - Outdoor temperature (x) and flow temperature (y) of one system
+ * @param design - Design curve of the same system
+ * @returns Comparison or null if there are fewer than MIN_SYSTEM_CURVE_POINTS points
+ */
+export function compareWithDesignCurve(
+  points: DataPoint[],
+  design: DesignCurve,
+): HeatingCurveComparison | null {
+  const heatingPoints = points.filter((p) => p.x < HEATING_LIMIT_TEMPERATURE_C);
+  if (heatingPoints.length < MIN_SYSTEM_CURVE_POINTS) return null;
+
+  const fit = robustLinearRegression(heatingPoints);
+  if (!fit) return null;
+
+  const residuals = heatingPoints.map((p) => ({
+    ...p,
+    residual: p.y - evaluateCurve(design, p.x),
+  }));
+  const n = residuals.length;
+  const meanResidualK = residuals.reduce((sum, r) => sum + r.residual, 0) / n;
+  const meanAbsoluteResidualK = residuals.reduce((sum, r) => sum + Math.abs(r.residual), 0) / n;
+
+  // Evaluating the shift at the mean temperature keeps it independent of the slope deviation
+  const referenceTemperatureC = heatingPoints.reduce((sum, p) => sum + p.x, 0) / n;
+  const parallelShiftK =
+    evaluateCurve(fit, referenceTemperatureC) - evaluateCurve(design, referenceTemperatureC);
+  const slopeDeviation = design.slope !== 0 ? fit.slope / design.slope - 1 : 0;
+
+  const suggestions: HeatingCurveSuggestion[] = [];
+  if (slopeDeviation > SLOPE_TOLERANCE) suggestions.push("decreaseSlope");
+  if (slopeDeviation < -SLOPE_TOLERANCE) suggestions.push("increaseSlope");
+  if (parallelShiftK > PARALLEL_SHIFT_TOLERANCE_K) suggestions.push("shiftDown");
+  if (parallelShiftK < -PARALLEL_SHIFT_TOLERANCE_K) suggestions.push("shiftUp");
+
+  return {
+    fit,
+    design,
+    residuals,
+    meanResidualK,
+    meanAbsoluteResidualK,
+    slopeDeviation,
+    parallelShiftK,
+    referenceTemperatureC,
+    suggestions,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Heating seasons for the seasonal performance factor (Jahresarbeitszahl).
+ * A season is identified by the calendar year in which it starts and may span two calendar years.
+ */
+
+export type SeasonDefinition = "calendar" | "julJun" | "octSep";
+
+export const SEASON_DEFINITIONS: SeasonDefinition[] = ["calendar", "julJun", "octSep"];
+
+// First month (1-12) of each season definition
+export const SEASON_START_MONTHS: Record<SeasonDefinition, number> = {
+  calendar: 1,
+  julJun: 7,
+  octSep: 10,
+};
+
+export interface SeasonMonth {
+  year: number;
+  month: number;
+}
+
+/**
+ * The twelve months of a season in chronological order
+ */
+export function getSeasonMonths(startYear: number, definition: SeasonDefinition): SeasonMonth[] {
+  const startMonth = SEASON_START_MONTHS[definition];
+  return Array.from({ length: 12 }, (_, i) => {
+    const monthIndex = startMonth - 1 + i;
+    return { year: startYear + Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1 };
+  });
+}
+
+/**
+ * Month index values ("1"-"12") in season order, e.g. for the bar chart axis
+ */
+export function getSeasonIndexValues(definition: SeasonDefinition): string[] {
+  return getSeasonMonths(0, definition).map(({ month }) => String(month));
+}
+
+/**
+ * First and last day of a season as YYYY-MM-DD
+ */
+export function getSeasonDateRange(
+  startYear: number,
+  definition: SeasonDefinition,
+): { start: string; end: string } {
+  const months = getSeasonMonths(startYear, definition);
+  const first = months[0];
+  const last = months[months.length - 1];
+  const lastDay = new Date(last.year, last.month, 0).getDate();
+  return {
+    start: `${first.year}-${pad(first.month)}-01`,
+    end: `${last.year}-${pad(last.month)}-${pad(lastDay)}`,
+  };
+}
+
+/**
+ * PostgREST `or` filter selecting the season's months from a view with year and month columns
+ */
+export function getSeasonMonthFilter(startYear: number, definition: SeasonDefinition): string {
+  const startMonth = SEASON_START_MONTHS[definition];
+  if (startMonth === 1) return `year.eq.${startYear}`;
+  return `and(year.eq.${startYear},month.gte.${startMonth}),and(year.eq.${startYear + 1},month.lt.${startMonth})`;
+}
+
+/**
+ * Year in which the season containing the given month starts
+ */
+export function getSeasonStartYear(
+  year: number,
+  month: number,
+  definition: SeasonDefinition,
+): number {
+  return month < SEASON_START_MONTHS[definition] ? year - 1 : year;
+}
+
+/**
+ * Display label, e.g. "2025" for calendar years and "2024/25" for seasons spanning two years
+ */
+export function formatSeasonLabel(startYear: number, definition: SeasonDefinition): string {
+  if (definition === "calendar") return String(startYear);
+  return `${startYear}/${String(startYear + 1).slice(-2)}`;
+}
+
+/**
+ * Number of season months that have already started (all 12 for past seasons, 0 for future ones)
+ */
+export function countElapsedSeasonMonths(
+  startYear: number,
+  definition: SeasonDefinition,
+  now = new Date(),
+): number {
+  const current = now.getFullYear() * 12 + now.getMonth();
+  return getSeasonMonths(startYear, definition).filter(
+    ({ year, month }) => year * 12 + (month - 1) <= current,
+  ).length;
+}
+
+/**
+ * Keeps only the systems that have values for at least the expected number of months
+ */
+export function filterSystemsWithCompleteMonths<
+  T extends { heating_id?: string | null; year?: number | null; month?: number | null },
+>(rows: T[], expectedMonths: number): T[] {
+  const systemMonths = new Map<string, Set<string>>();
+
+  for (const row of rows) {
+    if (!row.heating_id || !row.month) continue;
+    const months = systemMonths.get(row.heating_id) ?? new Set<string>();
+    months.add(`${row.year}-${row.month}`);
+    systemMonths.set(row.heating_id, months);
+  }
+
+  const completeSystemIds = new Set<string>();
+  systemMonths.forEach((months, heatingId) => {
+    if (months.size >= expectedMonths) {
+      completeSystemIds.add(heatingId);
+    }
+  });
+
+  return rows.filter((row) => row.heating_id && completeSystemIds.has(row.heating_id));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
@@ -0,0 +1,113 @@
+/**
+ * Coverage analysis for hourly measurements (measurement_deltas_view)
+ * Each delta belongs to the hour in which its measurement was taken. If the uploader
+ * missed measurements, the next delta contains the energy of several hours.
+ */
+
+import dayjs from "dayjs";
+
+export const HOURS_PER_DAY = 24;
+
+// Deltas spanning more than this since the previous measurement cover several hours
+const MAX_SINGLE_HOUR_DELTA_MINUTES = 90;
+
+export interface CoverageRow {
+  heating_id?: string | null;
+  created_at?: string | null;
+}
+
+export interface DayCoverage {
+  measuredHours: number[]; // Hours with a delta of their own
+  mergedHours: number[]; // Hours whose energy is part of a multi-hour delta
+  missingHours: number[]; // Expected hours without any data
+  expectedHours: number;
+}
+
+export interface HourlyCoverageFields {
+  merged_hours: number; // Number of hours the row's delta spans if > 1, otherwise 0
+  coverage: DayCoverage | null; // Coverage of the row's system and day
+}
+
+/**
+ * Hours of the given day that can already have data (all 24 for past days, 0 for future days)
+ */
+export function countExpectedHours(date: string, now = dayjs()): number {
+  const day = dayjs(date);
+  if (day.isBefore(now, "day")) return HOURS_PER_DAY;
+  if (day.isSame(now, "day")) return now.hour();
+  return 0;
+}
+
+/**
+ * Adds the coverage of its system and day and the number of merged hours to every row.
+ * Hours before the first measurement of a day count as missing, as the previous day is unknown.
+ *
+ * @param rows - Hourly delta rows, any order
+ * @param getExpectedHours - Number of expected hours per day (YYYY-MM-DD)
+ */
+export function analyzeHourlyCoverage<T extends CoverageRow>(
+  rows: T[],
+  getExpectedHours: (date: string) => number = () => HOURS_PER_DAY,
+): Array<T & HourlyCoverageFields> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    if (!row.heating_id || !row.created_at) continue;
+    const key = `${row.heating_id}|${dayjs(row.created_at).format("YYYY-MM-DD")}`;
+    const group = groups.get(key) ?? [];
+    group.push(row);
+    groups.set(key, group);
+  }
+
+  const fieldsByRow = new Map<T, HourlyCoverageFields>();
+
+  groups.forEach((group, key) => {
+    const date = key.slice(key.indexOf("|") + 1);
+    const expectedHours = getExpectedHours(date);
+    const sorted = [...group].sort(
+      (a, b) => dayjs(a.created_at).valueOf() - dayjs(b.created_at).valueOf(),
+    );
+
+    const measured = new Set<number>();
+    const merged = new Set<number>();
+    const mergedHoursByRow = new Map<T, number>();
+
+    sorted.forEach((row, i) => {
+      const time = dayjs(row.created_at);
+      const hour = time.hour();
+      const previous = i > 0 ? dayjs(sorted[i - 1].created_at) : null;
+
+      if (previous && time.diff(previous, "minute") > MAX_SINGLE_HOUR_DELTA_MINUTES) {
+        // Everything after the previous measurement's hour up to this hour is in this delta
+        for (let h = previous.hour() + 1; h <= hour; h++) merged.add(h);
+        mergedHoursByRow.set(row, Math.max(hour - previous.hour(), 2));
+      } else {
+        measured.add(hour);
+      }
+    });
+
+    const coverage: DayCoverage = {
+      measuredHours: [...measured].sort((a, b) => a - b),
+      mergedHours: [...merged].filter((h) => !measured.has(h)).sort((a, b) => a - b),
+      missingHours: Array.from({ length: expectedHours }, (_, h) => h).filter(
+        (h) => !measured.has(h) && !merged.has(h),
+      ),
+      expectedHours,
+    };
+
+    for (const row of group) {
+      fieldsByRow.set(row, { merged_hours: mergedHoursByRow.get(row) ?? 0, coverage });
+    }
+  });
+
+  return rows.map((row) => ({
+    ...row,
+    ...(fieldsByRow.get(row) ?? { merged_hours: 0, coverage: null }),
+  }));
+}
+
+/**
+ * Check if a system's day has data for all expected hours (merged hours count as covered)
+ */
+export function isCompleteDay(coverage: DayCoverage | null | undefined): boolean {
+  return coverage != null && coverage.missingHours.length === 0;
+}
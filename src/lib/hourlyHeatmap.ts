@@ -0,0 +1,68 @@
+/**
+ * Hour-of-day × day-of-month matrix of hourly values for one month.
+ * Cells are aggregated over all systems like the bars of the Daily chart.
+ */
+
+import dayjs from "dayjs";
+import type { ChartDataRow, MetricMode } from "../components/common/charts/AzBarChart";
+import { type AggregationMode, processDataset } from "./chartDataProcessing";
+
+export const HEATMAP_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export interface HourlyHeatmap {
+  dates: string[]; // All days of the month as YYYY-MM-DD
+  values: Map<string, number>; // Keyed by heatmapCellKey, cells without data are missing
+  min: number | null;
+  max: number | null;
+}
+
+export function heatmapCellKey(date: string, hour: number): string {
+  return `${date}|${hour}`;
+}
+
+export function getMonthDates(month: string): string[] {
+  const start = dayjs(`${month}-01`);
+  return Array.from({ length: start.daysInMonth() }, (_, i) =>
+    start.add(i, "day").format("YYYY-MM-DD"),
+  );
+}
+
+/**
+ * @param month - Month as YYYY-MM
+ * @param rows - Hourly rows; created_at decides the cell in local time
+ */
+export function buildHourlyHeatmap(
+  month: string,
+  rows: ChartDataRow[],
+  metricMode: MetricMode,
+  aggregationMode: AggregationMode,
+): HourlyHeatmap {
+  const cellRows = rows
+    .filter((row) => typeof row.created_at === "string")
+    .map((row) => {
+      const time = dayjs(row.created_at as string);
+      return { ...row, heatmap_cell: heatmapCellKey(time.format("YYYY-MM-DD"), time.hour()) };
+    });
+
+  const values = new Map<string, number>();
+  const aggregated = processDataset(cellRows, {
+    indexField: "heatmap_cell",
+    azTotalKey: "value",
+    azHeatingKey: "heating",
+    metricMode,
+    aggregationMode,
+  });
+  for (const cell of aggregated) {
+    const value = cell.value as number;
+    // processDataset reports buckets without values of the metric as 0
+    if (value > 0) values.set(cell.heatmap_cell as string, value);
+  }
+
+  const all = [...values.values()];
+  return {
+    dates: getMonthDates(month),
+    values,
+    min: all.length > 0 ? Math.min(...all) : null,
+    max: all.length > 0 ? Math.max(...all) : null,
+  };
+}
@@ -0,0 +1,56 @@
+import type { MetricMode } from "../components/common/charts/AzBarChart";
+
+export const METRIC_MODES: readonly MetricMode[] = ["cop", "energy", "normalized", "cost"];
+
+/**
+ * Unit suffix shown after values of each metric mode (COP is dimensionless)
+ */
+export const METRIC_UNITS: Record<MetricMode, string> = {
+  cop: "",
+  energy: "kWh",
+  normalized: "kWh/(Kd·m²)",
+  cost: "€",
+};
+
+// Decimals of weather-normalized values, which are small (e.g. 0.0085 kWh/(Kd·m²))
+export const NORMALIZED_DIGITS = 4;
+
+/**
+ * Translation keys for the total/heating series and the value axis of each metric mode
+ */
+export const METRIC_LABEL_KEYS: Record<
+  MetricMode,
+  { total: string; heating: string; axis: string }
+> = {
+  cop: { total: "common.azTotal", heating: "common.azHeating", axis: "common.az" },
+  energy: {
+    total: "charts.electricalEnergyTotal",
+    heating: "charts.electricalEnergyHeating",
+    axis: "charts.electricalEnergyTotal",
+  },
+  normalized: {
+    total: "charts.normalizedEnergyTotal",
+    heating: "charts.normalizedEnergyHeating",
+    axis: "charts.normalizedEnergyAxis",
+  },
+  cost: {
+    total: "charts.electricityCostTotal",
+    heating: "charts.electricityCostHeating",
+    axis: "charts.electricityCostAxis",
+  },
+};
+
+/**
+ * Translation keys of the DHW series replacing the total series when heating and DHW are split.
+ * Weather-normalized values only exist for heating, so that mode has no split.
+ */
+export const DHW_LABEL_KEYS: Partial<Record<MetricMode, string>> = {
+  cop: "charts.azDhw",
+  energy: "charts.electricalEnergyDhw",
+  cost: "charts.electricityCostDhw",
+};
+
+export function formatMetricValue(value: number | string, metricMode: MetricMode): string {
+  const unit = METRIC_UNITS[metricMode];
+  return unit ? `${value} ${unit}` : String(value);
+}
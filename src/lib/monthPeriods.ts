@@ -0,0 +1,20 @@
+/**
+ * Month periods of the monthly values, identified by year and month or as "YYYY-MM"
+ */
+
+/**
+ * PostgREST `or` filter selecting the twelve complete months before the current month
+ */
+export function getLastTwelveMonthsFilter(now = new Date()): string {
+  const year = now.getFullYear();
+  const month = now.getMonth() + 1;
+  return `and(year.eq.${year - 1},month.gte.${month}),and(year.eq.${year},month.lt.${month})`;
+}
+
+/**
+ * Short label of a "YYYY-MM" period, e.g. "03/25"
+ */
+export function formatMonthPeriod(period: string): string {
+  const [year, month] = period.split("-");
+  return `${month}/${year.slice(-2)}`;
+}
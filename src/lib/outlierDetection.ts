@@ -0,0 +1,147 @@
+/**
+ * Per-system statistical outlier detection
+ * Flags rows that deviate strongly from the history of their own heating system
+ * (e.g. after sensor swaps or counter resets), which fixed thresholds cannot catch.
+ *
+ * Uses the modified z-score based on median and median absolute deviation (MAD),
+ * which is robust against the outliers it is looking for.
+ */
+
+import dayjs from "dayjs";
+import { calculatePercentile } from "./chartDataProcessing";
+import type { DataQualityIssue, DataQualityRow } from "./dataQuality";
+
+export const OUTLIER_FIELDS = [
+  "az",
+  "az_heating",
+  "thermal_energy_kwh",
+  "electrical_energy_kwh",
+] as const;
+
+export type OutlierField = (typeof OUTLIER_FIELDS)[number];
+
+// Modified z-score above which a value is an outlier (Iglewicz and Hoaglin)
+export const OUTLIER_Z_THRESHOLD = 3.5;
+
+// Systems with fewer history values have no meaningful baseline to compare against
+export const MIN_OUTLIER_SAMPLE_SIZE = 7;
+
+// Days before the shown period whose daily values form a system's baseline
+export const DAILY_OUTLIER_HISTORY_DAYS = 90;
+
+// Days before the shown day whose hourly values form a system's baseline, per hour of day
+export const HOURLY_OUTLIER_HISTORY_DAYS = 14;
+
+// Makes the MAD comparable to the standard deviation of normally distributed values
+const MAD_SCALE = 0.6745;
+
+export interface OutlierDetectableRow extends DataQualityRow {
+  heating_id?: string | null;
+  created_at?: string | null;
+}
+
+/**
+ * Baseline key of hourly rows: hot water and defrosting recur at the same hours, so each
+ * hour is compared with the same hour of other days
+ */
+export function hourOfDayKey(row: OutlierDetectableRow): string {
+  return row.created_at ? String(dayjs(row.created_at).hour()) : "";
+}
+
+interface Baseline {
+  median: number;
+  mad: number;
+}
+
+function robustBaseline(values: number[]): Baseline | null {
+  const median = calculatePercentile(values, 50);
+  if (median === null) return null;
+
+  const mad = calculatePercentile(
+    values.map((value) => Math.abs(value - median)),
+    50,
+  );
+  if (!mad) return null;
+
+  return { median, mad };
+}
+
+function modifiedZScore(value: number, { median, mad }: Baseline): number {
+  return (MAD_SCALE * (value - median)) / mad;
+}
+
+/**
+ * Modified z-scores of the values, null if the values don't vary (MAD = 0)
+ */
+export function modifiedZScores(values: number[]): number[] | null {
+  const baseline = robustBaseline(values);
+  if (!baseline) return null;
+
+  return values.map((value) => modifiedZScore(value, baseline));
+}
+
+export interface OutlierDetectionOptions {
+  // Splits each system's history, e.g. by hour of day; rows are compared with their own part
+  baselineKey?: (row: OutlierDetectableRow) => string;
+  threshold?: number;
+}
+
+/**
+ * Adds `outlier_issues` to every row, comparing each value with the median and MAD of the
+ * history of the same system, e.g. the days before the shown period. A history outside the
+ * shown rows also catches periods that are off as a whole.
+ * Rows keep their order; rows without heating_id or with too little history get no issues.
+ */
+export function detectSystemOutliers<T extends OutlierDetectableRow>(
+  rows: T[],
+  history: readonly OutlierDetectableRow[],
+  { baselineKey = () => "", threshold = OUTLIER_Z_THRESHOLD }: OutlierDetectionOptions = {},
+): Array<T & { outlier_issues: DataQualityIssue[] }> {
+  const historyByKey = new Map<string, OutlierDetectableRow[]>();
+  for (const row of history) {
+    if (!row.heating_id) continue;
+    const key = `${row.heating_id}|${baselineKey(row)}`;
+    const keyRows = historyByKey.get(key) ?? [];
+    keyRows.push(row);
+    historyByKey.set(key, keyRows);
+  }
+
+  const baselines = new Map<string, Map<OutlierField, Baseline>>();
+  historyByKey.forEach((keyRows, key) => {
+    const fieldBaselines = new Map<OutlierField, Baseline>();
+    for (const field of OUTLIER_FIELDS) {
+      const values = keyRows.flatMap((row) => (row[field] != null ? [Number(row[field])] : []));
+      if (values.length < MIN_OUTLIER_SAMPLE_SIZE) continue;
+      const baseline = robustBaseline(values);
+      if (baseline) fieldBaselines.set(field, baseline);
+    }
+    baselines.set(key, fieldBaselines);
+  });
+
+  return rows.map((row) => {
+    const fieldBaselines = row.heating_id
+      ? baselines.get(`${row.heating_id}|${baselineKey(row)}`)
+      : undefined;
+    const issues: DataQualityIssue[] = [];
+    for (const field of OUTLIER_FIELDS) {
+      const baseline = fieldBaselines?.get(field);
+      if (!baseline || row[field] == null) continue;
+      const value = Number(row[field]);
+      if (Math.abs(modifiedZScore(value, baseline)) > threshold) {
+        issues.push(createOutlierIssue(field, value, baseline.median));
+      }
+    }
+    return { ...row, outlier_issues: issues };
+  });
+}
+
+function createOutlierIssue(field: OutlierField, value: number, median: number): DataQualityIssue {
+  return {
+    type: "statistical_outlier",
+    ruleId: `${field}_outlier`,
+    message: `${field} ${value.toFixed(1)} deviates strongly from the system's median ${median.toFixed(1)}`,
+    severity: "warning",
+    translationKey: `dataQuality.statisticalOutlier.${field}`,
+    translationParams: { value: value.toFixed(1), median: median.toFixed(1) },
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Peer groups of comparable systems for benchmarking a single system.
+ * The peer group is expressed as a DataGrid filter model, so it can be shown and
+ * refined in the grid like any other comparison filter.
+ */
+
+import type { GridFilterItem, GridFilterModel } from "@mui/x-data-grid";
+import type { Database } from "../types/database.types";
+import { calculatePercentile } from "./chartDataProcessing";
+
+type HeatingSystem = Database["public"]["Tables"]["heating_systems"]["Row"];
+
+export type PeerSystem = Pick<
+  HeatingSystem,
+  | "heating_id"
+  | "user_id"
+  | "model_idu"
+  | "heating_type"
+  | "building_energy_standard"
+  | "heated_area_m2"
+>;
+
+export type PeerCriterion =
+  | "model_idu"
+  | "heating_type"
+  | "building_energy_standard"
+  | "heated_area_m2";
+
+// Ordered from most to least important, loosening drops criteria from the end
+export const PEER_CRITERIA: PeerCriterion[] = [
+  "model_idu",
+  "heating_type",
+  "heated_area_m2",
+  "building_energy_standard",
+];
+
+// Relative deviation of the heated area from the own system
+export const HEATED_AREA_TOLERANCES = [0.2, 0.35, 0.5] as const;
+
+// Below this size, statistics of the peer group are not meaningful
+export const MIN_PEER_GROUP_SIZE = 5;
+
+export interface PeerGroupSettings {
+  criteria: PeerCriterion[];
+  heatedAreaTolerance: number;
+}
+
+export const DEFAULT_PEER_GROUP_SETTINGS: PeerGroupSettings = {
+  criteria: PEER_CRITERIA,
+  heatedAreaTolerance: HEATED_AREA_TOLERANCES[0],
+};
+
+/**
+ * Filter model selecting the systems comparable to the given system (including itself).
+ * Criteria without a value on the own system are skipped.
+ */
+export function buildPeerFilterModel(
+  system: PeerSystem,
+  settings: PeerGroupSettings,
+): GridFilterModel {
+  const items: GridFilterItem[] = [];
+
+  for (const criterion of PEER_CRITERIA) {
+    if (!settings.criteria.includes(criterion)) continue;
+
+    if (criterion === "heated_area_m2") {
+      const area = system.heated_area_m2;
+      if (area == null) continue;
+      items.push(
+        {
+          id: "peer-heated-area-min",
+          field: criterion,
+          operator: ">=",
+          value: Math.floor(area * (1 - settings.heatedAreaTolerance)),
+        },
+        {
+          id: "peer-heated-area-max",
+          field: criterion,
+          operator: "<=",
+          value: Math.ceil(area * (1 + settings.heatedAreaTolerance)),
+        },
+      );
+      continue;
+    }
+
+    const value = system[criterion];
+    if (value == null) continue;
+    items.push({ id: `peer-${criterion}`, field: criterion, operator: "is", value });
+  }
+
+  return { items };
+}
+
+/**
+ * Filter model selecting only the given system (a user has a single system)
+ */
+export function buildOwnSystemFilterModel(system: PeerSystem): GridFilterModel {
+  return {
+    items: [{ id: "own-system", field: "user_id", operator: "equals", value: system.user_id }],
+  };
+}
+
+/**
+ * Next looser settings: first widen the heated area range, then drop the least important criterion.
+ * Returns null if no criterion is left to loosen.
+ */
+export function loosenPeerGroupSettings(settings: PeerGroupSettings): PeerGroupSettings | null {
+  const wider = HEATED_AREA_TOLERANCES.find(
+    (tolerance) => tolerance > settings.heatedAreaTolerance,
+  );
+  if (settings.criteria.includes("heated_area_m2") && wider !== undefined) {
+    return { ...settings, heatedAreaTolerance: wider };
+  }
+
+  const remaining = PEER_CRITERIA.filter((criterion) => settings.criteria.includes(criterion));
+  if (remaining.length === 0) return null;
+  return { ...settings, criteria: remaining.slice(0, -1) };
+}
+
+export interface PeerStats {
+  count: number;
+  ownValue: number | null;
+  median: number;
+  q1: number;
+  q3: number;
+  rank: number | null; // 1 = best system of the peer group
+}
+
+/**
+ * Distribution of a metric within the peer group and the own system's rank
+ *
+ * @param values - One value per system of the peer group
+ * @param ownHeatingId - System to rank
+ * @param higherIsBetter - True for COP, false for consumption values
+ */
+export function computePeerStats(
+  values: Map<string, number>,
+  ownHeatingId: string,
+  higherIsBetter: boolean,
+): PeerStats | null {
+  const all = [...values.values()];
+  if (all.length === 0) return null;
+
+  const ownValue = values.get(ownHeatingId) ?? null;
+  const rank =
+    ownValue == null
+      ? null
+      : 1 + all.filter((v) => (higherIsBetter ? v > ownValue : v < ownValue)).length;
+
+  return {
+    count: all.length,
+    ownValue,
+    median: calculatePercentile(all, 50) as number,
+    q1: calculatePercentile(all, 25) as number,
+    q3: calculatePercentile(all, 75) as number,
+    rank,
+  };
+}
+
+export interface PeerMonthRow {
+  heating_id?: string | null;
+  year?: number | null;
+  month?: number | null;
+  thermal_energy_kwh?: number | null;
+  electrical_energy_kwh?: number | null;
+  heated_area_m2?: number | null;
+}
+
+export interface PeerMonthSummary {
+  year: number;
+  month: number;
+  az: PeerStats | null;
+  electricalEnergyPerArea: PeerStats | null; // kWh/m²
+}
+
+/**
+ * Monthly COP and electrical energy per heated area of the peer group, one entry per month
+ */
+export function summarizePeerMonths(
+  rows: PeerMonthRow[],
+  ownHeatingId: string,
+): PeerMonthSummary[] {
+  const months = new Map<string, { az: Map<string, number>; energy: Map<string, number> }>();
+
+  for (const row of rows) {
+    if (!row.heating_id || row.year == null || row.month == null) continue;
+    const key = `${row.year}-${row.month}`;
+    const month = months.get(key) ?? { az: new Map(), energy: new Map() };
+
+    const thermal = row.thermal_energy_kwh;
+    const electrical = row.electrical_energy_kwh;
+    if (thermal != null && electrical != null && electrical > 0) {
+      month.az.set(row.heating_id, thermal / electrical);
+    }
+    if (electrical != null && row.heated_area_m2 != null && row.heated_area_m2 > 0) {
+      month.energy.set(row.heating_id, electrical / row.heated_area_m2);
+    }
+    months.set(key, month);
+  }
+
+  return [...months.entries()]
+    .map(([key, values]) => {
+      const [year, month] = key.split("-").map(Number);
+      return {
+        year,
+        month,
+        az: computePeerStats(values.az, ownHeatingId, true),
+        electricalEnergyPerArea: computePeerStats(values.energy, ownHeatingId, false),
+      };
+    })
+    .sort((a, b) => a.year - b.year || a.month - b.month);
+}
@@ -150,7 +150,7 @@ function median(values: number[]): number {
  * @returns Array of {x, y} points along the fitted line
  */
 export function generateCurvePoints(
-  regression: RegressionResult,
+  regression: Pick<RegressionResult, "slope" | "intercept">,
   xMin: number,
   xMax: number,
   numPoints = 100,
@@ -1,4 +1,4 @@
-import type { GridFilterItem, GridFilterModel } from "@mui/x-data-grid";
+import type { GridFilterItem, GridFilterModel, GridSortModel } from "@mui/x-data-grid";
 
 export interface ServerFilterItem {
   field: string;
@@ -32,10 +32,44 @@ const NUMBER_FIELDS = new Set([
 
 const BOOLEAN_FIELDS = new Set(["used_for_heating", "used_for_dhw", "used_for_cooling"]);
 
+// System attributes shared by daily_values_view and measurement_deltas_view that the server can
+// filter by. Measurement values are left to the client, so that derived data such as outliers
+// and missing hours is computed from all rows of the selected systems. Versioned configuration
+// fields (heating_type, sw_idu, sw_odu) are resolved per measurement date on the client as well.
+export const SYSTEM_FILTER_FIELDS: ReadonlySet<string> = new Set([
+  "user_id",
+  "name",
+  "model_idu",
+  "model_odu",
+  "postal_code",
+  "country",
+  "building_type",
+  "building_energy_standard",
+  "heated_area_m2",
+  "heating_load_kw",
+  "design_outdoor_temp_c",
+  "building_construction_year",
+  ...BOOLEAN_FIELDS,
+]);
+
+// Columns the server can sort time series rows by; the outdoor temperature depends on the
+// versioned thermometer offset
+export const TIME_SERIES_SORT_FIELDS: ReadonlySet<string> = new Set([
+  ...SYSTEM_FILTER_FIELDS,
+  "az",
+  "az_heating",
+  "flow_temperature_c",
+  "thermal_energy_kwh",
+  "electrical_energy_kwh",
+  "thermal_energy_heating_kwh",
+  "electrical_energy_heating_kwh",
+]);
+
 const ARRAY_OPERATORS = new Set(["isAnyOf"]);
 const EMPTY_OPERATORS = new Set(["isEmpty", "isNotEmpty"]);
 
-function normalizeField(field: string) {
+// Column of the views behind a grid field
+export function serverFieldName(field: string) {
   return FIELD_ALIASES[field] ?? field;
 }
 
@@ -65,7 +99,7 @@ function normalizeScalarValue(field: string, rawValue: unknown) {
 function sanitizeFilterItem(item: GridFilterItem): ServerFilterItem | null {
   if (!item.field || !item.operator) return null;
 
-  const field = normalizeField(item.field);
+  const field = serverFieldName(item.field);
   const operator = item.operator;
 
   if (EMPTY_OPERATORS.has(operator)) {
@@ -100,3 +134,130 @@ export function sanitizeGridFilterModel(model?: GridFilterModel | null): ServerF
 
   return { logic, items };
 }
+
+// Part of the PostgREST query builder needed to apply filters and sorting
+export interface ServerFilterQuery<Q> {
+  or(filters: string): Q;
+}
+
+export interface ServerSortQuery<Q> {
+  order(column: string, options: { ascending: boolean; nullsFirst?: boolean }): Q;
+}
+
+// Values containing these characters must be quoted in PostgREST logic trees
+const RESERVED_VALUE_CHARS = /[,.:()"\\\s]/;
+
+function quoteValue(value: boolean | number | string) {
+  const text = String(value);
+  if (typeof value !== "string" || !RESERVED_VALUE_CHARS.test(text)) return text;
+  return `"${text.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// LIKE treats % and _ as wildcards; PostgREST uses * for %
+function likePattern(value: ServerFilterItem["value"], prefix: string, suffix: string) {
+  return quoteValue(`${prefix}${String(value).replace(/[\\%_]/g, "\\$&")}${suffix}`);
+}
+
+// Same semantics as the client-side filters in filterModelUtils, where negations keep empty values
+function toPostgrestCondition({ field, operator, value }: ServerFilterItem): string | null {
+  const scalar = Array.isArray(value) || value == null ? null : quoteValue(value);
+  switch (operator) {
+    case "contains":
+      return `${field}.ilike.${likePattern(value, "*", "*")}`;
+    case "doesNotContain":
+      return `or(${field}.not.ilike.${likePattern(value, "*", "*")},${field}.is.null)`;
+    case "startsWith":
+      return `${field}.ilike.${likePattern(value, "", "*")}`;
+    case "endsWith":
+      return `${field}.ilike.${likePattern(value, "*", "")}`;
+    case "equals":
+    case "is":
+    case "=":
+      return scalar == null ? null : `${field}.eq.${scalar}`;
+    case "doesNotEqual":
+    case "not":
+    case "!=":
+      return scalar == null ? null : `or(${field}.neq.${scalar},${field}.is.null)`;
+    case ">":
+      return scalar == null ? null : `${field}.gt.${scalar}`;
+    case ">=":
+      return scalar == null ? null : `${field}.gte.${scalar}`;
+    case "<":
+      return scalar == null ? null : `${field}.lt.${scalar}`;
+    case "<=":
+      return scalar == null ? null : `${field}.lte.${scalar}`;
+    case "isAnyOf":
+      return Array.isArray(value) ? `${field}.in.(${value.map(quoteValue).join(",")})` : null;
+    case "isEmpty":
+      return `${field}.is.null`;
+    case "isNotEmpty":
+      return `${field}.not.is.null`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds the PostgREST logic tree of a filter model, e.g. `and(az.gte.4,name.ilike.*Haus*)`.
+ * Returns null when the model does not restrict the rows.
+ */
+export function serverFilterExpression(model: ServerFilterModel): string | null {
+  const conditions = model.items.map(toPostgrestCondition);
+  if (conditions.length === 0) return null;
+  // An OR filter with an unsupported item could match any row
+  if (model.logic === "or" && conditions.includes(null)) return null;
+  const supported = conditions.filter((condition): condition is string => condition !== null);
+  return supported.length > 0 ? `${model.logic}(${supported.join(",")})` : null;
+}
+
+/**
+ * Whether the server can apply the whole filter model, i.e. every item is on one of the fields
+ * and has a PostgREST equivalent.
+ */
+export function canFilterOnServer(model: ServerFilterModel, fields: ReadonlySet<string>): boolean {
+  return model.items.every((item) => fields.has(item.field) && toPostgrestCondition(item) !== null);
+}
+
+/**
+ * Keeps the items on fields the server can filter by. Dropping an item of an OR filter would
+ * exclude rows it matches, so such a filter is dropped as a whole.
+ */
+export function restrictServerFilterModel(
+  model: ServerFilterModel,
+  fields: ReadonlySet<string>,
+): ServerFilterModel {
+  const items = model.items.filter((item) => fields.has(item.field));
+  if (model.logic === "or" && items.length < model.items.length) {
+    return { logic: model.logic, items: [] };
+  }
+  return { logic: model.logic, items };
+}
+
+/**
+ * Restricts a PostgREST query to the rows matching any of the filter models, e.g. the rows of
+ * all comparison groups.
+ */
+export function applyServerFilterModels<Q extends ServerFilterQuery<Q>>(
+  query: Q,
+  models: ServerFilterModel[],
+): Q {
+  const expressions = models.map(serverFilterExpression);
+  if (expressions.length === 0 || expressions.includes(null)) return query;
+  return query.or(expressions.join(","));
+}
+
+export function applyServerSortModel<Q extends ServerSortQuery<Q>>(
+  query: Q,
+  sortModel: GridSortModel,
+): Q {
+  return sortModel.reduce(
+    (sorted, item) =>
+      item.sort
+        ? sorted.order(serverFieldName(item.field), {
+            ascending: item.sort === "asc",
+            nullsFirst: false,
+          })
+        : sorted,
+    query,
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Configuration history of heating systems. Settings that change the meaning of
+ * measurements (firmware, thermometer offset, heat distribution) are stored with the
+ * date from which they apply, so older measurements keep the configuration they were
+ * recorded with instead of the system's current one.
+ */
+
+import type { Database } from "../types/database.types";
+
+type HeatingSystem = Database["public"]["Tables"]["heating_systems"]["Row"];
+type SystemConfigRow = Database["public"]["Tables"]["heating_system_configs"]["Row"];
+type SystemConfigInsert = Database["public"]["Tables"]["heating_system_configs"]["Insert"];
+
+export const VERSIONED_CONFIG_FIELDS = [
+  "heating_type",
+  "sw_idu",
+  "sw_odu",
+  "thermometer_offset_k",
+] as const;
+
+export type VersionedConfigField = (typeof VERSIONED_CONFIG_FIELDS)[number];
+
+export type VersionedConfig = Partial<Pick<HeatingSystem, VersionedConfigField>>;
+
+export type SystemConfig = Pick<SystemConfigRow, "heating_id" | "effective_from"> &
+  Pick<SystemConfigRow, VersionedConfigField>;
+
+export interface ConfigHistoryRow extends VersionedConfig {
+  heating_id?: string | null;
+  date?: string | null;
+  created_at?: string | null;
+  year?: number | null;
+  month?: number | null;
+  outdoor_temperature_c?: number | null;
+  outdoor_temperature_min_c?: number | null;
+  outdoor_temperature_max_c?: number | null;
+}
+
+function pickConfig(config: VersionedConfig): Required<VersionedConfig> {
+  return {
+    heating_type: config.heating_type ?? null,
+    sw_idu: config.sw_idu ?? null,
+    sw_odu: config.sw_odu ?? null,
+    thermometer_offset_k: config.thermometer_offset_k ?? null,
+  };
+}
+
+export function hasConfigChanged(previous: VersionedConfig, next: VersionedConfig): boolean {
+  return VERSIONED_CONFIG_FIELDS.some(
+    (field) => (previous[field] ?? null) !== (next[field] ?? null),
+  );
+}
+
+/**
+ * History entries to store when a system is saved with a changed configuration.
+ * Without a history yet, the previous configuration is recorded first, valid from the
+ * system's creation, so measurements before the change keep it.
+ *
+ * @param effectiveFrom - Date (YYYY-MM-DD) from which the new configuration applies
+ */
+export function buildConfigHistoryEntries(
+  system: HeatingSystem,
+  next: VersionedConfig,
+  effectiveFrom: string,
+  hasHistory: boolean,
+): SystemConfigInsert[] {
+  if (!hasConfigChanged(system, next)) return [];
+
+  const entries: SystemConfigInsert[] = [];
+  const createdOn = system.created_at.slice(0, 10);
+  if (!hasHistory && createdOn < effectiveFrom) {
+    entries.push({
+      heating_id: system.heating_id,
+      effective_from: createdOn,
+      ...pickConfig(system),
+    });
+  }
+  entries.push({
+    heating_id: system.heating_id,
+    effective_from: effectiveFrom,
+    ...pickConfig(next),
+  });
+  return entries;
+}
+
+/**
+ * Sorted, distinct heating IDs of the given rows, e.g. to load only their configurations
+ */
+export function getHeatingIds(rows: readonly ConfigHistoryRow[]): string[] {
+  const ids = new Set<string>();
+  for (const row of rows) {
+    if (row.heating_id) ids.add(row.heating_id);
+  }
+  return [...ids].sort();
+}
+
+export function groupConfigsBySystem(configs: SystemConfig[]): Map<string, SystemConfig[]> {
+  const bySystem = new Map<string, SystemConfig[]>();
+  for (const config of configs) {
+    const list = bySystem.get(config.heating_id) ?? [];
+    list.push(config);
+    bySystem.set(config.heating_id, list);
+  }
+  for (const list of bySystem.values()) {
+    list.sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  }
+  return bySystem;
+}
+
+/**
+ * Configuration valid at the given date. Dates before the first entry use the first entry.
+ *
+ * @param configs - History of one system, sorted by effective_from
+ * @param date - ISO date or timestamp
+ */
+export function resolveConfigAt(configs: SystemConfig[], date: string): SystemConfig | null {
+  if (configs.length === 0) return null;
+
+  const day = date.slice(0, 10);
+  let valid = configs[0];
+  for (const config of configs) {
+    if (config.effective_from > day) break;
+    valid = config;
+  }
+  return valid;
+}
+
+/**
+ * Date a measurement row was recorded: the day of daily rows, the timestamp of hourly
+ * rows and the first day of monthly rows
+ */
+export function getMeasurementDate(row: ConfigHistoryRow): string | null {
+  if (row.date) return row.date;
+  if (row.year != null && row.month != null) {
+    return `${row.year}-${String(row.month).padStart(2, "0")}-01`;
+  }
+  return row.created_at ?? null;
+}
+
+function shiftTemperature(value: number | null | undefined, shift: number) {
+  return value == null ? value : value + shift;
+}
+
+/**
+ * Replaces the current configuration on each row by the one valid at the row's date.
+ * The views correct outdoor temperatures with the current thermometer offset, so the
+ * difference to the historic offset is applied on top.
+ * Rows of systems without a history are returned unchanged.
+ */
+export function applyConfigHistory<T extends ConfigHistoryRow>(
+  rows: T[],
+  configsBySystem: Map<string, SystemConfig[]>,
+): T[] {
+  if (configsBySystem.size === 0) return rows;
+
+  return rows.map((row) => {
+    const configs = row.heating_id ? configsBySystem.get(row.heating_id) : undefined;
+    const date = getMeasurementDate(row);
+    if (!configs || !date) return row;
+
+    const config = resolveConfigAt(configs, date);
+    if (!config) return row;
+
+    const shift =
+      "thermometer_offset_k" in row
+        ? (row.thermometer_offset_k ?? 0) - (config.thermometer_offset_k ?? 0)
+        : 0;
+    const resolved: T = { ...row, ...pickConfig(config) };
+    if (shift !== 0) {
+      for (const field of [
+        "outdoor_temperature_c",
+        "outdoor_temperature_min_c",
+        "outdoor_temperature_max_c",
+      ] as const) {
+        if (field in row) resolved[field] = shiftTemperature(row[field], shift) as T[typeof field];
+      }
+    }
+    return resolved;
+  });
+}
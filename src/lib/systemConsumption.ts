@@ -1,5 +1,54 @@
+import type { Database } from "../types/database.types";
+
+type ModelIdu = Database["public"]["Enums"]["model_idu"];
+type ModelOdu = Database["public"]["Enums"]["model_odu"];
+
+// Fallback for systems without known models
 export const SYSTEM_CONSUMPTION_KW = 0.025;
 
+/**
+ * Estimated standby power of the indoor units in W. Variants with electric backup heater (_E)
+ * carry its control electronics, the tower variants (_TP70, _T180) the storage circulation.
+ */
+export const STANDBY_POWER_W_BY_MODEL_IDU: Record<ModelIdu, number> = {
+  CS5800i_E: 15,
+  CS5800i_MB: 12,
+  CS5800i_M: 12,
+  CS6800i_E: 17,
+  CS6800i_MB: 14,
+  CS6800i_M: 14,
+  WLW176i_E: 15,
+  WLW176i_TP70: 17,
+  WLW176i_T180: 17,
+  WLW186i_E: 17,
+  WLW186i_TP70: 19,
+  WLW186i_T180: 19,
+};
+
+/**
+ * Estimated standby power of the outdoor units in W (inverter and crankcase heating grow with size)
+ */
+export const STANDBY_POWER_W_BY_MODEL_ODU: Record<ModelOdu, number> = {
+  "4": 9,
+  "5": 10,
+  "7": 12,
+  "10": 15,
+  "12": 16,
+};
+
+export type StandbyPowerSource = "system" | "model" | "default";
+
+export interface StandbyPower {
+  watts: number;
+  source: StandbyPowerSource;
+}
+
+export interface StandbyPowerSummary {
+  minWatts: number;
+  maxWatts: number;
+  sources: StandbyPowerSource[];
+}
+
 export type EnergyPeriod = "hour" | "day" | "month";
 
 export interface EnergyDataRow {
@@ -13,6 +62,9 @@ export interface EnergyDataRow {
   electrical_energy_heating_kwh?: number | null;
   az?: number | null;
   az_heating?: number | null;
+  model_idu?: ModelIdu | null;
+  model_odu?: ModelOdu | null;
+  standby_power_w?: number | null; // User override stored per system
 }
 
 function elapsedHours(start: Date, end: Date): number {
@@ -42,9 +94,31 @@ export function getPeriodHours(row: EnergyDataRow, period: EnergyPeriod, now = n
   return 0;
 }
 
-function subtractSystemConsumption(value: number | null | undefined, hours: number) {
+/**
+ * Standby power to subtract for a system: its own value if set,
+ * otherwise the sum of the indoor and outdoor unit estimates, otherwise the global default
+ */
+export function getStandbyPower(row: EnergyDataRow): StandbyPower {
+  if (row.standby_power_w != null && row.standby_power_w >= 0) {
+    return { watts: row.standby_power_w, source: "system" };
+  }
+
+  const indoor = row.model_idu ? STANDBY_POWER_W_BY_MODEL_IDU[row.model_idu] : undefined;
+  const outdoor = row.model_odu ? STANDBY_POWER_W_BY_MODEL_ODU[row.model_odu] : undefined;
+  if (indoor != null && outdoor != null) {
+    return { watts: indoor + outdoor, source: "model" };
+  }
+
+  return { watts: SYSTEM_CONSUMPTION_KW * 1000, source: "default" };
+}
+
+function subtractSystemConsumption(
+  value: number | null | undefined,
+  hours: number,
+  standbyKw: number,
+) {
   if (value == null) return value;
-  return Math.max(0, value - SYSTEM_CONSUMPTION_KW * hours);
+  return Math.max(0, value - standbyKw * hours);
 }
 
 function calculateAz(thermal: number | null | undefined, electrical: number | null | undefined) {
@@ -62,8 +136,13 @@ export function removeSystemConsumption<T extends EnergyDataRow>(
   az_heating: number | null;
 } {
   const hours = getPeriodHours(row, period, now);
-  const electrical = subtractSystemConsumption(row.electrical_energy_kwh, hours);
-  const electricalHeating = subtractSystemConsumption(row.electrical_energy_heating_kwh, hours);
+  const standbyKw = getStandbyPower(row).watts / 1000;
+  const electrical = subtractSystemConsumption(row.electrical_energy_kwh, hours, standbyKw);
+  const electricalHeating = subtractSystemConsumption(
+    row.electrical_energy_heating_kwh,
+    hours,
+    standbyKw,
+  );
 
   return {
     ...row,
@@ -80,3 +159,21 @@ export function removeSystemConsumptionFromRows<T extends EnergyDataRow>(
 ): T[] | undefined {
   return rows?.map((row) => removeSystemConsumption(row, period));
 }
+
+/**
+ * Range of the standby power subtracted from the rows' systems, null without rows
+ */
+export function summarizeStandbyPower(
+  rows: EnergyDataRow[] | undefined,
+): StandbyPowerSummary | null {
+  if (!rows || rows.length === 0) return null;
+
+  const summary: StandbyPowerSummary = { minWatts: Infinity, maxWatts: -Infinity, sources: [] };
+  for (const row of rows) {
+    const { watts, source } = getStandbyPower(row);
+    summary.minWatts = Math.min(summary.minWatts, watts);
+    summary.maxWatts = Math.max(summary.maxWatts, watts);
+    if (!summary.sources.includes(source)) summary.sources.push(source);
+  }
+  return summary;
+}
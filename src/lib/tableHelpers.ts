@@ -2,7 +2,13 @@ import type { GridColDef, GridRenderCellParams } from "@mui/x-data-grid";
 import dayjs from "dayjs";
 import type { TFunction } from "i18next";
 import React from "react";
-import { type DataQualityIssue, validateMeasurementData } from "./dataQuality";
+import {
+  type DataGranularity,
+  type DataQualityIssue,
+  validateMeasurementData,
+} from "./dataQuality";
+import { computeDhwValues, type DhwSourceRow } from "./dhwSplit";
+import type { DayCoverage } from "./hourlyCoverage";
 
 /**
  * Common column visibility settings for hiding system details across all pages
@@ -29,6 +35,8 @@ export const commonHiddenColumns: Record<string, boolean> = {
   electrical_energy_heating_kwh: false,
   thermal_energy_kwh: false,
   thermal_energy_heating_kwh: false,
+  thermal_energy_dhw_kwh: false,
+  electrical_energy_dhw_kwh: false,
 };
 
 import {
@@ -49,15 +57,10 @@ import {
   SW_ODU_VALUES,
 } from "./enumCatalog";
 
-interface EnergyRow {
-  thermal_energy_kwh?: number | null;
-  electrical_energy_kwh?: number | null;
-  thermal_energy_heating_kwh?: number | null;
-  electrical_energy_heating_kwh?: number | null;
-}
+type EnergyRow = DhwSourceRow;
 
 /**
- * Compute Arbeitszahl (COP) values from energy data
+ * Compute Arbeitszahl (COP) values from energy data, DHW from the difference of total and heating
  */
 export function computeAz(row: EnergyRow) {
   const {
@@ -76,14 +79,17 @@ export function computeAz(row: EnergyRow) {
     thermal_energy_heating_kwh != null
       ? thermal_energy_heating_kwh / electrical_energy_heating_kwh
       : null;
-  return { az, azHeating };
+  return { az, azHeating, azDhw: computeDhwValues(row).azDhw };
 }
 
 /**
  * All available MUI DataGrid column definitions
  * Use these to build consistent tables across all views with MUI DataGrid
  */
-export function getAllDataGridColumns(t: TFunction): Record<string, GridColDef> {
+export function getAllDataGridColumns(
+  t: TFunction,
+  granularity?: DataGranularity,
+): Record<string, GridColDef> {
   return {
     // Data quality warning column
     dataQuality: {
@@ -94,8 +100,8 @@ export function getAllDataGridColumns(t: TFunction): Record<string, GridColDef>
       filterable: false,
       hideable: false,
       renderCell: (params: GridRenderCellParams) => {
-        // Validate measurement data (same rules for hourly/daily/monthly)
-        const validation = validateMeasurementData(params.row);
+        // Validate measurement data against the rules of the row granularity
+        const validation = validateMeasurementData(params.row, granularity);
 
         if (validation.issues.length === 0) {
           return null;
@@ -227,6 +233,15 @@ export function getAllDataGridColumns(t: TFunction): Record<string, GridColDef>
       },
       valueFormatter: (value: number | null) => (value != null ? value.toFixed(2) : "-"),
     },
+    azDhw: {
+      field: "azDhw",
+      headerName: t("tableHeaders.azDhw"),
+      description: t("tableHeaders.hints.azDhw"),
+      width: 160,
+      type: "number",
+      valueGetter: (_value, row) => computeAz(row).azDhw,
+      valueFormatter: (value: number | null) => (value != null ? value.toFixed(2) : "-"),
+    },
 
     // Temperature columns
     outdoorTemperature: {
@@ -246,6 +261,55 @@ export function getAllDataGridColumns(t: TFunction): Record<string, GridColDef>
       valueFormatter: (value: number | null) => (value != null ? `${value.toFixed(1)} °C` : "-"),
     },
 
+    // Hourly coverage of the row's system and day (set by analyzeHourlyCoverage)
+    coverage: {
+      field: "coverage",
+      headerName: t("tableHeaders.coverage"),
+      description: t("tableHeaders.hints.coverage"),
+      width: 110,
+      type: "number",
+      valueGetter: (value: DayCoverage | null | undefined) =>
+        value ? value.expectedHours - value.missingHours.length : null,
+      renderCell: (params: GridRenderCellParams) => {
+        const coverage = params.row.coverage as DayCoverage | null | undefined;
+        if (!coverage) return "-";
+
+        const details = [
+          coverage.missingHours.length > 0 &&
+            t("tableHeaders.coverageMissingHours", { hours: coverage.missingHours.join(", ") }),
+          coverage.mergedHours.length > 0 &&
+            t("tableHeaders.coverageMergedHours", { hours: coverage.mergedHours.join(", ") }),
+        ].filter(Boolean);
+
+        return React.createElement(
+          "span",
+          {
+            style: { cursor: details.length > 0 ? "help" : undefined },
+            title: details.join("\n"),
+          },
+          `${params.value}/${coverage.expectedHours} h`,
+        );
+      },
+    },
+
+    // Defrost hours of the row's hour or day and the heat they drew back (see lib/defrost)
+    defrostHours: {
+      field: "defrost_hours",
+      headerName: t("tableHeaders.defrostHours"),
+      description: t("tableHeaders.hints.defrostHours"),
+      width: 110,
+      type: "number",
+      valueFormatter: (value: number | null) => (value != null ? `${value} h` : "-"),
+    },
+    defrostEnergy: {
+      field: "defrost_energy_kwh",
+      headerName: t("tableHeaders.defrostEnergy"),
+      description: t("tableHeaders.hints.defrostEnergy"),
+      width: 120,
+      type: "number",
+      valueFormatter: (value: number | null) => (value != null ? `${value.toFixed(2)} kWh` : "-"),
+    },
+
     // Energy columns (for hourly view)
     thermalEnergy: {
       field: "thermal_energy_kwh",
@@ -279,6 +343,25 @@ export function getAllDataGridColumns(t: TFunction): Record<string, GridColDef>
       type: "number",
       valueFormatter: (value: number | null) => (value != null ? `${value.toFixed(1)} kWh` : "-"),
     },
+    // Derived from total minus heating (see lib/dhwSplit)
+    thermalEnergyDhw: {
+      field: "thermal_energy_dhw_kwh",
+      headerName: t("tableHeaders.thermalEnergyDhw"),
+      description: t("tableHeaders.hints.thermalEnergyDhw"),
+      width: 120,
+      type: "number",
+      valueGetter: (_value, row) => computeDhwValues(row).thermalDhw,
+      valueFormatter: (value: number | null) => (value != null ? `${value.toFixed(1)} kWh` : "-"),
+    },
+    electricalEnergyDhw: {
+      field: "electrical_energy_dhw_kwh",
+      headerName: t("tableHeaders.electricalEnergyDhw"),
+      description: t("tableHeaders.hints.electricalEnergyDhw"),
+      width: 120,
+      type: "number",
+      valueGetter: (_value, row) => computeDhwValues(row).electricalDhw,
+      valueFormatter: (value: number | null) => (value != null ? `${value.toFixed(1)} kWh` : "-"),
+    },
 
     // System-specific columns
     postalCode: {
@@ -435,28 +518,43 @@ export function getBaseSystemColumns(t: TFunction): GridColDef[] {
   ];
 }
 
+// One row per month, day or hour depending on the time column
+const TIME_COLUMN_GRANULARITY: Record<"month" | "date" | "time", DataGranularity> = {
+  month: "month",
+  date: "day",
+  time: "hour",
+};
+
 /**
  * Get standard column set for time-series pages (Yearly, Monthly, Daily, AzTempEvaluation)
  * These pages share most columns but differ in their time column
  * Note: Energy columns are included but hidden by default via commonHiddenColumns
+ *
+ * @param options.defrost - Add the defrost columns (rows need the fields of lib/defrost)
  */
 export function getTimeSeriesColumns(
   t: TFunction,
   timeColumn: "month" | "date" | "time",
+  options: { defrost?: boolean } = {},
 ): GridColDef[] {
-  const cols = getAllDataGridColumns(t);
+  const cols = getAllDataGridColumns(t, TIME_COLUMN_GRANULARITY[timeColumn]);
   return [
     ...getBaseSystemColumns(t).slice(0, 1), // user_id
     cols[timeColumn],
     ...getBaseSystemColumns(t).slice(1), // rest of system columns
     cols.az,
     cols.azHeating,
+    cols.azDhw,
     cols.thermalEnergy,
     cols.electricalEnergy,
     cols.thermalEnergyHeating,
     cols.electricalEnergyHeating,
+    cols.thermalEnergyDhw,
+    cols.electricalEnergyDhw,
     cols.outdoorTemperature,
     cols.flowTemperature,
+    ...(timeColumn === "time" ? [cols.coverage] : []), // Only hourly rows can miss hours
+    ...(options.defrost ? [cols.defrostHours, cols.defrostEnergy] : []),
     cols.dataQuality, // Data quality warning column first
   ];
 }
@@ -0,0 +1,105 @@
+/**
+ * Server-side aggregates of the time series charts. The aggregate RPCs combine the rows of
+ * each hour (aggregate_measurement_deltas_by_hour) or day (aggregate_daily_values_by_day)
+ * across all systems matching a filter model, so that the charts do not need every row of
+ * the period. Like the charts, they skip rows failing the data quality rules (see
+ * filterRealisticDataForCharts), resolve the configuration history and optionally remove
+ * the system consumption. Percentiles are null for fewer than two values, and the weighted
+ * ratio is null unless every value of the period carries its energies.
+ */
+
+import type { ChartDataRow, MetricMode } from "../components/common/charts/AzBarChart";
+import type { Database } from "../types/database.types";
+import {
+  type AggregationMode,
+  PERCENTILE_LEVELS,
+  percentileKey,
+  resolveAggregationMode,
+} from "./chartDataProcessing";
+
+export type TimeSeriesAggregate =
+  Database["public"]["Functions"]["aggregate_daily_values_by_day"]["Returns"][number];
+
+type RatioField = "az" | "az_heating";
+type AggregatedField = RatioField | "electrical_energy_kwh" | "electrical_energy_heating_kwh";
+
+// Metric modes the aggregates provide; weather-normalized values need every row
+export type AggregatedMetricMode = Exclude<MetricMode, "normalized">;
+
+// Aggregated field and chart field of the total and heating series; costs are energies
+// times the price of the period
+const SERIES_FIELDS: Record<
+  AggregatedMetricMode,
+  ReadonlyArray<readonly [AggregatedField, string]>
+> = {
+  cop: [
+    ["az", "az"],
+    ["az_heating", "az_heating"],
+  ],
+  energy: [
+    ["electrical_energy_kwh", "electrical_energy_kwh"],
+    ["electrical_energy_heating_kwh", "electrical_energy_heating_kwh"],
+  ],
+  cost: [
+    ["electrical_energy_kwh", "electricity_cost_eur"],
+    ["electrical_energy_heating_kwh", "electricity_cost_heating_eur"],
+  ],
+};
+
+function isRatioField(field: AggregatedField): field is RatioField {
+  return field === "az" || field === "az_heating";
+}
+
+// Same fallback as the chart: the weighted ratio only where every row could be weighted
+function aggregatedValue(
+  aggregate: TimeSeriesAggregate,
+  field: AggregatedField,
+  aggregationMode: AggregationMode,
+): number | null {
+  if (aggregationMode === "median") return aggregate[`${field}_median`];
+  if (aggregationMode === "weighted" && isRatioField(field)) {
+    return aggregate[`${field}_weighted`] ?? aggregate[`${field}_mean`];
+  }
+  return aggregate[`${field}_mean`];
+}
+
+interface AggregateChartOptions {
+  indexField: string;
+  // Index value of a period, e.g. its hour
+  indexOf: (periodStart: string) => string;
+  metricMode: AggregatedMetricMode;
+  aggregationMode: AggregationMode;
+  // Electricity price in €/kWh of a period, for the cost metric mode
+  priceAt: (periodStart: string) => number;
+}
+
+/**
+ * Chart rows of the aggregates, one per period. The values of the metric and aggregation
+ * mode are stored in the fields the chart reads for raw rows, their percentiles under
+ * percentileKey(field, level).
+ */
+export function aggregatesToChartRows(
+  aggregates: TimeSeriesAggregate[],
+  { indexField, indexOf, metricMode, aggregationMode, priceAt }: AggregateChartOptions,
+): ChartDataRow[] {
+  const mode = resolveAggregationMode(aggregationMode, metricMode);
+
+  return aggregates.map((aggregate) => {
+    const factor = metricMode === "cost" ? priceAt(aggregate.period_start) : 1;
+    const scale = (value: number | null) => (value == null ? null : value * factor);
+    const row: ChartDataRow = {
+      [indexField]: indexOf(aggregate.period_start),
+      outdoor_temperature_c: aggregate.outdoor_temperature_c,
+      flow_temperature_c: aggregate.flow_temperature_c,
+      merged_hours: aggregate.merged_hours,
+    };
+
+    for (const [field, chartField] of SERIES_FIELDS[metricMode]) {
+      row[chartField] = scale(aggregatedValue(aggregate, field, mode));
+      for (const level of PERCENTILE_LEVELS) {
+        row[percentileKey(chartField, level)] = scale(aggregate[`${field}_p${level}`]);
+      }
+    }
+    return row;
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * Page state in the query string of the hash route (e.g. #/monthly?month=2026-01&metric=energy).
+ * Filter models are stored as a version prefix and base64url-encoded JSON tuples,
+ * so that links stay short and older links can still be read after format changes.
+ */
+
+import { type GridFilterItem, type GridFilterModel, GridLogicOperator } from "@mui/x-data-grid";
+import dayjs from "dayjs";
+import { MAX_COMPARISON_GROUPS } from "./chartTheme";
+import { isFilterItemActive } from "./filterModelUtils";
+
+export const FILTER_MODEL_VERSION = 1;
+
+// Query parameter name of a comparison filter group (f1, f2, …)
+export function filterGroupParam(group: number): string {
+  return `f${group}`;
+}
+
+type EncodedFilterItem = [field: string, operator: string, value?: unknown];
+type EncodedFilterModel = [
+  items: EncodedFilterItem[],
+  logicOperator?: "and" | "or",
+  quickFilterValues?: unknown[],
+];
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) =>
+    String.fromCharCode(byte),
+  ).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Encodes the active items of a filter model, null if nothing is filtered
+ */
+export function encodeFilterModel(model: GridFilterModel | null | undefined): string | null {
+  const items = model?.items.filter(isFilterItemActive) ?? [];
+  const quickFilterValues = model?.quickFilterValues?.filter((value) => value !== "") ?? [];
+  if (items.length === 0 && quickFilterValues.length === 0) return null;
+
+  const encoded: EncodedFilterModel = [
+    items.map(
+      (item): EncodedFilterItem =>
+        item.value === undefined
+          ? [item.field, item.operator]
+          : [item.field, item.operator, item.value],
+    ),
+  ];
+  if (model?.logicOperator === GridLogicOperator.Or || quickFilterValues.length > 0) {
+    encoded.push(model?.logicOperator === GridLogicOperator.Or ? "or" : "and");
+  }
+  if (quickFilterValues.length > 0) encoded.push(quickFilterValues);
+
+  return `${FILTER_MODEL_VERSION}.${toBase64Url(JSON.stringify(encoded))}`;
+}
+
+/**
+ * Decodes a filter model written by encodeFilterModel, null for unknown versions or broken links
+ */
+export function decodeFilterModel(encoded: string | null | undefined): GridFilterModel | null {
+  if (!encoded) return null;
+  const [version, payload] = encoded.split(".", 2);
+  if (Number(version) !== FILTER_MODEL_VERSION || !payload) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fromBase64Url(payload));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed) || !Array.isArray(parsed[0])) return null;
+
+  const [items, logicOperator, quickFilterValues] = parsed as EncodedFilterModel;
+  const validItems = items.filter(
+    (item): item is EncodedFilterItem =>
+      Array.isArray(item) && typeof item[0] === "string" && typeof item[1] === "string",
+  );
+
+  const model: GridFilterModel = {
+    // The data grid needs an id per item once there are several
+    items: validItems.map(
+      ([field, operator, value], index): GridFilterItem => ({
+        id: index + 1,
+        field,
+        operator,
+        value,
+      }),
+    ),
+  };
+  if (logicOperator === "or") model.logicOperator = GridLogicOperator.Or;
+  if (Array.isArray(quickFilterValues)) model.quickFilterValues = quickFilterValues;
+  return model;
+}
+
+/**
+ * Filter models of the comparison groups stored in the query string, up to the last one set
+ */
+export function readFilterParams(params: URLSearchParams) {
+  const filterGroups = Array.from({ length: MAX_COMPARISON_GROUPS }, (_, index) =>
+    decodeFilterModel(params.get(filterGroupParam(index + 1))),
+  );
+  while (filterGroups.length > 0 && filterGroups[filterGroups.length - 1] == null) {
+    filterGroups.pop();
+  }
+  return { filterGroups };
+}
+
+/**
+ * Query parameters for the filter models of all comparison groups; unused groups are removed
+ */
+export function filterParams(filterGroups: GridFilterModel[]): Record<string, string | null> {
+  return Object.fromEntries(
+    Array.from({ length: MAX_COMPARISON_GROUPS }, (_, index) => [
+      filterGroupParam(index + 1),
+      encodeFilterModel(filterGroups[index]),
+    ]),
+  );
+}
+
+/**
+ * Returns the value if it is one of the allowed values, otherwise null
+ */
+export function parseEnumParam<T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+): T | null {
+  return value != null && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+}
+
+/**
+ * Parses an integer within the given bounds, otherwise null
+ */
+export function parseIntParam(value: string | null, min: number, max: number): number | null {
+  if (value == null || !/^-?\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+/**
+ * Parses a date as YYYY-MM-DD, otherwise null
+ */
+export function parseDateParam(value: string | null): string | null {
+  if (value == null || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return dayjs(value).format("YYYY-MM-DD") === value ? value : null;
+}
+
+/**
+ * Parses a month as YYYY-MM, otherwise null
+ */
+export function parseMonthParam(value: string | null): { month: number; year: number } | null {
+  const match = value?.match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? { month, year: Number(match[1]) } : null;
+}
+
+/**
+ * Applies the values to the query string; null removes a parameter
+ */
+export function mergeSearchParams(
+  search: string,
+  values: Record<string, string | null>,
+): URLSearchParams {
+  const params = new URLSearchParams(search);
+  for (const [key, value] of Object.entries(values)) {
+    if (value == null) params.delete(key);
+    else params.set(key, value);
+  }
+  return params;
+}
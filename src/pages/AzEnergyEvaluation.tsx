@@ -8,9 +8,11 @@ import {
 import { DataGridWrapper } from "../components/common/data-grid";
 import { PageLayout } from "../components/common/layout";
 import { useComparisonMode } from "../hooks/useComparisonMode";
+import { useConfigHistoryRows } from "../hooks/useSystemConfigs";
 import { useSystemConsumptionRows } from "../hooks/useSystemConsumptionMode";
 import { createFilterValueResolver } from "../lib/filterValueResolver";
 import { supabase } from "../lib/supabaseClient";
+import { summarizeStandbyPower } from "../lib/systemConsumption";
 import { commonHiddenColumns, getTimeSeriesColumns } from "../lib/tableHelpers";
 import type { Database } from "../types/database.types";
 
@@ -20,6 +22,19 @@ function getMonthlyValueKey(row: MonthlyValue) {
   return row.id ?? `${row.heating_id}-${row.month}-${row.year}`;
 }
 
+function toScatterData(rows: MonthlyValue[]): YearlyEnergyScatterDataPoint[] {
+  return rows.map((row) => ({
+    heating_id: row.heating_id,
+    user_id: row.user_id,
+    name: row.name,
+    year: row.year,
+    month: row.month,
+    heated_area_m2: row.heated_area_m2,
+    thermal_energy_heating_kwh: row.thermal_energy_heating_kwh,
+    electrical_energy_heating_kwh: row.electrical_energy_heating_kwh,
+  }));
+}
+
 export default function AzEnergyEvaluation() {
   const { t } = useTranslation();
   const [filteredData, setFilteredData] = useState<MonthlyValue[] | null>(null);
@@ -74,10 +89,19 @@ export default function AzEnergyEvaluation() {
       return data as MonthlyValue[];
     },
   });
-  const displayData = useSystemConsumptionRows(data, "month");
+  // Measurements keep the configuration that was valid when they were recorded
+  const configHistoryData = useConfigHistoryRows(data);
+  const displayData = useSystemConsumptionRows(configHistoryData, "month");
+  const standbyPowerSummary = useMemo(
+    () => summarizeStandbyPower(configHistoryData),
+    [configHistoryData],
+  );
 
   // Use comparison mode hook
-  const { dataGridComparisonProps } = useComparisonMode(displayData, filterValueResolver);
+  const { comparisonGroupsForChart, dataGridComparisonProps } = useComparisonMode(
+    displayData,
+    filterValueResolver,
+  );
 
   // Prepare scatter plot data (use filtered data if available)
   const scatterData: YearlyEnergyScatterDataPoint[] = useMemo(() => {
@@ -86,22 +110,28 @@ export default function AzEnergyEvaluation() {
     const dataToUse = filteredKeys
       ? (displayData || []).filter((row) => filteredKeys.has(getMonthlyValueKey(row)))
       : displayData || [];
-    return dataToUse.map((row) => ({
-      heating_id: row.heating_id,
-      user_id: row.user_id,
-      name: row.name,
-      year: row.year,
-      month: row.month,
-      heated_area_m2: row.heated_area_m2,
-      thermal_energy_heating_kwh: row.thermal_energy_heating_kwh,
-      electrical_energy_heating_kwh: row.electrical_energy_heating_kwh,
-    }));
+    return toScatterData(dataToUse);
   }, [displayData, filteredData]);
 
+  const scatterComparisonGroups = useMemo(
+    () =>
+      comparisonGroupsForChart?.map((group) => ({
+        ...group,
+        data: toScatterData(group.data as MonthlyValue[]),
+      })),
+    [comparisonGroupsForChart],
+  );
+
   // Memoize the chart component to prevent unnecessary re-renders
   const chartComponent = useMemo(() => {
-    return <AzYearlyEnergyScatterChart data={scatterData} currentUserId={currentUserId} />;
-  }, [scatterData, currentUserId]);
+    return (
+      <AzYearlyEnergyScatterChart
+        data={scatterData}
+        currentUserId={currentUserId}
+        comparisonGroups={scatterComparisonGroups}
+      />
+    );
+  }, [scatterData, currentUserId, scatterComparisonGroups]);
 
   return (
     <PageLayout
@@ -110,6 +140,7 @@ export default function AzEnergyEvaluation() {
       error={error}
       isLoading={isLoading}
       showSystemConsumptionToggle
+      standbyPowerSummary={standbyPowerSummary}
       chart={chartComponent}
     >
       <DataGridWrapper
@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { type QueryObserverResult, useQueries, useQuery } from "@tanstack/react-query";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { AzScatterChart, type ScatterDataPoint } from "../components/common/charts";
@@ -6,10 +6,20 @@ import { DataGridWrapper } from "../components/common/data-grid";
 import { PageLayout } from "../components/common/layout";
 import { useComparisonMode } from "../hooks/useComparisonMode";
 import { useDebouncedValue } from "../hooks/useDebouncedValue";
-import { useSystemConsumptionRows } from "../hooks/useSystemConsumptionMode";
+import { useConfigHistoryRows, useSystemConfigs } from "../hooks/useSystemConfigs";
+import {
+  useSystemConsumptionMode,
+  useSystemConsumptionRows,
+} from "../hooks/useSystemConsumptionMode";
 import { createFilterValueResolver } from "../lib/filterValueResolver";
-import { sanitizeGridFilterModel } from "../lib/serverFilterModel";
+import { type ServerFilterModel, sanitizeGridFilterModel } from "../lib/serverFilterModel";
 import { supabase } from "../lib/supabaseClient";
+import {
+  applyConfigHistory,
+  getHeatingIds,
+  groupConfigsBySystem,
+} from "../lib/systemConfigHistory";
+import { removeSystemConsumptionFromRows, summarizeStandbyPower } from "../lib/systemConsumption";
 import { commonHiddenColumns, getTimeSeriesColumns } from "../lib/tableHelpers";
 import type { Database } from "../types/database.types";
 
@@ -19,6 +29,55 @@ const MAX_SAMPLE_ROWS = 1000;
 const OUTDOOR_TEMPERATURE_BIN_WIDTH_K = 2;
 const FILTER_REQUEST_DEBOUNCE_MS = 700;
 
+// Fetch sampled daily values via RPC. The RPC operates on the corrected outdoor_temperature_c.
+function sampledDailyValuesQuery(
+  serverFilterModel: ServerFilterModel,
+  currentUserId: string | null,
+) {
+  return {
+    queryKey: [
+      "sample_daily_values_view_by_outdoor_temperature",
+      JSON.stringify(serverFilterModel),
+      currentUserId,
+      MAX_SAMPLE_ROWS,
+      OUTDOOR_TEMPERATURE_BIN_WIDTH_K,
+    ],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc(
+        "sample_daily_values_view_by_outdoor_temperature",
+        {
+          filter_model: serverFilterModel,
+          max_rows: MAX_SAMPLE_ROWS,
+          outdoor_temperature_bin_width_k: OUTDOOR_TEMPERATURE_BIN_WIDTH_K,
+          current_user_id: currentUserId,
+        },
+      );
+
+      if (error) throw error;
+
+      return (data ?? []) as DailyValue[];
+    },
+  };
+}
+
+// Module-level so that the combined result stays stable between renders
+function combineGroupData(results: QueryObserverResult<DailyValue[]>[]) {
+  return results.map((result) => result.data);
+}
+
+function toScatterData(rows: DailyValue[]): ScatterDataPoint[] {
+  return rows.map((row) => ({
+    heating_id: row.heating_id,
+    user_id: row.user_id,
+    name: row.name,
+    date: row.date,
+    az: row.az,
+    az_heating: row.az_heating,
+    outdoor_temperature_c: row.outdoor_temperature_c,
+    flow_temperature_c: row.flow_temperature_c,
+  }));
+}
+
 export default function AzTempEvaluation() {
   const { t } = useTranslation();
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -41,7 +100,7 @@ export default function AzTempEvaluation() {
     [columns],
   );
 
-  const { dataGridComparisonProps, activeFilterModel } = useComparisonMode(
+  const { comparisonGroups, dataGridComparisonProps, activeFilterModel } = useComparisonMode(
     undefined,
     filterValueResolver,
   );
@@ -52,53 +111,65 @@ export default function AzTempEvaluation() {
     [debouncedFilterModel],
   );
 
-  // Fetch sampled daily values via RPC. The RPC operates on the corrected outdoor_temperature_c.
   const { data, isLoading, error } = useQuery<DailyValue[]>({
-    queryKey: [
-      "sample_daily_values_view_by_outdoor_temperature",
-      JSON.stringify(serverFilterModel),
-      currentUserId,
-      MAX_SAMPLE_ROWS,
-      OUTDOOR_TEMPERATURE_BIN_WIDTH_K,
-    ],
-    queryFn: async () => {
-      const { data, error } = await supabase.rpc(
-        "sample_daily_values_view_by_outdoor_temperature",
-        {
-          filter_model: serverFilterModel,
-          max_rows: MAX_SAMPLE_ROWS,
-          outdoor_temperature_bin_width_k: OUTDOOR_TEMPERATURE_BIN_WIDTH_K,
-          current_user_id: currentUserId,
-        },
-      );
-
-      if (error) throw error;
-
-      return (data ?? []) as DailyValue[];
-    },
+    ...sampledDailyValuesQuery(serverFilterModel, currentUserId),
     placeholderData: (previousData) => previousData,
   });
-  const displayData = useSystemConsumptionRows(data, "day");
+  // Measurements keep the configuration that was valid when they were recorded
+  const configHistoryData = useConfigHistoryRows(data);
+  const displayData = useSystemConsumptionRows(configHistoryData, "day");
+  const standbyPowerSummary = useMemo(
+    () => summarizeStandbyPower(configHistoryData),
+    [configHistoryData],
+  );
 
   // Prepare scatter plot data (use filtered data if available)
-  const scatterData: ScatterDataPoint[] = useMemo(() => {
-    const dataToUse = filteredData ?? displayData ?? [];
-    return dataToUse.map((row) => ({
-      heating_id: row.heating_id,
-      user_id: row.user_id,
-      name: row.name,
-      date: row.date,
-      az: row.az,
-      az_heating: row.az_heating,
-      outdoor_temperature_c: row.outdoor_temperature_c,
-      flow_temperature_c: row.flow_temperature_c,
-    }));
-  }, [displayData, filteredData]);
+  const scatterData: ScatterDataPoint[] = useMemo(
+    () => toScatterData(filteredData ?? displayData ?? []),
+    [displayData, filteredData],
+  );
+
+  // In comparison mode, every group is sampled by the server with its own filters
+  const debouncedComparisonGroups = useDebouncedValue(comparisonGroups, FILTER_REQUEST_DEBOUNCE_MS);
+  const groupData = useQueries({
+    queries: (debouncedComparisonGroups ?? []).map((group) =>
+      sampledDailyValuesQuery(sanitizeGridFilterModel(group.filterModel), currentUserId),
+    ),
+    combine: combineGroupData,
+  });
+  const groupHeatingIds = useMemo(
+    () => getHeatingIds(groupData.flatMap((rows) => rows ?? [])),
+    [groupData],
+  );
+  const { data: configs } = useSystemConfigs(groupHeatingIds);
+  const { excludeSystemConsumption } = useSystemConsumptionMode();
+
+  const scatterComparisonGroups = useMemo(() => {
+    if (!debouncedComparisonGroups) return undefined;
+    const configsBySystem = groupConfigsBySystem(configs ?? []);
+    return debouncedComparisonGroups.map((group, index) => {
+      const rows = applyConfigHistory(groupData[index] ?? [], configsBySystem);
+      return {
+        id: String(group.id),
+        name: group.name,
+        color: group.color,
+        data: toScatterData(
+          (excludeSystemConsumption ? removeSystemConsumptionFromRows(rows, "day") : rows) ?? [],
+        ),
+      };
+    });
+  }, [debouncedComparisonGroups, groupData, configs, excludeSystemConsumption]);
 
   // Memoize the chart component to prevent unnecessary re-renders
   const chartComponent = useMemo(() => {
-    return <AzScatterChart data={scatterData} currentUserId={currentUserId} />;
-  }, [scatterData, currentUserId]);
+    return (
+      <AzScatterChart
+        data={scatterData}
+        currentUserId={currentUserId}
+        comparisonGroups={scatterComparisonGroups}
+      />
+    );
+  }, [scatterData, currentUserId, scatterComparisonGroups]);
 
   return (
     <PageLayout
@@ -107,6 +178,7 @@ export default function AzTempEvaluation() {
       error={error}
       isLoading={isLoading}
       showSystemConsumptionToggle
+      standbyPowerSummary={standbyPowerSummary}
       chart={chartComponent}
     >
       <DataGridWrapper
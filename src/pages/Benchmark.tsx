@@ -0,0 +1,312 @@
+import { Button, Checkbox, FormControlLabel, Tooltip } from "@mui/material";
+import { useQuery } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Link } from "react-router-dom";
+import { AzBarChart } from "../components/common/charts";
+import { DataGridWrapper } from "../components/common/data-grid";
+import { ChartUtilityFrame, PageLayout } from "../components/common/layout";
+import { useSession } from "../components/common/layout/Layout";
+import { useComparisonMode } from "../hooks/useComparisonMode";
+import { useSystem } from "../hooks/useSystem";
+import { createFilterValueResolver } from "../lib/filterValueResolver";
+import { formatMonthPeriod, getLastTwelveMonthsFilter } from "../lib/monthPeriods";
+import {
+  buildOwnSystemFilterModel,
+  buildPeerFilterModel,
+  DEFAULT_PEER_GROUP_SETTINGS,
+  HEATED_AREA_TOLERANCES,
+  loosenPeerGroupSettings,
+  MIN_PEER_GROUP_SIZE,
+  PEER_CRITERIA,
+  type PeerCriterion,
+  type PeerGroupSettings,
+  type PeerStats,
+  summarizePeerMonths,
+} from "../lib/peerGroup";
+import { supabase } from "../lib/supabaseClient";
+import { commonHiddenColumns, getTimeSeriesColumns } from "../lib/tableHelpers";
+import type { Database } from "../types/database.types";
+
+type MonthlyValue = Database["public"]["Views"]["monthly_values_view"]["Row"];
+
+const BENCHMARK_MONTHS = 12;
+const MONTH_PAGE_SIZE = 1000;
+const BENCHMARK_GROUP_NAMES: Record<string, string> = {
+  "1": "benchmark.peerGroup",
+  "2": "benchmark.mySystem",
+};
+
+export default function Benchmark() {
+  const { t } = useTranslation();
+  const { session } = useSession();
+  const userId = session?.user?.id;
+  const { data: system, isLoading: systemLoading } = useSystem(userId);
+  const [settings, setSettings] = useState<PeerGroupSettings>(DEFAULT_PEER_GROUP_SETTINGS);
+
+  const columns = useMemo(() => getTimeSeriesColumns(t, "month"), [t]);
+  const filterValueResolver = useMemo(
+    () => createFilterValueResolver<MonthlyValue>(columns),
+    [columns],
+  );
+
+  const monthFilter = getLastTwelveMonthsFilter();
+  const { data, isLoading, error } = useQuery<MonthlyValue[]>({
+    queryKey: ["benchmark", monthFilter],
+    queryFn: async () => {
+      const rows: MonthlyValue[] = [];
+      for (let from = 0; ; from += MONTH_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("monthly_values_view")
+          .select("*")
+          .or(monthFilter)
+          .order("year", { ascending: true })
+          .order("month", { ascending: true })
+          .order("heating_id", { ascending: true })
+          .range(from, from + MONTH_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data as MonthlyValue[]));
+        if (data.length < MONTH_PAGE_SIZE) return rows;
+      }
+    },
+    enabled: !!system,
+  });
+
+  const displayData = useMemo(
+    () =>
+      data?.map((row) => ({
+        ...row,
+        period: `${row.year}-${String(row.month).padStart(2, "0")}`,
+      })),
+    [data],
+  );
+
+  // The last twelve complete months, oldest first
+  const periods = useMemo(() => {
+    const start = dayjs().startOf("month").subtract(BENCHMARK_MONTHS, "month");
+    return Array.from({ length: BENCHMARK_MONTHS }, (_, i) =>
+      start.add(i, "month").format("YYYY-MM"),
+    );
+  }, []);
+
+  const {
+    comparisonMode,
+    comparisonGroups,
+    comparisonGroupsForChart,
+    filteredDataForChart,
+    dataGridComparisonProps,
+  } = useComparisonMode(displayData, filterValueResolver);
+  const { onUpdateFilterGroup } = dataGridComparisonProps;
+
+  // Filter 1 holds the peer group, filter 2 the own system; both remain editable in the table
+  const peerFilterModel = useMemo(
+    () => (system ? buildPeerFilterModel(system, settings) : null),
+    [system, settings],
+  );
+  useEffect(() => {
+    if (!system || !peerFilterModel) return;
+    onUpdateFilterGroup(1, peerFilterModel);
+    onUpdateFilterGroup(2, buildOwnSystemFilterModel(system));
+  }, [system, peerFilterModel, onUpdateFilterGroup]);
+
+  // Follows filter 1, including refinements made in the table
+  const peerRows = useMemo(
+    () =>
+      comparisonGroupsForChart?.find((group) => group.id === "1")?.data ??
+      filteredDataForChart ??
+      [],
+    [comparisonGroupsForChart, filteredDataForChart],
+  );
+  const peerCount = useMemo(
+    () => new Set(peerRows.map((row) => row.heating_id).filter(Boolean)).size,
+    [peerRows],
+  );
+  const peerMonths = useMemo(
+    () => (system ? summarizePeerMonths(peerRows as MonthlyValue[], system.heating_id) : []),
+    [peerRows, system],
+  );
+  const looserSettings = loosenPeerGroupSettings(settings);
+
+  // Names the peer group and the own system unless the user renamed them
+  const chartGroups = useMemo(
+    () =>
+      comparisonGroupsForChart?.map((group) => {
+        const defaultName = BENCHMARK_GROUP_NAMES[group.id];
+        const renamed = comparisonGroups?.find((g) => String(g.id) === group.id)?.label?.trim();
+        return defaultName && !renamed ? { ...group, name: t(defaultName) } : group;
+      }),
+    [comparisonGroupsForChart, comparisonGroups, t],
+  );
+
+  const toggleCriterion = (criterion: PeerCriterion, checked: boolean) => {
+    setSettings((current) => ({
+      ...current,
+      criteria: checked
+        ? PEER_CRITERIA.filter((c) => c === criterion || current.criteria.includes(c))
+        : current.criteria.filter((c) => c !== criterion),
+    }));
+  };
+
+  const formatStats = (stats: PeerStats | null, digits: number) =>
+    stats
+      ? {
+          own: stats.ownValue != null ? stats.ownValue.toFixed(digits) : "-",
+          median: stats.median.toFixed(digits),
+          quartiles: `${stats.q1.toFixed(digits)} – ${stats.q3.toFixed(digits)}`,
+          rank: stats.rank != null ? `${stats.rank} / ${stats.count}` : "-",
+        }
+      : null;
+
+  if (!session) {
+    return (
+      <section>
+        <h2>{t("benchmark.title")}</h2>
+        <p className="muted">{t("benchmark.loginRequired")}</p>
+      </section>
+    );
+  }
+
+  if (!systemLoading && !system) {
+    return (
+      <section>
+        <h2>{t("benchmark.title")}</h2>
+        <p className="muted">
+          {t("benchmark.noSystem")} <Link to="/my-account">{t("nav.myAccount")}</Link>
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <PageLayout
+      titleKey="benchmark.title"
+      infoKey="benchmark.info"
+      error={error}
+      isLoading={isLoading || systemLoading}
+      chartControls={
+        <div className="filter-container">
+          <div className="flex-center-gap-sm">
+            {PEER_CRITERIA.map((criterion) => (
+              <FormControlLabel
+                key={criterion}
+                className="page-peer-criterion-checkbox"
+                control={
+                  <Checkbox
+                    checked={settings.criteria.includes(criterion)}
+                    onChange={(e) => toggleCriterion(criterion, e.target.checked)}
+                  />
+                }
+                label={t(`benchmark.criteria.${criterion}`)}
+              />
+            ))}
+            {settings.criteria.includes("heated_area_m2") && (
+              <Tooltip title={t("benchmark.heatedAreaToleranceHint")}>
+                <select
+                  id="benchmark-area-tolerance-select"
+                  value={settings.heatedAreaTolerance}
+                  onChange={(e) =>
+                    setSettings((current) => ({
+                      ...current,
+                      heatedAreaTolerance: Number(e.target.value),
+                    }))
+                  }
+                  className="form-select page-filter-select-tolerance"
+                  aria-label={t("benchmark.heatedAreaTolerance")}
+                >
+                  {HEATED_AREA_TOLERANCES.map((tolerance) => (
+                    <option key={tolerance} value={tolerance}>
+                      ± {tolerance * 100} %
+                    </option>
+                  ))}
+                </select>
+              </Tooltip>
+            )}
+          </div>
+        </div>
+      }
+      chart={
+        <ChartUtilityFrame>
+          <AzBarChart
+            data={comparisonMode ? [] : (filteredDataForChart ?? [])}
+            comparisonGroups={chartGroups}
+            showGroupLegend={comparisonMode}
+            indexField="period"
+            indexLabel="common.month"
+            indexValues={periods}
+            indexFormatter={formatMonthPeriod}
+            aggregationMode="median"
+            granularity="month"
+          />
+        </ChartUtilityFrame>
+      }
+    >
+      {system && (
+        <div className="card page-stats-card">
+          <p>{t("benchmark.peerCount", { count: peerCount })}</p>
+          {peerCount < MIN_PEER_GROUP_SIZE && (
+            <p className="benchmark-warning">
+              {t("benchmark.tooFewPeers", { count: MIN_PEER_GROUP_SIZE })}{" "}
+              {looserSettings && (
+                <Button size="small" onClick={() => setSettings(looserSettings)}>
+                  {t("benchmark.loosenCriteria")}
+                </Button>
+              )}
+            </p>
+          )}
+          {peerMonths.length > 0 && (
+            <table className="page-stats-table">
+              <thead>
+                <tr>
+                  <th>{t("common.month")}</th>
+                  <th>{t("benchmark.ownAz")}</th>
+                  <th>{t("benchmark.medianAz")}</th>
+                  <th>{t("benchmark.quartiles")}</th>
+                  <th>{t("benchmark.rank")}</th>
+                  <th>{t("benchmark.ownEnergyPerArea")}</th>
+                  <th>{t("benchmark.medianEnergyPerArea")}</th>
+                  <th>{t("benchmark.quartiles")}</th>
+                  <th>{t("benchmark.rank")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {peerMonths.map((month) => {
+                  const az = formatStats(month.az, 2);
+                  const energy = formatStats(month.electricalEnergyPerArea, 2);
+                  return (
+                    <tr key={`${month.year}-${month.month}`}>
+                      <td>
+                        {formatMonthPeriod(`${month.year}-${String(month.month).padStart(2, "0")}`)}
+                      </td>
+                      <td>{az?.own ?? "-"}</td>
+                      <td>{az?.median ?? "-"}</td>
+                      <td>{az?.quartiles ?? "-"}</td>
+                      <td>{az?.rank ?? "-"}</td>
+                      <td>{energy?.own ?? "-"}</td>
+                      <td>{energy?.median ?? "-"}</td>
+                      <td>{energy?.quartiles ?? "-"}</td>
+                      <td>{energy?.rank ?? "-"}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+      <DataGridWrapper
+        rows={displayData || []}
+        columns={columns}
+        loading={isLoading}
+        getRowId={(row) =>
+          typeof row.id === "string" || typeof row.id === "number"
+            ? row.id
+            : `${row.heating_id}-${row.month}-${row.year}`
+        }
+        columnVisibilityModel={commonHiddenColumns}
+        {...dataGridComparisonProps}
+      />
+    </PageLayout>
+  );
+}
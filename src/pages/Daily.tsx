@@ -1,84 +1,283 @@
+import { Checkbox, FormControlLabel } from "@mui/material";
+import type { GridSortModel } from "@mui/x-data-grid";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import dayjs from "dayjs";
 import { useCallback, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { AzBarChart, type ChartDataRow, HistogramChart } from "../components/common/charts";
+import {
+  type AggregationMode,
+  AzBarChart,
+  type ChartDataRow,
+  HistogramChart,
+  HourlyHeatmapChart,
+} from "../components/common/charts";
 import { DataGridWrapper } from "../components/common/data-grid";
 import { ChartUtilityFrame, PageLayout } from "../components/common/layout";
-import { ConfirmDialog, MetricModeToggle, ViewModeToggle } from "../components/ui";
-import { useComparisonMode } from "../hooks/useComparisonMode";
+import {
+  AggregationModeToggle,
+  ConfirmDialog,
+  CostSettingsButton,
+  MetricModeToggle,
+  ViewModeToggle,
+} from "../components/ui";
+import { useComparisonDataGroups, useComparisonMode } from "../hooks/useComparisonMode";
+import { useEnergyCostRows } from "../hooks/useCostSettings";
 import { useDeleteMeasurement } from "../hooks/useDeleteOperations";
-import { useSystemConsumptionRows } from "../hooks/useSystemConsumptionMode";
-import { filterRealisticDataForCharts } from "../lib/dataQuality";
+import { useOutlierHistory } from "../hooks/useOutlierHistory";
+import { useServerChartFilters } from "../hooks/useServerChartFilters";
+import { useServerGridRows } from "../hooks/useServerGridRows";
+import { useConfigHistoryRows } from "../hooks/useSystemConfigs";
+import {
+  useSystemConsumptionMode,
+  useSystemConsumptionRows,
+} from "../hooks/useSystemConsumptionMode";
+import { useTimeSeriesAggregates } from "../hooks/useTimeSeriesAggregates";
+import { useInitialSearchParams, useSyncUrlState } from "../hooks/useUrlState";
+import { filterRealisticDataForCharts, isStatisticalOutlier } from "../lib/dataQuality";
+import { addHourlyDefrost } from "../lib/defrost";
+import type { CostFields } from "../lib/energyCost";
 import { createFilterValueResolver } from "../lib/filterValueResolver";
+import { analyzeHourlyCoverage, countExpectedHours, isCompleteDay } from "../lib/hourlyCoverage";
+import { buildHourlyHeatmap } from "../lib/hourlyHeatmap";
+import {
+  detectSystemOutliers,
+  HOURLY_OUTLIER_HISTORY_DAYS,
+  hourOfDayKey,
+  type OutlierDetectableRow,
+} from "../lib/outlierDetection";
+import {
+  applyServerFilterModels,
+  canFilterOnServer,
+  SYSTEM_FILTER_FIELDS,
+  sanitizeGridFilterModel,
+  TIME_SERIES_SORT_FIELDS,
+} from "../lib/serverFilterModel";
 import { supabase } from "../lib/supabaseClient";
+import { getHeatingIds } from "../lib/systemConfigHistory";
+import { removeSystemConsumptionFromRows, summarizeStandbyPower } from "../lib/systemConsumption";
 import { commonHiddenColumns, getTimeSeriesColumns } from "../lib/tableHelpers";
+import { filterParams, parseDateParam, parseEnumParam, readFilterParams } from "../lib/urlState";
 import type { Database } from "../types/database.types";
 
 type MeasurementDeltaRow = Database["public"]["Views"]["measurement_deltas_view"]["Row"];
-type ViewMode = "timeSeries" | "distribution";
-type MetricMode = "cop" | "energy";
+// Rows shown in the grid also carry the costs of the selected tariff
+type DailyRow = MeasurementDeltaRow & Partial<CostFields>;
+type MetricMode = "cop" | "energy" | "normalized" | "cost";
+type CoverageTimeRow = Pick<MeasurementDeltaRow, "id" | "heating_id" | "created_at">;
+
+const DAY_PAGE_SIZE = 1000;
+const MONTH_PAGE_SIZE = 1000;
+const VIEW_MODES = ["timeSeries", "distribution", "heatmap"] as const;
+type ViewMode = (typeof VIEW_MODES)[number];
+// Weather-normalized values need daily outdoor temperatures
+const METRIC_MODES: readonly MetricMode[] = ["cop", "energy", "cost"];
+const GRID_SORT_FIELDS: ReadonlySet<string> = new Set([...TIME_SERIES_SORT_FIELDS, "created_at"]);
+const GRID_INITIAL_SORT: GridSortModel = [{ field: "created_at", sort: "desc" }];
+
+function measurementRowId(row: { id: string | null }) {
+  return row.id as string;
+}
+
+function periodHour(periodStart: string) {
+  return dayjs(periodStart).hour().toString();
+}
+
+// View already provides deltas, AZ calculations, and temperature corrections
+// Just add hour field for chart grouping and mark defrost hours, flag hours deviating from
+// the same hour of the system's history and determine which hours of each system and day are
+// missing or merged into one delta, from the times of all hours of the rows' systems
+function prepareHourlyRows<T extends DailyRow>(
+  rows: T[],
+  outlierHistory: readonly OutlierDetectableRow[],
+  coverageRows: readonly CoverageTimeRow[],
+) {
+  const coverageById = new Map(
+    analyzeHourlyCoverage([...coverageRows], (day) => countExpectedHours(day)).map((row) => [
+      row.id,
+      row,
+    ]),
+  );
+
+  return detectSystemOutliers(
+    addHourlyDefrost(rows).map((row) => ({
+      ...row,
+      hour: dayjs(row.created_at).hour().toString(),
+    })),
+    outlierHistory,
+    { baselineKey: hourOfDayKey },
+  ).map((row) => {
+    const coverage = coverageById.get(row.id);
+    return {
+      ...row,
+      merged_hours: coverage?.merged_hours ?? 0,
+      coverage: coverage?.coverage ?? null,
+    };
+  });
+}
+
+// The view provides deltas, but the histogram in energy mode needs total consumption per system
+// We can sum the deltas to get the same result as (last - first) cumulative values
+function sumDeltasPerSystem(rows: DailyRow[], excludeOutliers: boolean) {
+  const sourceData = excludeOutliers ? rows.filter((row) => !isStatisticalOutlier(row)) : rows;
+
+  // Group deltas by heating_id and sum them
+  const systemTotals = new Map<
+    string,
+    {
+      user_id: string | null;
+      thermal_energy_kwh: number;
+      electrical_energy_kwh: number;
+      thermal_energy_heating_kwh: number;
+      electrical_energy_heating_kwh: number;
+      electricity_cost_eur: number;
+      electricity_cost_heating_eur: number;
+    }
+  >();
+
+  sourceData.forEach((row) => {
+    const heatingId = String(row.heating_id);
+    if (!heatingId || heatingId === "null" || heatingId === "undefined") return;
+
+    const existing = systemTotals.get(heatingId) || {
+      user_id: row.user_id,
+      thermal_energy_kwh: 0,
+      electrical_energy_kwh: 0,
+      thermal_energy_heating_kwh: 0,
+      electrical_energy_heating_kwh: 0,
+      electricity_cost_eur: 0,
+      electricity_cost_heating_eur: 0,
+    };
+
+    // Sum the deltas (treating null as 0, converting to number)
+    existing.thermal_energy_kwh += Number(row.thermal_energy_kwh || 0);
+    existing.electrical_energy_kwh += Number(row.electrical_energy_kwh || 0);
+    existing.thermal_energy_heating_kwh += Number(row.thermal_energy_heating_kwh || 0);
+    existing.electrical_energy_heating_kwh += Number(row.electrical_energy_heating_kwh || 0);
+    existing.electricity_cost_eur += Number(row.electricity_cost_eur || 0);
+    existing.electricity_cost_heating_eur += Number(row.electricity_cost_heating_eur || 0);
+
+    systemTotals.set(heatingId, existing);
+  });
+
+  // Convert to array format expected by histogram
+  return Array.from(systemTotals.entries()).map(([heating_id, totals]) => ({
+    heating_id,
+    user_id: totals.user_id, // Needed to highlight the user's own system
+    thermal_energy_kwh: totals.thermal_energy_kwh,
+    electrical_energy_kwh: totals.electrical_energy_kwh,
+    thermal_energy_heating_kwh: totals.thermal_energy_heating_kwh,
+    electrical_energy_heating_kwh: totals.electrical_energy_heating_kwh,
+    electricity_cost_eur: totals.electricity_cost_eur,
+    electricity_cost_heating_eur: totals.electricity_cost_heating_eur,
+    created_at: null, // Not needed for aggregated data
+  }));
+}
 
 export default function Daily() {
   const { t } = useTranslation();
   const queryClient = useQueryClient();
-  const [date, setDate] = useState(dayjs().format("YYYY-MM-DD"));
-  const [filteredData, setFilteredData] = useState<MeasurementDeltaRow[]>([]);
-  const [viewMode, setViewMode] = useState<ViewMode>("timeSeries");
-  const [metricMode, setMetricMode] = useState<MetricMode>("cop");
+  // Date, view, metric and filters can be restored from a shared link
+  const searchParams = useInitialSearchParams();
+  const [date, setDate] = useState(
+    () => parseDateParam(searchParams.get("date")) ?? dayjs().format("YYYY-MM-DD"),
+  );
+  const [viewMode, setViewMode] = useState<ViewMode>(
+    () => parseEnumParam(searchParams.get("view"), VIEW_MODES) ?? "timeSeries",
+  );
+  const [metricMode, setMetricMode] = useState<MetricMode>(
+    () => parseEnumParam(searchParams.get("metric"), METRIC_MODES) ?? "cop",
+  );
+  const [aggregationMode, setAggregationMode] = useState<AggregationMode>("weighted");
+  const [excludeOutliers, setExcludeOutliers] = useState(false);
+  const [completeDaysOnly, setCompleteDaysOnly] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [measurementToDelete, setMeasurementToDelete] = useState<string | null>(null);
 
   // Delete mutation
   const deleteMutation = useDeleteMeasurement();
 
-  // Wrap setFilteredData in useCallback to prevent infinite loops in DataGridWrapper
-  const handleFilterChange = useCallback((data: MeasurementDeltaRow[]) => {
-    setFilteredData(data);
-  }, []);
-
   // Define columns for Daily page
-  const columns = useMemo(() => getTimeSeriesColumns(t, "time"), [t]);
+  const columns = useMemo(() => getTimeSeriesColumns(t, "time", { defrost: true }), [t]);
   const filterValueResolver = useMemo(
     () => createFilterValueResolver<MeasurementDeltaRow>(columns),
     [columns],
   );
 
   // Memoize filter section to prevent recreating on every render
-  const filterSection = useMemo(
-    () => (
+  const filterSection = useMemo(() => {
+    // The heatmap steps through whole months
+    const step = viewMode === "heatmap" ? "month" : "day";
+
+    return (
       <div className="filter-container">
         <div className="flex-center-gap-sm">
           <button
             type="button"
-            onClick={() => setDate(dayjs(date).subtract(1, "day").format("YYYY-MM-DD"))}
-            title={t("common.previousDay") || "Previous day"}
+            onClick={() => setDate(dayjs(date).subtract(1, step).format("YYYY-MM-DD"))}
+            title={
+              step === "month"
+                ? t("common.previousMonth")
+                : t("common.previousDay") || "Previous day"
+            }
             className="nav-button"
           >
             ◀
           </button>
-          <input
-            id="daily-date-picker"
-            type="date"
-            value={date}
-            onChange={(e) => setDate(e.target.value)}
-            className="form-input"
-          />
+          {viewMode === "heatmap" ? (
+            <input
+              id="daily-month-picker"
+              type="month"
+              value={date.slice(0, 7)}
+              onChange={(e) => e.target.value && setDate(`${e.target.value}-01`)}
+              className="form-input"
+            />
+          ) : (
+            <input
+              id="daily-date-picker"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="form-input"
+            />
+          )}
           <button
             type="button"
-            onClick={() => setDate(dayjs(date).add(1, "day").format("YYYY-MM-DD"))}
-            title={t("common.nextDay") || "Next day"}
+            onClick={() => setDate(dayjs(date).add(1, step).format("YYYY-MM-DD"))}
+            title={step === "month" ? t("common.nextMonth") : t("common.nextDay") || "Next day"}
             className="nav-button"
           >
             ▶
           </button>
         </div>
-        <ViewModeToggle viewMode={viewMode} onChange={setViewMode} />
+        <ViewModeToggle modes={VIEW_MODES} viewMode={viewMode} onChange={setViewMode} />
         <MetricModeToggle metricMode={metricMode} onChange={setMetricMode} />
+        {metricMode === "cost" && <CostSettingsButton />}
+        {viewMode !== "distribution" && (
+          <AggregationModeToggle aggregationMode={aggregationMode} onChange={setAggregationMode} />
+        )}
+        <FormControlLabel
+          className="page-complete-data-checkbox"
+          control={
+            <Checkbox
+              checked={completeDaysOnly}
+              onChange={(e) => setCompleteDaysOnly(e.target.checked)}
+            />
+          }
+          label={t("charts.completeDaysOnly")}
+        />
+        <FormControlLabel
+          className="page-exclude-outliers-checkbox"
+          control={
+            <Checkbox
+              checked={excludeOutliers}
+              onChange={(e) => setExcludeOutliers(e.target.checked)}
+            />
+          }
+          label={t("charts.excludeOutliers")}
+        />
       </div>
-    ),
-    [date, viewMode, metricMode, t],
-  );
+    );
+  }, [date, viewMode, metricMode, aggregationMode, completeDaysOnly, excludeOutliers, t]);
 
   // Handle delete action
   const handleDeleteClick = useCallback((rowId: string | number) => {
@@ -91,8 +290,9 @@ export default function Daily() {
 
     try {
       await deleteMutation.mutateAsync(measurementToDelete);
-      // Invalidate and refetch the measurement_deltas_view query
+      // Invalidate and refetch the measurement_deltas_view queries and the hourly aggregates
       await queryClient.invalidateQueries({ queryKey: ["measurement_deltas_view", date] });
+      await queryClient.invalidateQueries({ queryKey: ["time_series_aggregates", "hour"] });
       setDeleteDialogOpen(false);
       setMeasurementToDelete(null);
     } catch (error) {
@@ -106,118 +306,327 @@ export default function Daily() {
     setMeasurementToDelete(null);
   }, []);
 
+  // Comparison mode hook - handles all filter logic
+  const {
+    comparisonMode,
+    filterGroups,
+    comparisonGroups,
+    activeFilterModel,
+    dataGridComparisonProps,
+    applyFiltersToData,
+  } = useComparisonMode<MeasurementDeltaRow>(
+    undefined,
+    filterValueResolver,
+    readFilterParams(searchParams),
+  );
+
+  const dayStart = dayjs(date).startOf("day").toISOString();
+  const dayEnd = dayjs(date).endOf("day").toISOString();
+
+  // The grid loads one page at a time and the time series chart the aggregates of each hour,
+  // both filtered by the server. Filters on measurements or versioned configuration fields,
+  // the complete days and outlier options and the distribution need all rows of the day and
+  // are applied on the client instead.
+  const chartFilterModels = useMemo(
+    () =>
+      comparisonGroups ? comparisonGroups.map((group) => group.filterModel) : [activeFilterModel],
+    [comparisonGroups, activeFilterModel],
+  );
+  const serverGridEnabled = useMemo(
+    () =>
+      !completeDaysOnly &&
+      !excludeOutliers &&
+      viewMode !== "distribution" &&
+      [activeFilterModel, ...chartFilterModels].every((model) =>
+        canFilterOnServer(sanitizeGridFilterModel(model), SYSTEM_FILTER_FIELDS),
+      ),
+    [completeDaysOnly, excludeOutliers, viewMode, activeFilterModel, chartFilterModels],
+  );
+  const {
+    rows: gridPageRows,
+    isLoading: gridLoading,
+    error: gridError,
+    serverMode,
+  } = useServerGridRows({
+    queryKey: ["measurement_deltas_view", date, "page"],
+    query: () =>
+      supabase
+        .from("measurement_deltas_view")
+        .select("*", { count: "exact" })
+        .gte("created_at", dayStart)
+        .lte("created_at", dayEnd),
+    filterModel: activeFilterModel,
+    filterFields: SYSTEM_FILTER_FIELDS,
+    sortFields: GRID_SORT_FIELDS,
+    initialSortModel: GRID_INITIAL_SORT,
+    enabled: serverGridEnabled,
+  });
+  const aggregateChart = useTimeSeriesAggregates({
+    period: "hour",
+    start: dayStart,
+    end: dayEnd,
+    activeFilterModel,
+    comparisonGroups,
+    indexField: "hour",
+    indexOf: periodHour,
+    metricMode,
+    aggregationMode,
+    enabled: serverGridEnabled && viewMode === "timeSeries",
+  });
+
+  // Otherwise all rows of the systems selected by the grid's filters and the comparison groups
+  const serverChartFilters = useServerChartFilters(
+    activeFilterModel,
+    comparisonGroups,
+    SYSTEM_FILTER_FIELDS,
+  );
+
   const { data, isLoading, error } = useQuery({
-    queryKey: ["measurement_deltas_view", date],
+    queryKey: ["measurement_deltas_view", date, JSON.stringify(serverChartFilters)],
+    enabled: !serverGridEnabled,
     queryFn: async () => {
-      const start = dayjs(date).startOf("day").toISOString();
-      const end = dayjs(date).endOf("day").toISOString();
-      const { data, error } = await supabase
-        .from("measurement_deltas_view")
-        .select("*")
-        .gte("created_at", start)
-        .lte("created_at", end)
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      return data as MeasurementDeltaRow[];
+      const rows: MeasurementDeltaRow[] = [];
+      for (let from = 0; ; from += DAY_PAGE_SIZE) {
+        const { data, error } = await applyServerFilterModels(
+          supabase
+            .from("measurement_deltas_view")
+            .select("*")
+            .gte("created_at", dayStart)
+            .lte("created_at", dayEnd),
+          serverChartFilters,
+        )
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: true })
+          .range(from, from + DAY_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data as MeasurementDeltaRow[]));
+        if (data.length < DAY_PAGE_SIZE) return rows;
+      }
     },
+    placeholderData: (previousData) => previousData,
   });
-  const displayData = useSystemConsumptionRows(data, "hour");
+
+  // The coverage of the page's systems needs the times of all of their hours of the day
+  const pageHeatingIds = useMemo(() => getHeatingIds(gridPageRows ?? []), [gridPageRows]);
+  const { data: pageCoverageRows } = useQuery({
+    queryKey: ["measurement_deltas_view", date, "coverage", pageHeatingIds],
+    enabled: serverMode != null && pageHeatingIds.length > 0,
+    queryFn: async () => {
+      const rows: CoverageTimeRow[] = [];
+      for (let from = 0; ; from += DAY_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("measurement_deltas_view")
+          .select("id, heating_id, created_at")
+          .in("heating_id", pageHeatingIds)
+          .gte("created_at", dayStart)
+          .lte("created_at", dayEnd)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, from + DAY_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...data);
+        if (data.length < DAY_PAGE_SIZE) return rows;
+      }
+    },
+    placeholderData: (previousData) => previousData,
+  });
+
+  // The grid page or all rows of the day go through the same pipeline
+  const sourceRows = serverMode ? gridPageRows : data;
+  // Measurements keep the configuration that was valid when they were recorded
+  const configHistoryData = useConfigHistoryRows(sourceRows);
+  const systemConsumptionData = useSystemConsumptionRows(configHistoryData, "hour");
+  const standbyPowerSummary = useMemo(
+    () => summarizeStandbyPower(configHistoryData),
+    [configHistoryData],
+  );
+  const displayData = useEnergyCostRows(systemConsumptionData, "hour");
+
+  // Hours are compared with the same hour of the system's days before the selected day
+  const heatingIds = useMemo(() => getHeatingIds(displayData ?? []), [displayData]);
+  const outlierHistory = useOutlierHistory(
+    "hour",
+    heatingIds,
+    dayjs(date).subtract(HOURLY_OUTLIER_HISTORY_DAYS, "day").format("YYYY-MM-DD"),
+    date,
+  );
 
   // Add hour field for chart grouping
-  const sortedData = useMemo(() => {
-    if (!displayData) return [];
+  const sortedData = useMemo(
+    () =>
+      displayData
+        ? prepareHourlyRows(
+            displayData,
+            outlierHistory ?? [],
+            serverMode ? (pageCoverageRows ?? []) : displayData,
+          )
+        : [],
+    [displayData, outlierHistory, serverMode, pageCoverageRows],
+  );
 
-    // View already provides deltas, AZ calculations, and temperature corrections
-    // Just add hour field for chart grouping
-    return displayData.map((row) => ({
-      ...row,
-      hour: dayjs(row.created_at).hour().toString(),
-    }));
-  }, [displayData]);
+  // Filter data to only include systems with all expected hours of the day
+  const completeDaysFilteredData = useMemo(() => {
+    if (!completeDaysOnly) return sortedData;
+    const filtered = sortedData.filter((row) => isCompleteDay(row.coverage));
 
-  // Comparison mode hook - handles all filter logic
-  const { comparisonMode, comparisonGroupsForChart, dataGridComparisonProps } = useComparisonMode(
-    sortedData,
-    filterValueResolver,
+    // Return original data if filter didn't remove anything to maintain reference stability
+    return filtered.length === sortedData.length ? sortedData : filtered;
+  }, [sortedData, completeDaysOnly]);
+
+  // Rows of the grid's filters
+  const filteredData = useMemo(
+    () => applyFiltersToData(completeDaysFilteredData, activeFilterModel),
+    [applyFiltersToData, completeDaysFilteredData, activeFilterModel],
+  );
+  const comparisonGroupsForChart = useComparisonDataGroups(
+    completeDaysFilteredData,
+    comparisonGroups,
+    applyFiltersToData,
+  );
+
+  useSyncUrlState({
+    date,
+    view: viewMode,
+    metric: metricMode,
+    ...filterParams(filterGroups),
+  });
+
+  // The heatmap shows all hours of the month of the selected day
+  const heatmapMonth = date.slice(0, 7);
+  const {
+    data: monthData,
+    isLoading: monthLoading,
+    error: monthError,
+  } = useQuery({
+    queryKey: ["measurement_deltas_view_month", heatmapMonth],
+    enabled: viewMode === "heatmap",
+    queryFn: async () => {
+      const start = dayjs(`${heatmapMonth}-01`).startOf("month").toISOString();
+      const end = dayjs(`${heatmapMonth}-01`).endOf("month").toISOString();
+      const rows: MeasurementDeltaRow[] = [];
+      for (let from = 0; ; from += MONTH_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("measurement_deltas_view")
+          .select("*")
+          .gte("created_at", start)
+          .lte("created_at", end)
+          .order("created_at", { ascending: true })
+          .range(from, from + MONTH_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data as MeasurementDeltaRow[]));
+        if (data.length < MONTH_PAGE_SIZE) return rows;
+      }
+    },
+  });
+  // Same pipeline as the day's rows; the standby power summary stays with the selected day
+  const { excludeSystemConsumption } = useSystemConsumptionMode();
+  const monthConfigHistoryData = useConfigHistoryRows(monthData);
+  const monthSystemConsumptionData = useMemo(
+    () =>
+      excludeSystemConsumption
+        ? removeSystemConsumptionFromRows(monthConfigHistoryData, "hour")
+        : monthConfigHistoryData,
+    [excludeSystemConsumption, monthConfigHistoryData],
   );
+  const monthDisplayData = useEnergyCostRows(monthSystemConsumptionData, "hour");
+
+  // The hours of the whole month are the baseline of its own outliers
+  const heatmap = useMemo(() => {
+    let rows = monthDisplayData
+      ? prepareHourlyRows(monthDisplayData, monthDisplayData, monthDisplayData)
+      : [];
+    if (completeDaysOnly) rows = rows.filter((row) => isCompleteDay(row.coverage));
+    const filteredRows = filterRealisticDataForCharts(
+      applyFiltersToData(rows, activeFilterModel),
+      "hour",
+      excludeOutliers,
+    );
+    return buildHourlyHeatmap(
+      heatmapMonth,
+      filteredRows as ChartDataRow[],
+      metricMode,
+      aggregationMode,
+    );
+  }, [
+    monthDisplayData,
+    completeDaysOnly,
+    applyFiltersToData,
+    activeFilterModel,
+    excludeOutliers,
+    heatmapMonth,
+    metricMode,
+    aggregationMode,
+  ]);
+
+  // Clicking the heatmap opens the hourly view of that day
+  const handleHeatmapSelect = useCallback((selectedDate: string) => {
+    setDate(selectedDate);
+    setViewMode("timeSeries");
+  }, []);
 
   // Filter out unrealistic data for charts (hourly data)
   const realisticDataForChart = useMemo(
-    () => filterRealisticDataForCharts(filteredData, true),
-    [filteredData],
+    () => filterRealisticDataForCharts(filteredData, "hour", excludeOutliers),
+    [filteredData, excludeOutliers],
   );
 
   const realisticComparisonGroups = useMemo(() => {
     if (!comparisonGroupsForChart) return undefined;
     return comparisonGroupsForChart.map((group) => ({
       ...group,
-      data: filterRealisticDataForCharts(group.data, true), // true = hourly data
+      data: filterRealisticDataForCharts(group.data, "hour", excludeOutliers),
     }));
-  }, [comparisonGroupsForChart]);
+  }, [comparisonGroupsForChart, excludeOutliers]);
 
   // Get the data to use for histogram (filtered if available)
-  // The view provides deltas, but the histogram in energy mode needs total consumption per system
-  // We can sum the deltas to get the same result as (last - first) cumulative values
-  const histogramDataSource = useMemo(() => {
-    // Determine which filtered data to use
-    const sourceData = filteredData;
-
-    // Group deltas by heating_id and sum them
-    const systemTotals = new Map<
-      string,
-      {
-        thermal_energy_kwh: number;
-        electrical_energy_kwh: number;
-        thermal_energy_heating_kwh: number;
-        electrical_energy_heating_kwh: number;
-      }
-    >();
-
-    sourceData.forEach((row) => {
-      const heatingId = String(row.heating_id);
-      if (!heatingId || heatingId === "null" || heatingId === "undefined") return;
-
-      const existing = systemTotals.get(heatingId) || {
-        thermal_energy_kwh: 0,
-        electrical_energy_kwh: 0,
-        thermal_energy_heating_kwh: 0,
-        electrical_energy_heating_kwh: 0,
-      };
-
-      // Sum the deltas (treating null as 0, converting to number)
-      existing.thermal_energy_kwh += Number(row.thermal_energy_kwh || 0);
-      existing.electrical_energy_kwh += Number(row.electrical_energy_kwh || 0);
-      existing.thermal_energy_heating_kwh += Number(row.thermal_energy_heating_kwh || 0);
-      existing.electrical_energy_heating_kwh += Number(row.electrical_energy_heating_kwh || 0);
-
-      systemTotals.set(heatingId, existing);
-    });
-
-    // Convert to array format expected by histogram
-    return Array.from(systemTotals.entries()).map(([heating_id, totals]) => ({
-      heating_id,
-      thermal_energy_kwh: totals.thermal_energy_kwh,
-      electrical_energy_kwh: totals.electrical_energy_kwh,
-      thermal_energy_heating_kwh: totals.thermal_energy_heating_kwh,
-      electrical_energy_heating_kwh: totals.electrical_energy_heating_kwh,
-      created_at: null, // Not needed for aggregated data
-    }));
-  }, [filteredData]);
+  const histogramDataSource = useMemo(
+    () => sumDeltasPerSystem(filteredData, excludeOutliers),
+    [filteredData, excludeOutliers],
+  );
+
+  const histogramComparisonGroups = useMemo(
+    () =>
+      comparisonGroupsForChart?.map((group) => ({
+        ...group,
+        data: sumDeltasPerSystem(group.data as DailyRow[], excludeOutliers),
+      })),
+    [comparisonGroupsForChart, excludeOutliers],
+  );
 
   return (
     <PageLayout
       titleKey="daily.title"
       infoKey="daily.info"
-      error={error}
-      isLoading={isLoading}
+      error={error ?? gridError ?? aggregateChart.error ?? monthError}
+      isLoading={isLoading || aggregateChart.isLoading || monthLoading}
       showSystemConsumptionToggle
+      standbyPowerSummary={standbyPowerSummary}
       chartControls={filterSection}
       chart={
-        viewMode === "timeSeries" ? (
+        viewMode === "heatmap" ? (
+          <ChartUtilityFrame>
+            <HourlyHeatmapChart
+              heatmap={heatmap}
+              metricMode={metricMode}
+              onSelectDate={handleHeatmapSelect}
+            />
+          </ChartUtilityFrame>
+        ) : viewMode === "timeSeries" ? (
           <ChartUtilityFrame>
             <AzBarChart
-              data={comparisonMode ? [] : (realisticDataForChart as ChartDataRow[])}
-              comparisonGroups={realisticComparisonGroups}
+              data={
+                serverMode
+                  ? aggregateChart.data
+                  : comparisonMode
+                    ? []
+                    : (realisticDataForChart as ChartDataRow[])
+              }
+              comparisonGroups={
+                serverMode ? aggregateChart.comparisonGroups : realisticComparisonGroups
+              }
               indexField="hour"
               indexLabel="common.hour"
               indexValues={[
@@ -247,29 +656,37 @@ export default function Daily() {
                 "23",
               ]}
               aggregateData={true}
+              preAggregated={serverMode != null}
               metricMode={metricMode}
+              aggregationMode={aggregationMode}
             />
           </ChartUtilityFrame>
         ) : (
           <HistogramChart
             data={histogramDataSource}
+            comparisonGroups={histogramComparisonGroups}
             metricMode={metricMode}
             statsTitle={
-              metricMode === "energy" ? t("charts.dailyEnergyStats") : t("charts.dailyCopStats")
+              metricMode === "energy"
+                ? t("charts.dailyEnergyStats")
+                : metricMode === "cost"
+                  ? t("charts.dailyCostStats")
+                  : t("charts.dailyCopStats")
             }
             binSize={metricMode === "energy" ? 5 : 0.5}
+            granularity="day"
           />
         )
       }
     >
       <DataGridWrapper
-        rows={sortedData}
+        rows={completeDaysFilteredData}
         columns={columns}
-        loading={isLoading}
-        getRowId={(row) => row.id as string}
+        loading={serverMode ? gridLoading : isLoading}
+        getRowId={measurementRowId}
         columnVisibilityModel={commonHiddenColumns}
-        onFilterChange={handleFilterChange}
         {...dataGridComparisonProps}
+        serverMode={serverMode}
         onDeleteRow={handleDeleteClick}
         deleteDisabled={deleteMutation.isPending}
       />
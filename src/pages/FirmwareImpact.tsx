@@ -0,0 +1,198 @@
+import { Tooltip } from "@mui/material";
+import { useQuery } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { FirmwareImpactChart } from "../components/common/charts";
+import { ChartUtilityFrame, PageLayout } from "../components/common/layout";
+import { useSystemConfigs } from "../hooks/useSystemConfigs";
+import {
+  compareFirmwareTransition,
+  DEFAULT_FIRMWARE_WINDOW_DAYS,
+  FIRMWARE_COMPONENTS,
+  FIRMWARE_WINDOW_DAYS_OPTIONS,
+  type FirmwareComponent,
+  type FirmwareDayRow,
+  findFirmwareTransitions,
+  formatFirmwareTransition,
+  MIN_DAYS_PER_BIN,
+  OUTDOOR_TEMPERATURE_BIN_WIDTH_K,
+  summarizeFirmwareTransitions,
+} from "../lib/firmwareImpact";
+import { supabase } from "../lib/supabaseClient";
+import { groupConfigsBySystem } from "../lib/systemConfigHistory";
+
+// PostgREST returns at most this many rows per request
+const DAILY_PAGE_SIZE = 1000;
+
+function formatDelta(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+}
+
+export default function FirmwareImpact() {
+  const { t } = useTranslation();
+  const [component, setComponent] = useState<FirmwareComponent | "all">("all");
+  const [windowDays, setWindowDays] = useState(DEFAULT_FIRMWARE_WINDOW_DAYS);
+
+  const { data: configs, isLoading: configsLoading, error: configsError } = useSystemConfigs();
+
+  const transitions = useMemo(
+    () =>
+      findFirmwareTransitions(groupConfigsBySystem(configs ?? [])).filter(
+        (transition) => component === "all" || transition.component === component,
+      ),
+    [configs, component],
+  );
+
+  // Daily values of all systems with a transition, spanning the windows of all transitions
+  const range = useMemo(() => {
+    if (transitions.length === 0) return null;
+    const changes = transitions.map((transition) => transition.changedOn).sort();
+    return {
+      heatingIds: [...new Set(transitions.map((transition) => transition.heatingId))].sort(),
+      start: dayjs(changes[0]).subtract(windowDays, "day").format("YYYY-MM-DD"),
+      end: dayjs(changes[changes.length - 1])
+        .add(windowDays, "day")
+        .format("YYYY-MM-DD"),
+    };
+  }, [transitions, windowDays]);
+
+  const {
+    data: dailyData,
+    isLoading: dailyLoading,
+    error: dailyError,
+  } = useQuery<FirmwareDayRow[]>({
+    queryKey: ["firmware_impact_daily", range],
+    enabled: range !== null,
+    queryFn: async () => {
+      if (!range) return [];
+      const rows: FirmwareDayRow[] = [];
+      for (let from = 0; ; from += DAILY_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("daily_values_view")
+          .select(
+            "heating_id, date, outdoor_temperature_c, thermal_energy_kwh, electrical_energy_kwh",
+          )
+          .in("heating_id", range.heatingIds)
+          .gte("date", range.start)
+          .lte("date", range.end)
+          .order("date", { ascending: true })
+          .range(from, from + DAILY_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data as FirmwareDayRow[]));
+        if (data.length < DAILY_PAGE_SIZE) return rows;
+      }
+    },
+  });
+
+  const summaries = useMemo(() => {
+    if (!dailyData) return [];
+    const rowsBySystem = new Map<string, FirmwareDayRow[]>();
+    for (const row of dailyData) {
+      if (!row.heating_id) continue;
+      rowsBySystem.set(row.heating_id, [...(rowsBySystem.get(row.heating_id) ?? []), row]);
+    }
+    return summarizeFirmwareTransitions(
+      transitions.map((transition) =>
+        compareFirmwareTransition(
+          transition,
+          rowsBySystem.get(transition.heatingId) ?? [],
+          windowDays,
+        ),
+      ),
+    );
+  }, [dailyData, transitions, windowDays]);
+
+  return (
+    <PageLayout
+      titleKey="firmwareImpact.title"
+      infoKey="firmwareImpact.info"
+      error={configsError ?? dailyError}
+      isLoading={configsLoading || (range !== null && dailyLoading)}
+      chartControls={
+        <div className="filter-container">
+          <div className="flex-center-gap-sm">
+            <select
+              id="firmware-component-select"
+              value={component}
+              onChange={(e) => setComponent(e.target.value as FirmwareComponent | "all")}
+              className="form-select page-filter-select-season"
+              aria-label={t("firmwareImpact.component")}
+            >
+              <option value="all">{t("firmwareImpact.components.all")}</option>
+              {FIRMWARE_COMPONENTS.map((c) => (
+                <option key={c} value={c}>
+                  {t(`firmwareImpact.components.${c}`)}
+                </option>
+              ))}
+            </select>
+            <Tooltip title={t("firmwareImpact.windowHint")}>
+              <select
+                id="firmware-window-select"
+                value={windowDays}
+                onChange={(e) => setWindowDays(Number(e.target.value))}
+                className="form-select page-filter-select-year"
+                aria-label={t("firmwareImpact.window")}
+              >
+                {FIRMWARE_WINDOW_DAYS_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {t("firmwareImpact.windowDays", { count: days })}
+                  </option>
+                ))}
+              </select>
+            </Tooltip>
+          </div>
+        </div>
+      }
+      chart={
+        <ChartUtilityFrame>
+          <FirmwareImpactChart transitions={summaries} />
+        </ChartUtilityFrame>
+      }
+    >
+      <p className="muted">
+        {t("firmwareImpact.method", {
+          width: OUTDOOR_TEMPERATURE_BIN_WIDTH_K,
+          days: MIN_DAYS_PER_BIN,
+        })}
+      </p>
+      {summaries.length > 0 && (
+        <div className="card page-stats-card">
+          <table className="page-stats-table">
+            <thead>
+              <tr>
+                <th>{t("firmwareImpact.transition")}</th>
+                <th>{t("firmwareImpact.component")}</th>
+                <th>{t("firmwareImpact.systems")}</th>
+                <th>{t("firmwareImpact.bins")}</th>
+                <th>{t("firmwareImpact.azBefore")}</th>
+                <th>{t("firmwareImpact.azAfter")}</th>
+                <th>{t("firmwareImpact.delta")}</th>
+                <th>{t("firmwareImpact.confidenceInterval")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((summary) => (
+                <tr key={summary.key}>
+                  <td>{formatFirmwareTransition(summary)}</td>
+                  <td>{t(`firmwareImpact.components.${summary.component}`)}</td>
+                  <td>{summary.systemCount}</td>
+                  <td>{summary.binCount}</td>
+                  <td>{summary.azBefore.toFixed(2)}</td>
+                  <td>{summary.azAfter.toFixed(2)}</td>
+                  <td>{formatDelta(summary.meanDelta)}</td>
+                  <td>
+                    {summary.ciLow != null && summary.ciHigh != null
+                      ? `${formatDelta(summary.ciLow)} … ${formatDelta(summary.ciHigh)}`
+                      : "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </PageLayout>
+  );
+}
@@ -1,12 +1,19 @@
+import { Tooltip } from "@mui/material";
 import { useQuery } from "@tanstack/react-query";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { HeatingCurveChart, type HeatingCurveDataPoint } from "../components/common/charts";
+import {
+  HeatingCurveChart,
+  type HeatingCurveDataPoint,
+  HeatingCurveSystemChart,
+} from "../components/common/charts";
 import { DataGridWrapper } from "../components/common/data-grid";
 import { PageLayout } from "../components/common/layout";
+import { NumberInputWithUnit } from "../components/form";
 import { useComparisonMode } from "../hooks/useComparisonMode";
 import { useDebouncedValue } from "../hooks/useDebouncedValue";
 import { createFilterValueResolver } from "../lib/filterValueResolver";
+import { computeDesignCurve, getDefaultTargetFlowTemp } from "../lib/heatingCurveDesign";
 import { sanitizeGridFilterModel } from "../lib/serverFilterModel";
 import { supabase } from "../lib/supabaseClient";
 import { commonHiddenColumns, getTimeSeriesColumns } from "../lib/tableHelpers";
@@ -17,11 +24,14 @@ type DailyValue = Database["public"]["Views"]["daily_values_view"]["Row"];
 const MAX_SAMPLE_ROWS = 1000;
 const OUTDOOR_TEMPERATURE_BIN_WIDTH_K = 2;
 const FILTER_REQUEST_DEBOUNCE_MS = 700;
+const MAX_SYSTEM_ROWS = 730;
 
 export default function HeatingCurve() {
   const { t } = useTranslation();
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [filteredData, setFilteredData] = useState<DailyValue[] | null>(null);
+  const [selectedHeatingId, setSelectedHeatingId] = useState<string>("");
+  const [targetFlowTemp, setTargetFlowTemp] = useState<number | null>(null);
   const handleFilterChange = useCallback((rows: DailyValue[]) => {
     setFilteredData(rows);
   }, []);
@@ -76,6 +86,52 @@ export default function HeatingCurve() {
     placeholderData: (previousData) => previousData,
   });
 
+  // Fetch all recent days of the selected system, the sample only contains a few per system
+  const { data: systemData, error: systemError } = useQuery<DailyValue[]>({
+    queryKey: ["daily_values_view_heating_curve", selectedHeatingId, MAX_SYSTEM_ROWS],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("daily_values_view")
+        .select("*")
+        .eq("heating_id", selectedHeatingId)
+        .not("outdoor_temperature_c", "is", null)
+        .not("flow_temperature_c", "is", null)
+        .order("date", { ascending: false })
+        .limit(MAX_SYSTEM_ROWS);
+
+      if (error) throw error;
+
+      return data as DailyValue[];
+    },
+    enabled: selectedHeatingId !== "",
+  });
+
+  // Systems contained in the sample, selectable for the design curve comparison
+  const systemOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const row of data ?? []) {
+      if (row.heating_id && !names.has(row.heating_id)) {
+        names.set(row.heating_id, row.name ?? row.heating_id);
+      }
+    }
+    return [...names.entries()]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [data]);
+
+  const selectedSystem = systemData?.[0] ?? null;
+  const defaultTargetFlowTemp = getDefaultTargetFlowTemp(selectedSystem?.heating_type);
+  const designCurve = useMemo(
+    () =>
+      selectedSystem
+        ? computeDesignCurve(
+            selectedSystem.design_outdoor_temp_c,
+            targetFlowTemp ?? defaultTargetFlowTemp,
+          )
+        : null,
+    [selectedSystem, targetFlowTemp, defaultTargetFlowTemp],
+  );
+
   // Prepare scatter plot data.
   const chartData: HeatingCurveDataPoint[] = useMemo(() => {
     const dataToUse = filteredData ?? data ?? [];
@@ -89,17 +145,81 @@ export default function HeatingCurve() {
     }));
   }, [data, filteredData]);
 
+  const systemChartData: HeatingCurveDataPoint[] = useMemo(
+    () =>
+      (systemData ?? []).map((row) => ({
+        outdoor_temperature_c: row.outdoor_temperature_c,
+        flow_temperature_c: row.flow_temperature_c,
+        heating_id: row.heating_id,
+        name: row.name,
+        date: row.date,
+        user_id: row.user_id,
+      })),
+    [systemData],
+  );
+
+  const chartControls = useMemo(
+    () => (
+      <div className="filter-container">
+        <div className="flex-center-gap-sm">
+          <select
+            id="heating-curve-system-select"
+            value={selectedHeatingId}
+            onChange={(e) => {
+              setSelectedHeatingId(e.target.value);
+              setTargetFlowTemp(null);
+            }}
+            className="form-select page-filter-select-system"
+            aria-label={t("heatingCurve.system")}
+          >
+            <option value="">{t("heatingCurve.allSystems")}</option>
+            {systemOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+          {selectedHeatingId && (
+            <Tooltip
+              title={t("heatingCurve.targetFlowTempHint", {
+                temperature: designCurve?.designOutdoorTempC ?? "-",
+              })}
+            >
+              <div className="page-target-flow-input">
+                <NumberInputWithUnit
+                  id="heating-curve-target-flow"
+                  value={targetFlowTemp}
+                  onChange={setTargetFlowTemp}
+                  unit="°C"
+                  placeholder={String(defaultTargetFlowTemp)}
+                  min={25}
+                  max={75}
+                  step={1}
+                />
+              </div>
+            </Tooltip>
+          )}
+        </div>
+      </div>
+    ),
+    [selectedHeatingId, systemOptions, targetFlowTemp, defaultTargetFlowTemp, designCurve, t],
+  );
+
   // Memoize the chart component to prevent unnecessary re-renders
   const chartComponent = useMemo(() => {
+    if (selectedHeatingId) {
+      return <HeatingCurveSystemChart data={systemChartData} design={designCurve} />;
+    }
     return <HeatingCurveChart data={chartData} currentUserId={currentUserId} />;
-  }, [chartData, currentUserId]);
+  }, [selectedHeatingId, systemChartData, designCurve, chartData, currentUserId]);
 
   return (
     <PageLayout
       titleKey="heatingCurve.title"
       infoKey="heatingCurve.info"
-      error={error}
+      error={error ?? systemError}
       isLoading={isLoading}
+      chartControls={chartControls}
       chart={chartComponent}
     >
       <DataGridWrapper
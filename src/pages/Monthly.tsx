@@ -1,136 +1,441 @@
 // No longer need icon imports - using toggle components
+import { Checkbox, FormControlLabel } from "@mui/material";
+import type { GridSortModel } from "@mui/x-data-grid";
 import { useQuery } from "@tanstack/react-query";
 import dayjs from "dayjs";
 import { useCallback, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { AzBarChart, type ChartDataRow, HistogramChart } from "../components/common/charts";
+import {
+  type AggregationMode,
+  AzBarChart,
+  type ChartDataRow,
+  DefrostChart,
+  HistogramChart,
+} from "../components/common/charts";
 import { DataGridWrapper } from "../components/common/data-grid";
 import { ChartUtilityFrame, PageLayout } from "../components/common/layout";
 import { MonthYearPicker } from "../components/form";
-import { MetricModeToggle, ViewModeToggle } from "../components/ui";
-import { useComparisonMode } from "../hooks/useComparisonMode";
+import {
+  AggregationModeToggle,
+  CostSettingsButton,
+  DegreeDayBaseSelect,
+  MetricModeToggle,
+  ViewModeToggle,
+} from "../components/ui";
+import { useComparisonDataGroups, useComparisonMode } from "../hooks/useComparisonMode";
+import { useEnergyCostRows } from "../hooks/useCostSettings";
+import { useOutlierHistory } from "../hooks/useOutlierHistory";
+import { useServerChartFilters } from "../hooks/useServerChartFilters";
+import { useServerGridRows } from "../hooks/useServerGridRows";
+import { useConfigHistoryRows } from "../hooks/useSystemConfigs";
 import { useSystemConsumptionRows } from "../hooks/useSystemConsumptionMode";
+import { useTimeSeriesAggregates } from "../hooks/useTimeSeriesAggregates";
+import { useInitialSearchParams, useSyncUrlState } from "../hooks/useUrlState";
+import type { DataQualityIssue } from "../lib/dataQuality";
+import {
+  addDefrostStatistics,
+  DEFROST_FIELDS,
+  type DefrostHourRow,
+  defrostDayKey,
+  detectDefrostDays,
+} from "../lib/defrost";
+import {
+  addWeatherNormalization,
+  DEFAULT_DEGREE_DAY_BASE_C,
+  heatingDegreeDays,
+} from "../lib/degreeDays";
 import { createFilterValueResolver } from "../lib/filterValueResolver";
+import { DHW_LABEL_KEYS, METRIC_MODES } from "../lib/metricModes";
+import { DAILY_OUTLIER_HISTORY_DAYS, detectSystemOutliers } from "../lib/outlierDetection";
+import {
+  applyServerFilterModels,
+  canFilterOnServer,
+  SYSTEM_FILTER_FIELDS,
+  sanitizeGridFilterModel,
+  TIME_SERIES_SORT_FIELDS,
+} from "../lib/serverFilterModel";
 import { supabase } from "../lib/supabaseClient";
+import { getHeatingIds } from "../lib/systemConfigHistory";
+import { summarizeStandbyPower } from "../lib/systemConsumption";
 import { commonHiddenColumns, getTimeSeriesColumns } from "../lib/tableHelpers";
+import { filterParams, parseEnumParam, parseMonthParam, readFilterParams } from "../lib/urlState";
 import type { Database } from "../types/database.types";
 
 type DailyValue = Database["public"]["Views"]["daily_values_view"]["Row"];
-type ViewMode = "timeSeries" | "distribution";
-type MetricMode = "cop" | "energy";
+type MetricMode = "cop" | "energy" | "normalized" | "cost";
+
+const DAILY_PAGE_SIZE = 1000;
+const HOURLY_PAGE_SIZE = 1000;
+const VIEW_MODES = ["timeSeries", "distribution", "defrost"] as const;
+type ViewMode = (typeof VIEW_MODES)[number];
+const GRID_SORT_FIELDS: ReadonlySet<string> = new Set([...TIME_SERIES_SORT_FIELDS, "date"]);
+const GRID_INITIAL_SORT: GridSortModel = [{ field: "date", sort: "desc" }];
+// The defrost columns need the hourly measurements, so they are only loaded on demand
+const HIDDEN_COLUMNS: Record<string, boolean> = {
+  ...commonHiddenColumns,
+  ...Object.fromEntries(DEFROST_FIELDS.map((field) => [field, false])),
+};
+
+function dailyRowId(row: { heating_id: string | null; date: string | null }) {
+  return `${row.heating_id}-${row.date}`;
+}
+
+function periodDate(periodStart: string) {
+  return dayjs(periodStart).format("YYYY-MM-DD");
+}
 
 export default function Monthly() {
   const { t } = useTranslation();
+  // Month, view, metric and filters can be restored from a shared link
+  const searchParams = useInitialSearchParams();
+  const initialMonth = parseMonthParam(searchParams.get("month"));
   const defaultMonth = Number(dayjs().format("M"));
   const defaultYear = Number(dayjs().format("YYYY"));
-  const [month, setMonth] = useState(defaultMonth);
-  const [year, setYear] = useState(defaultYear);
-  const [filteredData, setFilteredData] = useState<DailyValue[]>([]);
-  const [viewMode, setViewMode] = useState<ViewMode>("timeSeries");
-  const [metricMode, setMetricMode] = useState<MetricMode>("cop");
-
-  // Wrap setFilteredData in useCallback to prevent infinite loops in DataGridWrapper
-  const handleFilterChange = useCallback((data: DailyValue[]) => {
-    setFilteredData(data);
-  }, []);
+  const [month, setMonth] = useState(initialMonth?.month ?? defaultMonth);
+  const [year, setYear] = useState(initialMonth?.year ?? defaultYear);
+  const [viewMode, setViewMode] = useState<ViewMode>(
+    () => parseEnumParam(searchParams.get("view"), VIEW_MODES) ?? "timeSeries",
+  );
+  const [metricMode, setMetricMode] = useState<MetricMode>(
+    () => parseEnumParam(searchParams.get("metric"), METRIC_MODES) ?? "cop",
+  );
+  const [aggregationMode, setAggregationMode] = useState<AggregationMode>("weighted");
+  const [degreeDayBase, setDegreeDayBase] = useState(DEFAULT_DEGREE_DAY_BASE_C);
+  const [excludeOutliers, setExcludeOutliers] = useState(false);
+  const [dhwSplit, setDhwSplit] = useState(false);
+  const [columnVisibility, setColumnVisibility] = useState(HIDDEN_COLUMNS);
 
   // Define columns for Monthly page
-  const columns = useMemo(() => getTimeSeriesColumns(t, "date"), [t]);
+  const columns = useMemo(() => getTimeSeriesColumns(t, "date", { defrost: true }), [t]);
   const filterValueResolver = useMemo(
     () => createFilterValueResolver<DailyValue>(columns),
     [columns],
   );
 
-  const { data, isLoading, error } = useQuery<DailyValue[]>({
-    queryKey: ["daily", month, year],
-    queryFn: async () => {
-      const start = dayjs(`${year}-${month}-01`).startOf("month").format("YYYY-MM-DD");
-      const end = dayjs(`${year}-${month}-01`).endOf("month").format("YYYY-MM-DD");
+  // Comparison mode hook - handles all filter logic
+  const {
+    comparisonMode,
+    filterGroups,
+    comparisonGroups,
+    activeFilterModel,
+    dataGridComparisonProps,
+    applyFiltersToData,
+  } = useComparisonMode<DailyValue>(undefined, filterValueResolver, readFilterParams(searchParams));
 
-      const { data, error } = await supabase
+  const monthStart = dayjs(`${year}-${month}-01`).startOf("month").format("YYYY-MM-DD");
+  const monthEnd = dayjs(`${year}-${month}-01`).endOf("month").format("YYYY-MM-DD");
+
+  // The grid loads one page at a time and the time series chart the aggregates of each day,
+  // both filtered by the server. Filters on measurements or versioned configuration fields,
+  // the outlier, hot water and normalized options and the other views need all rows of the
+  // month and are applied on the client instead.
+  const serverGridEnabled = useMemo(
+    () =>
+      viewMode === "timeSeries" &&
+      !excludeOutliers &&
+      !dhwSplit &&
+      metricMode !== "normalized" &&
+      [activeFilterModel, ...(comparisonGroups ?? []).map((group) => group.filterModel)].every(
+        (model) => canFilterOnServer(sanitizeGridFilterModel(model), SYSTEM_FILTER_FIELDS),
+      ),
+    [viewMode, excludeOutliers, dhwSplit, metricMode, activeFilterModel, comparisonGroups],
+  );
+  const {
+    rows: gridPageRows,
+    isLoading: gridLoading,
+    error: gridError,
+    serverMode,
+  } = useServerGridRows({
+    queryKey: ["daily", month, year, "page"],
+    query: () =>
+      supabase
         .from("daily_values_view")
-        .select("*")
-        .gte("date", start)
-        .lte("date", end)
-        .order("date", { ascending: false });
+        .select("*", { count: "exact" })
+        .gte("date", monthStart)
+        .lte("date", monthEnd),
+    filterModel: activeFilterModel,
+    filterFields: SYSTEM_FILTER_FIELDS,
+    sortFields: GRID_SORT_FIELDS,
+    initialSortModel: GRID_INITIAL_SORT,
+    enabled: serverGridEnabled,
+  });
+  const aggregateChart = useTimeSeriesAggregates({
+    period: "day",
+    start: monthStart,
+    end: monthEnd,
+    activeFilterModel,
+    comparisonGroups,
+    indexField: "date",
+    indexOf: periodDate,
+    metricMode,
+    aggregationMode,
+    enabled: serverGridEnabled,
+  });
 
-      if (error) throw error;
+  // Otherwise all rows of the systems selected by the grid's filters and the comparison groups
+  const serverChartFilters = useServerChartFilters(
+    activeFilterModel,
+    comparisonGroups,
+    SYSTEM_FILTER_FIELDS,
+  );
 
-      // outdoor_temperature_c is already corrected in the view
-      return data as DailyValue[];
+  const { data, isLoading, error } = useQuery<DailyValue[]>({
+    queryKey: ["daily", month, year, JSON.stringify(serverChartFilters)],
+    enabled: !serverGridEnabled,
+    queryFn: async () => {
+      const rows: DailyValue[] = [];
+      for (let from = 0; ; from += DAILY_PAGE_SIZE) {
+        const { data, error } = await applyServerFilterModels(
+          supabase
+            .from("daily_values_view")
+            .select("*")
+            .gte("date", monthStart)
+            .lte("date", monthEnd),
+          serverChartFilters,
+        )
+          .order("date", { ascending: false })
+          .order("heating_id", { ascending: true })
+          .range(from, from + DAILY_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        // outdoor_temperature_c is already corrected in the view
+        rows.push(...(data as DailyValue[]));
+        if (data.length < DAILY_PAGE_SIZE) return rows;
+      }
     },
+    placeholderData: (previousData) => previousData,
   });
-  const displayData = useSystemConsumptionRows(data, "day");
+  // Daily values net out defrost hours, so they are counted from the hourly deltas. They are
+  // needed by the defrost view and by the defrost columns when shown or filtered.
+  const defrostNeeded =
+    viewMode === "defrost" ||
+    DEFROST_FIELDS.some(
+      (field) =>
+        columnVisibility[field] !== false ||
+        filterGroups.some((model) => model.items.some((item) => item.field === field)),
+    );
+  const { data: defrostHourData } = useQuery<DefrostHourRow[]>({
+    queryKey: ["defrost_hours", month, year],
+    enabled: defrostNeeded,
+    queryFn: async () => {
+      const start = dayjs(`${year}-${month}-01`).startOf("month").toISOString();
+      const end = dayjs(`${year}-${month}-01`).endOf("month").toISOString();
+      const rows: DefrostHourRow[] = [];
+      for (let from = 0; ; from += HOURLY_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("measurement_deltas_view")
+          .select("heating_id, created_at, thermal_energy_kwh, outdoor_temperature_c")
+          .gte("created_at", start)
+          .lte("created_at", end)
+          .order("created_at", { ascending: true })
+          .range(from, from + HOURLY_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data as DefrostHourRow[]));
+        if (data.length < HOURLY_PAGE_SIZE) return rows;
+      }
+    },
+  });
+  const defrostDays = useMemo(() => detectDefrostDays(defrostHourData ?? []), [defrostHourData]);
+
+  // The grid page or all rows of the month go through the same pipeline
+  const sourceRows = serverMode ? gridPageRows : data;
+  // Measurements keep the configuration that was valid when they were recorded
+  const configHistoryData = useConfigHistoryRows(sourceRows);
+  const systemConsumptionData = useSystemConsumptionRows(configHistoryData, "day");
+  const standbyPowerSummary = useMemo(
+    () => summarizeStandbyPower(configHistoryData),
+    [configHistoryData],
+  );
+  const costData = useEnergyCostRows(systemConsumptionData, "day");
+
+  // Days deviating strongly from the system's days before the month are flagged as outliers
+  const heatingIds = useMemo(() => getHeatingIds(costData ?? []), [costData]);
+  const outlierHistory = useOutlierHistory(
+    "day",
+    heatingIds,
+    dayjs(monthStart).subtract(DAILY_OUTLIER_HISTORY_DAYS, "day").format("YYYY-MM-DD"),
+    monthStart,
+  );
+
+  // Each daily row contributes its own heating degree days for the normalized metric mode
+  const displayData = useMemo(
+    () =>
+      costData &&
+      addDefrostStatistics(
+        detectSystemOutliers(
+          addWeatherNormalization(costData, (row) =>
+            heatingDegreeDays(row.outdoor_temperature_c, degreeDayBase),
+          ),
+          outlierHistory ?? [],
+        ),
+        defrostDays,
+      ),
+    [costData, degreeDayBase, outlierHistory, defrostDays],
+  );
 
   const handleMonthYearChange = useCallback((val: { month: number; year: number }) => {
     setMonth(val.month);
     setYear(val.year);
   }, []);
 
-  // Comparison mode hook - handles all filter logic
-  const { comparisonMode, comparisonGroupsForChart, dataGridComparisonProps } = useComparisonMode(
+  // Rows of the grid's filters
+  const filteredData = useMemo(
+    () => applyFiltersToData(displayData ?? [], activeFilterModel),
+    [applyFiltersToData, displayData, activeFilterModel],
+  );
+  const comparisonGroupsForChart = useComparisonDataGroups(
     displayData,
-    filterValueResolver,
+    comparisonGroups,
+    applyFiltersToData,
   );
 
+  useSyncUrlState({
+    month: `${year}-${String(month).padStart(2, "0")}`,
+    view: viewMode,
+    metric: metricMode,
+    ...filterParams(filterGroups),
+  });
+
   // Get the data to use for histogram (filtered if available)
   const histogramDataSource = useMemo(() => {
     return filteredData as Array<{
       heating_id: string;
+      user_id: string | null;
       thermal_energy_kwh?: number | null;
       electrical_energy_kwh?: number | null;
       thermal_energy_heating_kwh?: number | null;
       electrical_energy_heating_kwh?: number | null;
+      heating_degree_days?: number | null;
+      heated_area_m2?: number | null;
+      electricity_cost_eur?: number | null;
+      electricity_cost_heating_eur?: number | null;
+      outlier_issues?: DataQualityIssue[];
     }>;
   }, [filteredData]);
 
+  const histogramComparisonGroups = useMemo(
+    () =>
+      comparisonGroupsForChart?.map((group) => ({
+        ...group,
+        data: group.data as unknown as typeof histogramDataSource,
+      })),
+    [comparisonGroupsForChart],
+  );
+
+  // Defrost statistics of the system days selected in the table
+  const filteredDefrostDays = useMemo(() => {
+    const selected = new Set(
+      filteredData.map((row) => defrostDayKey(String(row.heating_id), String(row.date))),
+    );
+    return defrostDays.filter((day) => selected.has(defrostDayKey(day.heatingId, day.date)));
+  }, [filteredData, defrostDays]);
+
   return (
     <PageLayout
       titleKey="monthly.title"
       infoKey="monthly.info"
-      error={error}
-      isLoading={isLoading}
+      error={error ?? gridError ?? aggregateChart.error}
+      isLoading={isLoading || aggregateChart.isLoading}
       showSystemConsumptionToggle
+      standbyPowerSummary={standbyPowerSummary}
       chartControls={
         <div className="filter-container">
           <MonthYearPicker month={month} year={year} onChange={handleMonthYearChange} />
-          <ViewModeToggle viewMode={viewMode} onChange={setViewMode} />
-          <MetricModeToggle metricMode={metricMode} onChange={setMetricMode} />
+          <ViewModeToggle modes={VIEW_MODES} viewMode={viewMode} onChange={setViewMode} />
+          {viewMode !== "defrost" && (
+            <MetricModeToggle metricMode={metricMode} onChange={setMetricMode} showNormalized />
+          )}
+          {viewMode !== "defrost" && metricMode === "normalized" && (
+            <DegreeDayBaseSelect baseTemperature={degreeDayBase} onChange={setDegreeDayBase} />
+          )}
+          {viewMode !== "defrost" && metricMode === "cost" && <CostSettingsButton />}
+          {viewMode === "timeSeries" && (
+            <AggregationModeToggle
+              aggregationMode={aggregationMode}
+              onChange={setAggregationMode}
+            />
+          )}
+          {viewMode === "timeSeries" && DHW_LABEL_KEYS[metricMode] && (
+            <FormControlLabel
+              className="page-dhw-split-checkbox"
+              title={t("charts.dhwSplitHint")}
+              control={
+                <Checkbox checked={dhwSplit} onChange={(e) => setDhwSplit(e.target.checked)} />
+              }
+              label={t("charts.dhwSplit")}
+            />
+          )}
+          <FormControlLabel
+            className="page-exclude-outliers-checkbox"
+            control={
+              <Checkbox
+                checked={excludeOutliers}
+                onChange={(e) => setExcludeOutliers(e.target.checked)}
+              />
+            }
+            label={t("charts.excludeOutliers")}
+          />
         </div>
       }
       chart={
-        viewMode === "timeSeries" ? (
+        viewMode === "defrost" ? (
+          <DefrostChart days={filteredDefrostDays} />
+        ) : viewMode === "timeSeries" ? (
           <ChartUtilityFrame>
             <AzBarChart
-              data={comparisonMode ? [] : (filteredData as ChartDataRow[])}
-              comparisonGroups={comparisonGroupsForChart}
+              data={
+                serverMode
+                  ? aggregateChart.data
+                  : comparisonMode
+                    ? []
+                    : (filteredData as ChartDataRow[])
+              }
+              comparisonGroups={
+                serverMode ? aggregateChart.comparisonGroups : comparisonGroupsForChart
+              }
               indexField="date"
               indexLabel="common.date"
               indexFormatter={(date) => dayjs(date).format("DD")}
               aggregateData={true}
+              preAggregated={serverMode != null}
               metricMode={metricMode}
+              aggregationMode={aggregationMode}
+              granularity="day"
+              excludeOutliers={excludeOutliers}
+              dhwSplit={dhwSplit}
             />
           </ChartUtilityFrame>
         ) : (
           <HistogramChart
             data={histogramDataSource}
+            comparisonGroups={histogramComparisonGroups}
             metricMode={metricMode}
             statsTitle={
-              metricMode === "energy" ? t("charts.monthlyEnergyStats") : t("charts.monthlyCopStats")
+              metricMode === "energy"
+                ? t("charts.monthlyEnergyStats")
+                : metricMode === "cost"
+                  ? t("charts.monthlyCostStats")
+                  : metricMode === "normalized"
+                    ? t("charts.monthlyNormalizedStats")
+                    : t("charts.monthlyCopStats")
             }
             binSize={0.5}
+            granularity="day"
+            excludeOutliers={excludeOutliers}
           />
         )
       }
     >
       <DataGridWrapper
-        rows={displayData || []}
+        rows={displayData ?? []}
         columns={columns}
-        loading={isLoading}
-        getRowId={(row) => `${row.heating_id}-${row.date}`}
-        columnVisibilityModel={commonHiddenColumns}
-        onFilterChange={handleFilterChange}
+        loading={serverMode ? gridLoading : isLoading}
+        getRowId={dailyRowId}
+        columnVisibilityModel={columnVisibility}
+        onColumnVisibilityModelChange={setColumnVisibility}
         {...dataGridComparisonProps}
+        serverMode={serverMode}
       />
     </PageLayout>
   );
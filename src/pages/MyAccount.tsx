@@ -14,7 +14,9 @@ import {
 } from "../hooks/useMonthlyValues";
 import { useProfile, useUpdateProfile } from "../hooks/useProfile";
 import { useCreateSystem, useDeleteSystem, useSystem, useUpdateSystem } from "../hooks/useSystem";
+import { useSaveSystemConfigs, useSystemConfigs } from "../hooks/useSystemConfigs";
 import { supabase } from "../lib/supabaseClient";
+import { buildConfigHistoryEntries } from "../lib/systemConfigHistory";
 import type { Database } from "../types/database.types";
 
 type HeatingSystemInsert = Database["public"]["Tables"]["heating_systems"]["Insert"];
@@ -44,12 +46,14 @@ export default function MyAccount() {
   const systemQuery = useSystem(userId);
   const system = systemQuery.data;
   const monthlyQuery = useMonthlyValues(system?.heating_id);
+  const configsQuery = useSystemConfigs(system ? [system.heating_id] : []);
 
   // Mutations
   const updateProfile = useUpdateProfile(userId);
   const createSystem = useCreateSystem(userId);
   const updateSystem = useUpdateSystem(userId, system?.heating_id);
   const deleteSystem = useDeleteSystem(userId, system?.heating_id);
+  const saveSystemConfigs = useSaveSystemConfigs();
   const deleteAccountMutation = useDeleteAccount();
   const createMonthly = useCreateMonthlyValue(system?.heating_id);
   const updateMonthly = useUpdateMonthlyValue(system?.heating_id);
@@ -73,8 +77,20 @@ export default function MyAccount() {
   };
 
   // System save handler
-  const handleSystemSave = async (payload: HeatingSystemInsert) => {
+  const handleSystemSave = async (payload: HeatingSystemInsert, configEffectiveFrom?: string) => {
     if (system) {
+      // Keep the previous configuration for measurements before the change. The history is
+      // saved first, so that a failure leaves the system unchanged rather than without history.
+      if (configEffectiveFrom) {
+        await saveSystemConfigs.mutateAsync(
+          buildConfigHistoryEntries(
+            system,
+            payload,
+            configEffectiveFrom,
+            (configsQuery.data ?? []).length > 0,
+          ),
+        );
+      }
       await updateSystem.mutateAsync(payload);
     } else {
       await createSystem.mutateAsync(payload);
@@ -0,0 +1,330 @@
+import { useQuery } from "@tanstack/react-query";
+import { type ReactNode, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Link, useParams } from "react-router-dom";
+import {
+  AzBarChart,
+  type ChartDataRow,
+  EnergySignatureChart,
+  HeatingCurveSystemChart,
+  HistogramChart,
+} from "../components/common/charts";
+import { ChartFullscreenPanel, ChartUtilityFrame } from "../components/common/layout";
+import { CostSettingsButton } from "../components/ui";
+import { useCostSettings, useEnergyCostRows } from "../hooks/useCostSettings";
+import { summarizeDataQuality } from "../lib/dataQuality";
+import { summarizeRunningCosts } from "../lib/energyCost";
+import {
+  getBuildingEnergyStandardLabel,
+  getBuildingTypeLabel,
+  getHeatingTypeLabel,
+  getModelIduLabel,
+  getModelOduLabel,
+  getSwIduLabel,
+  getSwOduLabel,
+} from "../lib/enumCatalog";
+import { computeDesignCurve, getDefaultTargetFlowTemp } from "../lib/heatingCurveDesign";
+import { filterSystemsWithCompleteMonths } from "../lib/heatingSeason";
+import { formatMonthPeriod, getLastTwelveMonthsFilter } from "../lib/monthPeriods";
+import { detectSystemOutliers } from "../lib/outlierDetection";
+import { supabase } from "../lib/supabaseClient";
+import type { Database, HeatingSystemWithLocation } from "../types/database.types";
+
+type MonthlyValue = Database["public"]["Views"]["monthly_values_view"]["Row"];
+type DailyValue = Database["public"]["Views"]["daily_values_view"]["Row"];
+
+const MAX_DAILY_ROWS = 730;
+const PEER_MONTHS = 12;
+
+function formatEuro(value: number): string {
+  return `${Math.round(value)} €`;
+}
+
+export default function SystemDetail() {
+  const { t } = useTranslation();
+  const { heatingId = "" } = useParams<{ heatingId: string }>();
+  const { costSettings } = useCostSettings();
+
+  const {
+    data: system,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["system-with-location", heatingId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("heating_systems_with_location_view")
+        .select("*")
+        .eq("heating_id", heatingId)
+        .maybeSingle();
+      if (error) throw error;
+      return data as HeatingSystemWithLocation | null;
+    },
+    enabled: heatingId !== "",
+  });
+
+  const { data: monthlyData, error: monthlyError } = useQuery<MonthlyValue[]>({
+    queryKey: ["monthly_values_view_system", heatingId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("monthly_values_view")
+        .select("*")
+        .eq("heating_id", heatingId)
+        .order("year", { ascending: true })
+        .order("month", { ascending: true });
+      if (error) throw error;
+      return data as MonthlyValue[];
+    },
+    enabled: heatingId !== "",
+  });
+
+  const { data: dailyData, error: dailyError } = useQuery<DailyValue[]>({
+    queryKey: ["daily_values_view_system", heatingId, MAX_DAILY_ROWS],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("daily_values_view")
+        .select("*")
+        .eq("heating_id", heatingId)
+        .order("date", { ascending: false })
+        .limit(MAX_DAILY_ROWS);
+      if (error) throw error;
+      return data as DailyValue[];
+    },
+    enabled: heatingId !== "",
+  });
+
+  // Monthly values of all systems over the last twelve complete months
+  const { data: peerData, error: peerError } = useQuery<MonthlyValue[]>({
+    queryKey: ["monthly_values_view_peers", getLastTwelveMonthsFilter()],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("monthly_values_view")
+        .select("*")
+        .or(getLastTwelveMonthsFilter());
+      if (error) throw error;
+      return data as MonthlyValue[];
+    },
+  });
+
+  const monthlyChartData = useMemo(
+    () =>
+      (monthlyData ?? []).map((row) => ({
+        ...row,
+        period: `${row.year}-${String(row.month).padStart(2, "0")}`,
+      })),
+    [monthlyData],
+  );
+  const periods = useMemo(() => monthlyChartData.map((row) => row.period), [monthlyChartData]);
+
+  const designCurve = useMemo(
+    () =>
+      system
+        ? computeDesignCurve(
+            system.design_outdoor_temp_c,
+            getDefaultTargetFlowTemp(system.heating_type),
+          )
+        : null,
+    [system],
+  );
+
+  const peerRows = useMemo(
+    () =>
+      filterSystemsWithCompleteMonths(peerData ?? [], PEER_MONTHS).filter(
+        (row): row is MonthlyValue & { heating_id: string } => row.heating_id != null,
+      ),
+    [peerData],
+  );
+  const isInPeerGroup = peerRows.some((row) => row.heating_id === heatingId);
+
+  // Running costs of this system over the same twelve months as the peer comparison
+  const ownLastTwelveMonths = useMemo(
+    () => (peerData ?? []).filter((row) => row.heating_id === heatingId),
+    [peerData, heatingId],
+  );
+  const ownCostRows = useEnergyCostRows(ownLastTwelveMonths, "month");
+  const runningCosts = useMemo(() => summarizeRunningCosts(ownCostRows ?? []), [ownCostRows]);
+  const boilerFuelLabel = t(`costSettings.boilerFuels.${costSettings.boilerFuel}`);
+
+  // The loaded days are the system's history their outliers are measured against
+  const dataQualitySummary = useMemo(
+    () => summarizeDataQuality(detectSystemOutliers(dailyData ?? [], dailyData ?? []), "day"),
+    [dailyData],
+  );
+
+  const metadata: { label: string; value: ReactNode }[] = system
+    ? [
+        { label: t("systemForm.country"), value: system.country },
+        { label: t("systemForm.postalCode"), value: system.postal_code },
+        {
+          label: t("systemForm.heatingSystem"),
+          value: getHeatingTypeLabel(t, system.heating_type),
+        },
+        { label: t("systemForm.indoorUnit"), value: getModelIduLabel(t, system.model_idu) },
+        { label: t("systemForm.outdoorUnit"), value: getModelOduLabel(t, system.model_odu) },
+        { label: t("systemForm.softwareIndoor"), value: getSwIduLabel(t, system.sw_idu) },
+        { label: t("systemForm.softwareOutdoor"), value: getSwOduLabel(t, system.sw_odu) },
+        {
+          label: t("systemForm.heatingLoad"),
+          value: system.heating_load_kw != null ? `${system.heating_load_kw} kW` : null,
+        },
+        {
+          label: t("systemForm.heatedArea"),
+          value: system.heated_area_m2 != null ? `${system.heated_area_m2} m²` : null,
+        },
+        {
+          label: t("systemForm.buildingConstructionYear"),
+          value: system.building_construction_year,
+        },
+        {
+          label: t("systemForm.designOutdoorTemp"),
+          value: system.design_outdoor_temp_c != null ? `${system.design_outdoor_temp_c} °C` : null,
+        },
+        {
+          label: t("systemForm.buildingType"),
+          value: system.building_type ? getBuildingTypeLabel(t, system.building_type) : null,
+        },
+        {
+          label: t("systemForm.buildingEnergyStandard"),
+          value: system.building_energy_standard
+            ? getBuildingEnergyStandardLabel(t, system.building_energy_standard)
+            : null,
+        },
+      ]
+    : [];
+
+  const queryError = error ?? monthlyError ?? dailyError ?? peerError;
+
+  return (
+    <section>
+      <Link to="/systems" className="system-detail-back-link">
+        ← {t("systemDetail.backToSystems")}
+      </Link>
+      <h2>{system?.name || t("systems.unnamedSystem")}</h2>
+      <p className="muted">{t("systemDetail.info")}</p>
+
+      {isLoading && <div>{t("common.loading")}</div>}
+      {queryError && <div className="error">{queryError.message}</div>}
+      {!isLoading && !error && !system && <div className="error">{t("systemDetail.notFound")}</div>}
+
+      {system && (
+        <>
+          <div className="card system-detail-card">
+            <dl className="system-detail-metadata">
+              {metadata.map(({ label, value }) => (
+                <div key={label} className="system-detail-metadata-item">
+                  <dt className="muted">{label}</dt>
+                  <dd>{value ?? "-"}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+
+          <h3>{t("systemDetail.monthlyHistory")}</h3>
+          <ChartFullscreenPanel title={t("systemDetail.monthlyHistory")}>
+            <ChartUtilityFrame>
+              <AzBarChart
+                data={monthlyChartData as ChartDataRow[]}
+                indexField="period"
+                indexLabel="common.month"
+                indexValues={periods}
+                indexFormatter={formatMonthPeriod}
+                granularity="month"
+              />
+            </ChartUtilityFrame>
+          </ChartFullscreenPanel>
+
+          <h3>{t("systemDetail.heatingCurve")}</h3>
+          <ChartFullscreenPanel title={t("systemDetail.heatingCurve")}>
+            <HeatingCurveSystemChart data={dailyData ?? []} design={designCurve} />
+          </ChartFullscreenPanel>
+
+          <h3>{t("systemDetail.energySignature")}</h3>
+          <p className="muted">{t("systemDetail.energySignatureInfo")}</p>
+          <ChartFullscreenPanel title={t("systemDetail.energySignature")}>
+            <EnergySignatureChart
+              data={dailyData ?? []}
+              designOutdoorTempC={system.design_outdoor_temp_c}
+              heatingLoadKw={system.heating_load_kw}
+            />
+          </ChartFullscreenPanel>
+
+          <h3>{t("systemDetail.runningCosts")}</h3>
+          <p className="muted">
+            {t("systemDetail.runningCostsInfo", {
+              count: ownLastTwelveMonths.length,
+              fuel: boilerFuelLabel,
+            })}
+          </p>
+          <div className="card system-detail-card">
+            {runningCosts ? (
+              <dl className="system-detail-metadata">
+                {[
+                  {
+                    label: t("systemDetail.electricityCost"),
+                    value: formatEuro(runningCosts.electricityCostEur),
+                  },
+                  {
+                    label: t("systemDetail.boilerCost", { fuel: boilerFuelLabel }),
+                    value: formatEuro(runningCosts.boilerCostEur),
+                  },
+                  {
+                    label: t("systemDetail.costSavings"),
+                    value: formatEuro(runningCosts.savingsEur),
+                  },
+                  { label: t("systemDetail.co2"), value: `${Math.round(runningCosts.co2Kg)} kg` },
+                  {
+                    label: t("systemDetail.boilerCo2", { fuel: boilerFuelLabel }),
+                    value: `${Math.round(runningCosts.boilerCo2Kg)} kg`,
+                  },
+                  {
+                    label: t("systemDetail.co2Savings"),
+                    value: `${Math.round(runningCosts.co2SavingsKg)} kg`,
+                  },
+                ].map(({ label, value }) => (
+                  <div key={label} className="system-detail-metadata-item">
+                    <dt className="muted">{label}</dt>
+                    <dd>{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              <p className="muted">{t("systemDetail.noRunningCosts")}</p>
+            )}
+            <CostSettingsButton />
+          </div>
+
+          <h3>{t("systemDetail.peerComparison")}</h3>
+          <p className="muted">
+            {t(isInPeerGroup ? "systemDetail.peerComparisonInfo" : "systemDetail.notInPeerGroup", {
+              count: PEER_MONTHS,
+            })}
+          </p>
+          <ChartFullscreenPanel title={t("systemDetail.peerComparison")}>
+            <HistogramChart data={peerRows} granularity="month" highlightHeatingIds={[heatingId]} />
+          </ChartFullscreenPanel>
+
+          <h3>{t("systemDetail.dataQuality")}</h3>
+          <div className="card system-detail-card">
+            <p>
+              {t("systemDetail.dataQualityDays", {
+                count: dataQualitySummary.rowCount,
+                issues: dataQualitySummary.rowsWithIssues,
+                errors: dataQualitySummary.rowsWithErrors,
+              })}
+            </p>
+            {dataQualitySummary.entries.length > 0 && (
+              <ul className="system-detail-quality-list">
+                {dataQualitySummary.entries.map((entry) => (
+                  <li key={entry.type}>
+                    {entry.severity === "error" ? "⚠️" : "⚡"}{" "}
+                    {t(`systemDetail.issueTypes.${entry.type}`)}: {entry.count}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -1,7 +1,8 @@
-import type { GridFilterModel } from "@mui/x-data-grid";
+import type { GridColDef, GridFilterModel } from "@mui/x-data-grid";
 import { useQuery } from "@tanstack/react-query";
 import { useCallback, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
+import { Link, useNavigate } from "react-router-dom";
 import { SystemsGeoMap } from "../components/common/charts";
 import { DataGridWrapper } from "../components/common/data-grid";
 import { PageLayout } from "../components/common/layout";
@@ -11,10 +12,20 @@ import type { HeatingSystemWithLocation } from "../types/database.types";
 
 export default function Systems() {
   const { t } = useTranslation();
+  const navigate = useNavigate();
   const [filterModel, setFilterModel] = useState<GridFilterModel | undefined>(undefined);
 
-  // Define columns for Systems page
-  const columns = getBaseSystemColumns(t);
+  // Define columns for Systems page, the system name links to its detail page
+  const columns: GridColDef[] = getBaseSystemColumns(t).map((column) =>
+    column.field === "name"
+      ? {
+          ...column,
+          renderCell: (params) => (
+            <Link to={`/systems/${params.row.heating_id}`}>{params.formattedValue}</Link>
+          ),
+        }
+      : column,
+  );
 
   const { data, isLoading, error } = useQuery({
     queryKey: ["systems-with-location"],
@@ -41,11 +52,22 @@ export default function Systems() {
     });
   }, []);
 
+  const handleSystemOpen = useCallback(
+    (heatingId: string) => navigate(`/systems/${heatingId}`),
+    [navigate],
+  );
+
   // Memoize the map component to prevent unnecessary re-renders
   const mapComponent = useMemo(() => {
     if (!data) return null;
-    return <SystemsGeoMap systems={data} onSystemClick={handleSystemClick} />;
-  }, [data, handleSystemClick]);
+    return (
+      <SystemsGeoMap
+        systems={data}
+        onSystemClick={handleSystemClick}
+        onSystemOpen={handleSystemOpen}
+      />
+    );
+  }, [data, handleSystemClick, handleSystemOpen]);
 
   return (
     <PageLayout
@@ -1,31 +1,92 @@
-import { Checkbox, FormControlLabel } from "@mui/material";
+import { Checkbox, FormControlLabel, Tooltip } from "@mui/material";
 import { useQuery } from "@tanstack/react-query";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { AzBarChart, type ChartDataRow, HistogramChart } from "../components/common/charts";
+import {
+  type AggregationMode,
+  AzBarChart,
+  type ChartDataRow,
+  type ComparisonDataGroup,
+  HistogramChart,
+} from "../components/common/charts";
 import { DataGridWrapper } from "../components/common/data-grid";
 import { ChartUtilityFrame, PageLayout } from "../components/common/layout";
-import { MetricModeToggle, ViewModeToggle } from "../components/ui";
+import {
+  AggregationModeToggle,
+  CostSettingsButton,
+  DegreeDayBaseSelect,
+  MetricModeToggle,
+  ViewModeToggle,
+} from "../components/ui";
 import { useComparisonMode } from "../hooks/useComparisonMode";
+import { useEnergyCostRows } from "../hooks/useCostSettings";
+import { useConfigHistoryRows } from "../hooks/useSystemConfigs";
 import { useSystemConsumptionRows } from "../hooks/useSystemConsumptionMode";
+import { useInitialSearchParams, useSyncUrlState } from "../hooks/useUrlState";
+import { SERIES_PALETTE, withOpacity } from "../lib/chartTheme";
+import {
+  addWeatherNormalization,
+  DEFAULT_DEGREE_DAY_BASE_C,
+  type DegreeDayRow,
+  monthlyDegreeDayKey,
+  sumMonthlyDegreeDays,
+} from "../lib/degreeDays";
 import { createFilterValueResolver } from "../lib/filterValueResolver";
+import {
+  countElapsedSeasonMonths,
+  filterSystemsWithCompleteMonths,
+  formatSeasonLabel,
+  getSeasonDateRange,
+  getSeasonIndexValues,
+  getSeasonMonthFilter,
+  getSeasonStartYear,
+  SEASON_DEFINITIONS,
+  type SeasonDefinition,
+} from "../lib/heatingSeason";
+import { DHW_LABEL_KEYS, METRIC_MODES } from "../lib/metricModes";
 import { supabase } from "../lib/supabaseClient";
+import { summarizeStandbyPower } from "../lib/systemConsumption";
 import { commonHiddenColumns, getTimeSeriesColumns } from "../lib/tableHelpers";
+import { filterParams, parseEnumParam, parseIntParam, readFilterParams } from "../lib/urlState";
 import type { Database } from "../types/database.types";
 
 type MonthlyValueViewRow = Database["public"]["Views"]["monthly_values_view"]["Row"];
-type ViewMode = "timeSeries" | "distribution";
-type MetricMode = "cop" | "energy";
+type MetricMode = "cop" | "energy" | "normalized" | "cost";
+
+// PostgREST returns at most this many rows per request
+const DEGREE_DAY_PAGE_SIZE = 1000;
+const VIEW_MODES = ["timeSeries", "distribution"] as const;
+type ViewMode = (typeof VIEW_MODES)[number];
 
 export default function Yearly() {
   const { t } = useTranslation();
   const defaultYear = Number(dayjs().subtract(1, "month").format("YYYY"));
-  const [year, setYear] = useState(defaultYear);
+  // Year, season, year comparison, view, metric and filters can be restored from a shared link
+  const searchParams = useInitialSearchParams();
+  // Calendar year, or the year in which the selected heating season starts
+  const [year, setYear] = useState(
+    () => parseIntParam(searchParams.get("year"), 1900, 2999) ?? defaultYear,
+  );
+  const [seasonDefinition, setSeasonDefinition] = useState<SeasonDefinition>(
+    () => parseEnumParam(searchParams.get("season"), SEASON_DEFINITIONS) ?? "calendar",
+  );
   const [filteredData, setFilteredData] = useState<MonthlyValueViewRow[]>([]);
-  const [viewMode, setViewMode] = useState<ViewMode>("timeSeries");
-  const [metricMode, setMetricMode] = useState<MetricMode>("cop");
+  const [viewMode, setViewMode] = useState<ViewMode>(
+    () => parseEnumParam(searchParams.get("view"), VIEW_MODES) ?? "timeSeries",
+  );
+  const [metricMode, setMetricMode] = useState<MetricMode>(
+    () => parseEnumParam(searchParams.get("metric"), METRIC_MODES) ?? "cop",
+  );
+  const [aggregationMode, setAggregationMode] = useState<AggregationMode>("weighted");
+  const [degreeDayBase, setDegreeDayBase] = useState(DEFAULT_DEGREE_DAY_BASE_C);
   const [completeDataOnly, setCompleteDataOnly] = useState(true);
+  const [dhwSplit, setDhwSplit] = useState(false);
+  // Overlay the same months of all years from fromYear up to the selected year
+  const [compareYears, setCompareYears] = useState(() => searchParams.get("compare") === "1");
+  const [fromYear, setFromYear] = useState(
+    () => parseIntParam(searchParams.get("from"), 1900, 2999) ?? defaultYear - 1,
+  );
 
   // Wrap setFilteredData in useCallback to prevent infinite loops in DataGridWrapper
   const handleFilterChange = useCallback((data: MonthlyValueViewRow[]) => {
@@ -50,84 +111,158 @@ export default function Yearly() {
     [columns],
   );
 
+  // First and last year with monthly values, the selectable years are derived from them
+  const { data: yearRange } = useQuery({
+    queryKey: ["yearly_year_range"],
+    queryFn: async () => {
+      const [first, last] = await Promise.all(
+        [true, false].map((ascending) =>
+          supabase
+            .from("monthly_values_view")
+            .select("year")
+            .not("year", "is", null)
+            .order("year", { ascending })
+            .limit(1),
+        ),
+      );
+
+      if (first.error) throw first.error;
+      if (last.error) throw last.error;
+      return {
+        min: first.data[0]?.year ?? null,
+        max: last.data[0]?.year ?? null,
+      };
+    },
+  });
+
+  // Year overlays only exist for the time series
+  const isYearOverlay = compareYears && viewMode === "timeSeries";
+  const selectedYears = useMemo(() => {
+    if (!isYearOverlay) return [year];
+    const y = [];
+    for (let yy = Math.min(fromYear, year); yy <= year; yy++) y.push(yy);
+    return y;
+  }, [isYearOverlay, fromYear, year]);
+
   const { data, isLoading, error } = useQuery<MonthlyValueViewRow[]>({
-    queryKey: ["yearly", year],
+    queryKey: ["yearly", selectedYears.join(","), seasonDefinition],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("monthly_values_view")
         .select("*")
-        .eq("year", year);
+        .or(selectedYears.map((y) => getSeasonMonthFilter(y, seasonDefinition)).join(","));
 
       if (error) throw error;
       return data as MonthlyValueViewRow[];
     },
   });
-  const displayData = useSystemConsumptionRows(data, "month");
+  // Measurements keep the configuration that was valid when they were recorded
+  const configHistoryData = useConfigHistoryRows(data);
+  const systemConsumptionData = useSystemConsumptionRows(configHistoryData, "month");
+  const standbyPowerSummary = useMemo(
+    () => summarizeStandbyPower(configHistoryData),
+    [configHistoryData],
+  );
+  const costData = useEnergyCostRows(systemConsumptionData, "month");
+
+  // Daily outdoor temperatures are only needed for the heating degree days of the normalized mode
+  const { data: dailyTemperatures } = useQuery<DegreeDayRow[]>({
+    queryKey: ["yearly_degree_days", selectedYears.join(","), seasonDefinition],
+    enabled: metricMode === "normalized",
+    queryFn: async () => {
+      const { start } = getSeasonDateRange(selectedYears[0], seasonDefinition);
+      const { end } = getSeasonDateRange(selectedYears[selectedYears.length - 1], seasonDefinition);
+      const rows: DegreeDayRow[] = [];
+      for (let from = 0; ; from += DEGREE_DAY_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("daily_values_view")
+          .select("heating_id, date, outdoor_temperature_c")
+          .gte("date", start)
+          .lte("date", end)
+          .order("date", { ascending: true })
+          .range(from, from + DEGREE_DAY_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data as DegreeDayRow[]));
+        if (data.length < DEGREE_DAY_PAGE_SIZE) return rows;
+      }
+    },
+  });
 
+  const monthlyDegreeDays = useMemo(
+    () => sumMonthlyDegreeDays(dailyTemperatures ?? [], degreeDayBase),
+    [dailyTemperatures, degreeDayBase],
+  );
+
+  const displayData = useMemo(
+    () =>
+      costData &&
+      addWeatherNormalization(costData, (row) =>
+        row.heating_id && row.year && row.month
+          ? (monthlyDegreeDays.get(monthlyDegreeDayKey(row.heating_id, row.year, row.month)) ??
+            null)
+          : null,
+      ),
+    [costData, monthlyDegreeDays],
+  );
+
+  // Years with data; a season starting the year before the first data year already reaches into it
   const years = useMemo(() => {
+    const first = (yearRange?.min ?? defaultYear) - (seasonDefinition === "calendar" ? 0 : 1);
+    const last = Math.max(yearRange?.max ?? defaultYear, defaultYear);
     const y = [];
-    for (let yy = 2025; yy <= 2050; yy++) y.push(yy);
+    for (let yy = Math.min(first, year); yy <= Math.max(last, year); yy++) y.push(yy);
     return y;
-  }, []);
-
-  // Determine expected months based on selected year
-  const expectedMonths = useMemo(() => {
-    const currentYear = dayjs().year();
-    const currentMonth = dayjs().month() + 1; // 1-12
+  }, [yearRange, seasonDefinition, defaultYear, year]);
 
-    if (year < currentYear) {
-      // Past year: expect all 12 months
-      return 12;
-    }
-    if (year === currentYear) {
-      // Current year: expect Jan to current month
-      return currentMonth;
-    }
-    // Future year: expect 0 months
-    return 0;
-  }, [year]);
+  // Determine expected months based on selected year or season
+  // (past: all 12 months, current: months up to now, future: 0 months)
+  const expectedMonths = useMemo(
+    () => countElapsedSeasonMonths(year, seasonDefinition),
+    [year, seasonDefinition],
+  );
 
   // Filter data to only include systems with complete data
   const completeDataFilteredData = useMemo(() => {
     if (!displayData) return displayData;
     if (!completeDataOnly) return displayData;
 
-    // Count months per system
-    const systemMonthCounts = new Map<string, Set<number>>();
-
-    for (const row of displayData) {
-      const heatingId = row.heating_id;
-      const month = row.month;
-
-      if (!heatingId || !month) continue;
-
-      if (!systemMonthCounts.has(heatingId)) {
-        systemMonthCounts.set(heatingId, new Set());
-      }
-      systemMonthCounts.get(heatingId)?.add(Number(month));
-    }
-
-    // Filter to only include systems with expected number of months
-    const completeSystemIds = new Set<string>();
-    systemMonthCounts.forEach((months, heatingId) => {
-      if (months.size >= expectedMonths) {
-        completeSystemIds.add(heatingId);
-      }
-    });
-
-    const filtered = displayData.filter(
-      (row) => row.heating_id && completeSystemIds.has(row.heating_id),
-    );
+    const filtered = filterSystemsWithCompleteMonths(displayData, expectedMonths);
 
     // Return original data if filter didn't remove anything to maintain reference stability
     return filtered.length === displayData.length ? displayData : filtered;
   }, [displayData, completeDataOnly, expectedMonths]);
 
+  const seasonIndexValues = useMemo(
+    () => getSeasonIndexValues(seasonDefinition),
+    [seasonDefinition],
+  );
+
   // Memoize filter section to prevent unnecessary re-renders
   const filterSection = useMemo(
     () => (
       <div className="filter-container">
         <div className="flex-center-gap-sm">
+          {isYearOverlay && (
+            <>
+              <select
+                id="yearly-from-year-select"
+                value={Math.min(fromYear, year)}
+                onChange={(e) => setFromYear(Number(e.target.value))}
+                className="form-select page-filter-select-year"
+                aria-label={t("yearly.fromYear")}
+              >
+                {years
+                  .filter((y) => y <= year)
+                  .map((y) => (
+                    <option key={y} value={y}>
+                      {formatSeasonLabel(y, seasonDefinition)}
+                    </option>
+                  ))}
+              </select>
+              <span>–</span>
+            </>
+          )}
           <select
             id="yearly-year-select"
             value={year}
@@ -136,10 +271,39 @@ export default function Yearly() {
           >
             {years.map((y) => (
               <option key={y} value={y}>
-                {y}
+                {formatSeasonLabel(y, seasonDefinition)}
               </option>
             ))}
           </select>
+          <Tooltip title={t("yearly.seasonHint")}>
+            <select
+              id="yearly-season-select"
+              value={seasonDefinition}
+              onChange={(e) => setSeasonDefinition(e.target.value as SeasonDefinition)}
+              className="form-select page-filter-select-season"
+              aria-label={t("yearly.season")}
+            >
+              {SEASON_DEFINITIONS.map((definition) => (
+                <option key={definition} value={definition}>
+                  {t(`yearly.seasonDefinitions.${definition}`)}
+                </option>
+              ))}
+            </select>
+          </Tooltip>
+          {viewMode === "timeSeries" && (
+            <Tooltip title={t("yearly.compareYearsHint")}>
+              <FormControlLabel
+                className="page-compare-years-checkbox"
+                control={
+                  <Checkbox
+                    checked={compareYears}
+                    onChange={(e) => setCompareYears(e.target.checked)}
+                  />
+                }
+                label={t("yearly.compareYears")}
+              />
+            </Tooltip>
+          )}
           {viewMode === "distribution" && (
             <FormControlLabel
               className="page-complete-data-checkbox"
@@ -153,30 +317,116 @@ export default function Yearly() {
             />
           )}
         </div>
-        <ViewModeToggle viewMode={viewMode} onChange={setViewMode} />
-        <MetricModeToggle metricMode={metricMode} onChange={setMetricMode} />
+        <ViewModeToggle modes={VIEW_MODES} viewMode={viewMode} onChange={setViewMode} />
+        <MetricModeToggle metricMode={metricMode} onChange={setMetricMode} showNormalized />
+        {metricMode === "normalized" && (
+          <DegreeDayBaseSelect baseTemperature={degreeDayBase} onChange={setDegreeDayBase} />
+        )}
+        {metricMode === "cost" && <CostSettingsButton />}
+        {viewMode === "timeSeries" && (
+          <AggregationModeToggle aggregationMode={aggregationMode} onChange={setAggregationMode} />
+        )}
+        {viewMode === "timeSeries" && DHW_LABEL_KEYS[metricMode] && (
+          <FormControlLabel
+            className="page-dhw-split-checkbox"
+            title={t("charts.dhwSplitHint")}
+            control={
+              <Checkbox checked={dhwSplit} onChange={(e) => setDhwSplit(e.target.checked)} />
+            }
+            label={t("charts.dhwSplit")}
+          />
+        )}
       </div>
     ),
-    [year, years, viewMode, metricMode, completeDataOnly, t],
+    [
+      year,
+      years,
+      fromYear,
+      isYearOverlay,
+      compareYears,
+      seasonDefinition,
+      viewMode,
+      metricMode,
+      aggregationMode,
+      degreeDayBase,
+      completeDataOnly,
+      dhwSplit,
+      t,
+    ],
   );
 
   // Comparison mode hook - handles all filter logic
-  const { comparisonMode, comparisonGroupsForChart, dataGridComparisonProps } = useComparisonMode(
-    completeDataFilteredData,
-    filterValueResolver,
-  );
+  const { comparisonMode, filterGroups, comparisonGroupsForChart, dataGridComparisonProps } =
+    useComparisonMode(
+      completeDataFilteredData,
+      filterValueResolver,
+      readFilterParams(searchParams),
+    );
+
+  useSyncUrlState({
+    year: String(year),
+    season: seasonDefinition,
+    compare: compareYears ? "1" : null,
+    from: compareYears ? String(fromYear) : null,
+    view: viewMode,
+    metric: metricMode,
+    ...filterParams(filterGroups),
+  });
+
+  // One comparison group per season year, overlaying the same months of each year. With
+  // comparison groups, each group gets one series per year in its color, older years fainter.
+  const yearGroups = useMemo<ComparisonDataGroup[]>(() => {
+    if (!isYearOverlay) return [];
+    const seasonRows = (rows: ChartDataRow[], seasonYear: number) =>
+      rows.filter(
+        (row) =>
+          typeof row.year === "number" &&
+          typeof row.month === "number" &&
+          getSeasonStartYear(row.year, row.month, seasonDefinition) === seasonYear,
+      );
+    if (comparisonGroupsForChart) {
+      return comparisonGroupsForChart.flatMap((group) =>
+        selectedYears.map((y, i) => ({
+          id: `${group.id}-${y}`,
+          name: `${group.name} ${formatSeasonLabel(y, seasonDefinition)}`,
+          color: withOpacity(group.color, 0.3 + (0.7 * (i + 1)) / selectedYears.length),
+          data: seasonRows(group.data, y),
+        })),
+      );
+    }
+    return selectedYears.map((y, i) => ({
+      id: String(y),
+      name: formatSeasonLabel(y, seasonDefinition),
+      color: SERIES_PALETTE[i % SERIES_PALETTE.length],
+      data: seasonRows(filteredData as ChartDataRow[], y),
+    }));
+  }, [isYearOverlay, selectedYears, seasonDefinition, filteredData, comparisonGroupsForChart]);
 
   // Get the data to use for histogram (filtered if available)
   const histogramDataSource = useMemo(() => {
     return filteredData as Array<{
       heating_id: string;
+      user_id: string | null;
       thermal_energy_kwh?: number | null;
       electrical_energy_kwh?: number | null;
       thermal_energy_heating_kwh?: number | null;
       electrical_energy_heating_kwh?: number | null;
+      heating_degree_days?: number | null;
+      heated_area_m2?: number | null;
+      electricity_cost_eur?: number | null;
+      electricity_cost_heating_eur?: number | null;
     }>;
   }, [filteredData]);
 
+  const histogramComparisonGroups = useMemo(
+    () =>
+      comparisonGroupsForChart?.map((group) => ({
+        ...group,
+        data: group.data as typeof histogramDataSource,
+      })),
+    [comparisonGroupsForChart],
+  );
+
   return (
     <PageLayout
       titleKey="yearly.title"
@@ -184,28 +434,41 @@ export default function Yearly() {
       error={error}
       isLoading={isLoading}
       showSystemConsumptionToggle
+      standbyPowerSummary={standbyPowerSummary}
       chartControls={filterSection}
       chart={
         viewMode === "timeSeries" ? (
           <ChartUtilityFrame>
             <AzBarChart
-              data={comparisonMode ? [] : (filteredData as ChartDataRow[])}
-              comparisonGroups={comparisonGroupsForChart}
+              data={comparisonMode || yearGroups.length > 1 ? [] : (filteredData as ChartDataRow[])}
+              comparisonGroups={yearGroups.length > 1 ? yearGroups : comparisonGroupsForChart}
+              showGroupLegend={yearGroups.length > 1}
               indexField="month"
               indexLabel="common.month"
-              indexValues={["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"]}
+              indexValues={seasonIndexValues}
               aggregateData={true}
               metricMode={metricMode}
+              aggregationMode={aggregationMode}
+              granularity="month"
+              dhwSplit={dhwSplit}
             />
           </ChartUtilityFrame>
         ) : (
           <HistogramChart
             data={histogramDataSource}
+            comparisonGroups={histogramComparisonGroups}
             metricMode={metricMode}
             statsTitle={
-              metricMode === "energy" ? t("charts.yearlyEnergyStats") : t("charts.yearlyCopStats")
+              metricMode === "energy"
+                ? t("charts.yearlyEnergyStats")
+                : metricMode === "cost"
+                  ? t("charts.yearlyCostStats")
+                  : metricMode === "normalized"
+                    ? t("charts.yearlyNormalizedStats")
+                    : t("charts.yearlyCopStats")
             }
             binSize={0.5}
+            granularity="month"
           />
         )
       }
@@ -94,8 +94,8 @@ describe("Comparison Mode Integration", () => {
       // Step 4: Verify comparison groups
       const groups = result.current.getComparisonGroups();
       expect(groups).toHaveLength(2);
-      expect(groups[0].name).toBe("Filter 1");
-      expect(groups[1].name).toBe("Filter 2");
+      expect(groups[0].name).toBe("heating_type = Floor Heating");
+      expect(groups[1].name).toBe("heating_type = Radiators");
 
       // Verify both groups have different data
       expect(filteredGroup1[0].az).toBe(3.5); // Floor Heating month 1
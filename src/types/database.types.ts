@@ -8,6 +8,74 @@ export type Database = {
   };
   public: {
     Tables: {
+      filter_presets: {
+        Row: {
+          created_at: string;
+          filter: string;
+          id: string;
+          name: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          filter: string;
+          id?: string;
+          name: string;
+          user_id?: string;
+        };
+        Update: {
+          created_at?: string;
+          filter?: string;
+          id?: string;
+          name?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      heating_system_configs: {
+        Row: {
+          created_at: string;
+          effective_from: string;
+          heating_id: string;
+          heating_type: Database["public"]["Enums"]["heating_type"] | null;
+          id: string;
+          sw_idu: Database["public"]["Enums"]["sw_idu"] | null;
+          sw_odu: Database["public"]["Enums"]["sw_odu"] | null;
+          thermometer_offset_k: number | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          effective_from: string;
+          heating_id: string;
+          heating_type?: Database["public"]["Enums"]["heating_type"] | null;
+          id?: string;
+          sw_idu?: Database["public"]["Enums"]["sw_idu"] | null;
+          sw_odu?: Database["public"]["Enums"]["sw_odu"] | null;
+          thermometer_offset_k?: number | null;
+          user_id?: string;
+        };
+        Update: {
+          created_at?: string;
+          effective_from?: string;
+          heating_id?: string;
+          heating_type?: Database["public"]["Enums"]["heating_type"] | null;
+          id?: string;
+          sw_idu?: Database["public"]["Enums"]["sw_idu"] | null;
+          sw_odu?: Database["public"]["Enums"]["sw_odu"] | null;
+          thermometer_offset_k?: number | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "heating_system_configs_heating_id_fkey";
+            columns: ["heating_id"];
+            isOneToOne: false;
+            referencedRelation: "heating_systems";
+            referencedColumns: ["heating_id"];
+          },
+        ];
+      };
       heating_systems: {
         Row: {
           building_construction_year: number | null;
@@ -25,6 +93,7 @@ export type Database = {
           name: string | null;
           notes: string | null;
           postal_code: string | null;
+          standby_power_w: number | null;
           sw_idu: Database["public"]["Enums"]["sw_idu"] | null;
           sw_odu: Database["public"]["Enums"]["sw_odu"] | null;
           thermometer_offset_k: number | null;
@@ -49,6 +118,7 @@ export type Database = {
           name?: string | null;
           notes?: string | null;
           postal_code?: string | null;
+          standby_power_w?: number | null;
           sw_idu?: Database["public"]["Enums"]["sw_idu"] | null;
           sw_odu?: Database["public"]["Enums"]["sw_odu"] | null;
           thermometer_offset_k?: number | null;
@@ -73,6 +143,7 @@ export type Database = {
           name?: string | null;
           notes?: string | null;
           postal_code?: string | null;
+          standby_power_w?: number | null;
           sw_idu?: Database["public"]["Enums"]["sw_idu"] | null;
           sw_odu?: Database["public"]["Enums"]["sw_odu"] | null;
           thermometer_offset_k?: number | null;
@@ -240,6 +311,7 @@ export type Database = {
           name: string | null;
           outdoor_temperature_c: number | null;
           postal_code: string | null;
+          standby_power_w: number | null;
           sw_idu: Database["public"]["Enums"]["sw_idu"] | null;
           sw_odu: Database["public"]["Enums"]["sw_odu"] | null;
           thermal_energy_heating_kwh: number | null;
@@ -288,6 +360,7 @@ export type Database = {
           outdoor_temperature_min_c: number | null;
           outdoor_temperature_max_c: number | null;
           postal_code: string | null;
+          standby_power_w: number | null;
           sw_idu: Database["public"]["Enums"]["sw_idu"] | null;
           sw_odu: Database["public"]["Enums"]["sw_odu"] | null;
           thermal_energy_heating_kwh: number | null;
@@ -332,6 +405,7 @@ export type Database = {
           name: string | null;
           outdoor_temperature_c: number | null;
           postal_code: string | null;
+          standby_power_w: number | null;
           sw_idu: Database["public"]["Enums"]["sw_idu"] | null;
           sw_odu: Database["public"]["Enums"]["sw_odu"] | null;
           thermal_energy_heating_kwh: number | null;
@@ -363,6 +437,88 @@ export type Database = {
         };
         Returns: Database["public"]["Views"]["daily_values_view"]["Row"][];
       };
+      aggregate_daily_values_by_day: {
+        Args: {
+          end_date: string;
+          exclude_system_consumption?: boolean;
+          filter_model?: Json;
+          start_date: string;
+        };
+        Returns: {
+          az_heating_mean: number | null;
+          az_heating_median: number | null;
+          az_heating_p10: number | null;
+          az_heating_p25: number | null;
+          az_heating_p75: number | null;
+          az_heating_p90: number | null;
+          az_heating_weighted: number | null;
+          az_mean: number | null;
+          az_median: number | null;
+          az_p10: number | null;
+          az_p25: number | null;
+          az_p75: number | null;
+          az_p90: number | null;
+          az_weighted: number | null;
+          electrical_energy_heating_kwh_mean: number | null;
+          electrical_energy_heating_kwh_median: number | null;
+          electrical_energy_heating_kwh_p10: number | null;
+          electrical_energy_heating_kwh_p25: number | null;
+          electrical_energy_heating_kwh_p75: number | null;
+          electrical_energy_heating_kwh_p90: number | null;
+          electrical_energy_kwh_mean: number | null;
+          electrical_energy_kwh_median: number | null;
+          electrical_energy_kwh_p10: number | null;
+          electrical_energy_kwh_p25: number | null;
+          electrical_energy_kwh_p75: number | null;
+          electrical_energy_kwh_p90: number | null;
+          flow_temperature_c: number | null;
+          merged_hours: number | null;
+          outdoor_temperature_c: number | null;
+          period_start: string;
+          row_count: number;
+        }[];
+      };
+      aggregate_measurement_deltas_by_hour: {
+        Args: {
+          end_at: string;
+          exclude_system_consumption?: boolean;
+          filter_model?: Json;
+          start_at: string;
+        };
+        Returns: {
+          az_heating_mean: number | null;
+          az_heating_median: number | null;
+          az_heating_p10: number | null;
+          az_heating_p25: number | null;
+          az_heating_p75: number | null;
+          az_heating_p90: number | null;
+          az_heating_weighted: number | null;
+          az_mean: number | null;
+          az_median: number | null;
+          az_p10: number | null;
+          az_p25: number | null;
+          az_p75: number | null;
+          az_p90: number | null;
+          az_weighted: number | null;
+          electrical_energy_heating_kwh_mean: number | null;
+          electrical_energy_heating_kwh_median: number | null;
+          electrical_energy_heating_kwh_p10: number | null;
+          electrical_energy_heating_kwh_p25: number | null;
+          electrical_energy_heating_kwh_p75: number | null;
+          electrical_energy_heating_kwh_p90: number | null;
+          electrical_energy_kwh_mean: number | null;
+          electrical_energy_kwh_median: number | null;
+          electrical_energy_kwh_p10: number | null;
+          electrical_energy_kwh_p25: number | null;
+          electrical_energy_kwh_p75: number | null;
+          electrical_energy_kwh_p90: number | null;
+          flow_temperature_c: number | null;
+          merged_hours: number | null;
+          outdoor_temperature_c: number | null;
+          period_start: string;
+          row_count: number;
+        }[];
+      };
       calculate_monthly_value_for_month: {
         Args: {
           p_heating_id: string;